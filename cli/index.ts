@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+import { errorMessage, main } from './scan';
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error) => {
+    process.stderr.write(`${errorMessage(error)}\n`);
+    process.exit(2);
+  }
+);
@@ -0,0 +1,146 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setLogger } from '../lib/log';
+import type { AuditResult } from '../lib/report';
+import { auditRequest, AuditError } from '../lib/workspace';
+import { errorMessage, main, UsageError } from './scan';
+
+vi.mock('../lib/workspace', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../lib/workspace')>()),
+  auditRequest: vi.fn(),
+}));
+
+const finding = (name: string, severity: AuditResult['severity']): AuditResult => ({
+  name,
+  version: '1.0.0',
+  vulnerability: `${name} is vulnerable`,
+  severity,
+  recommendation: `Upgrade ${name}`,
+  isDirect: true,
+  advisories: [{ source: 1, id: `GHSA-${name}`, title: `${name} is vulnerable`, url: `https://github.com/advisories/GHSA-${name}`, severity, cwe: [] }],
+});
+
+const audited = (vulnerabilities: AuditResult[]) =>
+  vi.mocked(auditRequest).mockResolvedValue({ result: { vulnerabilities, suppressed: [], licenses: null } } as any);
+
+describe('npm-audit-dashboard scan', () => {
+  let dir: string;
+  let stdout: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-scan-'));
+    fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'app', version: '1.0.0', dependencies: { a: '^1.0.0' } }, null, 2));
+    stdout = '';
+    vi.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+      stdout += String(chunk);
+      return true;
+    });
+    vi.stubEnv('CACHE_DIR', '');
+    vi.stubEnv('NPM_CACHE_DIR', '');
+    vi.stubEnv('XDG_CACHE_HOME', path.join(dir, 'xdg'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    setLogger(console);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('arguments', () => {
+    it('prints the usage for --help', async () => {
+      expect(await main(['--help'])).toBe(0);
+      expect(stdout).toContain('Usage: npm-audit-dashboard scan <path> [options]');
+      expect(stdout).toContain('(default: high)');
+    });
+
+    it.each([
+      [[], UsageError],
+      [['audit', '.'], UsageError],
+      [['scan', '.', 'extra'], UsageError],
+    ])('refuses %j', async (argv, type) => {
+      await expect(main(argv)).rejects.toBeInstanceOf(type);
+    });
+
+    it('reports unknown options and bad values plainly', async () => {
+      const unknown = await main(['scan', dir, '--fial-on', 'high']).catch((error) => error);
+      expect(errorMessage(unknown)).toMatch(/Unknown option '--fial-on'/);
+
+      const severity = await main(['scan', dir, '--fail-on', 'severe']).catch((error) => error);
+      expect(errorMessage(severity)).toBe('Invalid --fail-on severity: severe');
+
+      expect(errorMessage(await main(['scan', path.join(dir, 'missing')]).catch((error) => error))).toMatch(/^No such file or directory/);
+      expect(errorMessage(new AuditError(400, 'Invalid lockfile', 'line 3'))).toBe('Invalid lockfile: line 3');
+    });
+
+    it('caches under XDG_CACHE_HOME rather than the working directory, or where --cache-dir says', async () => {
+      audited([]);
+      await main(['scan', dir]);
+      expect(process.env.CACHE_DIR).toBe(path.join(dir, 'xdg', 'npm-audit-dashboard', 'cache'));
+      expect(process.env.NPM_CACHE_DIR).toBe(path.join(dir, 'xdg', 'npm-audit-dashboard', 'npm-cache'));
+
+      await main(['scan', dir, '--cache-dir', path.join(dir, 'elsewhere')]);
+      expect(process.env.CACHE_DIR).toBe(path.join(dir, 'elsewhere', 'cache'));
+    });
+
+    it('keeps the audit\'s logging off stdout', async () => {
+      vi.mocked(auditRequest).mockImplementation(async () => {
+        const { log } = await import('../lib/log');
+        log.log('Generating package-lock.json...');
+        return { result: { vulnerabilities: [], suppressed: [], licenses: null } } as any;
+      });
+      const stderr = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await main(['scan', dir, '--json']);
+      expect(stdout).not.toContain('Generating');
+      expect(stderr).not.toHaveBeenCalled();
+
+      await main(['scan', dir, '--json', '--verbose']);
+      expect(stderr).toHaveBeenCalledWith('Generating package-lock.json...');
+    });
+  });
+
+  describe('--fail-on', () => {
+    it.each([
+      [[], [finding('a', 'moderate')], 0],
+      [[], [finding('a', 'high')], 1],
+      [['--fail-on', 'low'], [finding('a', 'moderate')], 1],
+      [['--fail-on', 'critical'], [finding('a', 'high')], 0],
+      [['--fail-on', 'none'], [finding('a', 'critical')], 0],
+      [['--fail-on', 'info'], [], 0],
+    ])('%j with %j exits with %i', async (options, findings, code) => {
+      audited(findings as AuditResult[]);
+      expect(await main(['scan', dir, ...options])).toBe(code);
+    });
+  });
+
+  describe('output', () => {
+    it('prints a table and a summary', async () => {
+      audited([finding('a', 'high'), finding('b', 'low')]);
+      await main(['scan', dir]);
+
+      expect(stdout).toMatch(/^Audited package\.json/);
+      expect(stdout).toMatch(/^high\s+a\s+1\.0\.0\s+a is vulnerable\s+Upgrade a$/m);
+      expect(stdout).toContain('2 vulnerable packages (1 high, 1 low)');
+    });
+
+    it('prints JSON with a summary for --json', async () => {
+      audited([finding('a', 'high')]);
+      await main(['scan', dir, '--json']);
+
+      expect(JSON.parse(stdout)).toMatchObject({ vulnerabilities: [{ name: 'a' }], summary: { high: 1, total: 1 } });
+    });
+
+    it('writes the report files asked for', async () => {
+      audited([finding('a', 'high')]);
+      const file = (name: string) => path.join(dir, name);
+      await main(['scan', dir, '--markdown', file('report.md'), '--sarif', file('report.sarif'), '--pdf', file('report.pdf')]);
+
+      expect(fs.readFileSync(file('report.md'), 'utf8')).toContain('| a | 1.0.0 |');
+      expect(JSON.parse(fs.readFileSync(file('report.sarif'), 'utf8')).runs[0].results[0].ruleId).toBe('GHSA-a');
+      expect(fs.readFileSync(file('report.pdf')).subarray(0, 5).toString()).toBe('%PDF-');
+    });
+  });
+});
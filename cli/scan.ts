@@ -0,0 +1,216 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseArgs } from 'util';
+import type { LicenseReport } from '../lib/licenses';
+import { Logger, setLogger } from '../lib/log';
+import { AuditResult, createMarkdownReport, createPdfReport, licenseCategoryLabels, summarizeResults } from '../lib/report';
+import { createSarifLog, sarifSources } from '../lib/sarif';
+import { defaultPolicyFileName, projectFileNames, unsupportedUploadMessage, UploadedFile, uploadRequest } from '../lib/upload';
+import { AuditError, auditRequest, parseAuditRequest } from '../lib/workspace';
+
+const usage = `Usage: npm-audit-dashboard scan <path> [options]
+
+Audits a project directory, a package.json or lockfile, or imports an
+\`npm audit --json\` report or SBOM, the same way the dashboard does.
+
+Options:
+  --fail-on <severity>  exit with 1 when a finding is at least this severe:
+                        info, low, moderate, high, critical or none (default: high)
+  --policy <file>       audit policy to apply (default: ${defaultPolicyFileName}
+                        in the scanned directory); accepted findings never fail
+  --json                print the findings as JSON instead of a table
+  --pdf <file>          write a PDF report
+  --markdown <file>     write a Markdown report
+  --sarif <file>        write a SARIF 2.1.0 log
+  --omit <scope>        leave out dev, optional or peer dependencies (repeatable)
+  --include <scope>     audit a group --omit or the npm config would leave out
+  --cache-dir <dir>     where resolved trees and npm's cache are kept (default:
+                        npm-audit-dashboard in $XDG_CACHE_HOME or ~/.cache)
+  --verbose             show the audit's progress on stderr
+  -h, --help            show this help`;
+
+const severityRank: Record<string, number> = { unknown: -1, info: 0, low: 1, moderate: 2, high: 3, critical: 4 };
+
+// What the dashboard looks for when a directory is dropped
+const projectFiles = [...projectFileNames, defaultPolicyFileName];
+
+export class UsageError extends Error {}
+
+function readTarget(target: string): UploadedFile[] {
+  if (!fs.existsSync(target)) {
+    throw new UsageError(`No such file or directory: ${target}`);
+  }
+  if (!fs.statSync(target).isDirectory()) {
+    return [{ name: path.basename(target), content: fs.readFileSync(target, 'utf8') }];
+  }
+  return projectFiles
+    .filter((name) => fs.existsSync(path.join(target, name)))
+    .map((name) => ({ name, content: fs.readFileSync(path.join(target, name), 'utf8') }));
+}
+
+function truncate(text: string, width: number) {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text;
+}
+
+function formatTable(results: AuditResult[]) {
+  const rows = [
+    ['Severity', 'Package', 'Version', 'Vulnerability', 'Recommendation'],
+    ...results.map((result) => [
+      result.severity,
+      result.name,
+      result.version,
+      truncate(result.vulnerability, 60),
+      truncate(result.recommendation, 50),
+    ]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  const line = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  return [line(rows[0]), widths.map((width) => '-'.repeat(width)).join('  '), ...rows.slice(1).map(line)].join('\n');
+}
+
+function formatSummary(results: AuditResult[], suppressed: AuditResult[]) {
+  const summary = summarizeResults(results);
+  const counts = ['critical', 'high', 'moderate', 'low', 'info']
+    .filter((severity) => summary[severity] > 0)
+    .map((severity) => `${summary[severity]} ${severity}`);
+  const lines = [summary.total === 0 ? 'No vulnerabilities found.' : `${summary.total} vulnerable packages (${counts.join(', ')})`];
+  if (suppressed.length > 0) {
+    lines.push(`${suppressed.length} accepted by the audit policy`);
+  }
+  for (const result of results) {
+    for (const expired of result.expiredSuppressions || []) {
+      lines.push(`${result.name}: the policy's ${expired.rule} expired on ${expired.expires} (${expired.reason})`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function formatLicenseSummary({ summary }: LicenseReport) {
+  const counts = Object.entries(licenseCategoryLabels)
+    .filter(([category]) => summary[category] > 0)
+    .map(([category, label]) => `${summary[category]} ${label.toLowerCase()}`);
+  const violations = summary.violations > 0 ? `, ${summary.violations} against the licence policy` : '';
+  return `Licences of ${summary.total} packages: ${counts.join(', ') || 'none'}${violations}`;
+}
+
+// Caches go with the user's other caches, not into the scanned project
+function defaultCacheDirectory() {
+  const base = process.env.XDG_CACHE_HOME || (process.platform === 'win32' && process.env.LOCALAPPDATA) || path.join(os.homedir(), '.cache');
+  return path.join(base, 'npm-audit-dashboard');
+}
+
+// The audit reads where to cache from the environment (see lib/config.ts),
+// which still wins over the default but not over --cache-dir
+function useCacheDirectory(cacheDir: string | undefined) {
+  const directory = path.resolve(cacheDir || defaultCacheDirectory());
+  for (const [name, child] of [['CACHE_DIR', 'cache'], ['NPM_CACHE_DIR', 'npm-cache']]) {
+    if (cacheDir || !process.env[name]) process.env[name] = path.join(directory, child);
+  }
+}
+
+const quiet: Logger = { log: () => undefined, warn: () => undefined, error: () => undefined };
+
+// The audit's progress goes to stderr with --verbose, so --json output stays
+// parseable
+const verbose: Logger = {
+  log: (...args) => console.error(...args),
+  warn: (...args) => console.error(...args),
+  error: (...args) => console.error(...args),
+};
+
+export async function scan(target: string, options: Record<string, any>) {
+  const failOn = options['fail-on'] || 'high';
+  if (failOn !== 'none' && !(failOn in severityRank && failOn !== 'unknown')) {
+    throw new UsageError(`Invalid --fail-on severity: ${failOn}`);
+  }
+
+  let files = readTarget(target);
+  if (options.policy) {
+    if (!fs.existsSync(options.policy)) {
+      throw new UsageError(`No such file: ${options.policy}`);
+    }
+    // --policy replaces the one in the scanned directory
+    files = files.filter((file) => file.name !== defaultPolicyFileName);
+    files.push({ name: defaultPolicyFileName, content: fs.readFileSync(options.policy, 'utf8') });
+  }
+  const upload = uploadRequest(files);
+  if (!upload) {
+    throw new UsageError(unsupportedUploadMessage);
+  }
+
+  const request = parseAuditRequest({ ...upload.body, omit: options.omit, include: options.include });
+  const { result } = await auditRequest(request);
+  const results: AuditResult[] = result.vulnerabilities;
+  const suppressed: AuditResult[] = result.suppressed;
+  const licenses: LicenseReport | null = result.licenses;
+  const title = `NPM Audit Report: ${upload.description}`;
+  const sections = [{ name: 'Vulnerability', results }, ...(suppressed.length > 0 ? [{ name: 'Suppressed', results: suppressed }] : [])];
+
+  if (options.pdf) {
+    fs.writeFileSync(options.pdf, Buffer.from(createPdfReport(title, sections, licenses?.packages).output('arraybuffer')));
+  }
+  if (options.markdown) {
+    fs.writeFileSync(options.markdown, createMarkdownReport(title, sections, licenses?.packages));
+  }
+  if (options.sarif) {
+    const sarif = createSarifLog(results, sarifSources(request, upload.packageJson), suppressed);
+    fs.writeFileSync(options.sarif, JSON.stringify(sarif, null, 2));
+  }
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify({ ...result, summary: summarizeResults(results) }, null, 2)}\n`);
+  } else {
+    process.stdout.write(`Audited ${upload.description}\n\n`);
+    if (results.length > 0) process.stdout.write(`${formatTable(results)}\n\n`);
+    process.stdout.write(`${formatSummary(results, suppressed)}\n`);
+    if (licenses) process.stdout.write(`${formatLicenseSummary(licenses)}\n`);
+  }
+
+  const failing = failOn === 'none' ? [] : results.filter((finding) => severityRank[finding.severity] >= severityRank[failOn]);
+  return failing.length > 0 ? 1 : 0;
+}
+
+export async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'fail-on': { type: 'string' },
+      policy: { type: 'string' },
+      json: { type: 'boolean' },
+      pdf: { type: 'string' },
+      markdown: { type: 'string' },
+      sarif: { type: 'string' },
+      omit: { type: 'string', multiple: true },
+      include: { type: 'string', multiple: true },
+      'cache-dir': { type: 'string' },
+      verbose: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(`${usage}\n`);
+    return 0;
+  }
+  const [command, target, ...rest] = positionals;
+  if (command !== 'scan' || !target || rest.length > 0) {
+    throw new UsageError(usage);
+  }
+
+  setLogger(values.verbose ? verbose : quiet);
+  useCacheDirectory(values['cache-dir']);
+  return scan(target, values);
+}
+
+// What to tell the user about an error main threw; the exit code is 2
+export function errorMessage(error: any) {
+  if (error instanceof AuditError) {
+    return `${error.message}${error.details ? `: ${error.details}` : ''}`;
+  }
+  if (error instanceof UsageError || error.code?.startsWith('ERR_PARSE_ARGS')) {
+    return error.message;
+  }
+  return `Failed to perform npm audit: ${error.message}`;
+}
@@ -0,0 +1,85 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { KeyRound, LogOut } from 'lucide-react'
+import { Input } from "./ui/input"
+import { Button } from "./ui/button"
+import { ApiRequestError, apiRequest, storeApiKey, storedApiKey } from '../lib/api-client'
+import type { CallerResponse } from '../lib/api-types'
+
+interface ApiKeyFieldProps {
+    // told who the key belongs to whenever it changes, null without a valid key
+    onChange?: (caller: CallerResponse | null) => void
+}
+
+// The API key the dashboard sends with its requests, kept in the browser
+const ApiKeyField: React.FC<ApiKeyFieldProps> = ({ onChange }) => {
+    const [caller, setCaller] = useState<CallerResponse | null>(null)
+    const [keyText, setKeyText] = useState('')
+    const [error, setError] = useState<string | null>(null)
+
+    // the latest onChange, so identifying doesn't depend on the parent's render
+    const onChangeRef = useRef(onChange)
+    onChangeRef.current = onChange
+
+    const identify = useCallback(async () => {
+        try {
+            const identified = await apiRequest<CallerResponse>('/me')
+            setCaller(identified)
+            setError(null)
+            onChangeRef.current?.(identified)
+        } catch (error) {
+            setCaller(null)
+            onChangeRef.current?.(null)
+            // without API_AUTH=off, there's no key yet or it was revoked
+            setError(error instanceof ApiRequestError && error.status === 401 && !storedApiKey() ? null : error.message)
+        }
+    }, [])
+
+    // once on mount; saving or clearing the key identifies again
+    useEffect(() => {
+        identify()
+    }, [identify])
+
+    const saveKey = (e: React.FormEvent) => {
+        e.preventDefault()
+        storeApiKey(keyText.trim())
+        setKeyText('')
+        identify()
+    }
+
+    const forgetKey = () => {
+        storeApiKey(null)
+        identify()
+    }
+
+    if (caller) {
+        return (
+            <div className="flex items-center justify-end gap-2 text-sm text-gray-600 mb-4">
+                <KeyRound className="h-4 w-4" />
+                {caller.team ? `${caller.name} (${caller.team}, ${caller.role})` : `${caller.name} (${caller.role})`}
+                {storedApiKey() && (
+                    <Button onClick={forgetKey} variant="outline" size="sm">
+                        <LogOut className="mr-2 h-4 w-4" /> Forget key
+                    </Button>
+                )}
+            </div>
+        )
+    }
+
+    return (
+        <form className="flex gap-2 mb-4" onSubmit={saveKey}>
+            <Input
+                type="password"
+                placeholder="API key"
+                value={keyText}
+                onChange={(e) => setKeyText(e.target.value)}
+                autoComplete="off"
+            />
+            <Button type="submit" disabled={!keyText.trim()}>
+                <KeyRound className="mr-2 h-4 w-4" /> Use key
+            </Button>
+            {error && <p className="text-sm text-red-700 self-center whitespace-nowrap">{error}</p>}
+        </form>
+    )
+}
+
+export default ApiKeyField
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react'
+import { Ban, Copy, KeyRound } from 'lucide-react'
+import { Input } from "./ui/input"
+import { Button } from "./ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table"
+import ApiKeyField from './ApiKeyField'
+import NotificationTest from './NotificationTest'
+import { apiRequest } from '../lib/api-client'
+import type { ApiKey, ApiKeyRole } from '../lib/api-keys'
+import type { ApiKeyRequestBody, ApiKeysResponse, CallerResponse, IssuedApiKeyResponse } from '../lib/api-types'
+
+const emptyForm = { name: '', team: '', role: 'member' as ApiKeyRole, rateLimit: '', concurrency: '' }
+
+// Limits left empty fall back to API_RATE_LIMIT and API_CONCURRENCY
+const optionalLimit = (text: string) => text.trim() ? parseInt(text, 10) : undefined
+
+// Issue and revoke API keys. A new key is shown once, right after issuing it.
+const ApiKeysAdmin: React.FC = () => {
+    const [caller, setCaller] = useState<CallerResponse | null>(null)
+    const [keys, setKeys] = useState<ApiKey[]>([])
+    const [form, setForm] = useState(emptyForm)
+    const [issued, setIssued] = useState<IssuedApiKeyResponse | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const [copied, setCopied] = useState(false)
+
+    const loadKeys = () => {
+        apiRequest<ApiKeysResponse>('/keys')
+            .then((data) => setKeys(data.keys))
+            .catch((error) => setError(`Could not load the API keys: ${error.message}`))
+    }
+
+    useEffect(() => {
+        setError(null)
+        if (caller?.role === 'admin') loadKeys()
+        else setKeys([])
+    }, [caller])
+
+    const issueKey = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setError(null)
+        setCopied(false)
+        try {
+            const body: ApiKeyRequestBody = {
+                name: form.name.trim(),
+                team: form.team.trim(),
+                role: form.role,
+                rateLimit: optionalLimit(form.rateLimit),
+                concurrency: optionalLimit(form.concurrency),
+            }
+            setIssued(await apiRequest<IssuedApiKeyResponse>('/keys', { method: 'POST', body }))
+            setForm(emptyForm)
+            loadKeys()
+        } catch (error) {
+            setError(`Could not issue the key: ${error instanceof Error ? error.message : String(error)}`)
+        }
+    }
+
+    const revokeKey = async (key: ApiKey) => {
+        if (!window.confirm(`Revoke "${key.name}"? Requests with it will be refused.`)) return
+        setError(null)
+        try {
+            await apiRequest<ApiKey>(`/keys/${key.id}`, { method: 'DELETE' })
+            loadKeys()
+        } catch (error) {
+            setError(`Could not revoke the key: ${error instanceof Error ? error.message : String(error)}`)
+        }
+    }
+
+    const copyIssuedKey = () => {
+        navigator.clipboard.writeText(issued.key)
+            .then(() => setCopied(true))
+            .catch(err => console.error('Failed to copy key: ', err))
+    }
+
+    return (
+        <div className="container mx-auto p-4 min-h-screen space-y-8">
+            <h1 className="text-4xl font-bold text-center text-gray-800">API Keys</h1>
+            <ApiKeyField onChange={setCaller} />
+
+            {caller && caller.role !== 'admin' && <p className="text-gray-600">Managing API keys needs an admin key.</p>}
+            {error && <p className="text-red-700">{error}</p>}
+
+            {caller?.role === 'admin' && (
+                <>
+                    <form className="bg-white rounded-lg shadow p-6 grid gap-4 md:grid-cols-6 items-end" onSubmit={issueKey}>
+                        <Input className="md:col-span-2" placeholder="Name, e.g. CI for the web app" value={form.name} maxLength={100}
+                            onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                        <Input placeholder="Team" value={form.team} maxLength={100}
+                            onChange={(e) => setForm({ ...form, team: e.target.value })} />
+                        <select
+                            value={form.role}
+                            onChange={(e) => setForm({ ...form, role: e.target.value as ApiKeyRole })}
+                            className="h-10 rounded-md border border-gray-300 px-2 text-sm"
+                        >
+                            <option value="member">Member</option>
+                            <option value="admin">Admin</option>
+                        </select>
+                        <Input type="number" min={1} placeholder="Requests/min" value={form.rateLimit}
+                            onChange={(e) => setForm({ ...form, rateLimit: e.target.value })} />
+                        <Input type="number" min={1} placeholder="Audits at once" value={form.concurrency}
+                            onChange={(e) => setForm({ ...form, concurrency: e.target.value })} />
+                        <Button type="submit" className="md:col-span-6" disabled={!form.name.trim() || !form.team.trim()}>
+                            <KeyRound className="mr-2 h-4 w-4" /> Issue key
+                        </Button>
+                    </form>
+
+                    {issued && (
+                        <div className="bg-green-50 border border-green-200 rounded-lg p-4 space-y-2">
+                            <p className="text-gray-800">
+                                Key for <span className="font-semibold">{issued.name}</span> ({issued.team}). Copy it now, it won&apos;t be shown again:
+                            </p>
+                            <div className="flex items-center gap-2">
+                                <code className="bg-white px-2 py-1 rounded border break-all">{issued.key}</code>
+                                <Button onClick={copyIssuedKey} variant="outline" size="sm">
+                                    <Copy className="mr-2 h-4 w-4" /> {copied ? 'Copied' : 'Copy'}
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="overflow-x-auto bg-white rounded-lg shadow">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="text-gray-700">Name</TableHead>
+                                    <TableHead className="text-gray-700">Key</TableHead>
+                                    <TableHead className="text-gray-700">Team</TableHead>
+                                    <TableHead className="text-gray-700">Role</TableHead>
+                                    <TableHead className="text-gray-700">Limits</TableHead>
+                                    <TableHead className="text-gray-700">Created</TableHead>
+                                    <TableHead className="text-gray-700"></TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {keys.map((key) => (
+                                    <TableRow key={key.id} className={key.revokedAt ? 'text-gray-400' : ''}>
+                                        <TableCell className="font-medium">{key.name}</TableCell>
+                                        <TableCell><code>{key.prefix}…</code></TableCell>
+                                        <TableCell>{key.team}</TableCell>
+                                        <TableCell className="capitalize">{key.role}</TableCell>
+                                        <TableCell>
+                                            {key.rateLimit ? `${key.rateLimit}/min` : 'default'}, {key.concurrency ? `${key.concurrency} at once` : 'default'}
+                                        </TableCell>
+                                        <TableCell>{new Date(key.createdAt).toLocaleString()}</TableCell>
+                                        <TableCell>
+                                            {key.revokedAt ? `Revoked ${new Date(key.revokedAt).toLocaleString()}` : (
+                                                <Button onClick={() => revokeKey(key)} variant="outline" size="sm">
+                                                    <Ban className="mr-2 h-4 w-4" /> Revoke
+                                                </Button>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                        {keys.length === 0 && <p className="text-gray-600 p-4">No keys issued yet.</p>}
+                    </div>
+
+                    <NotificationTest />
+                </>
+            )}
+        </div>
+    )
+}
+
+export default ApiKeysAdmin
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react'
+import { Eye } from 'lucide-react'
+import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend } from 'chart.js'
+import { Line } from 'react-chartjs-2'
+import { Button } from "./ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table"
+import type { AuditRunInfo, ProjectInfo } from '../lib/history'
+import { apiRequest } from '../lib/api-client'
+import type { HistoryResponse } from '../lib/api-types'
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend)
+
+const severities = [
+    { key: 'critical', label: 'Critical', color: '#DC2626' }, // red-600
+    { key: 'high', label: 'High', color: '#EA580C' }, // orange-600
+    { key: 'moderate', label: 'Moderate', color: '#CA8A04' }, // yellow-600
+    { key: 'low', label: 'Low', color: '#16A34A' }, // green-600
+    { key: 'info', label: 'Info', color: '#2563EB' }, // blue-600
+]
+
+interface AuditHistoryProps {
+    // the project the last audit was saved under, selected when it changes
+    project?: string
+    // changes whenever a new run is saved, to reload the history
+    latestRunId?: string
+    onSelectRun: (id: string) => void
+}
+
+const AuditHistory: React.FC<AuditHistoryProps> = ({ project, latestRunId, onSelectRun }) => {
+    const [projects, setProjects] = useState<ProjectInfo[]>([])
+    const [selectedProject, setSelectedProject] = useState<string | null>(null)
+    const [runs, setRuns] = useState<AuditRunInfo[]>([])
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        apiRequest<HistoryResponse>('/history')
+            .then((data) => {
+                const projects = 'projects' in data ? data.projects : []
+                setProjects(projects)
+                setSelectedProject((current) => project || current || projects[0]?.project || null)
+            })
+            .catch((error) => setError(`Could not load audit history: ${error.message}`))
+    }, [project, latestRunId])
+
+    useEffect(() => {
+        if (!selectedProject) {
+            setRuns([])
+            return
+        }
+        apiRequest<HistoryResponse>(`/history?project=${encodeURIComponent(selectedProject)}`)
+            .then((data) => setRuns(data.runs))
+            .catch((error) => setError(`Could not load audit history: ${error.message}`))
+    }, [selectedProject, latestRunId])
+
+    if (projects.length === 0) {
+        return (
+            <p className="text-gray-600">
+                {error || 'No saved audits yet. Enter a project name before uploading to keep a history of its audits.'}
+            </p>
+        )
+    }
+
+    const trendData = {
+        labels: runs.map((run) => new Date(run.createdAt).toLocaleString()),
+        datasets: severities.map((severity) => ({
+            label: severity.label,
+            data: runs.map((run) => run.summary[severity.key]),
+            borderColor: severity.color,
+            backgroundColor: severity.color,
+            tension: 0.2,
+        })),
+    }
+
+    return (
+        <div className="space-y-6">
+            {error && <p className="text-red-700">{error}</p>}
+            <div className="flex items-center gap-2">
+                <label htmlFor="history-project" className="text-sm text-gray-600">Project:</label>
+                <select
+                    id="history-project"
+                    value={selectedProject || ''}
+                    onChange={(e) => setSelectedProject(e.target.value)}
+                    className="border border-gray-300 rounded-md px-3 py-2 text-sm bg-white"
+                >
+                    {projects.map((item) => (
+                        <option key={item.project} value={item.project}>
+                            {item.project} ({item.runs} {item.runs === 1 ? 'run' : 'runs'})
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {runs.length > 1 ? (
+                <div className="h-72">
+                    <Line
+                        data={trendData}
+                        options={{
+                            maintainAspectRatio: false,
+                            scales: { y: { beginAtZero: true, ticks: { precision: 0 } } },
+                        }}
+                    />
+                </div>
+            ) : (
+                <p className="text-gray-600">The trend chart appears once a project has more than one saved audit.</p>
+            )}
+
+            <div className="overflow-x-auto">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead className="text-gray-700">Date</TableHead>
+                            {severities.map((severity) => (
+                                <TableHead key={severity.key} className="text-gray-700">{severity.label}</TableHead>
+                            ))}
+                            <TableHead className="text-gray-700">Total</TableHead>
+                            <TableHead className="text-gray-700">Advisories</TableHead>
+                            <TableHead className="text-gray-700"></TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {[...runs].reverse().map((run) => (
+                            <TableRow key={run.id} className="hover:bg-gray-50 transition-colors duration-200">
+                                <TableCell>{new Date(run.createdAt).toLocaleString()}</TableCell>
+                                {severities.map((severity) => (
+                                    <TableCell key={severity.key}>{run.summary[severity.key]}</TableCell>
+                                ))}
+                                <TableCell>{run.summary.total}</TableCell>
+                                <TableCell>{run.summary.advisories}</TableCell>
+                                <TableCell>
+                                    <Button variant="outline" size="sm" onClick={() => onSelectRun(run.id)} className="text-gray-600 hover:text-gray-800">
+                                        <Eye className="mr-1 h-4 w-4" /> View
+                                    </Button>
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+        </div>
+    )
+}
+
+export default AuditHistory
@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react'
+import { AlertTriangle, X } from 'lucide-react'
+import { Button } from "./ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table"
+import type { BatchResult } from '../lib/batch'
+import { severityBadgeClass } from '../lib/report'
+
+interface BatchResultsProps {
+    result: BatchResult
+}
+
+const severities = ['critical', 'high', 'moderate', 'low', 'info'] as const
+
+const workspaceLabel = (path: string) => path || '.'
+
+// Per-workspace counts for a monorepo or batch upload, and the findings across
+// all of them with each vulnerable package listed once. Selecting a workspace
+// narrows the findings down to it.
+const BatchResults: React.FC<BatchResultsProps> = ({ result }) => {
+    const [selected, setSelected] = useState<string | null>(null)
+
+    const findings = useMemo(
+        () => result.vulnerabilities.filter((finding) => selected === null || finding.workspaces.includes(selected)),
+        [result, selected]
+    )
+    const shared = result.vulnerabilities.filter((finding) => finding.workspaces.length > 1).length
+
+    return (
+        <div className="space-y-8">
+            <div>
+                <h3 className="text-xl font-semibold text-gray-800 mb-4">Workspaces</h3>
+                <div className="overflow-x-auto">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="text-gray-700">Workspace</TableHead>
+                                <TableHead className="text-gray-700">Package</TableHead>
+                                {severities.map((severity) => (
+                                    <TableHead key={severity} className="text-gray-700 capitalize">{severity}</TableHead>
+                                ))}
+                                <TableHead className="text-gray-700">Total</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {result.workspaces.map((workspace) => (
+                                <TableRow
+                                    key={workspace.path}
+                                    onClick={() => setSelected(selected === workspace.path ? null : workspace.path)}
+                                    className={`cursor-pointer transition-colors duration-200 ${selected === workspace.path ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                                >
+                                    <TableCell className="font-medium">{workspaceLabel(workspace.path)}</TableCell>
+                                    <TableCell>{workspace.name}</TableCell>
+                                    {workspace.error ? (
+                                        <TableCell colSpan={severities.length + 1} className="text-red-700">
+                                            <AlertTriangle className="inline w-4 h-4 mr-1" /> {workspace.error}
+                                        </TableCell>
+                                    ) : (
+                                        <>
+                                            {severities.map((severity) => (
+                                                <TableCell key={severity}>{workspace.summary[severity] || '—'}</TableCell>
+                                            ))}
+                                            <TableCell className="font-semibold">{workspace.summary.total}</TableCell>
+                                        </>
+                                    )}
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </div>
+            </div>
+
+            <div>
+                <div className="flex flex-col md:flex-row justify-between items-center mb-4 gap-2">
+                    <h3 className="text-xl font-semibold text-gray-800">
+                        {selected === null ? 'All findings' : `Findings in ${workspaceLabel(selected)}`}
+                    </h3>
+                    {selected === null ? (
+                        <p className="text-sm text-gray-600">
+                            {result.vulnerabilities.length} vulnerable packages, {shared} shared by several workspaces
+                        </p>
+                    ) : (
+                        <Button variant="outline" size="sm" onClick={() => setSelected(null)}>
+                            <X className="mr-1 h-4 w-4" /> Show all workspaces
+                        </Button>
+                    )}
+                </div>
+                {findings.length > 0 ? (
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="text-gray-700">Package</TableHead>
+                                    <TableHead className="text-gray-700">Version</TableHead>
+                                    <TableHead className="text-gray-700">Vulnerability</TableHead>
+                                    <TableHead className="text-gray-700">Severity</TableHead>
+                                    <TableHead className="text-gray-700">Workspaces</TableHead>
+                                    <TableHead className="text-gray-700">Recommendation</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {findings.map((finding) => (
+                                    <TableRow key={`${finding.name}@${finding.version}:${finding.vulnerability}`}>
+                                        <TableCell>{finding.name}</TableCell>
+                                        <TableCell>{finding.version}</TableCell>
+                                        <TableCell>{finding.vulnerability}</TableCell>
+                                        <TableCell>
+                                            <span className={`px-2 py-1 rounded-full text-xs font-semibold ${severityBadgeClass(finding.severity)}`}>
+                                                {finding.severity}
+                                            </span>
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="flex flex-wrap gap-1">
+                                                {finding.workspaces.map((path) => (
+                                                    <span key={path} className="px-2 py-1 rounded-full text-xs font-semibold bg-gray-100 text-gray-800">
+                                                        {workspaceLabel(path)}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>{finding.recommendation}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                ) : (
+                    <p className="text-green-700">No vulnerabilities found.</p>
+                )}
+            </div>
+        </div>
+    )
+}
+
+export default BatchResults
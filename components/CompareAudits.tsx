@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react'
+import { useDropzone } from 'react-dropzone'
+import { ArrowRight, Copy, Download, GitCompare, Loader } from 'lucide-react'
+import { Button } from "./ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table"
+import type { AuditRunInfo } from '../lib/history'
+import { apiRequest } from '../lib/api-client'
+import type { ComparisonRequestBody, ComparisonResponse, ComparisonSide, HistoryResponse } from '../lib/api-types'
+import { AuditResult, AuditSummary, createMarkdownReport, createPdfReport, severityBadgeClass } from '../lib/report'
+import { readUploadedFile, unsupportedUploadMessage, uploadRequest, UploadRequest } from '../lib/upload'
+
+type Side = { upload?: UploadRequest, runId?: string }
+
+type Comparison = {
+    base: { label?: string, summary: AuditSummary }
+    head: { label?: string, summary: AuditSummary }
+    introduced: AuditResult[]
+    resolved: AuditResult[]
+    unchanged: AuditResult[]
+}
+
+const changeKinds = [
+    { key: 'introduced', label: 'Introduced', className: 'bg-red-50 border-red-400 text-red-700' },
+    { key: 'resolved', label: 'Resolved', className: 'bg-green-50 border-green-400 text-green-700' },
+    { key: 'unchanged', label: 'Unchanged', className: 'bg-gray-50 border-gray-400 text-gray-700' },
+] as const
+
+interface CompareSideProps {
+    title: string
+    side: Side
+    runs: AuditRunInfo[]
+    onChange: (side: Side) => void
+    onError: (message: string) => void
+}
+
+// One side of the comparison: dropped files, or a saved run
+const CompareSide: React.FC<CompareSideProps> = ({ title, side, runs, onChange, onError }) => {
+    const onDrop = async (acceptedFiles: File[]) => {
+        try {
+            const upload = uploadRequest(await Promise.all(acceptedFiles.map(readUploadedFile)))
+            if (!upload) {
+                onError(unsupportedUploadMessage)
+                return
+            }
+            onChange({ upload })
+        } catch (error) {
+            onError(`Could not read the uploaded file: ${error instanceof Error ? error.message : String(error)}`)
+        }
+    }
+
+    const { getRootProps, getInputProps, isDragActive } = useDropzone({ onDrop })
+
+    return (
+        <div className="flex-1 space-y-2">
+            <p className="font-semibold text-gray-800">{title}</p>
+            <div {...getRootProps()}>
+                <input {...getInputProps()} />
+                <div className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-all duration-300 ${isDragActive ? 'border-blue-400 bg-blue-50' : 'border-gray-300 hover:border-blue-400 hover:bg-gray-50'}`}>
+                    <p className="text-gray-600">
+                        {side.upload ? side.upload.description : 'Drop a package.json or lockfile'}
+                    </p>
+                </div>
+            </div>
+            <select
+                value={side.runId || ''}
+                onChange={(e) => onChange(e.target.value ? { runId: e.target.value } : {})}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm bg-white"
+                disabled={runs.length === 0}
+            >
+                <option value="">{runs.length === 0 ? 'No saved audits' : 'or pick a saved audit'}</option>
+                {runs.map((run) => (
+                    <option key={run.id} value={run.id}>
+                        {run.project}, {new Date(run.createdAt).toLocaleString()} ({run.summary.total} vulnerable)
+                    </option>
+                ))}
+            </select>
+        </div>
+    )
+}
+
+const sideRequest = (side: Side): ComparisonSide =>
+    side.runId ? { runId: side.runId } : { ...side.upload.body, label: side.upload.description }
+
+interface CompareAuditsProps {
+    // changes whenever a new run is saved, to offer it as a side
+    latestRunId?: string
+}
+
+const CompareAudits: React.FC<CompareAuditsProps> = ({ latestRunId }) => {
+    const [base, setBase] = useState<Side>({})
+    const [head, setHead] = useState<Side>({})
+    const [runs, setRuns] = useState<AuditRunInfo[]>([])
+    const [comparison, setComparison] = useState<Comparison | null>(null)
+    const [selectedKind, setSelectedKind] = useState<typeof changeKinds[number]['key']>('introduced')
+    const [isLoading, setIsLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [copied, setCopied] = useState(false)
+
+    useEffect(() => {
+        apiRequest<HistoryResponse>('/history')
+            .then((data) => setRuns([...data.runs].reverse()))
+            .catch((error) => console.error('Could not load saved audits:', error))
+    }, [latestRunId])
+
+    const compare = async () => {
+        setIsLoading(true)
+        setError(null)
+
+        try {
+            const body: ComparisonRequestBody = { base: sideRequest(base), head: sideRequest(head) }
+            const data = await apiRequest<ComparisonResponse>('/comparisons', { method: 'POST', body })
+
+            setComparison(data)
+            setSelectedKind('introduced')
+        } catch (error) {
+            console.error('Error comparing audits:', error)
+            setError(`An error occurred while comparing the audits: ${error instanceof Error ? error.message : String(error)}`)
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    // The exports only cover what changed
+    const reportSections = () => [
+        { name: 'Introduced', results: comparison.introduced },
+        { name: 'Resolved', results: comparison.resolved },
+    ]
+    const reportTitle = () => `NPM Audit Comparison: ${comparison.base.label || 'base'} -> ${comparison.head.label || 'head'}`
+
+    const generatePDFReport = () => {
+        createPdfReport(reportTitle(), reportSections()).save('npm-audit-comparison.pdf')
+    }
+
+    const copyMarkdownReport = () => {
+        navigator.clipboard.writeText(createMarkdownReport(reportTitle(), reportSections()))
+            .then(() => {
+                setCopied(true)
+                setTimeout(() => setCopied(false), 3000)
+            })
+            .catch(err => console.error('Failed to copy report: ', err))
+    }
+
+    const isReady = (side: Side) => Boolean(side.upload || side.runId)
+    const findings = comparison ? comparison[selectedKind] : []
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row items-stretch md:items-center gap-4">
+                <CompareSide title="Base (before)" side={base} runs={runs} onChange={setBase} onError={setError} />
+                <ArrowRight className="hidden md:block text-gray-400 flex-shrink-0" />
+                <CompareSide title="Head (after)" side={head} runs={runs} onChange={setHead} onError={setError} />
+            </div>
+            <Button onClick={compare} disabled={isLoading || !isReady(base) || !isReady(head)} className="bg-primary hover:bg-primary/90 transition-colors duration-200">
+                {isLoading ? <Loader className="mr-2 h-4 w-4 animate-spin" /> : <GitCompare className="mr-2 h-4 w-4" />}
+                Compare
+            </Button>
+
+            {error && <p className="text-red-700">{error}</p>}
+
+            {comparison && (
+                <>
+                    <div className="flex flex-col md:flex-row justify-between items-center gap-4">
+                        <p className="text-gray-700">
+                            {comparison.base.summary.total} vulnerable packages before, {comparison.head.summary.total} after
+                        </p>
+                        <div className="space-x-4">
+                            <Button onClick={generatePDFReport} className="bg-primary hover:bg-primary/90 transition-colors duration-200">
+                                <Download className="mr-2 h-4 w-4" /> Export PDF
+                            </Button>
+                            <Button onClick={copyMarkdownReport} className="bg-secondary hover:bg-secondary/90 transition-colors duration-200">
+                                <Copy className="mr-2 h-4 w-4" /> {copied ? 'Copied!' : 'Copy Markdown'}
+                            </Button>
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {changeKinds.map((kind) => (
+                            <Button
+                                key={kind.key}
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setSelectedKind(kind.key)}
+                                className={selectedKind === kind.key ? kind.className : 'text-gray-500'}
+                            >
+                                {kind.label} ({comparison[kind.key].length})
+                            </Button>
+                        ))}
+                    </div>
+                    {findings.length > 0 ? (
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead className="text-gray-700">Package</TableHead>
+                                        <TableHead className="text-gray-700">Version</TableHead>
+                                        <TableHead className="text-gray-700">Vulnerability</TableHead>
+                                        <TableHead className="text-gray-700">Severity</TableHead>
+                                        <TableHead className="text-gray-700">CVSS Score</TableHead>
+                                        <TableHead className="text-gray-700">Recommendation</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {findings.map((finding, index) => (
+                                        <TableRow key={`${finding.name}-${index}`} className="hover:bg-gray-50 transition-colors duration-200">
+                                            <TableCell>{finding.name}</TableCell>
+                                            <TableCell>{finding.version}</TableCell>
+                                            <TableCell>{finding.vulnerability}</TableCell>
+                                            <TableCell>
+                                                <span className={`px-2 py-1 rounded-full text-xs font-semibold ${severityBadgeClass(finding.severity)}`}>
+                                                    {finding.severity}
+                                                </span>
+                                            </TableCell>
+                                            <TableCell>{finding.cvssScore ? finding.cvssScore.toFixed(1) : 'N/A'}</TableCell>
+                                            <TableCell>{finding.recommendation}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    ) : (
+                        <p className="text-gray-600">Nothing {changeKinds.find((kind) => kind.key === selectedKind).label.toLowerCase()}.</p>
+                    )}
+                </>
+            )}
+        </div>
+    )
+}
+
+export default CompareAudits
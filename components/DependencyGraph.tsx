@@ -0,0 +1,255 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { ZoomIn, ZoomOut, RotateCcw, Check } from 'lucide-react'
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import type { AuditGraph } from '../lib/audit'
+
+const NODE_WIDTH = 190
+const NODE_HEIGHT = 28
+const COLUMN_GAP = 70
+const ROW_GAP = 10
+const MAX_RENDERED_NODES = 1500
+
+const severityFill = {
+    critical: '#DC2626', // red-600
+    high: '#EA580C', // orange-600
+    moderate: '#CA8A04', // yellow-600
+    low: '#16A34A', // green-600
+    info: '#2563EB', // blue-600
+}
+
+interface DependencyGraphProps {
+    graph: AuditGraph
+}
+
+const DependencyGraph: React.FC<DependencyGraphProps> = ({ graph }) => {
+    const [focus, setFocus] = useState('')
+    const [search, setSearch] = useState('')
+    const [vulnerableOnly, setVulnerableOnly] = useState(true)
+    const [zoom, setZoom] = useState(1)
+    const [pan, setPan] = useState({ x: 0, y: 0 })
+    const dragStart = useRef<{ x: number, y: number, panX: number, panY: number } | null>(null)
+    const svgRef = useRef<SVGSVGElement>(null)
+
+    const nodesById = useMemo(() => new Map(graph.nodes.map((node) => [node.id, node])), [graph])
+
+    const children = useMemo(() => {
+        const map = new Map<string, string[]>()
+        graph.edges.forEach((edge) => {
+            if (!map.has(edge.from)) map.set(edge.from, [])
+            map.get(edge.from).push(edge.to)
+        })
+        return map
+    }, [graph])
+
+    // Vulnerable nodes plus everything that depends on them, directly or not
+    const onVulnerablePath = useMemo(() => {
+        const parents = new Map<string, string[]>()
+        graph.edges.forEach((edge) => {
+            if (!parents.has(edge.to)) parents.set(edge.to, [])
+            parents.get(edge.to).push(edge.from)
+        })
+        const marked = new Set<string>()
+        const stack = graph.nodes.filter((node) => node.severity).map((node) => node.id)
+        while (stack.length > 0) {
+            const id = stack.pop()
+            if (marked.has(id)) continue
+            marked.add(id)
+            stack.push(...(parents.get(id) || []))
+        }
+        return marked
+    }, [graph])
+
+    // Columns by distance from the focused package, laid out left to right
+    const layout = useMemo(() => {
+        const depths = new Map<string, number>([[focus, 0]])
+        const queue = [focus]
+        while (queue.length > 0 && depths.size < MAX_RENDERED_NODES) {
+            const id = queue.shift()
+            for (const child of children.get(id) || []) {
+                if (depths.has(child) || (vulnerableOnly && !onVulnerablePath.has(child))) continue
+                depths.set(child, depths.get(id) + 1)
+                queue.push(child)
+            }
+        }
+
+        const columns: string[][] = []
+        depths.forEach((depth, id) => {
+            columns[depth] = columns[depth] || []
+            columns[depth].push(id)
+        })
+
+        const positions = new Map<string, { x: number, y: number }>()
+        columns.forEach((column, depth) => {
+            column
+                .sort((a, b) => nodesById.get(a).name.localeCompare(nodesById.get(b).name))
+                .forEach((id, row) => positions.set(id, { x: depth * (NODE_WIDTH + COLUMN_GAP), y: row * (NODE_HEIGHT + ROW_GAP) }))
+        })
+
+        return {
+            positions,
+            edges: graph.edges.filter((edge) => positions.has(edge.from) && positions.has(edge.to)),
+            truncated: depths.size >= MAX_RENDERED_NODES,
+        }
+    }, [graph, focus, vulnerableOnly, children, onVulnerablePath, nodesById])
+
+    const query = search.trim().toLowerCase()
+    const matches = useMemo(
+        () => new Set(query ? graph.nodes.filter((node) => node.name.toLowerCase().includes(query)).map((node) => node.id) : []),
+        [graph, query]
+    )
+
+    // React registers wheel handlers as passive, so zooming needs a native listener
+    useEffect(() => {
+        const svg = svgRef.current
+        if (!svg) return
+        const onWheel = (e: WheelEvent) => {
+            e.preventDefault()
+            setZoom((current) => Math.min(3, Math.max(0.1, current * (e.deltaY < 0 ? 1.1 : 0.9))))
+        }
+        svg.addEventListener('wheel', onWheel, { passive: false })
+        return () => svg.removeEventListener('wheel', onWheel)
+    }, [])
+
+    const focusOn = (id: string) => {
+        setFocus(id)
+        setPan({ x: 0, y: 0 })
+    }
+
+    const resetView = () => {
+        setZoom(1)
+        setPan({ x: 0, y: 0 })
+    }
+
+    const focused = nodesById.get(focus)
+
+    return (
+        <div>
+            <div className="flex flex-col md:flex-row md:items-center gap-2 mb-4">
+                <Input
+                    placeholder="Search packages..."
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="md:max-w-xs"
+                />
+                {query && <span className="text-sm text-gray-600">{matches.size} matching packages</span>}
+                <div className="flex items-center gap-2 md:ml-auto">
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setVulnerableOnly(!vulnerableOnly)}
+                        className={vulnerableOnly ? 'bg-blue-50 border-blue-400 text-blue-700' : 'text-gray-500'}
+                    >
+                        {vulnerableOnly && <Check className="mr-1 h-4 w-4" />}
+                        Vulnerable paths only
+                    </Button>
+                    <Button variant="outline" size="icon" onClick={() => setZoom(Math.min(3, zoom * 1.2))} aria-label="Zoom in">
+                        <ZoomIn className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="icon" onClick={() => setZoom(Math.max(0.1, zoom / 1.2))} aria-label="Zoom out">
+                        <ZoomOut className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="icon" onClick={resetView} aria-label="Reset view">
+                        <RotateCcw className="h-4 w-4" />
+                    </Button>
+                </div>
+            </div>
+            <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
+                <p>
+                    Showing {focus === '' ? 'the whole tree' : <>the subtree of <span className="font-semibold">{focused?.name}@{focused?.version}</span></>}
+                    {layout.truncated && ` (first ${MAX_RENDERED_NODES} packages)`}
+                    . Click a package to focus on it.
+                </p>
+                {focus !== '' && (
+                    <Button variant="outline" size="sm" onClick={() => focusOn('')}>Show whole tree</Button>
+                )}
+            </div>
+            <svg
+                ref={svgRef}
+                className="w-full h-[600px] border rounded-lg bg-gray-50 cursor-grab"
+                onMouseDown={(e) => { dragStart.current = { x: e.clientX, y: e.clientY, panX: pan.x, panY: pan.y } }}
+                onMouseMove={(e) => {
+                    if (dragStart.current) {
+                        setPan({ x: dragStart.current.panX + e.clientX - dragStart.current.x, y: dragStart.current.panY + e.clientY - dragStart.current.y })
+                    }
+                }}
+                onMouseUp={() => { dragStart.current = null }}
+                onMouseLeave={() => { dragStart.current = null }}
+            >
+                <g transform={`translate(${pan.x + 20},${pan.y + 20}) scale(${zoom})`}>
+                    {layout.edges.map((edge) => {
+                        const from = layout.positions.get(edge.from)
+                        const to = layout.positions.get(edge.to)
+                        const x1 = from.x + NODE_WIDTH
+                        const y1 = from.y + NODE_HEIGHT / 2
+                        const x2 = to.x
+                        const y2 = to.y + NODE_HEIGHT / 2
+                        const forward = x2 > x1
+                        return (
+                            <path
+                                key={`${edge.from}->${edge.to}`}
+                                d={forward ? `M${x1},${y1} C${x1 + COLUMN_GAP / 2},${y1} ${x2 - COLUMN_GAP / 2},${y2} ${x2},${y2}` : `M${x1},${y1} L${x2},${y2}`}
+                                fill="none"
+                                stroke={nodesById.get(edge.to)?.severity ? '#F87171' : '#CBD5E1'}
+                                strokeOpacity={forward ? 1 : 0.3}
+                            />
+                        )
+                    })}
+                    {Array.from(layout.positions.entries()).map(([id, position]) => {
+                        const node = nodesById.get(id)
+                        const fill = node.severity ? severityFill[node.severity] : id === '' ? '#1F2937' : '#FFFFFF'
+                        const dimmed = query !== '' && !matches.has(id)
+                        const label = id === '' ? node.name : `${node.name}@${node.version}`
+                        return (
+                            <g
+                                key={id}
+                                transform={`translate(${position.x},${position.y})`}
+                                onClick={() => focusOn(id)}
+                                className="cursor-pointer"
+                                opacity={dimmed ? 0.35 : 1}
+                            >
+                                <title>{`${label}${node.severity ? ` (${node.severity})` : ''}${node.scope !== 'prod' ? ` [${node.scope}]` : ''}`}</title>
+                                <rect
+                                    width={NODE_WIDTH}
+                                    height={NODE_HEIGHT}
+                                    rx={6}
+                                    fill={fill}
+                                    stroke={matches.has(id) ? '#FACC15' : node.direct ? '#1D4ED8' : '#94A3B8'}
+                                    strokeWidth={matches.has(id) ? 3 : node.direct ? 2 : 1}
+                                    strokeDasharray={node.scope === 'dev' ? '4 2' : undefined}
+                                />
+                                <text
+                                    x={8}
+                                    y={NODE_HEIGHT / 2 + 4}
+                                    fontSize={12}
+                                    fill={node.severity || id === '' ? '#FFFFFF' : '#1F2937'}
+                                    fontWeight={node.direct ? 600 : 400}
+                                >
+                                    {label.length > 26 ? `${label.slice(0, 25)}…` : label}
+                                </text>
+                            </g>
+                        )
+                    })}
+                </g>
+            </svg>
+            <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-600">
+                {Object.entries(severityFill).map(([severity, color]) => (
+                    <span key={severity} className="flex items-center">
+                        <span className="inline-block w-3 h-3 rounded mr-1" style={{ backgroundColor: color }} />
+                        {severity}
+                    </span>
+                ))}
+                <span className="flex items-center">
+                    <span className="inline-block w-3 h-3 rounded mr-1 border-2 border-blue-700" />
+                    direct dependency
+                </span>
+                <span className="flex items-center">
+                    <span className="inline-block w-3 h-3 rounded mr-1 border border-dashed border-gray-500" />
+                    dev dependency
+                </span>
+            </div>
+        </div>
+    )
+}
+
+export default DependencyGraph
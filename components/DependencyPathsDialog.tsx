@@ -0,0 +1,69 @@
+import React from 'react'
+import { ArrowRight, GitBranch } from 'lucide-react'
+import { Button } from "./ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog"
+
+interface DependencyPathsDialogProps {
+    name: string
+    paths: string[][]
+    causes?: string[]
+    effects?: string[]
+}
+
+const DependencyPathsDialog: React.FC<DependencyPathsDialogProps> = ({ name, paths, causes = [], effects = [] }) => {
+    // The first package of every chain is one of our own direct dependencies,
+    // i.e. what actually has to be bumped.
+    const directDependencies = Array.from(new Set(paths.map((path) => path[0])))
+
+    return (
+        <Dialog>
+            <DialogTrigger asChild>
+                <Button variant="outline" size="sm" className="text-gray-600 hover:text-gray-800" disabled={paths.length === 0}>
+                    <GitBranch className="mr-1 h-4 w-4" /> {paths.length}
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="bg-white max-w-2xl max-h-[80vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Why is {name} here?</DialogTitle>
+                    <DialogDescription className="text-gray-600">
+                        {paths.length} dependency {paths.length === 1 ? 'chain leads' : 'chains lead'} from your direct dependencies to {name}.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 text-sm">
+                    <div>
+                        <p className="font-semibold text-gray-800 mb-1">Direct dependencies to bump</p>
+                        <div className="flex flex-wrap gap-2">
+                            {directDependencies.map((dependency) => (
+                                <span key={dependency} className="px-2 py-1 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
+                                    {dependency}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                    {causes.length > 0 && (
+                        <p className="text-gray-700">Vulnerable through: {causes.join(', ')}</p>
+                    )}
+                    {effects.length > 0 && (
+                        <p className="text-gray-700">Also makes vulnerable: {effects.join(', ')}</p>
+                    )}
+                    <ul className="space-y-2">
+                        {paths.map((path) => (
+                            <li key={path.join('>')} className="flex flex-wrap items-center gap-1 bg-gray-50 rounded p-2">
+                                {path.map((pkg, index) => (
+                                    <React.Fragment key={`${pkg}-${index}`}>
+                                        {index > 0 && <ArrowRight className="h-3 w-3 text-gray-400" />}
+                                        <span className={index === 0 ? 'font-semibold text-blue-700' : index === path.length - 1 ? 'font-semibold text-red-700' : 'text-gray-700'}>
+                                            {pkg}
+                                        </span>
+                                    </React.Fragment>
+                                ))}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+export default DependencyPathsDialog
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react'
+import { AlertTriangle, Copy, Download, Loader, Wrench } from 'lucide-react'
+import { Button } from "./ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table"
+import { apiRequest } from '../lib/api-client'
+import type { AuditRequestBody, FixPlanResponse } from '../lib/api-types'
+
+interface FixPlanPanelProps {
+    // the body of the audit request the plan should be built for
+    request: AuditRequestBody
+    // the uploaded package.json as-is, so the diff applies to the user's file
+    packageJson?: string
+}
+
+const groupLabels = {
+    dependencies: 'dependencies',
+    devDependencies: 'devDependencies',
+    optionalDependencies: 'optionalDependencies',
+    peerDependencies: 'peerDependencies',
+    overrides: 'overrides (transitive)',
+}
+
+const FixPlanPanel: React.FC<FixPlanPanelProps> = ({ request, packageJson }) => {
+    const [plan, setPlan] = useState<FixPlanResponse | null>(null)
+    const [isLoading, setIsLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [copied, setCopied] = useState(false)
+
+    useEffect(() => {
+        setPlan(null)
+        setError(null)
+    }, [request, packageJson])
+
+    const generatePlan = async () => {
+        setIsLoading(true)
+        setError(null)
+
+        try {
+            const data = await apiRequest<FixPlanResponse>('/fix-plans', { method: 'POST', body: { ...request, packageJson } })
+
+            setPlan(data)
+        } catch (error) {
+            console.error('Error building fix plan:', error)
+            setError(`Could not build a fix plan: ${error instanceof Error ? error.message : String(error)}`)
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    const downloadPackageJson = () => {
+        const url = URL.createObjectURL(new Blob([plan.packageJson], { type: 'application/json' }))
+        const link = document.createElement('a')
+        link.href = url
+        link.download = 'package.json'
+        link.click()
+        URL.revokeObjectURL(url)
+    }
+
+    const copyDiff = () => {
+        navigator.clipboard.writeText(plan.diff)
+            .then(() => {
+                setCopied(true)
+                setTimeout(() => setCopied(false), 3000)
+            })
+            .catch(err => console.error('Failed to copy diff: ', err))
+    }
+
+    const breaking = plan ? plan.upgrades.filter((upgrade) => upgrade.isSemVerMajor).length : 0
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row justify-between items-center gap-4">
+                <p className="text-gray-600">
+                    The smallest set of upgrades that resolves the audit, with the package.json changes to make them.
+                </p>
+                <Button onClick={generatePlan} disabled={isLoading} className="bg-primary hover:bg-primary/90 transition-colors duration-200">
+                    {isLoading ? <Loader className="mr-2 h-4 w-4 animate-spin" /> : <Wrench className="mr-2 h-4 w-4" />}
+                    {plan ? 'Rebuild fix plan' : 'Build fix plan'}
+                </Button>
+            </div>
+
+            {error && <p className="text-red-700">{error}</p>}
+
+            {plan && (
+                <>
+                    {breaking > 0 && (
+                        <div className="flex items-center p-4 bg-orange-50 rounded-lg text-orange-700">
+                            <AlertTriangle className="w-5 h-5 mr-2" />
+                            {breaking} of {plan.upgrades.length} upgrades cross a major version and may need code changes.
+                        </div>
+                    )}
+
+                    {plan.upgrades.length > 0 ? (
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead className="text-gray-700">Package</TableHead>
+                                        <TableHead className="text-gray-700">Current</TableHead>
+                                        <TableHead className="text-gray-700">Upgrade to</TableHead>
+                                        <TableHead className="text-gray-700">Declared in</TableHead>
+                                        <TableHead className="text-gray-700">Fixes</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {plan.upgrades.map((upgrade) => (
+                                        <TableRow key={upgrade.name}>
+                                            <TableCell>{upgrade.name}</TableCell>
+                                            <TableCell>{upgrade.from || '—'}</TableCell>
+                                            <TableCell>
+                                                <span className="mr-2">{upgrade.to}</span>
+                                                {upgrade.isSemVerMajor && (
+                                                    <span className="px-2 py-1 rounded-full text-xs font-semibold bg-orange-100 text-orange-800">Breaking</span>
+                                                )}
+                                                {upgrade.manual && (
+                                                    <span className="px-2 py-1 rounded-full text-xs font-semibold bg-gray-100 text-gray-800">Update by hand</span>
+                                                )}
+                                            </TableCell>
+                                            <TableCell>{groupLabels[upgrade.group] || upgrade.group}</TableCell>
+                                            <TableCell>{upgrade.fixes.join(', ')}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    ) : (
+                        <p className="text-gray-700">No package.json changes needed.</p>
+                    )}
+
+                    {plan.inRange.length > 0 && (
+                        <p className="text-gray-700">
+                            Fixed by updating within the declared ranges (<code>npm update</code>): {plan.inRange.join(', ')}
+                        </p>
+                    )}
+                    {plan.unfixable.length > 0 && (
+                        <p className="text-red-700">No fix available yet: {plan.unfixable.join(', ')}</p>
+                    )}
+
+                    {plan.lockfile && 'error' in plan.lockfile && (
+                        <p className="text-yellow-700">The lockfile could not be re-resolved with these changes: {plan.lockfile.error}</p>
+                    )}
+                    {plan.lockfile && 'changes' in plan.lockfile && plan.lockfile.changes.length > 0 && (
+                        <div>
+                            <h3 className="text-lg font-semibold text-gray-800 mb-2">Lockfile changes</h3>
+                            <ul className="text-sm text-gray-700 space-y-1">
+                                {plan.lockfile.changes.map((change) => (
+                                    <li key={change.location}>
+                                        <span className="font-semibold">{change.name}</span>{' '}
+                                        {change.from || 'added'} → {change.to || 'removed'}
+                                        <span className="text-gray-500 ml-2">{change.location}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {plan.diff && (
+                        <div>
+                            <div className="flex justify-between items-center mb-2">
+                                <h3 className="text-lg font-semibold text-gray-800">package.json diff</h3>
+                                <div className="space-x-2">
+                                    <Button variant="outline" size="sm" onClick={downloadPackageJson}>
+                                        <Download className="mr-1 h-4 w-4" /> package.json
+                                    </Button>
+                                    <Button variant="outline" size="sm" onClick={copyDiff}>
+                                        <Copy className="mr-1 h-4 w-4" /> {copied ? 'Copied!' : 'Copy diff'}
+                                    </Button>
+                                </div>
+                            </div>
+                            <pre className="bg-gray-900 text-gray-100 text-xs p-4 rounded-lg overflow-x-auto">
+                                {plan.diff.split('\n').map((line, index) => (
+                                    <div
+                                        key={index}
+                                        className={line.startsWith('+') && !line.startsWith('+++') ? 'text-green-400' : line.startsWith('-') && !line.startsWith('---') ? 'text-red-400' : ''}
+                                    >
+                                        {line || ' '}
+                                    </div>
+                                ))}
+                            </pre>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    )
+}
+
+export default FixPlanPanel
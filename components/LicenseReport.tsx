@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react'
+import { AlertTriangle, Check } from 'lucide-react'
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table"
+import type { LicenseCategory, LicensePackage } from '../lib/licenses'
+import { licenseCategoryLabels } from '../lib/report'
+
+interface LicenseReportProps {
+    // already filtered by the dashboard's dependency scope toggles
+    packages: LicensePackage[]
+}
+
+const categoryBadgeClass: Record<LicenseCategory, string> = {
+    permissive: 'bg-green-100 text-green-800',
+    'weak-copyleft': 'bg-yellow-100 text-yellow-800',
+    'strong-copyleft': 'bg-red-100 text-red-800',
+    unknown: 'bg-gray-100 text-gray-800',
+}
+
+const categories = Object.keys(licenseCategoryLabels) as LicenseCategory[]
+
+const LicenseReport: React.FC<LicenseReportProps> = ({ packages }) => {
+    const [enabled, setEnabled] = useState<Record<LicenseCategory, boolean>>({ permissive: true, 'weak-copyleft': true, 'strong-copyleft': true, unknown: true })
+    const [violationsOnly, setViolationsOnly] = useState(false)
+    const [search, setSearch] = useState('')
+
+    const violations = packages.filter((pkg) => pkg.violation).length
+    const shown = useMemo(
+        () => packages.filter((pkg) =>
+            enabled[pkg.category] &&
+            (!violationsOnly || pkg.violation) &&
+            `${pkg.name} ${pkg.license || ''}`.toLowerCase().includes(search.toLowerCase())),
+        [packages, enabled, violationsOnly, search]
+    )
+
+    return (
+        <div className="space-y-6">
+            {violations > 0 && (
+                <div className="flex items-center p-4 bg-red-50 rounded-lg text-red-700">
+                    <AlertTriangle className="w-5 h-5 mr-2" />
+                    {violations} of {packages.length} packages have a licence the policy doesn&apos;t allow.
+                </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-gray-600 mr-2">Licence type:</span>
+                {categories.map((category) => (
+                    <Button
+                        key={category}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setEnabled({ ...enabled, [category]: !enabled[category] })}
+                        className={enabled[category] ? 'bg-blue-50 border-blue-400 text-blue-700' : 'text-gray-500'}
+                    >
+                        {enabled[category] && <Check className="mr-1 h-4 w-4" />}
+                        {licenseCategoryLabels[category]} ({packages.filter((pkg) => pkg.category === category).length})
+                    </Button>
+                ))}
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setViolationsOnly(!violationsOnly)}
+                    className={violationsOnly ? 'bg-red-50 border-red-400 text-red-700' : 'text-gray-500'}
+                >
+                    {violationsOnly && <Check className="mr-1 h-4 w-4" />}
+                    Violations only ({violations})
+                </Button>
+            </div>
+
+            <Input
+                placeholder="Search packages or licences..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+            />
+
+            <div className="overflow-x-auto max-h-[600px]">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead className="text-gray-700">Package</TableHead>
+                            <TableHead className="text-gray-700">Version</TableHead>
+                            <TableHead className="text-gray-700">Licence</TableHead>
+                            <TableHead className="text-gray-700">Type</TableHead>
+                            <TableHead className="text-gray-700">Policy</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {shown.map((pkg) => (
+                            <TableRow key={`${pkg.name}@${pkg.version}`}>
+                                <TableCell>
+                                    {pkg.name}
+                                    {pkg.isDirect && <span className="ml-2 text-xs text-gray-500">direct</span>}
+                                </TableCell>
+                                <TableCell>{pkg.version}</TableCell>
+                                <TableCell>{pkg.license || <span className="text-gray-500">None declared</span>}</TableCell>
+                                <TableCell>
+                                    <span className={`px-2 py-1 rounded-full text-xs font-semibold ${categoryBadgeClass[pkg.category]}`}>
+                                        {licenseCategoryLabels[pkg.category]}
+                                    </span>
+                                </TableCell>
+                                <TableCell className={pkg.violation ? 'text-red-700' : 'text-gray-500'}>{pkg.violation || '—'}</TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+            <p className="text-sm text-gray-600">{shown.length} of {packages.length} packages</p>
+        </div>
+    )
+}
+
+export default LicenseReport
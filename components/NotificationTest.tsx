@@ -0,0 +1,53 @@
+import React, { useState } from 'react'
+import { Bell, CheckCircle, Loader, XCircle } from 'lucide-react'
+import { Button } from "./ui/button"
+import { apiRequest } from '../lib/api-client'
+import type { NotificationTestResponse } from '../lib/api-types'
+import type { DeliveryResult } from '../lib/notifications'
+
+// Sends each channel in NOTIFY_CHANNELS a made-up notification, to check the
+// webhooks and mail server are set up right
+const NotificationTest: React.FC = () => {
+    const [results, setResults] = useState<DeliveryResult[] | null>(null)
+    const [isSending, setIsSending] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const sendTest = async () => {
+        setIsSending(true)
+        setError(null)
+        try {
+            const data = await apiRequest<NotificationTestResponse>('/notifications/test', { method: 'POST' })
+            setResults(data.results)
+        } catch (error) {
+            setError(`Could not send test notifications: ${error instanceof Error ? error.message : String(error)}`)
+        } finally {
+            setIsSending(false)
+        }
+    }
+
+    return (
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            <div className="flex items-center justify-between">
+                <h2 className="text-2xl font-semibold text-gray-800">Notifications</h2>
+                <Button onClick={sendTest} variant="outline" disabled={isSending}>
+                    {isSending ? <Loader className="mr-2 h-4 w-4 animate-spin" /> : <Bell className="mr-2 h-4 w-4" />} Send test notification
+                </Button>
+            </div>
+            {error && <p className="text-red-700">{error}</p>}
+            {results && results.length === 0 && <p className="text-gray-600">No channels are set up in NOTIFY_CHANNELS.</p>}
+            {results && results.length > 0 && (
+                <ul className="space-y-1">
+                    {results.map((result, index) => (
+                        <li key={index} className="flex items-center gap-2 text-sm">
+                            {result.delivered ? <CheckCircle className="h-4 w-4 text-green-600" /> : <XCircle className="h-4 w-4 text-red-600" />}
+                            <span className="font-medium">{result.channel}</span>
+                            {result.error && <span className="text-red-700">{result.error}</span>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    )
+}
+
+export default NotificationTest
@@ -1,8 +1,9 @@
 import React, { useState, useMemo } from 'react'
+import Link from 'next/link'
 import { Input } from "./ui/input"
 import { Button } from "./ui/button"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table"
-import { AlertCircle, CheckCircle, ExternalLink, Download, Copy, Loader, AlertTriangle, ShieldCheck, TrendingUp, Info, Check } from 'lucide-react'
+import { AlertCircle, CheckCircle, ExternalLink, Download, Copy, Loader, AlertTriangle, ShieldCheck, TrendingUp, Info, Check, ChevronDown, ChevronRight, FileCode, Globe, Package, RefreshCw, Save, Scale, ShieldOff, X } from 'lucide-react'
 import { Chart as ChartJS, ArcElement, Tooltip, Legend } from 'chart.js'
 import { useDropzone } from 'react-dropzone'
 import {
@@ -11,56 +12,153 @@ import {
     getPaginationRowModel,
     getSortedRowModel,
     getFilteredRowModel,
+    getExpandedRowModel,
     flexRender,
     ColumnDef,
 } from '@tanstack/react-table'
-import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
 import { motion, AnimatePresence } from 'framer-motion'
 import { Toast } from "../components/ui/toast"
+import DependencyPathsDialog from './DependencyPathsDialog'
+import DependencyGraph from './DependencyGraph'
+import FixPlanPanel from './FixPlanPanel'
+import AuditHistory from './AuditHistory'
+import CompareAudits from './CompareAudits'
+import LicenseReport from './LicenseReport'
+import BatchResults from './BatchResults'
+import ApiKeyField from './ApiKeyField'
+import { batchUploadRequest, defaultLockfileNames, readUploadedFiles, unsupportedUploadMessage, uploadRequest } from '../lib/upload'
+import { dependencyScopes, type DependencyScope } from '../lib/scopes'
+import type { Advisory, AuditGraph } from '../lib/audit'
+import type { UnresolvedPackage } from '../lib/registry'
+import type { AuditRunInfo } from '../lib/history'
+import type { BatchResult } from '../lib/batch'
+import { apiFetch, apiRequest } from '../lib/api-client'
+import type { AuditRequestBody, AuditResponse, AuditRunResponse, BatchAuditRequestBody, BatchAuditResponse, CallerResponse, JobResponse, RemoteAuditResponse } from '../lib/api-types'
+import type { LicenseReport as AuditLicenseReport } from '../lib/licenses'
+import { createSarifLog } from '../lib/sarif'
+import { AuditResult, createMarkdownReport, createPdfReport, describeSuppression, severityBadgeClass, summarizeResults } from '../lib/report'
 
 ChartJS.register(ArcElement, Tooltip, Legend)
 
-type AuditResult = {
-    name: string
-    version: string
-    vulnerability: string
-    severity: 'low' | 'moderate' | 'high' | 'critical' | 'unknown'
-    recommendation: string
-    cvssScore?: number
-    cvssVector?: string
-    source?: number
-    url?: string
-    cwe?: string[]
+const scopeLabels: Record<DependencyScope, string> = {
+    prod: 'Prod',
+    dev: 'Dev',
+    optional: 'Optional',
+    peer: 'Peer',
 }
 
-type AuditSummary = {
-    info: number
-    low: number
-    moderate: number
-    high: number
-    critical: number
-    total: number
+// Findings with no scope information (e.g. from an older lockfile) always show.
+const matchesScopes = (result: AuditResult, enabled: Record<DependencyScope, boolean>) =>
+    !result.scopes?.length || result.scopes.some((scope) => enabled[scope])
+
+const advisorySourceLabels = {
+    npm: 'the npm registry',
+    registry: 'a custom registry',
+    local: 'the local advisory database',
 }
 
+const AdvisoryList = ({ advisories }: { advisories: Advisory[] }) => (
+    <ul className="space-y-2">
+        {advisories.map((advisory) => (
+            <li key={advisory.source} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className={`px-2 py-1 rounded-full text-xs font-semibold ${severityBadgeClass(advisory.severity)}`}>
+                    {advisory.severity}
+                </span>
+                <span className="font-medium text-gray-800">{advisory.title}</span>
+                {advisory.url && (
+                    <a href={advisory.url} target="_blank" rel="noopener noreferrer" className="flex items-center text-blue-500 hover:underline">
+                        {advisory.id || advisory.source} <ExternalLink size={14} className="ml-1" />
+                    </a>
+                )}
+                {advisory.cvssScore && <span className="text-gray-600">CVSS {advisory.cvssScore.toFixed(1)}</span>}
+                {advisory.cwe.length > 0 && <span className="text-gray-600">{advisory.cwe.join(', ')}</span>}
+                {advisory.range && <span className="text-gray-500">Vulnerable: {advisory.range}</span>}
+            </li>
+        ))}
+    </ul>
+)
+
 const NpmAuditDashboard: React.FC = () => {
     const [auditResults, setAuditResults] = useState<AuditResult[] | null>(null)
-    const [auditSummary, setAuditSummary] = useState<AuditSummary | null>(null)
+    const [suppressedResults, setSuppressedResults] = useState<AuditResult[]>([])
+    const [licenseReport, setLicenseReport] = useState<AuditLicenseReport | null>(null)
+    const [batchResult, setBatchResult] = useState<BatchResult | null>(null)
+    const [activeTab, setActiveTab] = useState<'vulnerabilities' | 'licenses'>('vulnerabilities')
+    const [scopeFilter, setScopeFilter] = useState<Record<DependencyScope, boolean>>({ prod: true, dev: true, optional: true, peer: true })
     const [isLoading, setIsLoading] = useState(false)
     const [error, setError] = useState<string | null>(null)
     const [globalFilter, setGlobalFilter] = useState('')
     const [showToast, setShowToast] = useState(false)
+    const [uploadDescription, setUploadDescription] = useState<string | null>(null)
+    const [dependencyGraph, setDependencyGraph] = useState<AuditGraph | null>(null)
+    const [advisorySource, setAdvisorySource] = useState<string | null>(null)
+    const [unresolvedPackages, setUnresolvedPackages] = useState<UnresolvedPackage[]>([])
+    const [auditRequest, setAuditRequest] = useState<AuditRequestBody | null>(null)
+    const [manifestText, setManifestText] = useState<string | undefined>(undefined)
+    const [projectName, setProjectName] = useState('')
+    const [savedRun, setSavedRun] = useState<AuditRunInfo | null>(null)
+    const [policyText, setPolicyText] = useState<string | undefined>(undefined)
+    const [policyMessage, setPolicyMessage] = useState<string | null>(null)
+    const [remoteTarget, setRemoteTarget] = useState('')
+    const [auditJobId, setAuditJobId] = useState<string | null>(null)
+    const [auditStage, setAuditStage] = useState<string | null>(null)
+    const [cachedAt, setCachedAt] = useState<string | null>(null)
+    // who the API key belongs to; their team's history is shown
+    const [caller, setCaller] = useState<CallerResponse | null>(null)
+
+    const visibleResults = useMemo(
+        () => (auditResults || []).filter((result) => matchesScopes(result, scopeFilter)),
+        [auditResults, scopeFilter]
+    )
+    const visibleSuppressed = useMemo(
+        () => suppressedResults.filter((result) => matchesScopes(result, scopeFilter)),
+        [suppressedResults, scopeFilter]
+    )
+    const visibleLicenses = useMemo(
+        () => licenseReport?.packages.filter((pkg) => !pkg.scopes.length || pkg.scopes.some((scope) => scopeFilter[scope])),
+        [licenseReport, scopeFilter]
+    )
+    const expiredCount = visibleResults.filter((result) => result.expiredSuppressions?.length).length
+    const auditSummary = useMemo(
+        () => (auditResults ? summarizeResults(visibleResults) : null),
+        [auditResults, visibleResults]
+    )
 
     const columns: ColumnDef<AuditResult>[] = useMemo(
         () => [
             {
                 header: 'Package',
                 accessorKey: 'name',
+                cell: ({ row }) => (
+                    <div className="flex items-center">
+                        {row.getCanExpand() ? (
+                            <button onClick={row.getToggleExpandedHandler()} className="mr-1 text-gray-500 hover:text-gray-800" aria-label="Toggle advisories">
+                                {row.getIsExpanded() ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                            </button>
+                        ) : (
+                            <span className="mr-1 w-4" />
+                        )}
+                        {row.original.name}
+                    </div>
+                ),
             },
             {
                 header: 'Version',
                 accessorKey: 'version',
             },
+            {
+                header: 'Scope',
+                accessorFn: (row) => (row.scopes || []).join(' '),
+                cell: ({ row }) => (
+                    <div className="flex flex-wrap gap-1">
+                        {(row.original.scopes || []).map((scope) => (
+                            <span key={scope} className={`px-2 py-1 rounded-full text-xs font-semibold ${scope === 'prod' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'}`}>
+                                {scopeLabels[scope]}
+                            </span>
+                        ))}
+                    </div>
+                ),
+            },
             {
                 header: 'Vulnerability',
                 accessorKey: 'vulnerability',
@@ -77,6 +175,18 @@ const NpmAuditDashboard: React.FC = () => {
                                 <ExternalLink size={16} />
                             </a>
                         )}
+                        {row.original.policyViolation && (
+                            <span className="ml-2 px-2 py-1 rounded-full text-xs font-semibold bg-purple-100 text-purple-800">Policy</span>
+                        )}
+                        {row.original.expiredSuppressions?.map((expired) => (
+                            <span
+                                key={`${expired.rule}-${expired.expires}`}
+                                title={expired.reason}
+                                className="ml-2 px-2 py-1 rounded-full text-xs font-semibold bg-amber-100 text-amber-800"
+                            >
+                                {expired.rule === 'ignore' ? 'Ignore' : 'Allow'} expired {expired.expires}
+                            </span>
+                        ))}
                     </div>
                 ),
             },
@@ -84,16 +194,15 @@ const NpmAuditDashboard: React.FC = () => {
                 header: 'Severity',
                 accessorKey: 'severity',
                 cell: ({ row }) => (
-                    <span className={`px-2 py-1 rounded-full text-xs font-semibold ${row.original.severity === 'critical' ? 'bg-red-100 text-red-800' :
-                        row.original.severity === 'high' ? 'bg-orange-100 text-orange-800' :
-                            row.original.severity === 'moderate' ? 'bg-yellow-100 text-yellow-800' :
-                                row.original.severity === 'low' ? 'bg-green-100 text-green-800' :
-                                    'bg-gray-100 text-gray-800'
-                        }`}>
+                    <span className={`px-2 py-1 rounded-full text-xs font-semibold ${severityBadgeClass(row.original.severity)}`}>
                         {row.original.severity}
                     </span>
                 ),
             },
+            {
+                header: 'Advisories',
+                accessorFn: (row) => row.advisories?.length || 0,
+            },
             {
                 header: 'CVSS Score',
                 accessorKey: 'cvssScore',
@@ -110,6 +219,18 @@ const NpmAuditDashboard: React.FC = () => {
                 header: 'Recommendation',
                 accessorKey: 'recommendation',
             },
+            {
+                header: 'Paths',
+                accessorFn: (row) => (row.paths || []).map((path) => path.join(' ')).join(' '),
+                cell: ({ row }) => (
+                    <DependencyPathsDialog
+                        name={row.original.name}
+                        paths={row.original.paths || []}
+                        causes={row.original.causes}
+                        effects={row.original.effects}
+                    />
+                ),
+            },
         ],
         []
     )
@@ -149,12 +270,14 @@ const NpmAuditDashboard: React.FC = () => {
     }
 
     const table = useReactTable({
-        data: auditResults || [],
+        data: visibleResults,
         columns,
         getCoreRowModel: getCoreRowModel(),
         getPaginationRowModel: getPaginationRowModel(),
         getSortedRowModel: getSortedRowModel(),
         getFilteredRowModel: getFilteredRowModel(),
+        getExpandedRowModel: getExpandedRowModel(),
+        getRowCanExpand: (row) => (row.original.advisories?.length || 0) > 0,
         state: {
             globalFilter,
         },
@@ -162,49 +285,180 @@ const NpmAuditDashboard: React.FC = () => {
     })
 
     const onDrop = async (acceptedFiles: File[]) => {
-        const file = acceptedFiles[0]
-        if (file) {
-            const reader = new FileReader()
-            reader.onload = async (e) => {
-                const content = e.target?.result as string
-                await performAudit(content)
+        try {
+            const files = await readUploadedFiles(acceptedFiles)
+            const batch = batchUploadRequest(files)
+            if (batch) {
+                setUploadDescription(batch.description)
+                setPolicyText(undefined)
+                setPolicyMessage(null)
+                await performBatchAudit(batch.body)
+                return
+            }
+
+            const upload = uploadRequest(files)
+            if (!upload) {
+                setError(unsupportedUploadMessage)
+                return
             }
-            reader.readAsText(file)
+
+            setUploadDescription(upload.description)
+            setPolicyText(upload.policy)
+            setPolicyMessage(null)
+            await performAudit(upload.body, upload.packageJson)
+        } catch (error) {
+            setError(`Could not read the uploaded file: ${error instanceof Error ? error.message : String(error)}`)
         }
     }
 
     const { getRootProps, getInputProps, isDragActive } = useDropzone({ onDrop })
 
-    const performAudit = async (packageJsonContent: string) => {
+    // The uploaded package.json is kept verbatim for the fix plan's diff.
+    // `refresh` skips the server's cache of trees and advisory results.
+    const performAudit = async (requestBody: AuditRequestBody, packageJson?: string, refresh = false) => {
         setIsLoading(true)
         setError(null)
+        setUnresolvedPackages([])
 
         try {
-            const { dependencies } = JSON.parse(packageJsonContent)
-            const response = await fetch('/api/npm-audit', {
+            const job = await apiRequest<JobResponse>('/jobs', {
                 method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
+                body: {
+                    ...requestBody,
+                    ...(projectName.trim() ? { project: projectName.trim() } : {}),
+                    ...(refresh ? { refresh } : {}),
                 },
-                body: JSON.stringify({ dependencies }),
             })
 
-            const data = await response.json()
+            setAuditJobId(job.id)
+            const data = await followAuditJob(job.id)
+            if (!data) return
 
-            if (!response.ok) {
-                throw new Error(data.error || `HTTP error! status: ${response.status}`)
+            showAuditResult(data)
+            setAuditRequest(requestBody)
+            setManifestText(packageJson)
+            setSavedRun(data.run || null)
+        } catch (error) {
+            console.error('Error performing audit:', error)
+            setError(`An error occurred while performing the audit: ${error instanceof Error ? error.message : String(error)}`)
+        } finally {
+            setIsLoading(false)
+            setAuditJobId(null)
+            setAuditStage(null)
+        }
+    }
+
+    // Show the job's stages as they start and resolve with its result, or null
+    // when it was cancelled
+    const followAuditJob = (id: string) => new Promise<AuditResponse | null>((resolve, reject) => {
+        const events = new EventSource(`/api/v1/jobs/${id}/events`)
+        events.addEventListener('stage', (event) => setAuditStage(JSON.parse((event as MessageEvent).data).message))
+        events.addEventListener('end', async () => {
+            events.close()
+            try {
+                const job = await apiRequest<JobResponse>(`/jobs/${id}`)
+                if (job.status === 'done') resolve(job.result)
+                else if (job.status === 'cancelled') resolve(null)
+                else reject(new Error(job.error?.message || 'The audit failed'))
+            } catch (error) {
+                reject(error)
             }
+        })
+        events.onerror = () => {
+            events.close()
+            reject(new Error('Lost the connection to the audit job'))
+        }
+    })
+
+    const cancelAudit = async () => {
+        if (!auditJobId) return
+        try {
+            await apiRequest<JobResponse>(`/jobs/${auditJobId}`, { method: 'DELETE' })
+        } catch (error) {
+            console.error('Error cancelling audit:', error)
+        }
+    }
 
-            setAuditResults(data.vulnerabilities || [])
-            setAuditSummary(data.metadata?.vulnerabilities || null)
+    // A package spec or Git URL the server fetches itself. There is no uploaded
+    // project to build a fix plan from.
+    const performRemoteAudit = async () => {
+        setIsLoading(true)
+        setError(null)
+        setUnresolvedPackages([])
+
+        try {
+            const data = await apiRequest<RemoteAuditResponse>('/remote-audits', {
+                method: 'POST',
+                body: { target: remoteTarget.trim(), ...(projectName.trim() ? { project: projectName.trim() } : {}) },
+            })
+
+            showAuditResult(data)
+            setUploadDescription(data.description)
+            setPolicyText(undefined)
+            setPolicyMessage(null)
+            setAuditRequest(null)
+            setSavedRun(data.run || null)
         } catch (error) {
-            console.error('Error performing audit:', error)
+            console.error('Error performing remote audit:', error)
             setError(`An error occurred while performing the audit: ${error instanceof Error ? error.message : String(error)}`)
         } finally {
             setIsLoading(false)
         }
     }
 
+    // A monorepo or several projects: per-workspace results replace the single
+    // audit's views, and like comparisons they aren't saved to the history.
+    const performBatchAudit = async (requestBody: BatchAuditRequestBody) => {
+        setIsLoading(true)
+        setError(null)
+
+        try {
+            const data = await apiRequest<BatchAuditResponse>('/batch-audits', { method: 'POST', body: requestBody })
+
+            showAuditResult({})
+            setAuditResults(null)
+            setAuditRequest(null)
+            setSavedRun(null)
+            setBatchResult(data)
+        } catch (error) {
+            console.error('Error performing batch audit:', error)
+            setError(`An error occurred while performing the audit: ${error instanceof Error ? error.message : String(error)}`)
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    const showAuditResult = (data: Partial<AuditResponse>) => {
+        setBatchResult(null)
+        setAuditResults(data.vulnerabilities || [])
+        setSuppressedResults(data.suppressed || [])
+        setLicenseReport(data.licenses || null)
+        if (!data.licenses) setActiveTab('vulnerabilities')
+        setDependencyGraph(data.graph || null)
+        setAdvisorySource(data.advisorySource || null)
+        setUnresolvedPackages(data.unresolved || [])
+        setCachedAt(data.metadata?.cache?.results === 'hit' ? data.metadata.cache.cachedAt : null)
+    }
+
+    // Saved runs can be looked at again, but there is no workspace left to
+    // build a fix plan from.
+    const viewSavedRun = async (id: string) => {
+        setError(null)
+
+        try {
+            const data = await apiRequest<AuditRunResponse>(`/history/${id}`)
+
+            showAuditResult(data)
+            setAuditRequest(null)
+            setPolicyText(undefined)
+            setUploadDescription(`${data.project}, saved ${new Date(data.createdAt).toLocaleString()}`)
+            window.scrollTo({ top: 0, behavior: 'smooth' })
+        } catch (error) {
+            console.error('Error loading saved audit:', error)
+            setError(`Could not load the saved audit: ${error instanceof Error ? error.message : String(error)}`)
+        }
+    }
+
     const pieChartData = {
         labels: ['Critical', 'High', 'Moderate', 'Low', 'Info'],
         datasets: [
@@ -227,78 +481,63 @@ const NpmAuditDashboard: React.FC = () => {
         ],
     }
 
+    const reportSections = () => [
+        { name: 'Vulnerability', results: visibleResults },
+        ...(visibleSuppressed.length > 0 ? [{ name: 'Suppressed', results: visibleSuppressed }] : []),
+    ]
+
     const generatePDFReport = () => {
-        const doc = new jsPDF();
-
-        // Set the document title and subtitle
-        doc.setFontSize(20);
-        doc.text('NPM Audit Report', 14, 22);
-
-        doc.setFontSize(16);
-        doc.text('Vulnerability Summary', 14, 32);
-
-        // Data for the summary table
-        const summaryData = [
-            ['Total', auditSummary?.total?.toString() || '0'],
-            ['Critical', auditSummary?.critical?.toString() || '0'],
-            ['High', auditSummary?.high?.toString() || '0'],
-            ['Moderate', auditSummary?.moderate?.toString() || '0'],
-            ['Low', auditSummary?.low?.toString() || '0'],
-            ['Info', auditSummary?.info?.toString() || '0'],
-        ];
-
-        // Draw the summary table
-        autoTable(doc, {
-            startY: 38, // Start position of the table on the Y-axis
-            head: [['Severity', 'Count']],
-            body: summaryData,
-        });
-
-        doc.setFontSize(16);
-        doc.text('Vulnerability Details', 14, (doc as any).lastAutoTable.finalY + 10);
-
-        // Data for the detailed vulnerabilities table
-        const tableData =
-            auditResults?.map((result) => [
-                result.name,
-                result.version,
-                result.vulnerability,
-                result.severity,
-                result.cvssScore?.toString() || 'N/A',
-                result.recommendation,
-            ]) || [];
-
-        // Draw the detailed vulnerabilities table
-        autoTable(doc, {
-            startY: (doc as any).lastAutoTable.finalY + 16, // Dynamic start position
-            head: [['Package', 'Version', 'Vulnerability', 'Severity', 'CVSS Score', 'Recommendation']],
-            body: tableData,
-        });
-
-        // Save the PDF
-        doc.save('npm-audit-report.pdf');
-    };
-
-    const generateMarkdownReport = () => {
-        let markdown = '# NPM Audit Report\n\n'
-
-        markdown += '## Vulnerability Summary\n\n'
-        markdown += `- Total: ${auditSummary?.total || 0}\n`
-        markdown += `- Critical: ${auditSummary?.critical || 0}\n`
-        markdown += `- High: ${auditSummary?.high || 0}\n`
-        markdown += `- Moderate: ${auditSummary?.moderate || 0}\n`
-        markdown += `- Low: ${auditSummary?.low || 0}\n`
-        markdown += `- Info: ${auditSummary?.info || 0}\n\n`
-
-        markdown += '## Vulnerability Details\n\n'
-        markdown += '| Package | Version | Vulnerability | Severity | CVSS Score | Recommendation |\n'
-        markdown += '|---------|---------|---------------|----------|------------|----------------|\n'
-
-        auditResults?.forEach(result => {
-            markdown += `| ${result.name} | ${result.version} | ${result.vulnerability} | ${result.severity} | ${result.cvssScore || 'N/A'} | ${result.recommendation} |\n`
-        })
+        createPdfReport('NPM Audit Report', reportSections(), visibleLicenses).save('npm-audit-report.pdf')
+    }
+
+    const generateMarkdownReport = () => createMarkdownReport('NPM Audit Report', reportSections(), visibleLicenses)
 
-        return markdown
+    // Locations point into the uploaded files, so saved runs export without line numbers
+    const generateSarifReport = () => {
+        const lockfile = auditRequest?.lockfile
+        const sarif = createSarifLog(visibleResults, {
+            manifest: manifestText ? { path: 'package.json', content: manifestText } : undefined,
+            lockfile: lockfile && { path: lockfile.fileName || defaultLockfileNames[lockfile.type], content: lockfile.content },
+        }, visibleSuppressed)
+
+        downloadBlob(new Blob([JSON.stringify(sarif, null, 2)], { type: 'application/sarif+json' }), 'npm-audit.sarif')
+    }
+
+    const downloadBlob = (blob: Blob, fileName: string) => {
+        const url = URL.createObjectURL(blob)
+        const link = document.createElement('a')
+        link.href = url
+        link.download = fileName
+        link.click()
+        URL.revokeObjectURL(url)
+    }
+
+    // The SBOM describes the whole resolved tree, which only the server has.
+    // The request is sent without a project so the rerun isn't saved again.
+    const generateSbom = async (format: 'cyclonedx' | 'spdx') => {
+        setError(null)
+        try {
+            const response = await apiFetch(`/audits?format=${format}`, { method: 'POST', body: auditRequest })
+
+            downloadBlob(await response.blob(), format === 'cyclonedx' ? 'sbom.cdx.json' : 'sbom.spdx.json')
+        } catch (error) {
+            console.error('Error generating SBOM:', error)
+            setError(`An error occurred while generating the SBOM: ${error instanceof Error ? error.message : String(error)}`)
+        }
+    }
+
+    // Later audits of the project apply the stored policy without it being dropped again
+    const savePolicy = async () => {
+        const project = projectName.trim()
+        setPolicyMessage(null)
+        try {
+            await apiRequest(`/policies/${encodeURIComponent(project)}`, { method: 'PUT', body: policyText })
+
+            setPolicyMessage(`Saved as the audit policy for ${project}`)
+        } catch (error) {
+            console.error('Error saving policy:', error)
+            setPolicyMessage(`Could not save the policy: ${error instanceof Error ? error.message : String(error)}`)
+        }
     }
 
     const copyMarkdownReport = () => {
@@ -328,6 +567,19 @@ const NpmAuditDashboard: React.FC = () => {
                 animate={{ opacity: 1, scale: 1 }}
                 transition={{ duration: 0.5 }}
             >
+                <ApiKeyField onChange={setCaller} />
+                {caller?.role === 'admin' && (
+                    <p className="text-sm text-right -mt-2 mb-4">
+                        <Link href="/admin" className="text-blue-500 hover:underline">Manage API keys</Link>
+                    </p>
+                )}
+                <Input
+                    placeholder="Project name (optional, saves the audit to the history)"
+                    value={projectName}
+                    onChange={(e) => setProjectName(e.target.value)}
+                    maxLength={100}
+                    className="mb-4"
+                />
                 <div {...getRootProps()}>
                     <input {...getInputProps()} />
                     <div
@@ -335,15 +587,58 @@ const NpmAuditDashboard: React.FC = () => {
                             }`}
                     >
                         {isDragActive ? (
-                            <p className="text-blue-600 text-xl font-semibold">Drop the package.json file here</p>
+                            <p className="text-blue-600 text-xl font-semibold">Drop the package.json or lockfile here</p>
                         ) : (
                             <div>
-                                <p className="text-gray-600 text-xl mb-2">Drag and drop a package.json file here</p>
+                                <p className="text-gray-600 text-xl mb-2">Drag and drop a package.json or lockfile here</p>
+                                <p className="text-gray-500">package-lock.json, npm-shrinkwrap.json, yarn.lock and pnpm-lock.yaml are audited at their pinned versions</p>
+                                <p className="text-gray-500">`npm audit --json` reports and CycloneDX or SPDX SBOMs are shown as they are</p>
+                                <p className="text-gray-500">Drop an npm-audit-policy.json along with them to accept known findings</p>
+                                <p className="text-gray-500">Drop a monorepo folder or zip to audit each workspace and project</p>
                                 <p className="text-gray-500">or click to select a file</p>
                             </div>
                         )}
                     </div>
                 </div>
+                <form
+                    className="flex gap-2 mt-4"
+                    onSubmit={(e) => {
+                        e.preventDefault()
+                        if (remoteTarget.trim()) performRemoteAudit()
+                    }}
+                >
+                    <Input
+                        placeholder="or audit an npm package (express@4.17.1) or Git repository URL"
+                        value={remoteTarget}
+                        onChange={(e) => setRemoteTarget(e.target.value)}
+                        maxLength={500}
+                    />
+                    <Button type="submit" disabled={!remoteTarget.trim() || isLoading}>
+                        <Globe className="mr-2 h-4 w-4" /> Audit
+                    </Button>
+                </form>
+                {uploadDescription && (
+                    <p className="text-sm text-gray-600 mt-2 text-center">
+                        {advisorySource === 'import' ? `Imported: ${uploadDescription}` : `Audited: ${uploadDescription}`}
+                        {advisorySource && advisorySource !== 'import' && ` against ${advisorySourceLabels[advisorySource] || advisorySource}`}
+                    </p>
+                )}
+                {cachedAt && auditRequest && (
+                    <div className="flex items-center justify-center gap-4 mt-2">
+                        <p className="text-sm text-gray-600">Cached results from {new Date(cachedAt).toLocaleString()}</p>
+                        <Button onClick={() => performAudit(auditRequest, manifestText, true)} variant="outline" size="sm">
+                            <RefreshCw className="mr-2 h-4 w-4" /> Refresh
+                        </Button>
+                    </div>
+                )}
+                {policyText && projectName.trim() && (
+                    <div className="flex items-center justify-center gap-4 mt-2">
+                        <Button onClick={savePolicy} variant="outline" size="sm">
+                            <Save className="mr-2 h-4 w-4" /> Save policy for {projectName.trim()}
+                        </Button>
+                        {policyMessage && <p className="text-sm text-gray-600">{policyMessage}</p>}
+                    </div>
+                )}
             </motion.div>
 
             {isLoading && (
@@ -356,6 +651,12 @@ const NpmAuditDashboard: React.FC = () => {
                     <div className="bg-white p-8 rounded-lg shadow-xl flex flex-col items-center">
                         <Loader className="w-16 h-16 text-primary animate-spin mb-4" />
                         <p className="text-xl font-semibold text-gray-800">Performing audit...</p>
+                        {auditStage && <p className="text-gray-600 mt-2">{auditStage}</p>}
+                        {auditJobId && (
+                            <Button onClick={cancelAudit} variant="outline" className="mt-4">
+                                <X className="mr-2 h-4 w-4" /> Cancel
+                            </Button>
+                        )}
                     </div>
                 </motion.div>
             )}
@@ -376,7 +677,48 @@ const NpmAuditDashboard: React.FC = () => {
             </AnimatePresence>
 
             <AnimatePresence>
-                {auditSummary && (
+                {unresolvedPackages.length > 0 && (
+                    <motion.div
+                        className="bg-yellow-100 border-l-4 border-yellow-500 text-yellow-800 p-4 rounded mb-8"
+                        role="alert"
+                        initial={{ opacity: 0, x: -50 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        exit={{ opacity: 0, x: 50 }}
+                    >
+                        <p className="font-bold">Some packages could not be resolved and were not audited</p>
+                        <ul className="list-disc ml-6 mt-2">
+                            {unresolvedPackages.map((pkg) => (
+                                <li key={pkg.name}>
+                                    {pkg.name}{pkg.range && `@${pkg.range}`}: {pkg.reason}
+                                </li>
+                            ))}
+                        </ul>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            {auditResults && licenseReport && (
+                <div className="flex gap-2 mb-8">
+                    <Button
+                        variant={activeTab === 'vulnerabilities' ? 'default' : 'outline'}
+                        onClick={() => setActiveTab('vulnerabilities')}
+                    >
+                        <ShieldCheck className="mr-2 h-4 w-4" /> Vulnerabilities
+                    </Button>
+                    <Button
+                        variant={activeTab === 'licenses' ? 'default' : 'outline'}
+                        onClick={() => setActiveTab('licenses')}
+                    >
+                        <Scale className="mr-2 h-4 w-4" /> Licences
+                        {licenseReport.summary.violations > 0 && (
+                            <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-800">{licenseReport.summary.violations}</span>
+                        )}
+                    </Button>
+                </div>
+            )}
+
+            <AnimatePresence>
+                {auditSummary && activeTab === 'vulnerabilities' && (
                     <motion.div
                         className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8"
                         initial={{ opacity: 0, y: 50 }}
@@ -403,6 +745,9 @@ const NpmAuditDashboard: React.FC = () => {
                                 </div>
                                 <span className="text-2xl font-bold text-gray-800">{auditSummary.total}</span>
                             </motion.div>
+                            <p className="text-sm text-gray-600 mt-2">
+                                {auditSummary.advisories} advisories across {auditSummary.total} vulnerable packages
+                            </p>
                         </div>
                         <div className="bg-white p-6 rounded-xl shadow-lg">
                             <h2 className="text-2xl font-bold mb-6 text-gray-800">Audit Insights</h2>
@@ -426,6 +771,26 @@ const NpmAuditDashboard: React.FC = () => {
                                         <p className="text-red-700 text-lg font-medium">Vulnerabilities detected. Action required.</p>
                                     </motion.div>
                                 )}
+                                {visibleSuppressed.length > 0 && (
+                                    <motion.div
+                                        className="flex items-center p-4 bg-gray-50 rounded-lg"
+                                        whileHover={{ scale: 1.02 }}
+                                        transition={{ type: "spring", stiffness: 400, damping: 10 }}
+                                    >
+                                        <ShieldOff className="w-6 h-6 text-gray-500 mr-4" />
+                                        <p className="text-gray-700 font-medium">{visibleSuppressed.length} findings accepted by the audit policy.</p>
+                                    </motion.div>
+                                )}
+                                {expiredCount > 0 && (
+                                    <motion.div
+                                        className="flex items-center p-4 bg-amber-50 rounded-lg"
+                                        whileHover={{ scale: 1.02 }}
+                                        transition={{ type: "spring", stiffness: 400, damping: 10 }}
+                                    >
+                                        <AlertTriangle className="w-6 h-6 text-amber-500 mr-4" />
+                                        <p className="text-amber-700 font-medium">{expiredCount} findings are back because their policy exception expired.</p>
+                                    </motion.div>
+                                )}
                                 {auditSummary.critical > 0 && (
                                     <motion.div
                                         className="flex items-center p-4 bg-red-50 rounded-lg"
@@ -463,7 +828,7 @@ const NpmAuditDashboard: React.FC = () => {
             </AnimatePresence>
 
             <AnimatePresence>
-                {auditResults && auditResults.length > 0 && (
+                {auditResults && auditResults.length > 0 && activeTab === 'vulnerabilities' && (
                     <motion.div
                         className="bg-white p-8 rounded-xl shadow-lg mb-8"
                         initial={{ opacity: 0, y: 50 }}
@@ -479,8 +844,32 @@ const NpmAuditDashboard: React.FC = () => {
                                 <Button onClick={copyMarkdownReport} className="bg-secondary hover:bg-secondary/90 transition-colors duration-200">
                                     <Copy className="mr-2 h-4 w-4" /> Copy Markdown
                                 </Button>
+                                <Button onClick={generateSarifReport} variant="outline" className="transition-colors duration-200">
+                                    <FileCode className="mr-2 h-4 w-4" /> Export SARIF
+                                </Button>
+                                <Button onClick={() => generateSbom('cyclonedx')} disabled={!auditRequest || !dependencyGraph} variant="outline" className="transition-colors duration-200">
+                                    <Package className="mr-2 h-4 w-4" /> CycloneDX
+                                </Button>
+                                <Button onClick={() => generateSbom('spdx')} disabled={!auditRequest || !dependencyGraph} variant="outline" className="transition-colors duration-200">
+                                    <Package className="mr-2 h-4 w-4" /> SPDX
+                                </Button>
                             </div>
                         </div>
+                        <div className="flex flex-wrap items-center gap-2 mb-4">
+                            <span className="text-sm text-gray-600 mr-2">Dependency scope:</span>
+                            {dependencyScopes.map((scope) => (
+                                <Button
+                                    key={scope}
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setScopeFilter({ ...scopeFilter, [scope]: !scopeFilter[scope] })}
+                                    className={scopeFilter[scope] ? 'bg-blue-50 border-blue-400 text-blue-700' : 'text-gray-500'}
+                                >
+                                    {scopeFilter[scope] && <Check className="mr-1 h-4 w-4" />}
+                                    {scopeLabels[scope]} ({auditResults.filter((result) => result.scopes?.includes(scope)).length})
+                                </Button>
+                            ))}
+                        </div>
                         <Input
                             placeholder="Search vulnerabilities..."
                             value={globalFilter ?? ''}
@@ -505,16 +894,25 @@ const NpmAuditDashboard: React.FC = () => {
                                 </TableHeader>
                                 <TableBody>
                                     {table.getRowModel().rows.map((row) => (
-                                        <TableRow key={row.id} className="hover:bg-gray-50 transition-colors duration-200">
-                                            {row.getVisibleCells().map((cell) => (
-                                                <TableCell key={cell.id}>
-                                                    {flexRender(
-                                                        cell.column.columnDef.cell,
-                                                        cell.getContext()
-                                                    )}
-                                                </TableCell>
-                                            ))}
-                                        </TableRow>
+                                        <React.Fragment key={row.id}>
+                                            <TableRow className="hover:bg-gray-50 transition-colors duration-200">
+                                                {row.getVisibleCells().map((cell) => (
+                                                    <TableCell key={cell.id}>
+                                                        {flexRender(
+                                                            cell.column.columnDef.cell,
+                                                            cell.getContext()
+                                                        )}
+                                                    </TableCell>
+                                                ))}
+                                            </TableRow>
+                                            {row.getIsExpanded() && (
+                                                <TableRow className="bg-gray-50">
+                                                    <TableCell colSpan={row.getVisibleCells().length}>
+                                                        <AdvisoryList advisories={row.original.advisories || []} />
+                                                    </TableCell>
+                                                </TableRow>
+                                            )}
+                                        </React.Fragment>
                                     ))}
                                 </TableBody>
                             </Table>
@@ -549,7 +947,7 @@ const NpmAuditDashboard: React.FC = () => {
             </AnimatePresence>
 
             <AnimatePresence>
-                {auditResults && auditResults.length === 0 && !error && (
+                {auditResults && auditResults.length === 0 && !error && activeTab === 'vulnerabilities' && (
                     <motion.div
                         className="bg-green-100 border-l-4 border-green-500 text-green-700 p-4 rounded mb-8"
                         role="alert"
@@ -563,6 +961,135 @@ const NpmAuditDashboard: React.FC = () => {
                 )}
             </AnimatePresence>
 
+            <AnimatePresence>
+                {visibleSuppressed.length > 0 && activeTab === 'vulnerabilities' && (
+                    <motion.div
+                        className="bg-white p-8 rounded-xl shadow-lg mb-8"
+                        initial={{ opacity: 0, y: 50 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ duration: 0.5 }}
+                    >
+                        <h2 className="text-2xl font-bold text-gray-800 mb-2">Suppressed Findings</h2>
+                        <p className="text-gray-600 mb-6">Accepted by the audit policy, so they are left out of the summary above.</p>
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead className="text-gray-700">Package</TableHead>
+                                        <TableHead className="text-gray-700">Version</TableHead>
+                                        <TableHead className="text-gray-700">Vulnerability</TableHead>
+                                        <TableHead className="text-gray-700">Severity</TableHead>
+                                        <TableHead className="text-gray-700">Accepted</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {visibleSuppressed.map((result) => (
+                                        <TableRow key={`${result.name}@${result.version}:${result.vulnerability}`}>
+                                            <TableCell>{result.name}</TableCell>
+                                            <TableCell>{result.version}</TableCell>
+                                            <TableCell>{result.vulnerability}</TableCell>
+                                            <TableCell>
+                                                <span className={`px-2 py-1 rounded-full text-xs font-semibold ${severityBadgeClass(result.severity)}`}>
+                                                    {result.severity}
+                                                </span>
+                                            </TableCell>
+                                            <TableCell>{describeSuppression(result.suppression)}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+                {auditRequest && advisorySource !== 'import' && auditResults && auditResults.length > 0 && activeTab === 'vulnerabilities' && (
+                    <motion.div
+                        className="bg-white p-8 rounded-xl shadow-lg mb-8"
+                        initial={{ opacity: 0, y: 50 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ duration: 0.5 }}
+                    >
+                        <h2 className="text-2xl font-bold text-gray-800 mb-6">Fix Plan</h2>
+                        <FixPlanPanel request={auditRequest} packageJson={manifestText} />
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+                {batchResult && (
+                    <motion.div
+                        className="bg-white p-8 rounded-xl shadow-lg mb-8"
+                        initial={{ opacity: 0, y: 50 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ duration: 0.5 }}
+                    >
+                        <h2 className="text-2xl font-bold text-gray-800 mb-6">Workspace Audit</h2>
+                        <BatchResults result={batchResult} />
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+                {visibleLicenses && activeTab === 'licenses' && (
+                    <motion.div
+                        className="bg-white p-8 rounded-xl shadow-lg mb-8"
+                        initial={{ opacity: 0, y: 50 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ duration: 0.5 }}
+                    >
+                        <div className="flex flex-col md:flex-row justify-between items-center mb-6">
+                            <h2 className="text-2xl font-bold text-gray-800 mb-4 md:mb-0">Licence Report</h2>
+                            <div className="space-x-4">
+                                <Button onClick={generatePDFReport} className="bg-primary hover:bg-primary/90 transition-colors duration-200">
+                                    <Download className="mr-2 h-4 w-4" /> Export PDF
+                                </Button>
+                                <Button onClick={copyMarkdownReport} className="bg-secondary hover:bg-secondary/90 transition-colors duration-200">
+                                    <Copy className="mr-2 h-4 w-4" /> Copy Markdown
+                                </Button>
+                            </div>
+                        </div>
+                        <LicenseReport packages={visibleLicenses} />
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+                {dependencyGraph && (
+                    <motion.div
+                        className="bg-white p-8 rounded-xl shadow-lg mb-8"
+                        initial={{ opacity: 0, y: 50 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ duration: 0.5 }}
+                    >
+                        <h2 className="text-2xl font-bold text-gray-800 mb-6">Dependency Graph</h2>
+                        <DependencyGraph graph={dependencyGraph} />
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            <motion.div
+                className="bg-white p-8 rounded-xl shadow-lg mb-8"
+                initial={{ opacity: 0, y: 50 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.5 }}
+            >
+                <h2 className="text-2xl font-bold text-gray-800 mb-6">Audit History</h2>
+                <AuditHistory key={caller?.team || caller?.name} project={savedRun?.project} latestRunId={savedRun?.id} onSelectRun={viewSavedRun} />
+            </motion.div>
+
+            <motion.div
+                className="bg-white p-8 rounded-xl shadow-lg mb-8"
+                initial={{ opacity: 0, y: 50 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.5 }}
+            >
+                <h2 className="text-2xl font-bold text-gray-800 mb-2">Compare Audits</h2>
+                <p className="text-gray-600 mb-6">Audit two versions of a project, e.g. before and after a dependency bump, to see what changed.</p>
+                <CompareAudits key={caller?.team || caller?.name} latestRunId={savedRun?.id} />
+            </motion.div>
+
             <AnimatePresence>
                 {showToast && (
                     <motion.div
@@ -0,0 +1,92 @@
+import os from 'os';
+import path from 'path';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { acquireAuditSlot, authenticate, canAccessTeam, Caller, checkRateLimit } from './access';
+
+const caller = (keyId: string, limits: Partial<Caller> = {}): Caller =>
+  ({ keyId, name: keyId, team: 'payments', role: 'member', rateLimit: 2, concurrency: 1, ...limits });
+
+const response = () => {
+  const headers: Record<string, string> = {};
+  return { headers, res: { setHeader: (name: string, value: string) => { headers[name] = value; } } as unknown as NextApiResponse };
+};
+
+const request = (headers: Record<string, string>, method = 'POST', cookies: Record<string, string> = {}) =>
+  ({ headers, method, cookies }) as unknown as NextApiRequest;
+
+describe('authenticate', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('takes the admin key as a bearer token or header, and cookies only on GET', () => {
+    vi.stubEnv('API_AUTH', 'keys');
+    vi.stubEnv('ADMIN_API_KEY', 'secret-admin-key');
+    vi.stubEnv('API_KEYS_FILE', path.join(os.tmpdir(), 'no-api-keys.json'));
+
+    expect(authenticate(request({ authorization: 'Bearer secret-admin-key' }))).toMatchObject({ keyId: 'admin', role: 'admin' });
+    expect(authenticate(request({ 'x-api-key': 'secret-admin-key' }))).toMatchObject({ keyId: 'admin' });
+    expect(authenticate(request({}, 'GET', { api_key: 'secret-admin-key' }))).toMatchObject({ keyId: 'admin' });
+    expect(() => authenticate(request({}, 'POST', { api_key: 'secret-admin-key' }))).toThrow('An API key is required');
+    expect(() => authenticate(request({ authorization: 'Bearer nak_wrong' }))).toThrow('Invalid or revoked API key');
+  });
+
+  it('lets everyone in as admin with API_AUTH=off', () => {
+    vi.stubEnv('API_AUTH', 'off');
+    expect(authenticate(request({}))).toMatchObject({ keyId: null, role: 'admin' });
+  });
+});
+
+describe('checkRateLimit', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts requests per key in a minute window and reports what is left', () => {
+    vi.useFakeTimers();
+    const limited = caller('rate-limited');
+    const first = response();
+    checkRateLimit(limited, first.res);
+    expect(first.headers).toMatchObject({ 'X-RateLimit-Limit': '2', 'X-RateLimit-Remaining': '1', 'X-RateLimit-Reset': '60' });
+
+    checkRateLimit(limited, response().res);
+    const over = response();
+    expect(() => checkRateLimit(limited, over.res)).toThrow('Rate limit exceeded');
+    expect(over.headers['Retry-After']).toBe('60');
+    // other keys have their own window
+    expect(() => checkRateLimit(caller('another'), response().res)).not.toThrow();
+
+    vi.advanceTimersByTime(60 * 1000);
+    expect(() => checkRateLimit(limited, response().res)).not.toThrow();
+  });
+
+  it('doesn\'t count callers without a key', () => {
+    const { headers, res } = response();
+    checkRateLimit(caller(null), res);
+    expect(headers).toEqual({});
+  });
+});
+
+describe('acquireAuditSlot', () => {
+  it('limits audits at once per key, and releasing twice frees one slot', () => {
+    const limited = caller('concurrent');
+    const release = acquireAuditSlot(limited);
+    expect(() => acquireAuditSlot(limited)).toThrow('Too many audits at once');
+
+    release();
+    release();
+    const again = acquireAuditSlot(limited);
+    expect(() => acquireAuditSlot(limited)).toThrow('Too many audits at once');
+    again();
+  });
+});
+
+describe('canAccessTeam', () => {
+  it('gives members their own team and admins every team', () => {
+    expect(canAccessTeam(caller('member'), 'payments')).toBe(true);
+    expect(canAccessTeam(caller('member'), 'search')).toBe(false);
+    expect(canAccessTeam(caller('member'), undefined)).toBe(false);
+    expect(canAccessTeam(caller('admin', { role: 'admin', team: undefined }), undefined)).toBe(true);
+  });
+});
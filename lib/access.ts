@@ -0,0 +1,134 @@
+import path from 'path';
+import { timingSafeEqual } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { ApiKeyRole, findKey, hashKey } from './api-keys';
+import { accessConfig } from './config';
+import { AuditError } from './workspace';
+
+// Who is calling the API. `team` scopes what they save and see; without one
+// (the admin key, or with API_AUTH=off) nothing is scoped.
+export type Caller = {
+  keyId: string | null;
+  name: string;
+  team?: string;
+  role: ApiKeyRole;
+  rateLimit: number;
+  concurrency: number;
+};
+
+// Requests counted per key in the current minute, and audits each key has
+// going; in memory like the jobs, so the dev server's reloads keep them.
+type AccessStore = {
+  windows: Map<string, { start: number; count: number }>;
+  audits: Map<string, number>;
+};
+
+const store: AccessStore = (globalThis as any).apiAccess || ((globalThis as any).apiAccess = { windows: new Map(), audits: new Map() });
+
+const RATE_WINDOW = 60 * 1000;
+
+const sameKey = (a: string, b: string) => timingSafeEqual(Buffer.from(hashKey(a)), Buffer.from(hashKey(b)));
+
+// The key from "Authorization: Bearer <key>" or "X-API-Key". GET requests may
+// also use the api_key cookie the dashboard sets, which is what lets
+// EventSource follow a job; cookies alone never authorize changes.
+function presentedKey(req: NextApiRequest): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  const header = req.headers['x-api-key'];
+  if (typeof header === 'string' && header) {
+    return header;
+  }
+  return req.method === 'GET' ? req.cookies?.api_key || undefined : undefined;
+}
+
+export function authenticate(req: NextApiRequest): Caller {
+  const config = accessConfig();
+  const limits = { rateLimit: config.rateLimit, concurrency: config.concurrency };
+  if (!config.required) {
+    return { keyId: null, name: 'anonymous', role: 'admin', ...limits };
+  }
+
+  const key = presentedKey(req);
+  if (!key) {
+    throw new AuditError(401, 'An API key is required', 'Send it as "Authorization: Bearer <key>" or in an X-API-Key header');
+  }
+  if (config.adminKey && sameKey(key, config.adminKey)) {
+    return { keyId: 'admin', name: 'ADMIN_API_KEY', role: 'admin', ...limits };
+  }
+  const apiKey = findKey(config.keysFile, key);
+  if (!apiKey) {
+    throw new AuditError(401, 'Invalid or revoked API key');
+  }
+  return {
+    keyId: apiKey.id,
+    name: apiKey.name,
+    team: apiKey.team,
+    role: apiKey.role,
+    rateLimit: apiKey.rateLimit || config.rateLimit,
+    concurrency: apiKey.concurrency || config.concurrency,
+  };
+}
+
+// Count the request against the caller's limit for the minute, reporting the
+// limit in the response headers. Without API keys there is nothing to count by.
+export function checkRateLimit(caller: Caller, res: NextApiResponse) {
+  if (!caller.keyId) return;
+  const now = Date.now();
+  let window = store.windows.get(caller.keyId);
+  if (!window || now - window.start >= RATE_WINDOW) {
+    window = { start: now, count: 0 };
+    store.windows.set(caller.keyId, window);
+  }
+  window.count += 1;
+
+  const reset = Math.ceil((window.start + RATE_WINDOW - now) / 1000);
+  res.setHeader('X-RateLimit-Limit', String(caller.rateLimit));
+  res.setHeader('X-RateLimit-Remaining', String(Math.max(0, caller.rateLimit - window.count)));
+  res.setHeader('X-RateLimit-Reset', String(reset));
+  if (window.count > caller.rateLimit) {
+    res.setHeader('Retry-After', String(reset));
+    throw new AuditError(429, 'Rate limit exceeded', `${caller.rateLimit} requests per minute, try again in ${reset}s`);
+  }
+}
+
+// Take one of the caller's audit slots; the returned function gives it back
+// and may be called more than once.
+export function acquireAuditSlot(caller: Caller): () => void {
+  if (!caller.keyId) return () => {};
+  const keyId = caller.keyId;
+  const running = store.audits.get(keyId) || 0;
+  if (running >= caller.concurrency) {
+    throw new AuditError(429, 'Too many audits at once for this API key', `${caller.concurrency} may be running or queued`);
+  }
+  store.audits.set(keyId, running + 1);
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const left = (store.audits.get(keyId) || 1) - 1;
+    if (left > 0) store.audits.set(keyId, left);
+    else store.audits.delete(keyId);
+  };
+}
+
+export function requireAdmin(caller: Caller) {
+  if (caller.role !== 'admin') {
+    throw new AuditError(403, 'This needs an admin API key');
+  }
+}
+
+// Whether the caller may see what was saved under `team`: their own team's,
+// and everything for admins. What was saved without a team is admins' only.
+export function canAccessTeam(caller: Caller, team: string | undefined) {
+  return caller.role === 'admin' || (caller.team !== undefined && caller.team === team);
+}
+
+// Where a team keeps its files under a data directory; the directory itself
+// holds what isn't scoped to a team
+export function teamDirectory(dir: string, team: string | undefined) {
+  return team === undefined ? dir : path.join(dir, 'teams', encodeURIComponent(team));
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { AdvisoryDatabase, auditWithDatabase, fixFor, importOsvRecords, StoredAdvisory } from './advisory-db';
+
+const osvRecord = (id: string, name: string, ranges: any[], extra: any = {}) => ({
+  id,
+  summary: `${id} in ${name}`,
+  affected: [{ package: { ecosystem: 'npm', name }, ranges }],
+  ...extra,
+});
+
+const events = (...list: any[]) => ({ type: 'SEMVER', events: list });
+
+const advisory = (id: string, range: string, fixed: string[]): StoredAdvisory =>
+  ({ id, aliases: [], title: id, severity: 'high', cwe: [], range, fixed });
+
+describe('importOsvRecords', () => {
+  it('turns OSV events into semver ranges with their fixed versions', () => {
+    const db: AdvisoryDatabase = { importedAt: null, advisories: {} };
+    const result = importOsvRecords(db, [
+      osvRecord('GHSA-1', 'a', [events({ introduced: '0' }, { fixed: '1.2.3' }, { introduced: '2.0.0' }, { fixed: '2.0.5' })]),
+      osvRecord('GHSA-2', 'b', [events({ introduced: '1.0.0' }, { last_affected: '1.4.0' })]),
+      osvRecord('GHSA-3', 'c', [events({ introduced: '3.0.0' })]),
+      { id: 'PYSEC-1', affected: [{ package: { ecosystem: 'PyPI', name: 'a' }, ranges: [events({ introduced: '0' })] }] },
+    ]);
+
+    expect(result).toEqual({ imported: 3, skipped: 1 });
+    expect(db.advisories.a[0]).toMatchObject({ range: '<1.2.3 || >=2.0.0 <2.0.5', fixed: ['1.2.3', '2.0.5'], url: 'https://github.com/advisories/GHSA-1' });
+    expect(db.advisories.b[0]).toMatchObject({ range: '>=1.0.0 <=1.4.0', fixed: [] });
+    expect(db.advisories.c[0]).toMatchObject({ range: '>=3.0.0', fixed: [] });
+  });
+
+  it('rates advisories by their CVSS score when they declare no severity', () => {
+    const db: AdvisoryDatabase = { importedAt: null, advisories: {} };
+    importOsvRecords(db, [
+      osvRecord('GHSA-4', 'd', [events({ introduced: '0' }, { fixed: '1.0.0' })], {
+        severity: [{ type: 'CVSS_V3', score: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H' }],
+      }),
+    ]);
+    expect(db.advisories.d[0]).toMatchObject({ severity: 'critical', cvss: { score: 9.8 } });
+  });
+
+  it('replaces an advisory imported again', () => {
+    const db: AdvisoryDatabase = { importedAt: null, advisories: {} };
+    importOsvRecords(db, [osvRecord('GHSA-5', 'e', [events({ introduced: '0' }, { fixed: '1.0.0' })])]);
+    importOsvRecords(db, [osvRecord('GHSA-5', 'e', [events({ introduced: '0' }, { fixed: '1.0.1' })])]);
+    expect(db.advisories.e).toHaveLength(1);
+    expect(db.advisories.e[0].fixed).toEqual(['1.0.1']);
+  });
+});
+
+describe('fixFor', () => {
+  const node = { name: 'a', version: '1.0.0' };
+
+  it('picks the lowest fixed version above the installed one', () => {
+    expect(fixFor(node, [advisory('1', '<1.2.0 || >=2.0.0 <2.0.5', ['0.9.0', '1.2.0', '2.0.5'])]))
+      .toEqual({ name: 'a', version: '1.2.0', isSemVerMajor: false });
+  });
+
+  it('skips a fix that is inside another advisory\'s range', () => {
+    const advisories = [advisory('1', '<1.2.0', ['1.2.0']), advisory('2', '>=1.2.0 <2.0.0', ['2.0.0'])];
+    expect(fixFor(node, advisories)).toEqual({ name: 'a', version: '2.0.0', isSemVerMajor: true });
+  });
+
+  it('has no fix when every fixed version is still vulnerable', () => {
+    expect(fixFor(node, [advisory('1', '<1.2.0', ['1.2.0']), advisory('2', '>=1.0.0', [])])).toBe(false);
+    expect(fixFor(node, [advisory('1', '<=1.4.0', [])])).toBe(false);
+  });
+});
+
+describe('auditWithDatabase', () => {
+  const packageLock = {
+    lockfileVersion: 3,
+    packages: {
+      '': { name: 'app', dependencies: { web: '^1.0.0' }, devDependencies: { tool: '^1.0.0' } },
+      'node_modules/web': { version: '1.0.0', dependencies: { a: '^1.0.0' } },
+      'node_modules/a': { version: '1.0.0' },
+      'node_modules/tool': { version: '1.0.0', dev: true },
+    },
+  };
+  const manifest = { name: 'app', dependencies: { web: '^1.0.0' }, devDependencies: { tool: '^1.0.0' } };
+  const db: AdvisoryDatabase = {
+    importedAt: null,
+    advisories: { a: [advisory('GHSA-a', '<1.2.0', ['1.2.0'])], tool: [advisory('GHSA-t', '<2.0.0', ['2.0.0'])] },
+  };
+
+  it('reports vulnerable packages and the dependencies they make vulnerable, like npm audit', () => {
+    const { vulnerabilities, metadata } = auditWithDatabase(db, packageLock, manifest);
+
+    expect(vulnerabilities.a).toMatchObject({ severity: 'high', range: '<1.2.0', fixAvailable: { name: 'a', version: '1.2.0' } });
+    expect(vulnerabilities.a.via[0]).toMatchObject({ source: 'GHSA-a' });
+    expect(vulnerabilities.web).toMatchObject({ isDirect: true, via: ['a'] });
+    expect(metadata.vulnerabilities.total).toBe(3);
+  });
+
+  it('leaves out omitted dependency groups', () => {
+    const { vulnerabilities } = auditWithDatabase(db, packageLock, manifest, ['dev']);
+    expect(Object.keys(vulnerabilities).sort()).toEqual(['a', 'web']);
+  });
+});
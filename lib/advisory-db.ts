@@ -0,0 +1,258 @@
+import fs from 'fs';
+import path from 'path';
+import semver from 'semver';
+import type { Severity } from './audit';
+import { cvss3BaseScore } from './cvss';
+import { dependencyGraph, isWorkspaceLocation, Manifest } from './lockfile';
+import type { DependencyScope } from './scopes';
+
+export type StoredAdvisory = {
+  id: string;
+  aliases: string[];
+  title: string;
+  url?: string;
+  severity: Severity;
+  cvss?: { score: number; vectorString: string };
+  cwe: string[];
+  // semver range of affected versions, and the versions that fix it
+  range: string;
+  fixed: string[];
+};
+
+export type AdvisoryDatabase = {
+  importedAt: string | null;
+  advisories: Record<string, StoredAdvisory[]>;
+};
+
+const severityRank: Record<string, number> = { info: 0, low: 1, moderate: 2, high: 3, critical: 4 };
+
+export function loadAdvisoryDatabase(file: string): AdvisoryDatabase {
+  if (!fs.existsSync(file)) {
+    return { importedAt: null, advisories: {} };
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+export function saveAdvisoryDatabase(file: string, db: AdvisoryDatabase) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(db));
+}
+
+export function countAdvisories(db: AdvisoryDatabase) {
+  return Object.values(db.advisories).reduce((total, advisories) => total + advisories.length, 0);
+}
+
+// Merge OSV records (e.g. the GitHub Advisory Database export) into the store.
+// Records for other ecosystems, or without any affected npm range, are skipped;
+// re-importing an advisory replaces the stored copy.
+export function importOsvRecords(db: AdvisoryDatabase, records: any[]) {
+  let imported = 0;
+  let skipped = 0;
+
+  for (const record of records) {
+    const affected = (record?.affected || []).filter((item) => item?.package?.ecosystem === 'npm');
+    let stored = false;
+
+    for (const item of affected) {
+      const { range, fixed } = osvRange(item);
+      if (!range) continue;
+
+      const name = item.package.name;
+      const vector = (record.severity || []).find((entry) => entry.type === 'CVSS_V3')?.score;
+      const score = cvss3BaseScore(vector);
+      const advisory: StoredAdvisory = {
+        id: record.id,
+        aliases: record.aliases || [],
+        title: record.summary || record.details?.split('\n')[0] || record.id,
+        url: advisoryUrl(record),
+        severity: osvSeverity(record, score),
+        cvss: score !== undefined ? { score, vectorString: vector } : undefined,
+        cwe: record.database_specific?.cwe_ids || [],
+        range,
+        fixed,
+      };
+
+      db.advisories[name] = (db.advisories[name] || []).filter((existing) => existing.id !== advisory.id);
+      db.advisories[name].push(advisory);
+      stored = true;
+    }
+
+    if (stored) {
+      imported += 1;
+    } else {
+      skipped += 1;
+    }
+  }
+
+  db.importedAt = new Date().toISOString();
+  return { imported, skipped };
+}
+
+// OSV "events" -> a semver range, e.g. introduced 1.0.0 / fixed 1.2.3 -> ">=1.0.0 <1.2.3"
+function osvRange(affected: any) {
+  const parts: string[] = [];
+  const fixed: string[] = [];
+
+  for (const range of affected.ranges || []) {
+    if (range.type !== 'SEMVER' && range.type !== 'ECOSYSTEM') continue;
+    let lower: string | undefined;
+    for (const event of range.events || []) {
+      if (event.introduced !== undefined) {
+        lower = event.introduced === '0' ? '' : `>=${event.introduced}`;
+      } else if (event.fixed !== undefined) {
+        parts.push(`${lower || ''} <${event.fixed}`.trim());
+        fixed.push(event.fixed);
+        lower = undefined;
+      } else if (event.last_affected !== undefined) {
+        parts.push(`${lower || ''} <=${event.last_affected}`.trim());
+        lower = undefined;
+      }
+    }
+    if (lower !== undefined) {
+      parts.push(lower || '*');
+    }
+  }
+
+  if (parts.length === 0) {
+    parts.push(...(affected.versions || []));
+  }
+  return { range: parts.join(' || '), fixed };
+}
+
+function osvSeverity(record: any, score?: number): Severity {
+  const declared = String(record.database_specific?.severity || '').toLowerCase();
+  if (declared in severityRank) return declared as Severity;
+  if (score === undefined) return 'moderate';
+  if (score >= 9) return 'critical';
+  if (score >= 7) return 'high';
+  if (score >= 4) return 'moderate';
+  return 'low';
+}
+
+function advisoryUrl(record: any) {
+  if (String(record.id).startsWith('GHSA-')) return `https://github.com/advisories/${record.id}`;
+  return (record.references || []).find((item) => item.type === 'ADVISORY')?.url;
+}
+
+function satisfies(version: string, range: string) {
+  return semver.valid(version) !== null && semver.satisfies(version, range, { includePrerelease: true });
+}
+
+// Match every package in the lockfile against the local store and report the
+// result in the same shape as `npm audit --json`, including the "via"/"effects"
+// propagation from vulnerable packages up to our direct dependencies.
+export function auditWithDatabase(db: AdvisoryDatabase, packageLock: any, rootManifest: Manifest, omit: DependencyScope[] = []) {
+  const { nodes, edges } = dependencyGraph(packageLock, rootManifest);
+  // The project and its workspace members are our own code, not packages
+  const included = new Map(nodes.filter((node) => !isWorkspaceLocation(node.id) && !omit.includes(node.scope)).map((node) => [node.id, node]));
+  const parents = new Map<string, string[]>();
+  edges.forEach((edge) => {
+    if (!parents.has(edge.to)) parents.set(edge.to, []);
+    parents.get(edge.to).push(edge.from);
+  });
+
+  const vulnerabilities: Record<string, any> = {};
+  const entryFor = (name: string) => {
+    vulnerabilities[name] = vulnerabilities[name] || {
+      name,
+      severity: 'info',
+      isDirect: false,
+      via: [],
+      effects: [],
+      range: '',
+      nodes: [],
+      fixAvailable: false,
+    };
+    return vulnerabilities[name];
+  };
+  const raise = (entry: any, severity: Severity) => {
+    if (severityRank[severity] > severityRank[entry.severity]) entry.severity = severity;
+  };
+  const addNode = (entry: any, node: any) => {
+    if (!entry.nodes.includes(node.id)) entry.nodes.push(node.id);
+    entry.isDirect = entry.isDirect || node.direct;
+  };
+
+  const vulnerableNodes = [];
+  included.forEach((node) => {
+    const matches = (db.advisories[node.name] || []).filter((advisory) => satisfies(node.version, advisory.range));
+    if (matches.length === 0) return;
+
+    const entry = entryFor(node.name);
+    addNode(entry, node);
+    for (const advisory of matches) {
+      if (!entry.via.some((via) => typeof via === 'object' && via.source === advisory.id)) {
+        entry.via.push({
+          source: advisory.id,
+          name: node.name,
+          dependency: node.name,
+          title: advisory.title,
+          url: advisory.url,
+          severity: advisory.severity,
+          cwe: advisory.cwe,
+          cvss: advisory.cvss || { score: 0, vectorString: null },
+          range: advisory.range,
+        });
+      }
+      raise(entry, advisory.severity);
+    }
+    entry.range = Array.from(new Set(matches.map((advisory) => advisory.range))).join(' || ');
+    entry.fixAvailable = fixFor(node, db.advisories[node.name]) || entry.fixAvailable;
+    vulnerableNodes.push(node);
+  });
+
+  // Everything that depends on a vulnerable package is reported as vulnerable
+  // through it, all the way up to the direct dependencies.
+  for (const vulnerable of vulnerableNodes) {
+    const severity = vulnerabilities[vulnerable.name].severity;
+    const seen = new Set<string>([vulnerable.id]);
+    const queue = [vulnerable];
+    while (queue.length > 0) {
+      const child = queue.shift();
+      for (const parentId of parents.get(child.id) || []) {
+        const parent = included.get(parentId);
+        if (!parent || seen.has(parentId)) continue;
+        seen.add(parentId);
+
+        const entry = entryFor(parent.name);
+        addNode(entry, parent);
+        if (!entry.via.includes(child.name)) entry.via.push(child.name);
+        if (!entry.range) entry.range = parent.version;
+        raise(entry, severity);
+
+        const childEntry = vulnerabilities[child.name];
+        if (!childEntry.effects.includes(parent.name)) childEntry.effects.push(parent.name);
+        queue.push(parent);
+      }
+    }
+  }
+
+  const counts = { info: 0, low: 0, moderate: 0, high: 0, critical: 0, total: 0 };
+  Object.values<any>(vulnerabilities).forEach((entry) => {
+    counts[entry.severity] += 1;
+    counts.total += 1;
+  });
+  const dependencies = { prod: 0, dev: 0, optional: 0, peer: 0, total: included.size };
+  included.forEach((node) => (dependencies[node.scope] += 1));
+
+  return {
+    auditReportVersion: 2,
+    vulnerabilities,
+    metadata: { vulnerabilities: counts, dependencies },
+  };
+}
+
+// The lowest version above the installed one that is outside the range of
+// every advisory for the package, matched or not: one advisory's fix can be in
+// another's range. Only versions some advisory names as fixed are candidates.
+export function fixFor(node: { name: string; version: string }, advisories: StoredAdvisory[]) {
+  const candidates = Array.from(new Set(advisories.flatMap((advisory) => advisory.fixed)))
+    .filter((version) => semver.valid(version) && semver.gt(version, node.version))
+    .sort(semver.compare);
+  const target = candidates.find((version) => advisories.every((advisory) => !satisfies(version, advisory.range)));
+  return target ? {
+    name: node.name,
+    version: target,
+    isSemVerMajor: semver.major(target) > semver.major(node.version),
+  } : false;
+}
@@ -0,0 +1,68 @@
+// Calls to /api/v1 from the dashboard. Only type imports from the server side
+// so nothing of it ends up in the browser bundle.
+import type { ApiError, ApiErrorResponse } from './api-types';
+
+export const apiBase = '/api/v1';
+
+const KEY_STORAGE = 'npm-audit-api-key';
+
+export function storedApiKey(): string | null {
+  return typeof window === 'undefined' ? null : window.localStorage.getItem(KEY_STORAGE);
+}
+
+// Keep the key for later requests, or forget it. The cookie is for EventSource,
+// which can't send headers; the server only takes it on GET requests.
+export function storeApiKey(key: string | null) {
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  if (key) {
+    window.localStorage.setItem(KEY_STORAGE, key);
+    document.cookie = `api_key=${encodeURIComponent(key)}; Path=/api; SameSite=Strict${secure}`;
+  } else {
+    window.localStorage.removeItem(KEY_STORAGE);
+    document.cookie = `api_key=; Path=/api; SameSite=Strict; Max-Age=0${secure}`;
+  }
+}
+
+// A /api/v1 error response, with its message and details as the Error's message
+export class ApiRequestError extends Error {
+  status: number;
+  error: ApiError;
+
+  constructor(status: number, error: ApiError) {
+    super(error.details ? `${error.message}: ${error.details}` : error.message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+    this.error = error;
+  }
+}
+
+type ApiRequestOptions = {
+  method?: string;
+  // sent as JSON; a string is sent as it is, e.g. a policy file's text
+  body?: unknown;
+  signal?: AbortSignal;
+};
+
+// The response of a successful request; anything else throws an ApiRequestError
+export async function apiFetch(path: string, { method = 'GET', body, signal }: ApiRequestOptions = {}): Promise<Response> {
+  const key = storedApiKey();
+  const response = await fetch(`${apiBase}${path}`, {
+    method,
+    signal,
+    headers: {
+      ...(key ? { Authorization: `Bearer ${key}` } : {}),
+      ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+    },
+    ...(body === undefined ? {} : { body: typeof body === 'string' ? body : JSON.stringify(body) }),
+  });
+  if (!response.ok) {
+    const data: Partial<ApiErrorResponse> | null = await response.json().catch(() => null);
+    throw new ApiRequestError(response.status, data?.error || { code: 'internal_error', message: `HTTP error! status: ${response.status}` });
+  }
+  return response;
+}
+
+export async function apiRequest<T>(path: string, options?: ApiRequestOptions): Promise<T> {
+  const response = await apiFetch(path, options);
+  return response.status === 204 ? undefined : response.json();
+}
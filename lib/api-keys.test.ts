@@ -0,0 +1,58 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { findKey, hashKey, issueKey, listKeys, parseApiKeyOptions, revokeKey } from './api-keys';
+
+describe('parseApiKeyOptions', () => {
+  it('trims names and defaults to a member key', () => {
+    expect(parseApiKeyOptions({ name: ' ci ', team: ' payments ', rateLimit: 30 })).toEqual({ name: 'ci', team: 'payments', role: 'member', rateLimit: 30 });
+  });
+
+  it.each([
+    [undefined, 'Invalid key name'],
+    [{ name: 'ci' }, 'Invalid team'],
+    [{ name: 'ci', team: 'a', role: 'owner' }, 'Invalid role'],
+    [{ name: 'ci', team: 'a', concurrency: 0 }, 'Invalid limit'],
+    [{ name: 'ci', team: 'a', rateLimit: 1.5 }, 'Invalid limit'],
+  ])('refuses %j', (body, message) => {
+    expect(() => parseApiKeyOptions(body)).toThrow(message);
+  });
+});
+
+describe('issued keys', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-keys-'));
+    file = path.join(dir, 'keys', 'api-keys.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores only a hash of the key, readable by the owner alone', () => {
+    const { key, apiKey } = issueKey(file, { name: 'ci', team: 'payments', role: 'member' });
+    const stored = fs.readFileSync(file, 'utf8');
+
+    expect(key).toMatch(/^nak_/);
+    expect(apiKey.prefix).toBe(key.slice(0, 10));
+    expect(stored).not.toContain(key);
+    expect(stored).toContain(hashKey(key));
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    expect(listKeys(file)).toEqual([apiKey]);
+  });
+
+  it('finds keys until they are revoked, and keeps them listed after', () => {
+    const { key, apiKey } = issueKey(file, { name: 'ci', team: 'payments', role: 'admin' });
+
+    expect(findKey(file, key)).toEqual(apiKey);
+    expect(findKey(file, `${key}x`)).toBeNull();
+    expect(revokeKey(file, apiKey.id)?.revokedAt).toBeDefined();
+    expect(findKey(file, key)).toBeNull();
+    expect(listKeys(file)[0].revokedAt).toBeDefined();
+    expect(revokeKey(file, 'missing')).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { AuditError } from './workspace';
+
+export type ApiKeyRole = 'admin' | 'member';
+
+// What an issued key may do. Members see their team's saved audits and
+// policies; admins see every team's and manage the keys.
+export type ApiKey = {
+  id: string;
+  name: string;
+  team: string;
+  role: ApiKeyRole;
+  // the start of the key, to tell keys apart without storing them
+  prefix: string;
+  createdAt: string;
+  revokedAt?: string;
+  // requests per minute and audits at once, instead of the configured defaults
+  rateLimit?: number;
+  concurrency?: number;
+};
+
+export type ApiKeyOptions = Pick<ApiKey, 'name' | 'team' | 'role' | 'rateLimit' | 'concurrency'>;
+
+// Only a hash of each key is kept; the key itself is shown once, when issued
+type StoredKey = ApiKey & { hash: string };
+
+const KEY_PREFIX = 'nak_';
+
+export function hashKey(key: string) {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function loadKeys(file: string): StoredKey[] {
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function saveKeys(file: string, keys: StoredKey[]) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(keys, null, 2), { mode: 0o600 });
+}
+
+const withoutHash = ({ hash, ...key }: StoredKey): ApiKey => key;
+
+const isName = (value: unknown) => typeof value === 'string' && value.trim().length > 0 && value.length <= 100;
+
+const isLimit = (value: unknown) => value === undefined || (Number.isInteger(value) && (value as number) > 0);
+
+// Validate the body of a request to issue a key
+export function parseApiKeyOptions(body: any): ApiKeyOptions {
+  const { name, team, role = 'member', rateLimit, concurrency } = body || {};
+  if (!isName(name)) {
+    throw new AuditError(400, 'Invalid key name, expected up to 100 characters');
+  }
+  if (!isName(team)) {
+    throw new AuditError(400, 'Invalid team, expected up to 100 characters');
+  }
+  if (role !== 'admin' && role !== 'member') {
+    throw new AuditError(400, 'Invalid role, expected admin or member');
+  }
+  if (!isLimit(rateLimit) || !isLimit(concurrency)) {
+    throw new AuditError(400, 'Invalid limit, expected a positive integer');
+  }
+  return {
+    name: name.trim(),
+    team: team.trim(),
+    role,
+    ...(rateLimit === undefined ? {} : { rateLimit }),
+    ...(concurrency === undefined ? {} : { concurrency }),
+  };
+}
+
+export function issueKey(file: string, options: ApiKeyOptions): { key: string; apiKey: ApiKey } {
+  const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+  const stored: StoredKey = {
+    id: randomUUID(),
+    ...options,
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    createdAt: new Date().toISOString(),
+    hash: hashKey(key),
+  };
+  saveKeys(file, [...loadKeys(file), stored]);
+  return { key, apiKey: withoutHash(stored) };
+}
+
+// Newest first, revoked ones included
+export function listKeys(file: string): ApiKey[] {
+  return loadKeys(file)
+    .map(withoutHash)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Revoked keys stay listed, so it's clear what happened to them
+export function revokeKey(file: string, id: string): ApiKey | null {
+  const keys = loadKeys(file);
+  const key = keys.find((candidate) => candidate.id === id);
+  if (!key) return null;
+  if (!key.revokedAt) {
+    key.revokedAt = new Date().toISOString();
+    saveKeys(file, keys);
+  }
+  return withoutHash(key);
+}
+
+// The issued key a request presented, unless it has been revoked
+export function findKey(file: string, key: string): ApiKey | null {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+  const hash = hashKey(key);
+  const stored = loadKeys(file).find((candidate) => candidate.hash === hash && !candidate.revokedAt);
+  return stored ? withoutHash(stored) : null;
+}
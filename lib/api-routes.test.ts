@@ -0,0 +1,114 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Caller } from './access';
+import { auditRoute, batchAuditRoute, comparisonRoute } from './api-routes';
+import { notifyAudit } from './notifications';
+import type { AuditResult } from './report';
+import { auditRequest } from './workspace';
+
+vi.mock('./workspace', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./workspace')>()),
+  auditRequest: vi.fn(),
+}));
+
+vi.mock('./notifications', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./notifications')>()),
+  notifyAudit: vi.fn(async () => undefined),
+}));
+
+const finding: AuditResult = {
+  name: 'a',
+  version: '1.0.0',
+  vulnerability: 'a is vulnerable',
+  severity: 'critical',
+  recommendation: 'Upgrade a',
+  advisories: [{ source: 1, id: 'GHSA-a', title: 'a is vulnerable', url: 'https://github.com/advisories/GHSA-a', severity: 'critical', cwe: [] }],
+};
+
+const caller: Caller = { keyId: 'key-1', name: 'ci', team: 'payments', role: 'member', rateLimit: 0, concurrency: 0 };
+
+const manifest = { name: 'app', version: '1.0.0', dependencies: { a: '^1.0.0' } };
+
+function response() {
+  const res: any = { headers: {} };
+  res.status = vi.fn(() => res);
+  res.json = vi.fn((body) => (res.body = body));
+  res.send = vi.fn((body) => (res.body = body));
+  res.setHeader = vi.fn((name, value) => (res.headers[name] = value));
+  return res;
+}
+
+async function call(route: typeof auditRoute, body: any, query: any = {}) {
+  const res = response();
+  await route.handle({ method: 'POST', url: '/api/v1/audit', query, body } as any, res, caller);
+  return res;
+}
+
+describe('audit notifications', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-routes-'));
+    vi.stubEnv('HISTORY_DIR', dir);
+    vi.mocked(auditRequest).mockResolvedValue({
+      result: { advisorySource: 'registry', vulnerabilities: [finding], suppressed: [], licenses: null },
+      tree: { packageJson: manifest },
+    } as any);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.unstubAllEnvs();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('notifies about an audit that isn\'t saved', async () => {
+    const res = await call(auditRoute, { manifest });
+
+    expect(res.body.run).toBeNull();
+    expect(notifyAudit).toHaveBeenCalledWith({
+      project: undefined,
+      team: 'payments',
+      runId: undefined,
+      advisorySource: 'registry',
+      vulnerabilities: [finding],
+      previousAdvisories: null,
+    });
+  });
+
+  it('notifies about a saved run with the advisories of the run before it', async () => {
+    await call(auditRoute, { manifest, project: 'web' });
+    const res = await call(auditRoute, { manifest, project: 'web' });
+
+    expect(notifyAudit).toHaveBeenCalledTimes(2);
+    const outcome = vi.mocked(notifyAudit).mock.calls[1][0];
+    expect(outcome).toMatchObject({ project: 'web', team: 'payments', runId: res.body.run.id });
+    expect(Array.from(outcome.previousAdvisories)).toEqual(['a:GHSA-a']);
+  });
+
+  it('notifies when the run fails to save', async () => {
+    fs.writeFileSync(path.join(dir, 'runs'), 'not a directory');
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const res = await call(auditRoute, { manifest, project: 'web' });
+
+    expect(res.body.run).toBeNull();
+    expect(notifyAudit).toHaveBeenCalledWith(expect.objectContaining({ project: 'web', runId: undefined, previousAdvisories: null }));
+  });
+
+  it('doesn\'t notify about exports of an audit', async () => {
+    await call(auditRoute, { manifest }, { format: 'sarif' });
+
+    expect(notifyAudit).not.toHaveBeenCalled();
+  });
+
+  it('notifies about every project of a batch and both sides of a comparison', async () => {
+    await call(batchAuditRoute, { projects: [{ path: 'api', manifest }, { path: 'web', manifest }] });
+    expect(notifyAudit).toHaveBeenCalledTimes(2);
+
+    await call(comparisonRoute, { base: { manifest }, head: { manifest } });
+    expect(notifyAudit).toHaveBeenCalledTimes(4);
+    expect(notifyAudit).toHaveBeenLastCalledWith(expect.objectContaining({ team: 'payments', vulnerabilities: [finding] }));
+  });
+});
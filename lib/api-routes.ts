@@ -0,0 +1,470 @@
+import type { NextApiRequest } from 'next';
+import { acquireAuditSlot, Caller, canAccessTeam, teamDirectory } from './access';
+import { countAdvisories, importOsvRecords, loadAdvisoryDatabase, saveAdvisoryDatabase } from './advisory-db';
+import { ApiRoute, queryParam } from './api';
+import { issueKey, listKeys, parseApiKeyOptions, revokeKey } from './api-keys';
+import type { AdvisoryDatabaseResponse, AuditResponse, ComparisonResponse, HistoryResponse } from './api-types';
+import { validateBody } from './api-schema';
+import { auditBatch, parseBatchRequest } from './batch';
+import { compareAudits } from './compare';
+import { accessConfig, advisoryDatabasePath, advisorySource, historyDirectory, policyDirectory } from './config';
+import { buildFixPlan, resolveFixedLockfile } from './fix-plan';
+import { AuditRun, AuditRunInfo, listProjects, listRuns, loadLatestRun, loadRun, saveRun, summarizeVulnerabilities } from './history';
+import { cancelJob, getJob, Job, JobEvent, submitJob, subscribeJob } from './jobs';
+import { advisoryKeys, notifyAudit, testNotifications } from './notifications';
+import { deletePolicy, loadPolicy, parsePolicy, savePolicy } from './policy';
+import { parseRemoteTarget, remoteRequest } from './remote';
+import { createSarifLog, sarifSources } from './sarif';
+import { createCycloneDx, createSpdx } from './sbom';
+import { AuditError, AuditRequest, auditRequest, parseAuditRequest, runAudit, withWorkspace } from './workspace';
+
+const formats = {
+  sarif: 'application/sarif+json',
+  cyclonedx: 'application/vnd.cyclonedx+json',
+  spdx: 'application/spdx+json',
+};
+
+// Tell the channels that care about an audit's result, in the background.
+// Findings at a channel's severity notify whether or not the audit is saved;
+// new advisories need a saved run, and the run before it to compare with.
+function notifyResult(request: AuditRequest, result: Pick<AuditResponse, 'advisorySource' | 'vulnerabilities'>, run?: AuditRunInfo, previous?: AuditRun | null) {
+  notifyAudit({
+    project: request.project,
+    team: request.team,
+    runId: run?.id,
+    advisorySource: result.advisorySource,
+    vulnerabilities: result.vulnerabilities,
+    previousAdvisories: run && previous ? advisoryKeys(previous.vulnerabilities) : null,
+  }).catch((error) => console.error('Failed to send notifications:', error));
+}
+
+// Save the run of a named project and notify about it. A failure to save the
+// run shouldn't cost the caller the audit itself, or the notification.
+async function recordAudit(request: AuditRequest, result: AuditResponse): Promise<AuditRunInfo | null> {
+  let run: AuditRunInfo | null = null;
+  let previous: AuditRun | null = null;
+  if (request.project) {
+    try {
+      previous = loadLatestRun(historyDirectory(), request.project, request.team);
+      run = await saveRun(historyDirectory(), { ...result, project: request.project, team: request.team });
+    } catch (error) {
+      console.error('Failed to save audit run:', error);
+    }
+  }
+  notifyResult(request, result, run, previous);
+  return run;
+}
+
+function isJsonObject(text: unknown) {
+  try {
+    const value = typeof text === 'string' && JSON.parse(text);
+    return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+  } catch {
+    return false;
+  }
+}
+
+// The audit request in the body, for the caller's team
+function callerRequest(body: any, caller: Caller, options?: Parameters<typeof parseAuditRequest>[1]): AuditRequest {
+  return { ...parseAuditRequest(body, options), team: caller.team };
+}
+
+// Where the route was called, so responses can point at what they created
+function requestPath(req: NextApiRequest) {
+  return (req.url || '').split('?')[0];
+}
+
+// POST audits an uploaded lockfile, manifest or dependency map, or reads an
+// audit report or SBOM. ?format=sarif|cyclonedx|spdx responds with a SARIF
+// 2.1.0 log or an SBOM of the audited tree instead of the dashboard's JSON.
+export const auditRoute: ApiRoute = {
+  methods: ['POST'],
+  failure: 'Failed to perform npm audit',
+  audits: true,
+  handle: async (req, res, caller) => {
+    const format = req.query.format || 'json';
+    if (format !== 'json' && !(typeof format === 'string' && format in formats)) {
+      throw new AuditError(400, `Invalid format, expected json, ${Object.keys(formats).join(', ')}`);
+    }
+
+    validateBody('AuditRequest', req.body);
+    const request = callerRequest(req.body, caller);
+    const { result, tree } = await auditRequest(request);
+
+    // an export of an audit the dashboard already ran, not a new run
+    if (format !== 'json') {
+      if (!tree.packageLock && format !== 'sarif') {
+        // an imported audit report doesn't describe the tree
+        throw request.report
+          ? new AuditError(400, 'An SBOM needs the resolved tree, upload the lockfile along with the report')
+          : new AuditError(500, 'Failed to read package-lock.json');
+      }
+      const document =
+        format === 'sarif' ? createSarifLog(result.vulnerabilities, sarifSources(request, req.body.packageJson), result.suppressed) :
+          format === 'cyclonedx' ? createCycloneDx(tree, result.vulnerabilities) :
+            createSpdx(tree, result.vulnerabilities);
+      res.setHeader('Content-Type', formats[format]);
+      return res.status(200).send(JSON.stringify(document, null, 2));
+    }
+
+    res.status(200).json({ ...result, run: await recordAudit(request, result) });
+  },
+};
+
+// POST takes an audit request body and queues the audit, responding 202 with
+// the job; GET <path>/<id> has its status and result, and <path>/<id>/events
+// streams its stages. The job holds one of the caller's audit slots until it
+// ends.
+export const jobsRoute: ApiRoute = {
+  methods: ['POST'],
+  failure: 'Failed to queue npm audit',
+  handle: async (req, res, caller) => {
+    // invalid requests are refused up front, not as failed jobs
+    validateBody('AuditRequest', req.body);
+    const request = callerRequest(req.body, caller);
+    const release = acquireAuditSlot(caller);
+    let job: Job;
+    try {
+      job = submitJob(async (progress) => {
+        const { result } = await auditRequest(request, progress);
+        return { ...result, run: await recordAudit(request, result) };
+      }, { team: caller.team, onFinish: release });
+    } catch (error) {
+      release();
+      throw error;
+    }
+
+    res.setHeader('Location', `${requestPath(req)}/${job.id}`);
+    res.status(202).json(job);
+  },
+};
+
+// Other teams' jobs are as good as unknown
+function callerJob(id: string, caller: Caller) {
+  const job = getJob(id);
+  if (!job || !canAccessTeam(caller, job.team)) {
+    throw new AuditError(404, 'Audit job not found');
+  }
+  return job;
+}
+
+// GET returns the job, with the audit result once it's done; DELETE cancels
+// it if it hasn't finished yet.
+export const jobRoute: ApiRoute = {
+  methods: ['GET', 'DELETE'],
+  failure: 'Failed to read audit job',
+  handle: async (req, res, caller) => {
+    const id = String(req.query.id);
+    const job = callerJob(id, caller);
+    res.status(200).json(req.method === 'DELETE' ? cancelJob(id) : job);
+  },
+};
+
+// Server-Sent Events for a job: a "stage" event for each stage so far and as
+// they start, then one "end" event with the final status. The result itself is
+// fetched from the job.
+export const jobEventsRoute: ApiRoute = {
+  methods: ['GET'],
+  failure: 'Failed to follow audit job',
+  handle: async (req, res, caller) => {
+    const id = String(req.query.id);
+    const job = callerJob(id, caller);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // compression would hold the events back until the stream ends
+      'Content-Encoding': 'none',
+    });
+    const send = (event: JobEvent) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.type === 'stage' ? event.stage : { status: event.status })}\n\n`);
+    };
+
+    job.stages.forEach((stage) => send({ type: 'stage', stage }));
+    await new Promise<void>((resolve) => {
+      const unsubscribe = subscribeJob(id, (event) => {
+        send(event);
+        if (event.type === 'end') {
+          unsubscribe();
+          resolve();
+        }
+      });
+      if (!unsubscribe) {
+        // finished before we got here
+        send({ type: 'end', status: getJob(id)?.status || job.status });
+        return resolve();
+      }
+      req.on('close', () => {
+        unsubscribe();
+        resolve();
+      });
+    });
+    res.end();
+  },
+};
+
+// POST { target, omit?, include?, project? } audits an npm package spec
+// ("express@4.17.1") or a Git repository URL without uploading anything, and
+// responds like an audit with a description of what was fetched.
+export const remoteAuditRoute: ApiRoute = {
+  methods: ['POST'],
+  failure: 'Failed to perform remote audit',
+  audits: true,
+  handle: async (req, res, caller) => {
+    validateBody('RemoteAuditRequest', req.body);
+    const { target, omit, include, project } = req.body;
+    const remote = await remoteRequest(parseRemoteTarget(target));
+    const request = callerRequest({ ...remote.body, omit, include, project }, caller, { allowSpecs: remote.allowSpecs });
+    const { result } = await auditRequest(request);
+    res.status(200).json({ ...result, run: await recordAudit(request, result), description: remote.description });
+  },
+};
+
+// POST { projects: [{ path, ...audit request }] } audits a monorepo's or a
+// multi-project upload's lockfiles and breaks the findings down per workspace.
+export const batchAuditRoute: ApiRoute = {
+  methods: ['POST'],
+  failure: 'Failed to perform batch audit',
+  audits: true,
+  handle: async (req, res, caller) => {
+    validateBody('BatchAuditRequest', req.body);
+    res.status(200).json(await auditBatch(parseBatchRequest(req.body, caller.team), notifyResult));
+  },
+};
+
+// Takes an audit request body, plus the raw package.json text (if there is
+// one) so the diff applies cleanly to the user's file.
+export const fixPlanRoute: ApiRoute = {
+  methods: ['POST'],
+  failure: 'Failed to build fix plan',
+  audits: true,
+  handle: async (req, res, caller) => {
+    validateBody('AuditRequest', req.body);
+    const request = callerRequest(req.body, caller);
+    if (request.report) {
+      throw new AuditError(400, 'A fix plan needs a package.json or lockfile to patch, not a report');
+    }
+    const { packageJson } = req.body;
+    if (packageJson !== undefined && !isJsonObject(packageJson)) {
+      throw new AuditError(400, 'Invalid packageJson, expected the contents of a package.json file');
+    }
+
+    const plan = await withWorkspace(request, undefined, async (workspace) => {
+      const auditOutput = await runAudit(workspace, request.scopeOptions);
+      const plan = buildFixPlan(auditOutput, workspace.packageJson, packageJson);
+
+      // Resolving the patched manifest needs the registry
+      if (workspace.source.type !== 'local' && (plan.upgrades.length > 0 || plan.inRange.length > 0)) {
+        plan.lockfile = await resolveFixedLockfile(workspace, plan);
+      }
+      return { ...plan, unresolved: workspace.unresolved };
+    });
+
+    res.status(200).json(plan);
+  },
+};
+
+// Each side is either a saved run ({ runId }) or an audit request body, whose
+// project's policy applies. Comparisons are never saved to the history themselves.
+async function auditSide(side: any, label: string, caller: Caller) {
+  if (side.runId !== undefined) {
+    const run = loadRun(historyDirectory(), side.runId);
+    if (!run || !canAccessTeam(caller, run.team)) {
+      throw new AuditError(404, `Saved ${label} audit not found`);
+    }
+    return { label: `${run.project}, ${run.createdAt}`, result: run };
+  }
+
+  const request = callerRequest(side, caller);
+  const { result } = await auditRequest(request);
+  notifyResult(request, result);
+  return { label: side.label, result };
+}
+
+// POST { base, head } audits both sides (one after the other) and reports the
+// findings the head introduces, resolves, and shares with the base.
+export const comparisonRoute: ApiRoute = {
+  methods: ['POST'],
+  failure: 'Failed to compare audits',
+  audits: true,
+  handle: async (req, res, caller) => {
+    validateBody('ComparisonRequest', req.body);
+    const base = await auditSide(req.body.base, 'base', caller);
+    const head = await auditSide(req.body.head, 'head', caller);
+    const delta = compareAudits(base.result.vulnerabilities, head.result.vulnerabilities);
+
+    const comparison: ComparisonResponse = {
+      base: { label: base.label, advisorySource: base.result.advisorySource, summary: summarizeVulnerabilities(base.result.vulnerabilities) },
+      head: { label: head.label, advisorySource: head.result.advisorySource, summary: summarizeVulnerabilities(head.result.vulnerabilities) },
+      ...delta,
+    };
+    res.status(200).json(comparison);
+  },
+};
+
+// GET lists every project with its latest run, and every run; with
+// ?project=name, only that project's runs. Runs are oldest first, and only
+// the caller's team's.
+export const historyRoute: ApiRoute = {
+  methods: ['GET'],
+  failure: 'Failed to read audit history',
+  handle: async (req, res, caller) => {
+    const project = queryParam(req, 'project');
+    const visible = (run: AuditRunInfo) => canAccessTeam(caller, run.team);
+    const history: HistoryResponse = project !== undefined
+      ? { project, runs: listRuns(historyDirectory(), project, visible) }
+      : { projects: listProjects(historyDirectory(), visible), runs: listRuns(historyDirectory(), undefined, visible) };
+    res.status(200).json(history);
+  },
+};
+
+// GET returns a saved run in the same shape the audit responded with.
+export const historyRunRoute: ApiRoute = {
+  methods: ['GET'],
+  failure: 'Failed to read audit run',
+  handle: async (req, res, caller) => {
+    const run = loadRun(historyDirectory(), String(req.query.id));
+    if (!run || !canAccessTeam(caller, run.team)) {
+      throw new AuditError(404, 'Audit run not found');
+    }
+    res.status(200).json(run);
+  },
+};
+
+// The policy audits saved under this project name are checked against, when
+// the request doesn't bring its own. GET returns it, PUT replaces it with the
+// policy in the body, DELETE removes it. Each team has its own.
+export const policyRoute: ApiRoute = {
+  methods: ['GET', 'PUT', 'DELETE'],
+  failure: 'Failed to access project policy',
+  handle: async (req, res, caller) => {
+    const directory = teamDirectory(policyDirectory(), caller.team);
+    const project = String(req.query.project).trim();
+    if (!project || project.length > 100) {
+      throw new AuditError(400, 'Invalid project name, expected up to 100 characters');
+    }
+
+    if (req.method === 'PUT') {
+      let policy;
+      try {
+        policy = parsePolicy(req.body);
+      } catch (error) {
+        throw new AuditError(400, 'Invalid policy', error.message);
+      }
+      savePolicy(directory, project, policy);
+      return res.status(200).json({ project, policy });
+    }
+
+    if (req.method === 'DELETE') {
+      if (!deletePolicy(directory, project)) {
+        throw new AuditError(404, 'No policy stored for this project');
+      }
+      return res.status(204).end();
+    }
+
+    const policy = loadPolicy(directory, project);
+    if (!policy) {
+      throw new AuditError(404, 'No policy stored for this project');
+    }
+    res.status(200).json({ project, policy });
+  },
+};
+
+// GET reports the state of the local advisory database, POST imports OSV
+// records into it (a JSON array, or { records: [...] }); importing is for
+// admins.
+export const advisoriesRoute: ApiRoute = {
+  methods: ['GET', 'POST'],
+  failure: 'Failed to update advisory database',
+  adminMethods: ['POST'],
+  handle: async (req, res) => {
+    const databasePath = advisoryDatabasePath();
+
+    if (req.method === 'GET') {
+      const db = loadAdvisoryDatabase(databasePath);
+      const status: AdvisoryDatabaseResponse = {
+        source: advisorySource().type,
+        importedAt: db.importedAt,
+        packages: Object.keys(db.advisories).length,
+        advisories: countAdvisories(db),
+      };
+      return res.status(200).json(status);
+    }
+
+    const records = Array.isArray(req.body) ? req.body : req.body?.records;
+    if (!Array.isArray(records)) {
+      throw new AuditError(400, 'Expected an array of OSV records');
+    }
+
+    const db = loadAdvisoryDatabase(databasePath);
+    const result = importOsvRecords(db, records);
+    saveAdvisoryDatabase(databasePath, db);
+    console.log(`Imported ${result.imported} advisories (${result.skipped} skipped) into ${databasePath}`);
+
+    res.status(200).json({ ...result, advisories: countAdvisories(db) });
+  },
+};
+
+// GET lists the issued API keys, POST { name, team, role?, rateLimit?,
+// concurrency? } issues one and responds with the key itself, which is never
+// shown again.
+export const apiKeysRoute: ApiRoute = {
+  methods: ['GET', 'POST'],
+  failure: 'Failed to manage API keys',
+  adminMethods: ['GET', 'POST'],
+  handle: async (req, res) => {
+    const { keysFile } = accessConfig();
+    if (req.method === 'GET') {
+      return res.status(200).json({ keys: listKeys(keysFile) });
+    }
+
+    validateBody('ApiKeyRequest', req.body);
+    const { key, apiKey } = issueKey(keysFile, parseApiKeyOptions(req.body));
+    console.log(`Issued API key ${apiKey.prefix}… "${apiKey.name}" for ${apiKey.team}`);
+    res.setHeader('Location', `${requestPath(req)}/${apiKey.id}`);
+    res.status(201).json({ ...apiKey, key });
+  },
+};
+
+// DELETE revokes a key; requests with it are refused from then on
+export const apiKeyRoute: ApiRoute = {
+  methods: ['DELETE'],
+  failure: 'Failed to revoke API key',
+  adminMethods: ['DELETE'],
+  handle: async (req, res) => {
+    const apiKey = revokeKey(accessConfig().keysFile, String(req.query.id));
+    if (!apiKey) {
+      throw new AuditError(404, 'API key not found');
+    }
+    console.log(`Revoked API key ${apiKey.prefix}… "${apiKey.name}"`);
+    res.status(200).json(apiKey);
+  },
+};
+
+// GET tells callers who their key says they are, and their limits
+export const callerRoute: ApiRoute = {
+  methods: ['GET'],
+  failure: 'Failed to read the API key',
+  handle: async (req, res, caller) => {
+    const { keyId, ...info } = caller;
+    res.status(200).json(info);
+  },
+};
+
+// POST sends every notification channel a made-up notification, whatever its
+// filters, and reports which got it
+export const notificationTestRoute: ApiRoute = {
+  methods: ['POST'],
+  failure: 'Failed to send test notifications',
+  adminMethods: ['POST'],
+  handle: async (req, res) => {
+    let results;
+    try {
+      results = await testNotifications();
+    } catch (error) {
+      throw new AuditError(400, 'Invalid notification settings', error.message);
+    }
+    res.status(200).json({ results });
+  },
+};
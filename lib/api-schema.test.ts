@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { JsonSchema, schemaErrors, validateBody } from './api-schema';
+import { parseBatchRequest } from './batch';
+
+describe('schemaErrors', () => {
+  it('follows references and reports every problem with where it is', () => {
+    expect(schemaErrors({ $ref: '#/components/schemas/BatchAuditRequest' }, {
+      projects: [{ path: 'web', refresh: 'yes' }, { project: '' }],
+    })).toEqual([
+      'body.projects[0].refresh: expected boolean',
+      'body.projects[1].path: required',
+      'body.projects[1].project: expected at least 1 characters',
+    ]);
+  });
+
+  it('accepts a value matching any of the alternatives', () => {
+    const schema: JsonSchema = { anyOf: [{ type: 'string' }, { type: 'object' }] };
+    expect(schemaErrors(schema, 'policy')).toEqual([]);
+    expect(schemaErrors(schema, 42)).toEqual(['body: expected string']);
+  });
+});
+
+describe('validateBody', () => {
+  it('refuses a body that breaks the named schema with the issues attached', () => {
+    expect(() => validateBody('RemoteAuditRequest', { target: 'express' })).not.toThrow();
+    expect(() => validateBody('RemoteAuditRequest', {})).toThrow(expect.objectContaining({
+      status: 400,
+      message: 'Invalid request body',
+      details: 'body.target: required',
+    }));
+  });
+});
+
+describe('parseBatchRequest', () => {
+  it('audits every project for the caller\'s team with its own policy', () => {
+    const projects = parseBatchRequest({ projects: [{ path: 'web', project: 'web', dependencies: { a: '^1.0.0' } }] }, 'payments');
+    expect(projects[0]).toMatchObject({ path: 'web', request: { project: 'web', team: 'payments' } });
+  });
+
+  it('names the project a request fails for, and refuses paths outside the upload', () => {
+    expect(() => parseBatchRequest({ projects: [{ path: 'web', omit: ['docs'] }] })).toThrow('web: Invalid omit/include option');
+    expect(() => parseBatchRequest({ projects: [{ path: '../web' }] })).toThrow('Invalid path for project 1');
+    expect(() => parseBatchRequest({ projects: [] })).toThrow('Invalid batch');
+  });
+});
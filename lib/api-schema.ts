@@ -0,0 +1,378 @@
+import { AuditError } from './workspace';
+
+// The subset of JSON Schema the API's bodies are described with. The same
+// schemas validate requests at runtime and make up the OpenAPI document's
+// components, see lib/openapi.ts.
+export type JsonSchema = {
+  $ref?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null' | Array<'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'>;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  format?: string;
+};
+
+export const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+const severity: JsonSchema = { type: 'string', enum: ['info', 'low', 'moderate', 'high', 'critical'] };
+const dependencyMap: JsonSchema = { type: 'object', additionalProperties: { type: 'string' } };
+const scopeOption: JsonSchema = {
+  anyOf: [ref('OmittableScope'), { type: 'array', items: ref('OmittableScope') }],
+};
+const uploadedFile = (types: string[], description: string): JsonSchema => ({
+  type: 'object',
+  description,
+  required: ['content'],
+  properties: {
+    type: { type: 'string', enum: types, description: 'Detected from the file name and content when left out' },
+    fileName: { type: 'string' },
+    content: { type: 'string' },
+  },
+});
+const runSummary: JsonSchema = {
+  type: 'object',
+  properties: Object.fromEntries(['info', 'low', 'moderate', 'high', 'critical', 'total', 'advisories'].map((key) => [key, { type: 'integer' }])),
+};
+
+const auditRequest: JsonSchema = {
+  type: 'object',
+  description: 'One of report, lockfile, manifest or dependencies says what to audit',
+  properties: {
+    dependencies: { ...dependencyMap, description: 'Package names and ranges, resolved against the registry' },
+    manifest: ref('Manifest'),
+    lockfile: uploadedFile(['npm', 'yarn-classic', 'yarn-berry', 'pnpm'], 'A lockfile, audited as it is'),
+    members: {
+      type: 'object',
+      description: 'package.json contents of monorepo members by directory, for yarn lockfiles',
+      additionalProperties: ref('Manifest'),
+    },
+    report: uploadedFile(['audit-report', 'sbom'], 'An `npm audit --json` report or a CycloneDX or SPDX SBOM, shown as it is'),
+    omit: scopeOption,
+    include: scopeOption,
+    project: { type: 'string', minLength: 1, maxLength: 100, description: 'Apply this project\'s stored policy, and save audits (not batches, comparisons or fix plans) to its history' },
+    policy: { anyOf: [{ type: 'string' }, { type: 'object' }], description: 'An audit policy, instead of the project\'s' },
+    refresh: { type: 'boolean', description: 'Skip cached trees and results' },
+    packageJson: { type: 'string', description: 'The raw package.json text, for SARIF locations and fix plan diffs' },
+  },
+};
+
+export const apiSchemas: Record<string, JsonSchema> = {
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: {
+        type: 'object',
+        required: ['code', 'message'],
+        properties: {
+          code: {
+            type: 'string',
+            enum: ['invalid_request', 'unauthorized', 'forbidden', 'not_found', 'method_not_allowed', 'conflict',
+              'payload_too_large', 'rate_limited', 'internal_error', 'upstream_error', 'unavailable', 'timeout'],
+          },
+          message: { type: 'string' },
+          details: { type: 'string' },
+        },
+      },
+    },
+  },
+  OmittableScope: { type: 'string', enum: ['dev', 'optional', 'peer'] },
+  Manifest: {
+    type: 'object',
+    description: 'The contents of a package.json',
+    properties: {
+      name: { type: 'string' },
+      version: { type: 'string' },
+      dependencies: dependencyMap,
+      devDependencies: dependencyMap,
+      optionalDependencies: dependencyMap,
+      peerDependencies: dependencyMap,
+    },
+  },
+  AuditRequest: auditRequest,
+  RemoteAuditRequest: {
+    type: 'object',
+    required: ['target'],
+    properties: {
+      target: { type: 'string', minLength: 1, maxLength: 500, description: 'An npm package spec like express@4.17.1 or a Git repository URL on a host in GIT_ALLOWED_HOSTS' },
+      omit: scopeOption,
+      include: scopeOption,
+      project: { type: 'string', minLength: 1, maxLength: 100 },
+    },
+  },
+  BatchAuditRequest: {
+    type: 'object',
+    required: ['projects'],
+    properties: {
+      projects: {
+        type: 'array',
+        minItems: 1,
+        maxItems: 50,
+        items: {
+          ...auditRequest,
+          required: ['path'],
+          description: 'An audit request and the project\'s directory within the upload',
+          properties: { path: { type: 'string' }, ...auditRequest.properties },
+        },
+      },
+    },
+  },
+  ComparisonRequest: {
+    type: 'object',
+    required: ['base', 'head'],
+    properties: {
+      base: ref('ComparisonSide'),
+      head: ref('ComparisonSide'),
+    },
+  },
+  ComparisonSide: {
+    ...auditRequest,
+    description: 'A saved run as { runId }, or an audit request with an optional label',
+    properties: { runId: { type: 'string' }, label: { type: 'string' }, ...auditRequest.properties },
+  },
+  Policy: {
+    type: 'object',
+    properties: {
+      threshold: severity,
+      ignore: { type: 'array', items: { type: 'object', required: ['id', 'reason'] } },
+      allow: { type: 'array', items: { type: 'object', required: ['package'] } },
+      block: { type: 'array', items: { type: 'object', required: ['package'] } },
+      licenses: { type: 'object' },
+    },
+  },
+  AdvisoryImport: {
+    anyOf: [
+      { type: 'array', items: { type: 'object' } },
+      { type: 'object', required: ['records'], properties: { records: { type: 'array', items: { type: 'object' } } } },
+    ],
+    description: 'OSV records, as an array or { records }',
+  },
+  Advisory: {
+    type: 'object',
+    properties: {
+      source: { type: ['integer', 'string'] },
+      id: { type: 'string' },
+      title: { type: 'string' },
+      url: { type: 'string' },
+      severity: { type: 'string' },
+      cvssScore: { type: 'number' },
+      cvssVector: { type: 'string' },
+      cwe: { type: 'array', items: { type: 'string' } },
+      range: { type: 'string' },
+    },
+  },
+  Finding: {
+    type: 'object',
+    required: ['name', 'version', 'vulnerability', 'severity', 'recommendation'],
+    properties: {
+      name: { type: 'string' },
+      version: { type: 'string', description: 'The vulnerable range' },
+      vulnerability: { type: 'string' },
+      severity: { type: 'string', enum: ['info', 'low', 'moderate', 'high', 'critical', 'unknown'] },
+      recommendation: { type: 'string' },
+      cvssScore: { type: 'number' },
+      url: { type: 'string' },
+      scopes: { type: 'array', items: { type: 'string' } },
+      advisories: { type: 'array', items: ref('Advisory') },
+      isDirect: { type: 'boolean' },
+      causes: { type: 'array', items: { type: 'string' } },
+      effects: { type: 'array', items: { type: 'string' } },
+      paths: { type: 'array', items: { type: 'array', items: { type: 'string' } } },
+      suppression: { type: 'object' },
+      policyViolation: { type: 'string', enum: ['blocked', 'license'] },
+    },
+  },
+  RunSummary: runSummary,
+  RunInfo: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      project: { type: 'string' },
+      createdAt: { type: 'string', format: 'date-time' },
+      advisorySource: { type: 'string' },
+      summary: ref('RunSummary'),
+    },
+  },
+  AuditResponse: {
+    type: 'object',
+    required: ['vulnerabilities', 'suppressed', 'advisorySource', 'unresolved', 'metadata'],
+    properties: {
+      vulnerabilities: { type: 'array', items: ref('Finding') },
+      suppressed: { type: 'array', items: ref('Finding'), description: 'Findings the audit policy accepted' },
+      policySource: { type: ['string', 'null'], enum: ['upload', 'project', null] },
+      licenses: { type: ['object', 'null'], description: 'Every package\'s licence, its category and policy violations' },
+      graph: { type: ['object', 'null'], description: 'The dependency graph with vulnerable nodes marked' },
+      advisorySource: { type: 'string', enum: ['npm', 'registry', 'local', 'import'] },
+      unresolved: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' }, range: { type: 'string' }, reason: { type: 'string' } } } },
+      metadata: {
+        type: 'object',
+        properties: {
+          vulnerabilities: { type: 'object' },
+          dependencies: { type: 'object' },
+          cache: { type: 'object', description: 'Whether the tree and results came from the cache' },
+          timings: { type: 'object', description: 'Milliseconds spent in each stage', additionalProperties: { type: 'integer' } },
+        },
+      },
+      run: { anyOf: [ref('RunInfo'), { type: 'null' }] },
+    },
+  },
+  Job: {
+    type: 'object',
+    required: ['id', 'status', 'stages', 'createdAt'],
+    properties: {
+      id: { type: 'string' },
+      status: { type: 'string', enum: ['queued', 'running', 'done', 'failed', 'cancelled'] },
+      stages: {
+        type: 'array',
+        items: { type: 'object', properties: { stage: { type: 'string' }, message: { type: 'string' }, at: { type: 'string', format: 'date-time' } } },
+      },
+      createdAt: { type: 'string', format: 'date-time' },
+      startedAt: { type: 'string', format: 'date-time' },
+      finishedAt: { type: 'string', format: 'date-time' },
+      position: { type: 'integer', description: 'Jobs ahead of this one while it\'s queued' },
+      result: ref('AuditResponse'),
+      error: { type: 'object', description: 'The error of a failed job, as in an error response' },
+    },
+  },
+  BatchAuditResponse: {
+    type: 'object',
+    properties: {
+      workspaces: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            path: { type: 'string' },
+            name: { type: 'string' },
+            project: { type: 'string' },
+            summary: ref('RunSummary'),
+            vulnerabilities: { type: 'array', items: ref('Finding') },
+            suppressed: { type: 'array', items: ref('Finding') },
+            error: { type: 'string' },
+          },
+        },
+      },
+      vulnerabilities: { type: 'array', items: ref('Finding') },
+      summary: ref('RunSummary'),
+    },
+  },
+  FixPlan: {
+    type: 'object',
+    properties: {
+      upgrades: { type: 'array', items: { type: 'object' } },
+      inRange: { type: 'array', items: { type: 'string' } },
+      unfixable: { type: 'array', items: { type: 'string' } },
+      packageJson: { type: 'string' },
+      diff: { type: 'string', description: 'A unified diff of package.json' },
+      lockfile: { type: ['object', 'null'] },
+      unresolved: { type: 'array', items: { type: 'object' } },
+    },
+  },
+  ComparisonResponse: {
+    type: 'object',
+    properties: {
+      base: { type: 'object', properties: { label: { type: 'string' }, advisorySource: { type: 'string' }, summary: ref('RunSummary') } },
+      head: { type: 'object', properties: { label: { type: 'string' }, advisorySource: { type: 'string' }, summary: ref('RunSummary') } },
+      introduced: { type: 'array', items: ref('Finding') },
+      resolved: { type: 'array', items: ref('Finding') },
+      unchanged: { type: 'array', items: ref('Finding') },
+    },
+  },
+  ApiKeyRequest: {
+    type: 'object',
+    required: ['name', 'team'],
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 100, description: 'What the key is for' },
+      team: { type: 'string', minLength: 1, maxLength: 100, description: 'Whose saved audits and policies the key sees' },
+      role: { type: 'string', enum: ['admin', 'member'], description: 'Admins see every team\'s and manage keys (default member)' },
+      rateLimit: { type: 'integer', description: 'Requests per minute, instead of API_RATE_LIMIT' },
+      concurrency: { type: 'integer', description: 'Audits running or queued at once, instead of API_CONCURRENCY' },
+    },
+  },
+  ApiKey: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      team: { type: 'string' },
+      role: { type: 'string', enum: ['admin', 'member'] },
+      prefix: { type: 'string', description: 'The start of the key' },
+      createdAt: { type: 'string', format: 'date-time' },
+      revokedAt: { type: 'string', format: 'date-time' },
+      rateLimit: { type: 'integer' },
+      concurrency: { type: 'integer' },
+    },
+  },
+};
+
+// Where the value breaks the schema, as "path: problem" lines
+export function schemaErrors(schema: JsonSchema, value: unknown, at = 'body'): string[] {
+  if (schema.$ref) {
+    return schemaErrors(apiSchemas[schema.$ref.slice('#/components/schemas/'.length)], value, at);
+  }
+  if (schema.anyOf) {
+    const failures = schema.anyOf.map((option) => schemaErrors(option, value, at));
+    return failures.some((errors) => errors.length === 0) ? [] : failures.reduce((fewest, errors) => errors.length < fewest.length ? errors : fewest);
+  }
+
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.length > 0 && !types.some((type) => hasType(value, type))) {
+    return [`${at}: expected ${types.join(' or ')}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${at}: expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`];
+  }
+
+  const errors: string[] = [];
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${at}: expected at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${at}: expected at most ${schema.maxLength} characters`);
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${at}: expected at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${at}: expected at most ${schema.maxItems} items`);
+    if (schema.items) value.forEach((item, index) => errors.push(...schemaErrors(schema.items, item, `${at}[${index}]`)));
+  } else if (value && typeof value === 'object') {
+    for (const key of schema.required || []) {
+      if ((value as any)[key] === undefined) errors.push(`${at}.${key}: required`);
+    }
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined) continue;
+      const property = schema.properties?.[key];
+      if (property) {
+        errors.push(...schemaErrors(property, item, `${at}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}.${key}: not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...schemaErrors(schema.additionalProperties, item, `${at}.${key}`));
+      }
+    }
+  }
+  return errors;
+}
+
+function hasType(value: unknown, type: string) {
+  switch (type) {
+    case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'null': return value === null;
+    default: return typeof value === type;
+  }
+}
+
+// Refuse a request body that doesn't match the named schema, listing where
+export function validateBody(name: string, body: unknown) {
+  const errors = schemaErrors(apiSchemas[name], body);
+  if (errors.length > 0) {
+    throw new AuditError(400, 'Invalid request body', errors.slice(0, 20).join('; '), { issues: errors });
+  }
+}
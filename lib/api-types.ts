@@ -0,0 +1,136 @@
+// Request and response bodies of the HTTP API, shared by the routes and the
+// dashboard. Only types here: the dashboard imports them into the browser.
+import type { Caller } from './access';
+import type { ApiKey, ApiKeyOptions } from './api-keys';
+import type { AuditGraph } from './audit';
+import type { BatchResult } from './batch';
+import type { FixPlan } from './fix-plan';
+import type { AuditRunInfo, ProjectInfo, RunSummary } from './history';
+import type { Job } from './jobs';
+import type { LicenseReport } from './licenses';
+import type { Manifest } from './lockfile';
+import type { DeliveryResult } from './notifications';
+import type { AuditPolicy } from './policy';
+import type { UnresolvedPackage } from './registry';
+import type { AuditResult } from './report';
+import type { DependencyScope } from './scopes';
+import type { LockfileType, ReportType } from './upload';
+import type { AuditCacheInfo, StageTimings } from './workspace';
+
+export type ApiErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'conflict'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'internal_error'
+  | 'upstream_error'
+  | 'unavailable'
+  | 'timeout';
+
+// What went wrong, in every /api/v1 error response as { error: ApiError }.
+// Some errors carry more, e.g. the refused specifiers or unresolved packages.
+export type ApiError = {
+  code: ApiErrorCode;
+  message: string;
+  details?: string;
+  [key: string]: unknown;
+};
+
+export type ApiErrorResponse = { error: ApiError };
+
+// POST /api/v1/audits, and each side of a comparison or project of a batch
+export type AuditRequestBody = {
+  dependencies?: Record<string, string>;
+  manifest?: Manifest;
+  lockfile?: { type?: LockfileType; fileName?: string; content: string };
+  members?: Record<string, Manifest>;
+  report?: { type?: ReportType; fileName?: string; content: string };
+  omit?: DependencyScope | DependencyScope[];
+  include?: DependencyScope | DependencyScope[];
+  project?: string;
+  // the policy file's text or its contents
+  policy?: string | AuditPolicy;
+  refresh?: boolean;
+  // the raw package.json text, for SARIF locations and fix plan diffs
+  packageJson?: string;
+};
+
+export type AuditMetadata = {
+  vulnerabilities?: Record<string, number>;
+  dependencies?: Record<string, number>;
+  cache?: AuditCacheInfo;
+  timings?: StageTimings;
+  [key: string]: unknown;
+};
+
+export type AuditResponse = {
+  vulnerabilities: AuditResult[];
+  suppressed: AuditResult[];
+  policySource: string | null;
+  licenses: LicenseReport | null;
+  graph: AuditGraph | null;
+  advisorySource: string;
+  unresolved: UnresolvedPackage[];
+  metadata: AuditMetadata;
+  // the history entry, for audits of a named project
+  run?: AuditRunInfo | null;
+};
+
+// POST /api/v1/jobs answers with the queued job; once done, `result` holds
+// the audit and `error` why it failed
+export type JobResponse = Omit<Job, 'result'> & { result?: AuditResponse };
+
+export type RemoteAuditRequestBody = Pick<AuditRequestBody, 'omit' | 'include' | 'project'> & { target: string };
+
+export type RemoteAuditResponse = AuditResponse & { description: string };
+
+export type BatchAuditRequestBody = { projects: Array<AuditRequestBody & { path: string }> };
+
+export type BatchAuditResponse = BatchResult;
+
+export type FixPlanResponse = FixPlan & { unresolved: UnresolvedPackage[] };
+
+// A saved run ({ runId }) or an audit request, with a label for the report
+export type ComparisonSide = { runId: string } | (AuditRequestBody & { label?: string });
+
+export type ComparisonRequestBody = { base: ComparisonSide; head: ComparisonSide };
+
+export type ComparisonResponse = {
+  base: { label: string; advisorySource: string; summary: RunSummary };
+  head: { label: string; advisorySource: string; summary: RunSummary };
+  introduced: AuditResult[];
+  resolved: AuditResult[];
+  unchanged: AuditResult[];
+};
+
+export type HistoryResponse =
+  | { projects: ProjectInfo[]; runs: AuditRunInfo[] }
+  | { project: string; runs: AuditRunInfo[] };
+
+export type AuditRunResponse = AuditRunInfo & AuditResponse;
+
+export type PolicyResponse = { project: string; policy: AuditPolicy };
+
+export type AdvisoryDatabaseResponse = {
+  source: string;
+  importedAt: string | null;
+  packages: number;
+  advisories: number;
+};
+
+export type AdvisoryImportResponse = { imported: number; skipped: number; advisories: number };
+
+export type ApiKeyRequestBody = Pick<ApiKeyOptions, 'name' | 'team'> & Partial<ApiKeyOptions>;
+
+export type ApiKeysResponse = { keys: ApiKey[] };
+
+// The key itself is only ever in this response
+export type IssuedApiKeyResponse = ApiKey & { key: string };
+
+export type CallerResponse = Omit<Caller, 'keyId'>;
+
+export type NotificationTestResponse = { results: DeliveryResult[] };
@@ -0,0 +1,118 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { acquireAuditSlot, authenticate, Caller, checkRateLimit, requireAdmin } from './access';
+import type { ApiError, ApiErrorCode } from './api-types';
+import { sanitizeOutput } from './npm-runner';
+import { AuditError } from './workspace';
+
+// What an API route accepts and does. Routes throw instead of responding with
+// an error: AuditErrors with their status, anything else as a 500 reported as
+// `failure`. The same route is served in /api/v1 and at its unversioned path,
+// each with its own error shape.
+export type ApiRoute = {
+  methods: string[];
+  failure: string;
+  // served without an API key
+  public?: boolean;
+  // methods only admins may call
+  adminMethods?: string[];
+  // the route runs an audit, which takes one of the caller's audit slots
+  audits?: boolean;
+  handle: (req: NextApiRequest, res: NextApiResponse, caller: Caller) => Promise<unknown>;
+};
+
+// Who public routes are served to: a member of no team, who sees nothing saved
+const publicCaller: Caller = { keyId: null, name: 'anonymous', role: 'member', rateLimit: 0, concurrency: 0 };
+
+const errorCodes: Record<number, ApiErrorCode> = {
+  400: 'invalid_request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  405: 'method_not_allowed',
+  409: 'conflict',
+  413: 'payload_too_large',
+  429: 'rate_limited',
+  502: 'upstream_error',
+  503: 'unavailable',
+  504: 'timeout',
+};
+
+export function errorCode(status: number): ApiErrorCode {
+  return errorCodes[status] || (status >= 500 ? 'internal_error' : 'invalid_request');
+}
+
+// Whatever was thrown, as /api/v1 reports it
+export function apiError(error: any, failure: string): { status: number; error: ApiError } {
+  if (error instanceof AuditError) {
+    return {
+      status: error.status,
+      error: { code: errorCode(error.status), message: error.message, ...(error.details === undefined ? {} : { details: error.details }), ...error.extra },
+    };
+  }
+  console.error(`${failure}:`, error);
+  return { status: 500, error: { code: 'internal_error', message: failure, details: sanitizeOutput(error?.message) } };
+}
+
+// Check the caller may make the request, then handle it
+async function serve(route: ApiRoute, req: NextApiRequest, res: NextApiResponse) {
+  if (route.public) {
+    return route.handle(req, res, publicCaller);
+  }
+  const caller = authenticate(req);
+  checkRateLimit(caller, res);
+  if (route.adminMethods?.includes(req.method)) {
+    requireAdmin(caller);
+  }
+  const release = route.audits ? acquireAuditSlot(caller) : undefined;
+  try {
+    await route.handle(req, res, caller);
+  } finally {
+    release?.();
+  }
+}
+
+// A route under /api/v1: every error responds with { error: ApiError }
+export function apiRoute(route: ApiRoute) {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    if (!route.methods.includes(req.method)) {
+      res.setHeader('Allow', route.methods.join(', '));
+      return res.status(405).json({ error: { code: 'method_not_allowed', message: `${req.method} is not allowed here` } });
+    }
+    try {
+      await serve(route, req, res);
+    } catch (error) {
+      const { status, error: body } = apiError(error, route.failure);
+      if (res.headersSent) return res.end();
+      res.status(status).json({ error: body });
+    }
+  };
+}
+
+// The same route at its unversioned path, with the error bodies the dashboard
+// started out with
+export function legacyRoute(route: ApiRoute) {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    if (!route.methods.includes(req.method)) {
+      return res.status(405).json({ message: 'Method Not Allowed' });
+    }
+    try {
+      await serve(route, req, res);
+    } catch (error: any) {
+      if (res.headersSent) return res.end();
+      if (error instanceof AuditError) {
+        return res.status(error.status).json({ error: error.message, details: error.details, ...error.extra });
+      }
+      console.error(`${route.failure}:`, error);
+      res.status(500).json({ error: route.failure, details: sanitizeOutput(error.message) });
+    }
+  };
+}
+
+// A single query parameter; repeating it is an error
+export function queryParam(req: NextApiRequest, name: string): string | undefined {
+  const value = req.query[name];
+  if (Array.isArray(value)) {
+    throw new AuditError(400, `Expected a single ${name}`);
+  }
+  return value;
+}
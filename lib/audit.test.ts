@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import { buildAuditGraph, normalizeVulnerabilities } from './audit';
+
+// express depends on qs and body-parser, body-parser on qs too; mocha is for
+// development only
+const packageJson = { name: 'app', version: '1.0.0', dependencies: { express: '^4.17.0' }, devDependencies: { mocha: '^10.0.0' } };
+const packageLock = {
+  name: 'app',
+  version: '1.0.0',
+  lockfileVersion: 3,
+  packages: {
+    '': packageJson,
+    'node_modules/express': { version: '4.17.1', dependencies: { 'body-parser': '1.19.0', qs: '6.7.0' } },
+    'node_modules/body-parser': { version: '1.19.0', dependencies: { qs: '6.7.0' } },
+    'node_modules/qs': { version: '6.7.0' },
+    'node_modules/mocha': { version: '10.0.0', dev: true, dependencies: { nanoid: '3.1.20' } },
+    'node_modules/nanoid': { version: '3.1.20', dev: true },
+  },
+};
+
+const advisory = (source: number, title: string, ghsa: string, extra: Record<string, any> = {}) => ({
+  source,
+  name: 'qs',
+  dependency: 'qs',
+  title,
+  url: `https://github.com/advisories/${ghsa}`,
+  severity: 'high',
+  cwe: ['CWE-1321'],
+  range: '<6.10.3',
+  ...extra,
+});
+
+const auditOutput = {
+  auditReportVersion: 2,
+  vulnerabilities: {
+    qs: {
+      name: 'qs',
+      severity: 'high',
+      isDirect: false,
+      via: [
+        advisory(1, 'qs vulnerable to Prototype Pollution', 'GHSA-hrpp-h998-j3pp', { cvss: { score: 7.5, vectorString: 'CVSS:3.1/AV:N/AC:L' } }),
+        advisory(2, 'qs allows denial of service', 'GHSA-gqgv-6jq5-jjj9', { severity: 'moderate', cwe: ['CWE-1321', 'CWE-400'], cvss: { score: 0, vectorString: null } }),
+      ],
+      effects: ['body-parser', 'express'],
+      range: '<6.10.3',
+      nodes: ['node_modules/qs'],
+      fixAvailable: { name: 'express', version: '4.18.2', isSemVerMajor: false },
+    },
+    express: {
+      name: 'express',
+      severity: 'high',
+      isDirect: true,
+      via: ['body-parser', 'qs'],
+      effects: [],
+      range: '<=4.17.2',
+      nodes: ['node_modules/express'],
+      fixAvailable: true,
+    },
+    nanoid: {
+      name: 'nanoid',
+      severity: 'moderate',
+      isDirect: false,
+      via: [{ source: 3, name: 'nanoid', title: 'Exposure of information in nanoid', severity: 'moderate', cwe: [] }],
+      effects: ['mocha'],
+      range: '<3.1.31',
+      nodes: ['node_modules/nanoid'],
+      fixAvailable: { name: 'mocha', version: '10.2.0', isSemVerMajor: true },
+    },
+  },
+};
+
+describe('normalizeVulnerabilities', () => {
+  const findings = normalizeVulnerabilities(auditOutput, packageLock, packageJson);
+  const byName = Object.fromEntries(findings.map((finding) => [finding.name, finding]));
+
+  it('keeps every advisory of a package, not only the first', () => {
+    expect(byName.qs.advisories).toEqual([
+      {
+        source: 1,
+        id: 'GHSA-hrpp-h998-j3pp',
+        title: 'qs vulnerable to Prototype Pollution',
+        url: 'https://github.com/advisories/GHSA-hrpp-h998-j3pp',
+        severity: 'high',
+        cvssScore: 7.5,
+        cvssVector: 'CVSS:3.1/AV:N/AC:L',
+        cwe: ['CWE-1321'],
+        range: '<6.10.3',
+      },
+      {
+        source: 2,
+        id: 'GHSA-gqgv-6jq5-jjj9',
+        title: 'qs allows denial of service',
+        url: 'https://github.com/advisories/GHSA-gqgv-6jq5-jjj9',
+        severity: 'moderate',
+        cvssScore: undefined,
+        cvssVector: undefined,
+        cwe: ['CWE-1321', 'CWE-400'],
+        range: '<6.10.3',
+      },
+    ]);
+    expect(byName.qs).toMatchObject({
+      version: '<6.10.3',
+      vulnerability: 'qs vulnerable to Prototype Pollution (+1 more)',
+      severity: 'high',
+      cwe: ['CWE-1321', 'CWE-400'],
+      isDirect: false,
+      causes: [],
+      effects: ['body-parser', 'express'],
+    });
+  });
+
+  it('describes the package by its worst scored advisory', () => {
+    expect(byName.qs).toMatchObject({ cvssScore: 7.5, cvssVector: 'CVSS:3.1/AV:N/AC:L', source: 1, url: 'https://github.com/advisories/GHSA-hrpp-h998-j3pp' });
+    expect(byName.nanoid).toMatchObject({ vulnerability: 'Exposure of information in nanoid', cvssScore: undefined, source: 3 });
+    expect(byName.nanoid.advisories[0]).toMatchObject({ id: undefined, url: undefined });
+  });
+
+  it('names the vulnerable packages a package is only vulnerable through', () => {
+    expect(byName.express).toMatchObject({
+      vulnerability: 'Depends on vulnerable body-parser, qs',
+      advisories: [],
+      causes: ['body-parser', 'qs'],
+      cwe: undefined,
+      isDirect: true,
+    });
+  });
+
+  it('recommends the fix npm found', () => {
+    expect(byName.qs.recommendation).toBe('Upgrade express to version 4.18.2');
+    expect(byName.nanoid.recommendation).toBe('Upgrade mocha to version 10.2.0 (breaking change)');
+    expect(byName.express.recommendation).toBe('Fix available via npm audit fix');
+  });
+
+  it('gives the scopes and the dependency chains of where the package is installed', () => {
+    expect(byName.qs.scopes).toEqual(['prod']);
+    expect(byName.nanoid.scopes).toEqual(['dev']);
+    expect(byName.qs.paths).toEqual(expect.arrayContaining([
+      ['express@4.17.1', 'qs@6.7.0'],
+      ['express@4.17.1', 'body-parser@1.19.0', 'qs@6.7.0'],
+    ]));
+    expect(byName.qs.paths).toHaveLength(2);
+    expect(byName.nanoid.paths).toEqual([['mocha@10.0.0', 'nanoid@3.1.20']]);
+  });
+
+  it('copes with sparse entries', () => {
+    const [finding] = normalizeVulnerabilities({ vulnerabilities: { left: { via: { source: 9 } } } }, packageLock);
+
+    expect(finding).toMatchObject({
+      name: 'left',
+      version: 'unknown',
+      severity: 'unknown',
+      vulnerability: 'Advisory 9',
+      recommendation: 'No specific recommendation',
+      scopes: [],
+      paths: [],
+      effects: [],
+    });
+    expect(normalizeVulnerabilities({}, packageLock)).toEqual([]);
+  });
+});
+
+describe('buildAuditGraph', () => {
+  it('marks the nodes of vulnerable packages with their severity', () => {
+    const { nodes, edges } = buildAuditGraph(auditOutput, packageLock, packageJson);
+    const severities = Object.fromEntries(nodes.map((node) => [node.id, node.severity]));
+
+    expect(severities).toEqual({
+      '': undefined,
+      'node_modules/express': 'high',
+      'node_modules/mocha': undefined,
+      'node_modules/body-parser': undefined,
+      'node_modules/qs': 'high',
+      'node_modules/nanoid': 'moderate',
+    });
+    expect(edges).toContainEqual({ from: 'node_modules/body-parser', to: 'node_modules/qs' });
+    expect(edges).toHaveLength(6);
+  });
+});
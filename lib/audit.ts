@@ -0,0 +1,104 @@
+import { createPathFinder, dependencyGraph, GraphEdge, GraphNode, Manifest, scopesForLocations } from './lockfile';
+
+export type Severity = 'info' | 'low' | 'moderate' | 'high' | 'critical';
+
+export type Advisory = {
+  // numeric for npm's advisories, the advisory id for the local database
+  source: number | string;
+  id?: string;
+  title: string;
+  url?: string;
+  severity: Severity | 'unknown';
+  cvssScore?: number;
+  cvssVector?: string;
+  cwe: string[];
+  range?: string;
+};
+
+// Map npm audit's (v2) "vulnerabilities" object to one entry per vulnerable
+// package, keeping every advisory listed under "via" and every dependency
+// chain that leads to the package.
+export function normalizeVulnerabilities(auditOutput: any, packageLock: any, rootManifest?: Manifest) {
+  const findPaths = createPathFinder(packageLock, rootManifest);
+
+  return Object.entries(auditOutput.vulnerabilities || {}).map(([name, info]: [string, any]) => {
+    const via = Array.isArray(info.via) ? info.via : [info.via];
+    const advisories: Advisory[] = via.filter((item) => item && typeof item === 'object').map(toAdvisory);
+    const causes: string[] = via.filter((item) => typeof item === 'string');
+    const worst = [...advisories].sort((a, b) => (b.cvssScore || 0) - (a.cvssScore || 0))[0];
+
+    return {
+      name,
+      version: info.range || 'unknown',
+      vulnerability: advisories.length > 0 ? describeAdvisories(advisories) : `Depends on vulnerable ${causes.join(', ')}`,
+      severity: info.severity || 'unknown',
+      recommendation: recommendationFor(info.fixAvailable),
+      cvssScore: worst?.cvssScore,
+      cvssVector: worst?.cvssVector,
+      source: worst?.source,
+      url: worst?.url,
+      cwe: advisories.length > 0 ? Array.from(new Set(advisories.flatMap((advisory) => advisory.cwe))) : undefined,
+      scopes: scopesForLocations(packageLock, info.nodes),
+      advisories,
+      isDirect: Boolean(info.isDirect),
+      causes,
+      effects: info.effects || [],
+      paths: findPaths(info.nodes),
+    };
+  });
+}
+
+export type AuditGraph = {
+  nodes: Array<GraphNode & { severity?: Severity }>;
+  edges: GraphEdge[];
+};
+
+// The dependency graph with each vulnerable node marked with the severity npm
+// audit gave its package.
+export function buildAuditGraph(auditOutput: any, packageLock: any, rootManifest?: Manifest): AuditGraph {
+  const { nodes, edges } = dependencyGraph(packageLock, rootManifest);
+  const severities = new Map<string, Severity>();
+  for (const info of Object.values<any>(auditOutput.vulnerabilities || {})) {
+    (info.nodes || []).forEach((location: string) => severities.set(location, info.severity));
+  }
+
+  return {
+    nodes: nodes.map((node) => (severities.has(node.id) ? { ...node, severity: severities.get(node.id) } : node)),
+    edges,
+  };
+}
+
+// fixAvailable is `true` when updating within the declared ranges is enough
+function recommendationFor(fixAvailable: any) {
+  if (fixAvailable && typeof fixAvailable === 'object') {
+    const breaking = fixAvailable.isSemVerMajor ? ' (breaking change)' : '';
+    return `Upgrade ${fixAvailable.name} to version ${fixAvailable.version}${breaking}`;
+  }
+  return fixAvailable ? 'Fix available via npm audit fix' : 'No specific recommendation';
+}
+
+function toAdvisory(via: any): Advisory {
+  return {
+    source: via.source,
+    id: advisoryId(via.url),
+    title: via.title || `Advisory ${via.source}`,
+    url: via.url,
+    severity: via.severity || 'unknown',
+    // npm reports a score of 0 with a null vector when there is no CVSS data
+    cvssScore: via.cvss?.score || undefined,
+    cvssVector: via.cvss?.vectorString || undefined,
+    cwe: via.cwe || [],
+    range: via.range,
+  };
+}
+
+// https://github.com/advisories/GHSA-xxxx-xxxx-xxxx -> GHSA-xxxx-xxxx-xxxx
+function advisoryId(url?: string) {
+  const match = url?.match(/GHSA(-[23456789cfghjmpqrvwx]{4}){3}/i);
+  return match ? match[0] : undefined;
+}
+
+export function describeAdvisories(advisories: Advisory[]) {
+  const [first, ...rest] = advisories;
+  return rest.length > 0 ? `${first.title} (+${rest.length} more)` : first.title;
+}
@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { auditBatch, BatchProject, parseBatchRequest } from './batch';
+import type { AuditResult } from './report';
+import { AuditError, auditRequest } from './workspace';
+
+vi.mock('./workspace', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./workspace')>()),
+  auditRequest: vi.fn(),
+}));
+
+const finding = (name: string, version: string, severity: AuditResult['severity'], extra: Partial<AuditResult> = {}): AuditResult => ({
+  name,
+  version,
+  vulnerability: `${name} is vulnerable`,
+  severity,
+  recommendation: '',
+  isDirect: false,
+  ...extra,
+});
+
+// A monorepo whose members share some dependencies: api uses lodash, web
+// minimist, both of them shared, and the root's dev tool minimist too
+const packageJson = { name: 'mono', workspaces: ['packages/*'], devDependencies: { tool: '^1.0.0' } };
+const packageLock = {
+  name: 'mono',
+  lockfileVersion: 3,
+  packages: {
+    '': packageJson,
+    'packages/api': { name: 'api', version: '1.0.0', dependencies: { lodash: '^4.17.0', shared: '^1.0.0' } },
+    'packages/web': { name: 'web', version: '1.0.0', dependencies: { shared: '^1.0.0', minimist: '^1.2.0' } },
+    'node_modules/api': { resolved: 'packages/api', link: true },
+    'node_modules/web': { resolved: 'packages/web', link: true },
+    'node_modules/lodash': { version: '4.17.20' },
+    'node_modules/shared': { version: '1.0.0' },
+    'node_modules/tool': { version: '1.0.0', dev: true, dependencies: { minimist: '^1.2.0' } },
+    'node_modules/minimist': { version: '1.2.0' },
+  },
+};
+
+const request = (path: string): BatchProject => ({ path, request: { dependencies: {}, scopeOptions: { omit: [], include: [] }, team: 'payments' } });
+
+const names = (findings: any[]) => findings.map((item) => item.name).sort();
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.mocked(auditRequest).mockReset();
+});
+
+describe('parseBatchRequest', () => {
+  it.each([
+    [{ path: '/etc' }],
+    [{ path: '../web' }],
+    [{ path: 'apps/../../web' }],
+    [{ path: 42 }],
+    [{}],
+  ])('refuses the project path of %j', (project) => {
+    expect(() => parseBatchRequest({ projects: [{ path: 'web', dependencies: {} }, { ...project, dependencies: {} }] })).toThrow('Invalid path for project 2');
+  });
+
+  it('takes the top level and nested directories', () => {
+    const projects = parseBatchRequest({ projects: [{ path: '', dependencies: {} }, { path: 'apps/web', dependencies: {} }] });
+    expect(projects.map((project) => project.path)).toEqual(['', 'apps/web']);
+  });
+
+  it('refuses batches of no projects or too many', () => {
+    expect(() => parseBatchRequest({})).toThrow('Invalid batch, expected 1 to 50 projects');
+    expect(() => parseBatchRequest({ projects: Array.from({ length: 51 }, (_, i) => ({ path: `p${i}`, dependencies: {} })) })).toThrow(AuditError);
+  });
+});
+
+describe('auditBatch', () => {
+  it('attributes each finding to the workspaces that install it', async () => {
+    vi.mocked(auditRequest).mockResolvedValue({
+      result: {
+        vulnerabilities: [finding('lodash', '4.17.20', 'high'), finding('shared', '1.0.0', 'moderate'), finding('minimist', '1.2.0', 'critical'), finding('tool', '1.0.0', 'low')],
+        suppressed: [],
+      },
+      tree: { packageJson, packageLock },
+    } as any);
+
+    const { workspaces } = await auditBatch([request('mono')]);
+
+    expect(workspaces.map((workspace) => [workspace.path, workspace.name, workspace.project])).toEqual([
+      ['mono', 'mono', 'mono'],
+      ['mono/packages/api', 'api', 'mono'],
+      ['mono/packages/web', 'web', 'mono'],
+    ]);
+    expect(workspaces.map((workspace) => names(workspace.vulnerabilities))).toEqual([
+      ['minimist', 'tool'],
+      ['lodash', 'shared'],
+      ['minimist', 'shared'],
+    ]);
+    expect(workspaces[2].summary).toMatchObject({ critical: 1, moderate: 1, total: 2 });
+  });
+
+  it('lists a package found in several workspaces once, most severe and widespread first', async () => {
+    vi.mocked(auditRequest)
+      .mockResolvedValueOnce({
+        result: { vulnerabilities: [finding('shared', '1.0.0', 'moderate', { scopes: ['prod'] }), finding('lodash', '4.17.20', 'moderate')], suppressed: [] },
+        tree: { packageJson: { name: 'api' } },
+      } as any)
+      .mockResolvedValueOnce({
+        result: { vulnerabilities: [finding('shared', '1.0.0', 'moderate', { scopes: ['dev'], isDirect: true }), finding('qs', '6.0.0', 'high')], suppressed: [] },
+        tree: { packageJson: { name: 'web' } },
+      } as any);
+
+    const { vulnerabilities, summary } = await auditBatch([request('api'), request('web')]);
+
+    expect(vulnerabilities.map((item) => [item.name, item.workspaces])).toEqual([
+      ['qs', ['web']],
+      ['shared', ['api', 'web']],
+      ['lodash', ['api']],
+    ]);
+    expect(vulnerabilities[1]).toMatchObject({ scopes: ['prod', 'dev'], isDirect: true });
+    expect(summary).toMatchObject({ high: 1, moderate: 2, total: 3 });
+  });
+
+  it('reports a project that fails with its error and audits the rest', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.mocked(auditRequest)
+      .mockRejectedValueOnce(new AuditError(400, 'Invalid lockfile', 'line 3'))
+      .mockResolvedValueOnce({ result: { vulnerabilities: [finding('qs', '6.0.0', 'high')], suppressed: [] }, tree: { packageJson: { name: 'web' } } } as any);
+    const onAudited = vi.fn();
+
+    const { workspaces, vulnerabilities } = await auditBatch([request('api'), request('web')], onAudited);
+
+    expect(workspaces).toMatchObject([
+      { path: 'api', name: 'api', vulnerabilities: [], error: 'Invalid lockfile: line 3' },
+      { path: 'web', name: 'web', vulnerabilities: [{ name: 'qs' }] },
+    ]);
+    expect(workspaces[1].error).toBeUndefined();
+    expect(names(vulnerabilities)).toEqual(['qs']);
+    expect(onAudited).toHaveBeenCalledTimes(1);
+    expect(onAudited).toHaveBeenCalledWith(request('web').request, expect.objectContaining({ vulnerabilities: [expect.objectContaining({ name: 'qs' })] }));
+  });
+});
@@ -0,0 +1,182 @@
+import semver from 'semver';
+import { RunSummary, summarizeVulnerabilities } from './history';
+import { dependencyGraph, isWorkspaceLocation, NpmWorkspace } from './lockfile';
+import { log } from './log';
+import { sanitizeOutput } from './npm-runner';
+import { AuditError, auditRequest, AuditRequest, parseAuditRequest } from './workspace';
+
+// Projects per batch; each one is a full audit, run one after the other
+const MAX_PROJECTS = 50;
+
+export type BatchProject = {
+  // directory of the project within the upload, "" for the top level
+  path: string;
+  request: AuditRequest;
+};
+
+export type WorkspaceAudit = {
+  // directory of the workspace within the upload, "" for the top level
+  path: string;
+  name: string;
+  // the project (lockfile directory) it was audited with
+  project: string;
+  summary: RunSummary;
+  vulnerabilities: any[];
+  suppressed: any[];
+  error?: string;
+};
+
+export type BatchResult = {
+  workspaces: WorkspaceAudit[];
+  // every vulnerable package once, with the workspaces it affects
+  vulnerabilities: any[];
+  summary: RunSummary;
+};
+
+// Validate a batch request body: { projects: [{ path, ...audit request }] },
+// audited for the caller's team
+export function parseBatchRequest(body: any, team?: string): BatchProject[] {
+  const projects = body?.projects;
+  if (!Array.isArray(projects) || projects.length === 0 || projects.length > MAX_PROJECTS) {
+    throw new AuditError(400, `Invalid batch, expected 1 to ${MAX_PROJECTS} projects`);
+  }
+  // a project's stored policy applies, but like comparisons, batches don't go
+  // to its history
+  return projects.map(({ path, ...body }, index) => {
+    if (typeof path !== 'string' || path.startsWith('/') || path.split('/').includes('..')) {
+      throw new AuditError(400, `Invalid path for project ${index + 1}`);
+    }
+    try {
+      return { path, request: { ...parseAuditRequest(body), team } };
+    } catch (error) {
+      if (error instanceof AuditError) {
+        throw new AuditError(error.status, `${path || '.'}: ${error.message}`, error.details);
+      }
+      throw error;
+    }
+  });
+}
+
+function joinPath(dir: string, child: string) {
+  return [dir, child].filter(Boolean).join('/');
+}
+
+function versionMatches(version: string, range: string) {
+  if (!semver.validRange(range)) return true;
+  return semver.valid(version) !== null && semver.satisfies(version, range, { includePrerelease: true });
+}
+
+// Which of the tree's workspaces ("" for the root) each finding is installed
+// for: a workspace is affected when the vulnerable package is among its own
+// dependencies, direct or transitive. Packages shared by several members count
+// for all of them.
+function findingWorkspaces({ packageJson, packageLock }: NpmWorkspace) {
+  if (!packageLock) return null;
+  const { nodes, edges } = dependencyGraph(packageLock, packageJson);
+  const members = nodes.filter((node) => node.id !== '' && isWorkspaceLocation(node.id));
+  if (members.length === 0) return null;
+
+  const children = new Map<string, string[]>();
+  edges.forEach((edge) => {
+    if (!children.has(edge.from)) children.set(edge.from, []);
+    children.get(edge.from).push(edge.to);
+  });
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const closure = (start: string) => {
+    const seen = new Set<string>([start]);
+    const stack = [start];
+    while (stack.length > 0) {
+      for (const child of children.get(stack.pop()) || []) {
+        // the root doesn't reach into its members' dependencies
+        if (seen.has(child) || (start === '' && isWorkspaceLocation(child))) continue;
+        seen.add(child);
+        stack.push(child);
+      }
+    }
+    return Array.from(seen).map((id) => byId.get(id));
+  };
+  const closures = new Map([['', closure('')], ...members.map((member) => [member.id, closure(member.id)] as [string, any[]])]);
+
+  return {
+    members,
+    affected: (finding: any) => {
+      const dirs = Array.from(closures.entries())
+        .filter(([, reached]) => reached.some((node) => node.name === finding.name && versionMatches(node.version, finding.version)))
+        .map(([dir]) => dir);
+      return dirs.length > 0 ? dirs : [''];
+    },
+  };
+}
+
+// Audit every project of the batch and break the findings down per workspace.
+// A project that fails to audit is reported with its error instead of failing
+// the batch. `onAudited` is told about each project's result.
+export async function auditBatch(
+  projects: BatchProject[],
+  onAudited?: (request: AuditRequest, result: { advisorySource: string; vulnerabilities: any[] }) => void
+): Promise<BatchResult> {
+  const workspaces: WorkspaceAudit[] = [];
+
+  for (const project of projects) {
+    let audited;
+    try {
+      audited = await auditRequest(project.request);
+    } catch (error) {
+      log.error(`Failed to audit ${project.path || '.'}:`, error);
+      workspaces.push({
+        path: project.path,
+        name: project.request.manifest?.name || project.path || '.',
+        project: project.path,
+        summary: summarizeVulnerabilities([]),
+        vulnerabilities: [],
+        suppressed: [],
+        error: sanitizeOutput(error instanceof AuditError && error.details ? `${error.message}: ${error.details}` : error.message),
+      });
+      continue;
+    }
+
+    const { result, tree } = audited;
+    onAudited?.(project.request, result);
+    const split = findingWorkspaces(tree);
+    const dirs = ['', ...(split?.members || []).map((member) => member.id)];
+    const names = new Map([['', tree.packageJson?.name || project.path || '.'], ...(split?.members || []).map((member) => [member.id, member.name] as [string, string])]);
+
+    for (const dir of dirs) {
+      const belongs = (finding: any) => !split || split.affected(finding).includes(dir);
+      const vulnerabilities = result.vulnerabilities.filter(belongs);
+      workspaces.push({
+        path: joinPath(project.path, dir),
+        name: names.get(dir),
+        project: project.path,
+        summary: summarizeVulnerabilities(vulnerabilities),
+        vulnerabilities,
+        suppressed: result.suppressed.filter(belongs),
+      });
+    }
+  }
+
+  const vulnerabilities = aggregateFindings(workspaces);
+  return { workspaces, vulnerabilities, summary: summarizeVulnerabilities(vulnerabilities) };
+}
+
+const severityRank = { critical: 4, high: 3, moderate: 2, low: 1, info: 0 };
+
+// The same vulnerable package found in several workspaces is listed once
+function aggregateFindings(workspaces: WorkspaceAudit[]) {
+  const findings = new Map<string, any>();
+  for (const workspace of workspaces) {
+    for (const finding of workspace.vulnerabilities) {
+      const key = `${finding.name}@${finding.version}:${finding.vulnerability}`;
+      const existing = findings.get(key);
+      if (existing) {
+        if (!existing.workspaces.includes(workspace.path)) existing.workspaces.push(workspace.path);
+        existing.scopes = Array.from(new Set([...(existing.scopes || []), ...(finding.scopes || [])]));
+        existing.isDirect = existing.isDirect || finding.isDirect;
+        continue;
+      }
+      findings.set(key, { ...finding, workspaces: [workspace.path] });
+    }
+  }
+  return Array.from(findings.values()).sort((a, b) =>
+    (severityRank[b.severity] ?? -1) - (severityRank[a.severity] ?? -1) || b.workspaces.length - a.workspaces.length || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { auditWithBulkAdvisories } from './bulk-advisories';
+
+const manifest = { name: 'app', dependencies: { a: '^1.0.0' } };
+const packageLock = {
+  lockfileVersion: 3,
+  packages: { '': manifest, 'node_modules/a': { version: '1.0.0' } },
+};
+
+const json = (value: unknown) => new Response(JSON.stringify(value));
+
+describe('auditWithBulkAdvisories', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the tree in one request and offers stable upgrades as fixes', async () => {
+    const fetch = vi.fn(async (url: string, init?: RequestInit) => url.endsWith('/advisories/bulk')
+      ? json({
+        a: [
+          { id: 1, title: 'one', severity: 'high', url: 'https://example.com/1', vulnerable_versions: '<1.2.0' },
+          { id: 2, title: 'two', severity: 'low', url: 'https://example.com/2', vulnerable_versions: '>=1.2.0 <1.3.0' },
+        ],
+      })
+      : json({ versions: { '0.9.0': {}, '1.0.0': {}, '1.2.0': {}, '1.3.0-beta.1': {}, '1.3.0': {}, '2.0.0': {} } }));
+    vi.stubGlobal('fetch', fetch);
+
+    const { vulnerabilities } = await auditWithBulkAdvisories({ url: 'https://registry.example.com/' }, packageLock, manifest);
+
+    expect(JSON.parse(String(fetch.mock.calls[0][1]?.body))).toEqual({ a: ['1.0.0'] });
+    expect(vulnerabilities.a.severity).toBe('high');
+    expect(vulnerabilities.a.fixAvailable).toEqual({ name: 'a', version: '1.3.0', isSemVerMajor: false });
+  });
+
+  it('audits without fixes when a packument doesn\'t come in time', async () => {
+    vi.stubGlobal('fetch', vi.fn((url: string, init?: RequestInit) => url.endsWith('/advisories/bulk')
+      ? Promise.resolve(json({ a: [{ id: 1, title: 'one', severity: 'high', vulnerable_versions: '<2.0.0' }] }))
+      : new Promise((resolve, reject) => init.signal.addEventListener('abort', () => reject(init.signal.reason)))));
+    // time out after a moment instead of the real limit
+    const timeout = vi.spyOn(AbortSignal, 'timeout').mockImplementation(() => {
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(new DOMException('Timed out', 'TimeoutError')), 10);
+      return controller.signal;
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    try {
+      const { vulnerabilities } = await auditWithBulkAdvisories({ url: 'https://registry.example.com/' }, packageLock, manifest);
+      expect(timeout).toHaveBeenCalled();
+      expect(vulnerabilities.a.fixAvailable).toBe(false);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+});
@@ -0,0 +1,115 @@
+import semver from 'semver';
+import { AdvisoryDatabase, auditWithDatabase, StoredAdvisory } from './advisory-db';
+import { dependencyGraph, isWorkspaceLocation, Manifest } from './lockfile';
+import { registryConfig } from './config';
+import { log } from './log';
+import { registryFor } from './registry';
+import type { DependencyScope } from './scopes';
+
+export type AdvisoryRegistry = { url: string; token?: string };
+
+// Packuments fetched at once for fix information, and how long each may take
+const PACKUMENT_CONCURRENCY = 8;
+const PACKUMENT_TIMEOUT = 15 * 1000;
+
+const authorization = (token?: string): Record<string, string> => token ? { Authorization: `Bearer ${token}` } : {};
+
+// Audit a lockfile the way `npm audit` does, without installing anything: every
+// package and version in the tree goes to the registry's bulk advisory endpoint
+// in one request, and the advisories found are matched like the local database's.
+// Fixes come from the versions the registry publishes for vulnerable packages.
+export async function auditWithBulkAdvisories(
+  registry: AdvisoryRegistry,
+  packageLock: any,
+  rootManifest: Manifest,
+  omit: DependencyScope[] = [],
+  signal?: AbortSignal
+) {
+  const versions: Record<string, string[]> = {};
+  for (const node of dependencyGraph(packageLock, rootManifest).nodes) {
+    if (isWorkspaceLocation(node.id) || omit.includes(node.scope) || !node.version) continue;
+    versions[node.name] = versions[node.name] || [];
+    if (!versions[node.name].includes(node.version)) versions[node.name].push(node.version);
+  }
+
+  const db: AdvisoryDatabase = { importedAt: null, advisories: {} };
+  if (Object.keys(versions).length === 0) {
+    return auditWithDatabase(db, packageLock, rootManifest, omit);
+  }
+
+  const found = await fetchBulkAdvisories(registry, versions, signal);
+  const names = Object.keys(found);
+  const published = await mapWithLimit(names, PACKUMENT_CONCURRENCY, (name) => publishedVersions(name, signal));
+  names.forEach((name, index) => {
+    // fixes are upgrades: published stable versions above the lowest one installed
+    const lowest = semver.sort((versions[name] || []).filter((version) => semver.valid(version)))[0];
+    const upgrades = published[index].filter((version) => !lowest || semver.gt(version, lowest));
+    db.advisories[name] = found[name].map((advisory): StoredAdvisory => ({
+      id: String(advisory.id),
+      aliases: [],
+      title: advisory.title,
+      url: advisory.url,
+      severity: advisory.severity,
+      cvss: advisory.cvss,
+      cwe: advisory.cwe || [],
+      range: advisory.vulnerable_versions,
+      fixed: upgrades.filter((version) => !semver.satisfies(version, advisory.vulnerable_versions, { includePrerelease: true })),
+    }));
+  });
+  return auditWithDatabase(db, packageLock, rootManifest, omit);
+}
+
+async function fetchBulkAdvisories(registry: AdvisoryRegistry, versions: Record<string, string[]>, signal?: AbortSignal) {
+  const url = `${registry.url}-/npm/v1/security/advisories/bulk`;
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authorization(registry.token) },
+      body: JSON.stringify(versions),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new Error(`Could not reach ${registry.url}: ${error.message}`);
+  }
+  if (!response.ok) {
+    const reason = response.status === 401 || response.status === 403 ? 'authentication failed' : `returned ${response.status}`;
+    throw new Error(`The advisory endpoint of ${registry.url} ${reason}`);
+  }
+  return await response.json() as Record<string, any[]>;
+}
+
+// fn over every item, at most `limit` at a time, results in the items' order
+async function mapWithLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Every published version of a package, from the abbreviated metadata npm
+// install uses; none if the registry can't tell, which only costs the fix
+async function publishedVersions(name: string, signal?: AbortSignal) {
+  const registry = registryFor(registryConfig(), name);
+  try {
+    const response = await fetch(`${registry.url}${name.replace('/', '%2f')}`, {
+      headers: { Accept: 'application/vnd.npm.install-v1+json', ...authorization(registry.token) },
+      signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(PACKUMENT_TIMEOUT)]) : AbortSignal.timeout(PACKUMENT_TIMEOUT),
+    });
+    if (!response.ok) {
+      throw new Error(`registry returned ${response.status}`);
+    }
+    return Object.keys((await response.json()).versions || {}).filter((version) => semver.valid(version) && !semver.prerelease(version));
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    log.warn(`No fix information for ${name}:`, error.message);
+    return [];
+  }
+}
@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cacheKey, CacheConfig, readCache, writeCache } from './cache';
+import { setLogger } from './log';
+
+describe('cacheKey', () => {
+  it('is the same for the same parts, however objects are built', () => {
+    expect(cacheKey('trees', { lockfileVersion: 3 }, undefined)).toBe(cacheKey('trees', { lockfileVersion: 3 }, null));
+    expect(cacheKey('trees', { lockfileVersion: 3 })).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('changes with any part, and with where the parts split', () => {
+    const key = cacheKey('registry', { dependencies: { a: '^1.0.0' } });
+    expect(cacheKey('registry', { dependencies: { a: '^1.0.1' } })).not.toBe(key);
+    expect(cacheKey('database', { dependencies: { a: '^1.0.0' } })).not.toBe(key);
+    expect(cacheKey('ab', 'c')).not.toBe(cacheKey('a', 'bc'));
+  });
+});
+
+describe('readCache and writeCache', () => {
+  let dir: string;
+  let config: CacheConfig;
+  const logged = { warn: vi.fn(), error: vi.fn(), log: vi.fn() };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-'));
+    config = { directory: dir, ttl: 60 * 60 * 1000 };
+    setLogger(logged);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-06-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    setLogger(console);
+    Object.values(logged).forEach((fn) => fn.mockReset());
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads back what was written, per namespace', () => {
+    writeCache(config, 'trees', 'key', { packageLock: { lockfileVersion: 3 } });
+
+    expect(readCache(config, 'trees', 'key')).toEqual({ createdAt: '2025-06-01T12:00:00.000Z', value: { packageLock: { lockfileVersion: 3 } } });
+    expect(readCache(config, 'results', 'key')).toBeNull();
+    expect(fs.readdirSync(path.join(dir, 'trees'))).toEqual(['key.json']);
+  });
+
+  it('forgets entries once they are as old as the TTL, removing them', () => {
+    writeCache(config, 'results', 'key', []);
+
+    vi.setSystemTime(new Date('2025-06-01T12:59:59Z'));
+    expect(readCache(config, 'results', 'key')).not.toBeNull();
+    vi.setSystemTime(new Date('2025-06-01T13:00:00Z'));
+    expect(readCache(config, 'results', 'key')).toBeNull();
+    expect(fs.existsSync(path.join(dir, 'results', 'key.json'))).toBe(false);
+  });
+
+  it('does nothing with a TTL of 0', () => {
+    writeCache({ ...config, ttl: 0 }, 'results', 'key', []);
+
+    expect(fs.readdirSync(dir)).toEqual([]);
+    writeCache(config, 'results', 'key', []);
+    expect(readCache({ ...config, ttl: 0 }, 'results', 'key')).toBeNull();
+  });
+
+  it('writes a whole entry to a temporary file and then moves it into place', () => {
+    const rename = vi.spyOn(fs, 'renameSync');
+    writeCache(config, 'results', 'key', ['first']);
+
+    const [from, to] = rename.mock.calls[0];
+    expect(to).toBe(path.join(dir, 'results', 'key.json'));
+    expect(String(from)).toMatch(/key\.json\.\d+\.\d+\.tmp$/);
+    expect(fs.readdirSync(path.join(dir, 'results'))).toEqual(['key.json']);
+  });
+
+  it('keeps the previous entry when writing fails, cleans up and only logs the failure', () => {
+    writeCache(config, 'results', 'key', ['first']);
+    vi.spyOn(fs, 'renameSync').mockImplementation(() => {
+      throw Object.assign(new Error('EXDEV: cross-device link not permitted'), { code: 'EXDEV' });
+    });
+
+    expect(() => writeCache(config, 'results', 'key', ['second'])).not.toThrow();
+    expect(readCache(config, 'results', 'key').value).toEqual(['first']);
+    expect(fs.readdirSync(path.join(dir, 'results'))).toEqual(['key.json']);
+    expect(logged.error).toHaveBeenCalledWith(`Failed to write cache entry ${path.join(dir, 'results', 'key.json')}:`, expect.any(Error));
+  });
+
+  it('treats an unreadable entry as a miss', () => {
+    fs.mkdirSync(path.join(dir, 'results'));
+    fs.writeFileSync(path.join(dir, 'results', 'key.json'), '{"createdAt": "2025-06-01T12:00:00.000Z", "val');
+
+    expect(readCache(config, 'results', 'key')).toBeNull();
+    expect(logged.warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring unreadable cache entry'), expect.any(String));
+    expect(readCache(config, 'results', 'missing')).toBeNull();
+    expect(logged.warn).toHaveBeenCalledTimes(1);
+  });
+});
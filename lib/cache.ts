@@ -0,0 +1,62 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { log } from './log';
+
+export type CacheNamespace = 'trees' | 'results';
+
+export type CacheConfig = { directory: string; ttl: number };
+
+export type CacheEntry<T> = { createdAt: string; value: T };
+
+// Entries are addressed by a hash of everything that went into them, so a
+// changed manifest, lockfile, registry or advisory source is simply a miss.
+export function cacheKey(...parts: unknown[]) {
+  const hash = createHash('sha256');
+  for (const part of parts) {
+    hash.update(typeof part === 'string' ? part : JSON.stringify(part ?? null));
+    hash.update('\0');
+  }
+  return hash.digest('hex');
+}
+
+function entryPath(config: CacheConfig, namespace: CacheNamespace, key: string) {
+  return path.join(config.directory, namespace, `${key}.json`);
+}
+
+// The entry if there is one younger than the TTL; expired ones are removed on
+// the way. A TTL of 0 turns the cache off.
+export function readCache<T>(config: CacheConfig, namespace: CacheNamespace, key: string): CacheEntry<T> | null {
+  if (config.ttl <= 0) {
+    return null;
+  }
+  const file = entryPath(config, namespace, key);
+  try {
+    const entry: CacheEntry<T> = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (Date.now() - Date.parse(entry.createdAt) < config.ttl) {
+      return entry;
+    }
+    fs.rmSync(file, { force: true });
+  } catch (error) {
+    if (error.code !== 'ENOENT') log.warn(`Ignoring unreadable cache entry ${file}:`, error.message);
+  }
+  return null;
+}
+
+// A failure to write is logged, never fatal: the audit itself has succeeded.
+// Written to a temporary file first so concurrent readers never see half of it.
+export function writeCache<T>(config: CacheConfig, namespace: CacheNamespace, key: string, value: T) {
+  if (config.ttl <= 0) {
+    return;
+  }
+  const file = entryPath(config, namespace, key);
+  const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(temporary, JSON.stringify({ createdAt: new Date().toISOString(), value }));
+    fs.renameSync(temporary, file);
+  } catch (error) {
+    log.error(`Failed to write cache entry ${file}:`, error);
+    fs.rmSync(temporary, { force: true });
+  }
+}
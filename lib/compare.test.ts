@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { Advisory, Severity } from './audit';
+import { compareAudits } from './compare';
+
+const advisory = (id: string, severity: Severity, cvssScore?: number): Advisory =>
+  ({ source: id, id, title: `${id} title`, url: `https://github.com/advisories/${id}`, severity, cvssScore, cwe: [] });
+
+const finding = (name: string, advisories: Advisory[]) => ({
+  name,
+  vulnerability: advisories.map((item) => item.title).join(', ') || 'via a dependency',
+  severity: advisories[0]?.severity || 'high',
+  advisories,
+});
+
+describe('compareAudits', () => {
+  it('sorts findings into introduced, resolved and unchanged', () => {
+    const base = [finding('a', [advisory('GHSA-1', 'high')]), finding('b', [advisory('GHSA-2', 'low')]), finding('via', [])];
+    const head = [finding('a', [advisory('GHSA-1', 'high')]), finding('c', [advisory('GHSA-3', 'critical')]), finding('via', [])];
+
+    const delta = compareAudits(base, head);
+    expect(delta.introduced.map((item) => item.name)).toEqual(['c']);
+    expect(delta.resolved.map((item) => item.name)).toEqual(['b']);
+    expect(delta.unchanged.map((item) => item.name)).toEqual(['a', 'via']);
+  });
+
+  it('splits a package that picked up a new advisory, rating each part by its own advisories', () => {
+    const base = [finding('a', [advisory('GHSA-1', 'low', 3.1)])];
+    const head = [finding('a', [advisory('GHSA-1', 'low', 3.1), advisory('GHSA-2', 'critical', 9.8)])];
+
+    const delta = compareAudits(base, head);
+    expect(delta.introduced).toEqual([{ name: 'a', vulnerability: 'GHSA-2 title', severity: 'critical', cvssScore: 9.8, advisories: [head[0].advisories[1]] }]);
+    expect(delta.unchanged[0]).toMatchObject({ severity: 'low', cvssScore: 3.1, vulnerability: 'GHSA-1 title' });
+    expect(delta.resolved).toEqual([]);
+  });
+
+  it('matches advisories by GHSA id rather than the registry\'s numeric id', () => {
+    const base = [finding('a', [{ ...advisory('GHSA-1', 'high'), source: 1001 }])];
+    const head = [finding('a', [{ ...advisory('GHSA-1', 'high'), source: 2002 }])];
+    expect(compareAudits(base, head)).toMatchObject({ introduced: [], resolved: [], unchanged: [{ name: 'a' }] });
+  });
+});
@@ -0,0 +1,73 @@
+import { Advisory, describeAdvisories } from './audit';
+
+type Finding = {
+  name: string;
+  vulnerability: string;
+  severity: string;
+  cvssScore?: number;
+  advisories?: Advisory[];
+};
+
+const severityRank: Record<string, number> = { unknown: -1, info: 0, low: 1, moderate: 2, high: 3, critical: 4 };
+
+export type AuditDelta<T extends Finding> = {
+  introduced: T[];
+  resolved: T[];
+  unchanged: T[];
+};
+
+// npm's numeric advisory ids aren't stable across registries, the GHSA id is
+function advisoryKey(advisory: Advisory) {
+  return advisory.id || advisory.url || String(advisory.source);
+}
+
+// Match findings by package name and advisory, so a package that picks up a
+// new advisory shows under both "introduced" (the new one) and "unchanged".
+// Packages that are only vulnerable through a dependency have no advisories of
+// their own and are matched by name alone.
+export function compareAudits<T extends Finding>(base: T[], head: T[]): AuditDelta<T> {
+  const added = splitFindings(head, base);
+  return {
+    introduced: added.only,
+    resolved: splitFindings(base, head).only,
+    unchanged: added.shared,
+  };
+}
+
+function splitFindings<T extends Finding>(findings: T[], against: T[]) {
+  const known = new Map(against.map((finding) => [finding.name, new Set((finding.advisories || []).map(advisoryKey))]));
+  const only: T[] = [];
+  const shared: T[] = [];
+
+  for (const finding of findings) {
+    const seen = known.get(finding.name);
+    const advisories = finding.advisories || [];
+    if (advisories.length === 0) {
+      (seen ? shared : only).push(finding);
+      continue;
+    }
+
+    const fresh = advisories.filter((advisory) => !seen?.has(advisoryKey(advisory)));
+    const kept = advisories.filter((advisory) => seen?.has(advisoryKey(advisory)));
+    if (fresh.length > 0) only.push(withAdvisories(finding, fresh));
+    if (kept.length > 0) shared.push(withAdvisories(finding, kept));
+  }
+  return { only, shared };
+}
+
+// The finding narrowed down to some of its advisories
+export function withAdvisories<T extends Finding>(finding: T, advisories: Advisory[]): T {
+  if (advisories.length === finding.advisories.length) {
+    return finding;
+  }
+  // severity and score describe the advisories that are left
+  const worst = [...advisories].sort((a, b) => severityRank[b.severity] - severityRank[a.severity])[0];
+  const scores = advisories.map((advisory) => advisory.cvssScore).filter((score) => score !== undefined);
+  return {
+    ...finding,
+    advisories,
+    vulnerability: describeAdvisories(advisories),
+    severity: worst.severity,
+    cvssScore: scores.length > 0 ? Math.max(...scores) : undefined,
+  };
+}
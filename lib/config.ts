@@ -0,0 +1,300 @@
+import path from 'path';
+
+export type AdvisorySource =
+  | { type: 'npm' }
+  | { type: 'registry'; url: string }
+  | { type: 'local'; databasePath: string };
+
+// Where advisories come from, set through the environment:
+//   ADVISORY_SOURCE=npm        npm's bulk advisory endpoint on the default
+//                              registry, as `npm audit` uses it (default)
+//   ADVISORY_SOURCE=registry   the same endpoint on ADVISORY_REGISTRY_URL
+//   ADVISORY_SOURCE=local      match in-process against the imported database
+//                              at ADVISORY_DB_PATH (default data/advisories.json)
+export function advisorySource(): AdvisorySource {
+  switch (process.env.ADVISORY_SOURCE || 'npm') {
+    case 'npm':
+      return { type: 'npm' };
+    case 'registry':
+      if (!process.env.ADVISORY_REGISTRY_URL) {
+        throw new Error('ADVISORY_SOURCE=registry requires ADVISORY_REGISTRY_URL');
+      }
+      return { type: 'registry', url: process.env.ADVISORY_REGISTRY_URL };
+    case 'local':
+      return { type: 'local', databasePath: advisoryDatabasePath() };
+    default:
+      throw new Error(`Unknown ADVISORY_SOURCE: ${process.env.ADVISORY_SOURCE}`);
+  }
+}
+
+export function advisoryDatabasePath() {
+  return path.resolve(process.env.ADVISORY_DB_PATH || path.join('data', 'advisories.json'));
+}
+
+// Saved audit runs, see lib/history.ts
+export function historyDirectory() {
+  return path.resolve(process.env.HISTORY_DIR || path.join('data', 'history'));
+}
+
+// Audit policies stored per project, see lib/policy.ts
+export function policyDirectory() {
+  return path.resolve(process.env.POLICY_DIR || path.join('data', 'policies'));
+}
+
+export type DependencySpecType = 'registry' | 'git' | 'file' | 'url';
+
+const dependencySpecTypes: DependencySpecType[] = ['registry', 'git', 'file', 'url'];
+
+export type NpmRunnerConfig = {
+  allowedSpecs: DependencySpecType[];
+  cacheDirectory: string;
+  timeout: number;
+  maxMemory: number;
+  maxOutput: number;
+};
+
+// How npm runs on uploaded projects, see lib/npm-runner.ts:
+//   NPM_ALLOWED_SPECS   dependency specifiers npm may install, from registry,
+//                       git, file and url (default registry only)
+//   NPM_CACHE_DIR       npm's cache, kept apart from the server user's (default
+//                       data/npm-cache)
+//   NPM_TIMEOUT         seconds one npm command may run (default 300)
+//   NPM_MAX_MEMORY      megabytes of heap npm may use (default 1024)
+//   NPM_MAX_OUTPUT      megabytes of output kept from npm (default 50)
+export function npmRunnerConfig(): NpmRunnerConfig {
+  const allowedSpecs = (process.env.NPM_ALLOWED_SPECS || 'registry').split(',').map((spec) => spec.trim()).filter(Boolean);
+  for (const spec of allowedSpecs) {
+    if (!dependencySpecTypes.includes(spec as DependencySpecType)) {
+      throw new Error(`NPM_ALLOWED_SPECS: unknown specifier type ${spec}, expected ${dependencySpecTypes.join(', ')}`);
+    }
+  }
+  return {
+    allowedSpecs: allowedSpecs as DependencySpecType[],
+    cacheDirectory: path.resolve(process.env.NPM_CACHE_DIR || path.join('data', 'npm-cache')),
+    timeout: positiveInteger('NPM_TIMEOUT', 300) * 1000,
+    maxMemory: positiveInteger('NPM_MAX_MEMORY', 1024),
+    maxOutput: positiveInteger('NPM_MAX_OUTPUT', 50) * 1024 * 1024,
+  };
+}
+
+// Resolved trees and advisory results, see lib/cache.ts:
+//   CACHE_DIR   where they're kept (default data/cache)
+//   CACHE_TTL   seconds an entry is used for (default 3600), 0 turns the cache off
+export function cacheConfig() {
+  const ttl = process.env.CACHE_TTL;
+  if (ttl !== undefined && ttl !== '' && !/^\d+$/.test(ttl)) {
+    throw new Error('CACHE_TTL must be a number of seconds');
+  }
+  return {
+    directory: path.resolve(process.env.CACHE_DIR || path.join('data', 'cache')),
+    ttl: (ttl ? parseInt(ttl, 10) : 3600) * 1000,
+  };
+}
+
+// Audit jobs, see lib/jobs.ts:
+//   AUDIT_WORKERS       audits running at the same time (default 2)
+//   AUDIT_QUEUE_LIMIT   jobs left waiting before new ones are refused (default 50)
+export function jobQueueConfig() {
+  return {
+    workers: positiveInteger('AUDIT_WORKERS', 2),
+    queueLimit: positiveInteger('AUDIT_QUEUE_LIMIT', 50),
+  };
+}
+
+export type AccessConfig = {
+  required: boolean;
+  keysFile: string;
+  adminKey?: string;
+  rateLimit: number;
+  concurrency: number;
+};
+
+// Who may call the API, see lib/access.ts:
+//   API_AUTH          "keys" to require an API key on every API route (default),
+//                     "off" to leave the API open, for one user on their machine
+//   API_KEYS_FILE     issued keys, stored hashed (default data/api-keys.json)
+//   ADMIN_API_KEY     a key with admin rights over every team, to issue the
+//                     first keys with
+//   API_RATE_LIMIT    requests per minute per key (default 120)
+//   API_CONCURRENCY   audits one key may have running or queued (default 2)
+// Issued keys can have their own rate limit and concurrency.
+export function accessConfig(): AccessConfig {
+  const mode = process.env.API_AUTH || 'keys';
+  if (mode !== 'keys' && mode !== 'off') {
+    throw new Error(`Unknown API_AUTH: ${mode}`);
+  }
+  return {
+    required: mode === 'keys',
+    keysFile: path.resolve(process.env.API_KEYS_FILE || path.join('data', 'api-keys.json')),
+    adminKey: process.env.ADMIN_API_KEY || undefined,
+    rateLimit: positiveInteger('API_RATE_LIMIT', 120),
+    concurrency: positiveInteger('API_CONCURRENCY', 2),
+  };
+}
+
+export type NotificationSeverity = 'info' | 'low' | 'moderate' | 'high' | 'critical';
+
+const notificationSeverities: NotificationSeverity[] = ['info', 'low', 'moderate', 'high', 'critical'];
+
+export type NotificationChannel = {
+  type: 'webhook' | 'slack' | 'teams' | 'email';
+  // how the channel is called in logs, instead of its type and host
+  name?: string;
+  url?: string;
+  // signs webhook bodies, see lib/notifications.ts
+  secret?: string;
+  to?: string[];
+  // findings at least this severe trigger a notification (default high)
+  minSeverity: NotificationSeverity;
+  // a saved project's run having advisories its last run didn't (default true)
+  newAdvisories: boolean;
+  // only audits of these projects, or by these teams
+  projects?: string[];
+  teams?: string[];
+};
+
+// Where notifications about audit results go, see lib/notifications.ts:
+//   NOTIFY_CHANNELS   JSON list of channels, e.g.
+//     [{"type": "slack", "url": "https://hooks.slack.com/services/...", "minSeverity": "critical"},
+//      {"type": "teams", "url": "https://....webhook.office.com/..."},
+//      {"type": "webhook", "url": "https://ci.company.com/audits", "secret": "..."},
+//      {"type": "email", "to": ["security@company.com"], "projects": ["web"]}]
+//   Each channel takes minSeverity, newAdvisories, projects and teams as in
+//   NotificationChannel above.
+export function notificationChannels(): NotificationChannel[] {
+  let channels: any = [];
+  if (process.env.NOTIFY_CHANNELS) {
+    try {
+      channels = JSON.parse(process.env.NOTIFY_CHANNELS);
+    } catch (error) {
+      throw new Error(`NOTIFY_CHANNELS is not valid JSON: ${error.message}`);
+    }
+  }
+  if (!Array.isArray(channels)) {
+    throw new Error('NOTIFY_CHANNELS: expected a list of channels');
+  }
+
+  const isStringList = (value: unknown) => value === undefined || (Array.isArray(value) && value.every((item) => typeof item === 'string'));
+  return channels.map((channel: any, index: number) => {
+    const at = `NOTIFY_CHANNELS[${index}]`;
+    if (!['webhook', 'slack', 'teams', 'email'].includes(channel?.type)) {
+      throw new Error(`${at}: expected a type of webhook, slack, teams or email`);
+    }
+    if (channel.type === 'email') {
+      if (!Array.isArray(channel.to) || channel.to.length === 0 || !isStringList(channel.to)) {
+        throw new Error(`${at}: expected "to", a list of addresses`);
+      }
+    } else if (typeof channel.url !== 'string' || !/^https?:\/\//.test(channel.url)) {
+      throw new Error(`${at}: expected an http(s) url`);
+    }
+    const minSeverity = channel.minSeverity ?? 'high';
+    if (!notificationSeverities.includes(minSeverity)) {
+      throw new Error(`${at}: minSeverity must be one of ${notificationSeverities.join(', ')}`);
+    }
+    if (!isStringList(channel.projects) || !isStringList(channel.teams)) {
+      throw new Error(`${at}: projects and teams must be lists of names`);
+    }
+    return { ...channel, minSeverity, newAdvisories: channel.newAdvisories !== false };
+  });
+}
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  // TLS from the start (port 465); otherwise STARTTLS when the server offers it
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+};
+
+// The mail server email channels send through, see lib/smtp.ts:
+//   SMTP_HOST, SMTP_PORT      where it is (default port 587, 465 with SMTP_SECURE)
+//   SMTP_SECURE               "true" to connect with TLS rather than STARTTLS
+//   SMTP_USER, SMTP_PASSWORD  credentials, sent with AUTH PLAIN
+//   SMTP_FROM                 the sender address (default npm-audit@<SMTP_HOST>)
+export function smtpConfig(): SmtpConfig {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error('Email notifications require SMTP_HOST');
+  }
+  const secure = process.env.SMTP_SECURE === 'true';
+  return {
+    host,
+    port: positiveInteger('SMTP_PORT', secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from: process.env.SMTP_FROM || `npm-audit@${host}`,
+  };
+}
+
+function positiveInteger(name: string, fallback: number) {
+  const value = process.env[name];
+  if (value === undefined || value === '') return fallback;
+  if (!/^\d+$/.test(value) || parseInt(value, 10) < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return parseInt(value, 10);
+}
+
+export type PackageSource =
+  | { type: 'registry' }
+  | { type: 'local'; directory: string };
+
+// Where packages audited by name come from, set through the environment:
+//   PACKAGE_SOURCE=registry   the registries below, as npm resolves them (default)
+//   PACKAGE_SOURCE=local      `npm pack` tarballs in PACKAGE_DIR (default
+//                             data/packages), a stand-in registry for tests
+export function packageSource(): PackageSource {
+  switch (process.env.PACKAGE_SOURCE || 'registry') {
+    case 'registry':
+      return { type: 'registry' };
+    case 'local':
+      return { type: 'local', directory: path.resolve(process.env.PACKAGE_DIR || path.join('data', 'packages')) };
+    default:
+      throw new Error(`Unknown PACKAGE_SOURCE: ${process.env.PACKAGE_SOURCE}`);
+  }
+}
+
+// Hosts repositories may be cloned from for remote audits, so a request can't
+// make the server reach into its own network:
+//   GIT_ALLOWED_HOSTS   comma-separated host names (default github.com,
+//                       gitlab.com,bitbucket.org), or * for any host
+export function gitAllowedHosts(): string[] | '*' {
+  const hosts = (process.env.GIT_ALLOWED_HOSTS || 'github.com,gitlab.com,bitbucket.org').split(',').map((host) => host.trim().toLowerCase()).filter(Boolean);
+  return hosts.includes('*') ? '*' : hosts;
+}
+
+export type RegistryConfig = {
+  url?: string;
+  token?: string;
+  scopes: Record<string, { url: string; token?: string }>;
+};
+
+// Registries npm resolves packages from, set through the environment:
+//   NPM_REGISTRY_URL, NPM_REGISTRY_TOKEN   default registry and its auth token
+//   NPM_SCOPED_REGISTRIES                  JSON, e.g.
+//     {"@company": {"url": "https://npm.company.com/", "token": "..."}}
+export function registryConfig(): RegistryConfig {
+  let scopes = {};
+  if (process.env.NPM_SCOPED_REGISTRIES) {
+    try {
+      scopes = JSON.parse(process.env.NPM_SCOPED_REGISTRIES);
+    } catch (error) {
+      throw new Error(`NPM_SCOPED_REGISTRIES is not valid JSON: ${error.message}`);
+    }
+  }
+
+  for (const [scope, registry] of Object.entries<any>(scopes)) {
+    if (!scope.startsWith('@') || typeof registry?.url !== 'string') {
+      throw new Error(`NPM_SCOPED_REGISTRIES: expected "${scope}" to be an @scope with a url`);
+    }
+  }
+
+  return {
+    url: process.env.NPM_REGISTRY_URL,
+    token: process.env.NPM_REGISTRY_TOKEN,
+    scopes,
+  };
+}
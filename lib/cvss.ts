@@ -0,0 +1,45 @@
+const weights = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+  AC: { L: 0.77, H: 0.44 },
+  UI: { N: 0.85, R: 0.62 },
+  CIA: { H: 0.56, L: 0.22, N: 0 },
+};
+
+// CVSS v3.x base score from a vector string, per the FIRST specification.
+// Returns undefined for anything that isn't a complete v3 vector.
+export function cvss3BaseScore(vector?: string): number | undefined {
+  if (!vector || !/^CVSS:3\.[01]\//.test(vector)) {
+    return undefined;
+  }
+
+  const metrics: Record<string, string> = {};
+  for (const part of vector.split('/').slice(1)) {
+    const [key, value] = part.split(':');
+    metrics[key] = value;
+  }
+
+  const scopeChanged = metrics.S === 'C';
+  const av = weights.AV[metrics.AV];
+  const ac = weights.AC[metrics.AC];
+  const ui = weights.UI[metrics.UI];
+  const pr = { N: 0.85, L: scopeChanged ? 0.68 : 0.62, H: scopeChanged ? 0.5 : 0.27 }[metrics.PR];
+  const [c, i, a] = [metrics.C, metrics.I, metrics.A].map((value) => weights.CIA[value]);
+  if ([av, ac, ui, pr, c, i, a].some((weight) => weight === undefined) || !['U', 'C'].includes(metrics.S)) {
+    return undefined;
+  }
+
+  const iss = 1 - (1 - c) * (1 - i) * (1 - a);
+  const impact = scopeChanged ? 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15) : 6.42 * iss;
+  const exploitability = 8.22 * av * ac * pr * ui;
+
+  if (impact <= 0) {
+    return 0;
+  }
+  return roundUp(Math.min((scopeChanged ? 1.08 : 1) * (impact + exploitability), 10));
+}
+
+// The spec's Roundup, which avoids floating point artefacts like 4.000000001 -> 4.1
+function roundUp(value: number) {
+  const scaled = Math.round(value * 100000);
+  return scaled % 10000 === 0 ? scaled / 100000 : (Math.floor(scaled / 10000) + 1) / 10;
+}
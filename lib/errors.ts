@@ -0,0 +1,16 @@
+// Thrown for anything the API should answer with a specific status instead of
+// a generic 500; `extra` is merged into the JSON error body. It lives apart
+// from lib/workspace.ts, which re-exports it, so the upload parsing the
+// browser shares can throw it too.
+export class AuditError extends Error {
+  status: number;
+  details?: string;
+  extra?: Record<string, any>;
+
+  constructor(status: number, message: string, details?: string, extra?: Record<string, any>) {
+    super(message);
+    this.status = status;
+    this.details = details;
+    this.extra = extra;
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { applyUpgrades, buildFixPlan, isPackageName } from './fix-plan';
+
+const packageJson = `{
+    "name": "app",
+    "dependencies": {
+        "express": "^4.16.0",
+        "lodash": "4.17.15",
+        "internal": "github:company/internal"
+    }
+}
+`;
+
+const auditOutput = {
+  vulnerabilities: {
+    lodash: { via: [{ source: 1 }], fixAvailable: { name: 'lodash', version: '4.17.21', isSemVerMajor: false } },
+    qs: { via: [{ source: 2 }], fixAvailable: { name: 'express', version: '4.17.3', isSemVerMajor: false } },
+    'body-parser': { via: ['qs'], fixAvailable: { name: 'express', version: '4.18.2', isSemVerMajor: false } },
+    // vulnerable only through packages the plan upgrades
+    'raw-body': { via: ['body-parser'], fixAvailable: false },
+    minimist: { via: [{ source: 3 }], fixAvailable: true },
+    'left-pad': { via: [{ source: 4 }], fixAvailable: false },
+    internal: { via: [{ source: 5 }], fixAvailable: { name: 'internal', version: '2.0.0', isSemVerMajor: true } },
+  },
+};
+
+describe('buildFixPlan', () => {
+  const plan = buildFixPlan(auditOutput, JSON.parse(packageJson), packageJson);
+  const upgrade = (name: string) => plan.upgrades.find((item) => item.name === name);
+
+  it('bumps each package once, to the highest version a finding asks for', () => {
+    expect(upgrade('express')).toMatchObject({ from: '^4.16.0', to: '4.18.2', group: 'dependencies', manual: false });
+    expect(upgrade('express').fixes).toEqual(['qs', 'body-parser', 'raw-body']);
+    expect(upgrade('lodash')).toMatchObject({ from: '4.17.15', to: '4.17.21' });
+  });
+
+  it('leaves non-semver ranges to be edited by hand', () => {
+    expect(upgrade('internal')).toMatchObject({ manual: true, isSemVerMajor: true });
+    expect(JSON.parse(plan.packageJson).dependencies.internal).toBe('github:company/internal');
+  });
+
+  it('separates in-range and unfixable findings', () => {
+    expect(plan.inRange).toEqual(['minimist']);
+    expect(plan.unfixable).toEqual(['left-pad']);
+  });
+
+  it('keeps the range style and the file\'s formatting in the patched package.json', () => {
+    expect(JSON.parse(plan.packageJson).dependencies).toMatchObject({ express: '^4.18.2', lodash: '4.17.21' });
+    expect(plan.packageJson).toMatch(/^ {4}"name"/m);
+    expect(plan.packageJson.endsWith('}\n')).toBe(true);
+    expect(plan.diff).toContain('-        "express": "^4.16.0",');
+    expect(plan.diff).toContain('+        "express": "^4.18.2",');
+  });
+});
+
+describe('applyUpgrades', () => {
+  it('pins transitive packages through overrides', () => {
+    const patched = applyUpgrades({ dependencies: { a: '~1.0.0' } }, [
+      { name: 'a', from: '~1.0.0', to: '1.0.5', isSemVerMajor: false, group: 'dependencies', manual: false, fixes: [] },
+      { name: 'b', to: '2.1.0', isSemVerMajor: false, group: 'overrides', manual: false, fixes: [] },
+    ]);
+
+    expect(patched).toEqual({ dependencies: { a: '~1.0.5' }, overrides: { b: '^2.1.0' } });
+  });
+});
+
+describe('isPackageName', () => {
+  it('takes package names, scoped or not', () => {
+    expect(['lodash', 'left-pad', 'socket.io', '@babel/core', '@types/node', '3d-view'].every(isPackageName)).toBe(true);
+  });
+
+  it('refuses anything npm could read as an option or a path', () => {
+    expect(['--global', '-g', '--prefix=/etc', '@scope/-x', '.bin', '_private', '../evil', 'a b', ''].some(isPackageName)).toBe(false);
+  });
+});
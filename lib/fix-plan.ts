@@ -0,0 +1,183 @@
+import fs from 'fs';
+import path from 'path';
+import semver from 'semver';
+import { createTwoFilesPatch } from 'diff';
+import type { Manifest } from './lockfile';
+import { log } from './log';
+import { sanitizeOutput } from './npm-runner';
+import { manifestGroups, npm, Workspace } from './workspace';
+
+export type FixUpgrade = {
+  name: string;
+  // the declared range for direct dependencies, the existing override otherwise
+  from?: string;
+  to: string;
+  isSemVerMajor: boolean;
+  // direct dependencies are bumped in place, anything else through "overrides"
+  group: string;
+  // the declared range isn't a semver range (git url, alias, tag...) and has to be edited by hand
+  manual: boolean;
+  fixes: string[];
+};
+
+export type LockfileChange = {
+  location: string;
+  name: string;
+  from?: string;
+  to?: string;
+};
+
+export type FixPlan = {
+  upgrades: FixUpgrade[];
+  // fixed by updating within the declared ranges, no package.json change needed
+  inRange: string[];
+  unfixable: string[];
+  packageJson: string;
+  diff: string;
+  lockfile: { changes: LockfileChange[] } | { error: string } | null;
+};
+
+// Work out the smallest set of upgrades that resolves the audit, the way
+// `npm audit fix` would: one bump per package named in a fixAvailable, to the
+// highest version any finding asks for. Findings that are only vulnerable
+// through other packages count as fixed once all of those are.
+export function buildFixPlan(auditOutput: any, manifest: Manifest, originalText?: string): FixPlan {
+  const before = originalText ?? `${JSON.stringify(manifest, null, 2)}\n`;
+  const base: Manifest = JSON.parse(before);
+  const upgrades = new Map<string, FixUpgrade>();
+  const inRange: string[] = [];
+  const pending: Array<[string, any]> = [];
+  const fixedBy = new Map<string, string[]>();
+
+  for (const [name, info] of Object.entries<any>(auditOutput.vulnerabilities || {})) {
+    const fix = info.fixAvailable;
+    if (fix && typeof fix === 'object') {
+      const upgrade = upgrades.get(fix.name) || newUpgrade(base, fix.name, fix.version);
+      if (semver.valid(fix.version) && semver.valid(upgrade.to) && semver.gt(fix.version, upgrade.to)) {
+        upgrade.to = fix.version;
+      }
+      upgrade.isSemVerMajor = upgrade.isSemVerMajor || Boolean(fix.isSemVerMajor);
+      upgrade.fixes.push(name);
+      upgrades.set(fix.name, upgrade);
+      fixedBy.set(name, [fix.name]);
+    } else if (fix) {
+      inRange.push(name);
+      fixedBy.set(name, []);
+    } else {
+      pending.push([name, info]);
+    }
+  }
+
+  for (let progress = true; progress; ) {
+    progress = false;
+    for (const [name, info] of pending) {
+      if (fixedBy.has(name)) continue;
+      const via = Array.isArray(info.via) ? info.via : [info.via];
+      if (via.length === 0 || via.some((item) => typeof item !== 'string' || !fixedBy.has(item))) continue;
+
+      const through = Array.from(new Set<string>(via.flatMap((item) => fixedBy.get(item))));
+      through.forEach((upgrade) => upgrades.get(upgrade).fixes.push(name));
+      if (through.length === 0) inRange.push(name);
+      fixedBy.set(name, through);
+      progress = true;
+    }
+  }
+  const unfixable = pending.map(([name]) => name).filter((name) => !fixedBy.has(name));
+
+  const plan = Array.from(upgrades.values()).sort((a, b) => a.name.localeCompare(b.name));
+  const after = serializeLike(before, applyUpgrades(base, plan));
+
+  return {
+    upgrades: plan,
+    inRange: inRange.sort(),
+    unfixable: unfixable.sort(),
+    packageJson: after,
+    diff: unifiedDiff('package.json', before, after),
+    lockfile: null,
+  };
+}
+
+function newUpgrade(manifest: Manifest, name: string, version: string): FixUpgrade {
+  const group = manifestGroups.find((key) => manifest[key]?.[name] !== undefined) || 'overrides';
+  const from = group === 'overrides' ? manifest.overrides?.[name] : manifest[group][name];
+  return {
+    name,
+    from: typeof from === 'string' ? from : undefined,
+    to: version,
+    isSemVerMajor: false,
+    group,
+    manual: group !== 'overrides' && semver.validRange(from) === null,
+    fixes: [],
+  };
+}
+
+export function applyUpgrades(manifest: Manifest, upgrades: FixUpgrade[]): Manifest {
+  const patched = { ...manifest };
+  for (const upgrade of upgrades) {
+    if (upgrade.manual) continue;
+    patched[upgrade.group] = { ...patched[upgrade.group], [upgrade.name]: bumpRange(upgrade.from, upgrade.to) };
+  }
+  return patched;
+}
+
+// Keep the style of the existing range: exact pins stay exact, ~ stays ~,
+// everything else becomes a caret range.
+function bumpRange(range: string | undefined, version: string) {
+  const declared = range?.trim();
+  if (declared && semver.valid(declared)) return version;
+  return `${declared?.startsWith('~') ? '~' : '^'}${version}`;
+}
+
+// Re-serialize with the original file's indentation and trailing newline so
+// the diff only touches the lines that changed.
+function serializeLike(original: string, value: any) {
+  const indent = original.match(/^([ \t]+)"/m)?.[1] || 2;
+  return JSON.stringify(value, null, indent) + (original.endsWith('\n') ? '\n' : '');
+}
+
+function unifiedDiff(file: string, before: string, after: string) {
+  if (before === after) return '';
+  const patch = createTwoFilesPatch(`a/${file}`, `b/${file}`, before, after, undefined, undefined, { context: 3 });
+  return patch.replace(/^=+\n/, `diff --git a/${file} b/${file}\n`);
+}
+
+export const isPackageName = (name: string) => /^(@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*$/i.test(name);
+
+// Re-resolve the workspace's lockfile with the plan applied and report which
+// installed versions move. In-range fixes only need `npm update`.
+export async function resolveFixedLockfile(workspace: Workspace, plan: FixPlan): Promise<FixPlan['lockfile']> {
+  const lockfilePath = path.join(workspace.dir, 'package-lock.json');
+  const patched = applyUpgrades(workspace.packageJson, plan.upgrades);
+  fs.writeFileSync(path.join(workspace.dir, 'package.json'), JSON.stringify(patched, null, 2));
+
+  try {
+    await npm(workspace, ['install', '--package-lock-only', '--ignore-scripts']);
+    // names come from the (possibly uploaded) lockfile, so only take valid
+    // package names, which can't start like an option, and end the options first
+    const names = plan.inRange.filter(isPackageName);
+    if (names.length > 0) {
+      await npm(workspace, ['update', '--package-lock-only', '--ignore-scripts', '--', ...names]);
+    }
+    const updated = JSON.parse(fs.readFileSync(lockfilePath, 'utf8'));
+    return { changes: lockfileChanges(workspace.packageLock, updated) };
+  } catch (error) {
+    log.error('Failed to update package-lock.json:', error);
+    return { error: sanitizeOutput(error.stderr || error.message) };
+  }
+}
+
+function lockfileChanges(before: any, after: any): LockfileChange[] {
+  const previous = before?.packages || {};
+  const next = after?.packages || {};
+  const changes: LockfileChange[] = [];
+
+  for (const location of Array.from(new Set([...Object.keys(previous), ...Object.keys(next)])).sort()) {
+    if (location === '') continue;
+    const from = previous[location]?.version;
+    const to = next[location]?.version;
+    if (from === to) continue;
+    const name = next[location]?.name || previous[location]?.name || location.slice(location.lastIndexOf('node_modules/') + 'node_modules/'.length);
+    changes.push({ location, name, from, to });
+  }
+  return changes;
+}
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { listProjects, listRuns, loadLatestRun, loadRun, saveRun, summarizeVulnerabilities } from './history';
+
+const run = (project: string, team?: string, vulnerabilities: any[] = []) => ({
+  project,
+  team,
+  advisorySource: 'registry',
+  vulnerabilities,
+  graph: null,
+  unresolved: [],
+  metadata: {},
+});
+
+describe('history', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-history-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('summarizes findings by severity', () => {
+    expect(summarizeVulnerabilities([
+      { severity: 'high', advisories: [{}, {}] },
+      { severity: 'low', advisories: [{}] },
+      { severity: 'high' },
+    ])).toEqual({ info: 0, low: 1, moderate: 0, high: 2, critical: 0, total: 3, advisories: 3 });
+  });
+
+  it('keeps every run when many are saved at once', async () => {
+    const saved = await Promise.all(Array.from({ length: 20 }, (_, index) => saveRun(dir, run(`project-${index % 4}`))));
+
+    expect(listRuns(dir).map((item) => item.id).sort()).toEqual(saved.map((item) => item.id).sort());
+    expect(listProjects(dir).map((project) => [project.project, project.runs])).toEqual([
+      ['project-0', 5], ['project-1', 5], ['project-2', 5], ['project-3', 5],
+    ]);
+    expect(fs.readdirSync(path.join(dir, 'runs')).filter((file) => file.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('loads a saved run as it was, and nothing for ids it didn\'t generate', async () => {
+    const info = await saveRun(dir, run('app', undefined, [{ severity: 'critical', advisories: [{}] }]));
+
+    expect(loadRun(dir, info.id)).toMatchObject({ project: 'app', summary: { critical: 1, total: 1 } });
+    expect(loadRun(dir, '../index')).toBeNull();
+  });
+
+  it('finds the latest run of a project for the team only', async () => {
+    await saveRun(dir, run('app', 'red'));
+    const blue = await saveRun(dir, run('app', 'blue'));
+
+    expect(loadLatestRun(dir, 'app', 'blue')?.id).toBe(blue.id);
+    expect(loadLatestRun(dir, 'app')).toBeNull();
+    expect(listProjects(dir, (item) => item.team === 'red')[0].runs).toBe(1);
+  });
+});
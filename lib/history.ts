@@ -0,0 +1,139 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+export type RunSummary = {
+  info: number;
+  low: number;
+  moderate: number;
+  high: number;
+  critical: number;
+  total: number;
+  advisories: number;
+};
+
+export type AuditRunInfo = {
+  id: string;
+  project: string;
+  // the team of the API key that saved it, who alone (and admins) can see it
+  team?: string;
+  createdAt: string;
+  advisorySource: string;
+  summary: RunSummary;
+};
+
+// Everything the audit endpoint responded with, so a past run can be shown
+// again exactly as it was.
+export type AuditRun = AuditRunInfo & {
+  vulnerabilities: any[];
+  // findings the audit policy accepted, left out of the summary
+  suppressed?: any[];
+  policySource?: string | null;
+  licenses?: any;
+  graph: any;
+  unresolved: any[];
+  metadata: any;
+};
+
+export type ProjectInfo = {
+  project: string;
+  runs: number;
+  latest: AuditRunInfo;
+};
+
+// Runs are stored one file each under runs/, with index.json listing every
+// run's summary so listing and charting never has to open the runs themselves.
+function indexPath(dir: string) {
+  return path.join(dir, 'index.json');
+}
+
+function runPath(dir: string, id: string) {
+  return path.join(dir, 'runs', `${id}.json`);
+}
+
+function loadIndex(dir: string): AuditRunInfo[] {
+  const file = indexPath(dir);
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+// Written to a temporary file first so readers never see half of it
+async function writeAtomically(file: string, content: string) {
+  const temporary = `${file}.${process.pid}.${randomUUID()}.tmp`;
+  await fs.promises.writeFile(temporary, content);
+  await fs.promises.rename(temporary, file);
+}
+
+// Audits and queued jobs save runs at the same time, so index updates take
+// turns on one promise chain; otherwise two could read the same index and the
+// later write would drop the other's run. The dev server reloads modules, so
+// the chain hangs off globalThis.
+const store: { indexUpdates: Promise<void> } = (globalThis as any).auditHistory || ((globalThis as any).auditHistory = { indexUpdates: Promise.resolve() });
+
+function updateIndex(dir: string, update: (index: AuditRunInfo[]) => AuditRunInfo[]): Promise<void> {
+  const updated = store.indexUpdates.then(() => writeAtomically(indexPath(dir), JSON.stringify(update(loadIndex(dir)))));
+  // a failed update is the caller's to handle, not the next one's
+  store.indexUpdates = updated.catch(() => undefined);
+  return updated;
+}
+
+export function summarizeVulnerabilities(vulnerabilities: any[]): RunSummary {
+  const summary = { info: 0, low: 0, moderate: 0, high: 0, critical: 0, total: vulnerabilities.length, advisories: 0 };
+  for (const vulnerability of vulnerabilities) {
+    summary.advisories += vulnerability.advisories?.length || 0;
+    if (vulnerability.severity in summary) {
+      summary[vulnerability.severity] += 1;
+    }
+  }
+  return summary;
+}
+
+export async function saveRun(dir: string, run: Omit<AuditRun, 'id' | 'createdAt' | 'summary'>): Promise<AuditRunInfo> {
+  const info: AuditRunInfo = {
+    id: randomUUID(),
+    project: run.project,
+    ...(run.team === undefined ? {} : { team: run.team }),
+    createdAt: new Date().toISOString(),
+    advisorySource: run.advisorySource,
+    summary: summarizeVulnerabilities(run.vulnerabilities),
+  };
+
+  await fs.promises.mkdir(path.join(dir, 'runs'), { recursive: true });
+  await writeAtomically(runPath(dir, info.id), JSON.stringify({ ...run, ...info }));
+  await updateIndex(dir, (index) => [...index, info]);
+  return info;
+}
+
+// Oldest first, which is the order the trend chart wants. `visible` leaves out
+// runs the caller may not see.
+export function listRuns(dir: string, project?: string, visible: (run: AuditRunInfo) => boolean = () => true) {
+  return loadIndex(dir)
+    .filter((run) => (project === undefined || run.project === project) && visible(run))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function listProjects(dir: string, visible?: (run: AuditRunInfo) => boolean): ProjectInfo[] {
+  const projects = new Map<string, ProjectInfo>();
+  for (const run of listRuns(dir, undefined, visible)) {
+    const project = projects.get(run.project);
+    projects.set(run.project, { project: run.project, runs: (project?.runs || 0) + 1, latest: run });
+  }
+  return Array.from(projects.values()).sort((a, b) => a.project.localeCompare(b.project));
+}
+
+export function loadRun(dir: string, id: string): AuditRun | null {
+  // ids are generated by saveRun; anything else never names a file
+  if (!/^[0-9a-f-]{36}$/.test(id)) {
+    return null;
+  }
+  const file = runPath(dir, id);
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : null;
+}
+
+// The project's last saved run for the team, to tell what a new run changed
+export function loadLatestRun(dir: string, project: string, team?: string): AuditRun | null {
+  const runs = listRuns(dir, project, (run) => run.team === team);
+  return runs.length > 0 ? loadRun(dir, runs[runs.length - 1].id) : null;
+}
@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import { AuditError } from './errors';
+import { importReport } from './import-report';
+import { parseAuditRequest } from './workspace';
+
+// The tree the reports below describe: express depends on qs, and the
+// project has mocha for development
+const packageJson = { name: 'app', version: '1.0.0', dependencies: { express: '^4.17.0' }, devDependencies: { mocha: '^10.0.0' } };
+const packageLock = {
+  name: 'app',
+  version: '1.0.0',
+  lockfileVersion: 3,
+  packages: {
+    '': packageJson,
+    'node_modules/express': { version: '4.17.1', dependencies: { qs: '6.7.0' } },
+    'node_modules/qs': { version: '6.7.0' },
+    'node_modules/mocha': { version: '10.0.0', dev: true },
+  },
+};
+const tree = { packageJson, packageLock };
+
+// `npm audit --json` from npm 6
+const auditV1 = {
+  actions: [
+    { action: 'install', module: 'express', target: '4.18.2', isMajor: false, resolves: [{ id: 1, path: 'express>qs', dev: false }] },
+  ],
+  advisories: {
+    1: {
+      id: 1,
+      module_name: 'qs',
+      title: 'qs vulnerable to Prototype Pollution',
+      url: 'https://github.com/advisories/GHSA-hrpp-h998-j3pp',
+      severity: 'high',
+      cwe: 'CWE-1321',
+      vulnerable_versions: '<6.10.3',
+      findings: [{ version: '6.7.0', paths: ['express>qs'] }],
+    },
+  },
+  metadata: { vulnerabilities: { info: 0, low: 0, moderate: 0, high: 1, critical: 0 } },
+};
+
+// `npm audit --json` from npm 7 and later
+const auditV2 = {
+  auditReportVersion: 2,
+  vulnerabilities: {
+    qs: {
+      name: 'qs',
+      severity: 'high',
+      isDirect: false,
+      via: [{ source: 1, name: 'qs', dependency: 'qs', title: 'qs vulnerable to Prototype Pollution', url: 'https://github.com/advisories/GHSA-hrpp-h998-j3pp', severity: 'high', cwe: ['CWE-1321'], range: '<6.10.3' }],
+      effects: ['express'],
+      range: '<6.10.3',
+      nodes: [],
+      fixAvailable: true,
+    },
+  },
+  metadata: { vulnerabilities: { info: 0, low: 0, moderate: 0, high: 1, critical: 0, total: 1 } },
+};
+
+const cycloneDx = {
+  bomFormat: 'CycloneDX',
+  specVersion: '1.5',
+  metadata: { component: { 'bom-ref': 'app@1.0.0', name: 'app', version: '1.0.0' } },
+  components: [
+    { 'bom-ref': 'express@4.17.1', name: 'express', version: '4.17.1', purl: 'pkg:npm/express@4.17.1', licenses: [{ license: { id: 'MIT' } }] },
+    { 'bom-ref': 'qs@6.7.0', name: 'qs', version: '6.7.0', purl: 'pkg:npm/qs@6.7.0', hashes: [{ alg: 'SHA-512', content: 'abcd' }] },
+    {
+      'bom-ref': 'mocha@10.0.0',
+      name: 'mocha',
+      version: '10.0.0',
+      purl: 'pkg:npm/mocha@10.0.0',
+      properties: [{ name: 'cdx:npm:package:development', value: 'true' }],
+    },
+  ],
+  dependencies: [
+    { ref: 'app@1.0.0', dependsOn: ['express@4.17.1', 'mocha@10.0.0'] },
+    { ref: 'express@4.17.1', dependsOn: ['qs@6.7.0'] },
+  ],
+  vulnerabilities: [
+    {
+      id: 'GHSA-hrpp-h998-j3pp',
+      description: 'qs vulnerable to Prototype Pollution',
+      source: { url: 'https://github.com/advisories/GHSA-hrpp-h998-j3pp' },
+      ratings: [{ severity: 'medium' }, { severity: 'high', score: 7.5, vector: 'CVSS:3.1/AV:N' }],
+      cwes: [1321],
+      affects: [{ ref: 'qs@6.7.0' }],
+    },
+    { id: 'GHSA-mocha', ratings: [{ severity: 'critical' }], analysis: { state: 'not_affected' }, affects: [{ ref: 'mocha@10.0.0' }] },
+  ],
+};
+
+const purl = (name: string, version: string) => [{ referenceCategory: 'PACKAGE-MANAGER', referenceType: 'purl', referenceLocator: `pkg:npm/${name}@${version}` }];
+
+const spdx = {
+  spdxVersion: 'SPDX-2.3',
+  SPDXID: 'SPDXRef-DOCUMENT',
+  documentDescribes: ['SPDXRef-app'],
+  packages: [
+    { SPDXID: 'SPDXRef-app', name: 'app', versionInfo: '1.0.0', downloadLocation: 'NOASSERTION' },
+    { SPDXID: 'SPDXRef-express', name: 'express', versionInfo: '4.17.1', licenseDeclared: 'MIT', externalRefs: purl('express', '4.17.1') },
+    {
+      SPDXID: 'SPDXRef-qs',
+      name: 'qs',
+      versionInfo: '6.7.0',
+      downloadLocation: 'https://registry.npmjs.org/qs/-/qs-6.7.0.tgz',
+      externalRefs: [
+        ...purl('qs', '6.7.0'),
+        { referenceCategory: 'SECURITY', referenceType: 'advisory', referenceLocator: 'https://github.com/advisories/GHSA-hrpp-h998-j3pp' },
+      ],
+    },
+    { SPDXID: 'SPDXRef-mocha', name: 'mocha', versionInfo: '10.0.0', externalRefs: purl('mocha', '10.0.0') },
+  ],
+  relationships: [
+    { spdxElementId: 'SPDXRef-DOCUMENT', relationshipType: 'DESCRIBES', relatedSpdxElement: 'SPDXRef-app' },
+    { spdxElementId: 'SPDXRef-app', relationshipType: 'DEPENDS_ON', relatedSpdxElement: 'SPDXRef-express' },
+    { spdxElementId: 'SPDXRef-mocha', relationshipType: 'DEV_DEPENDENCY_OF', relatedSpdxElement: 'SPDXRef-app' },
+    { spdxElementId: 'SPDXRef-express', relationshipType: 'DEPENDS_ON', relatedSpdxElement: 'SPDXRef-qs' },
+  ],
+};
+
+describe('importReport', () => {
+  it('turns an npm 6 report into npm 7\'s, with the chains as via and effects', () => {
+    const { auditOutput } = importReport('audit-report', auditV1, tree);
+    const { qs, express } = auditOutput.vulnerabilities;
+
+    expect(qs).toMatchObject({
+      severity: 'high',
+      isDirect: false,
+      range: '<6.10.3',
+      via: [{ source: 1, name: 'qs', title: 'qs vulnerable to Prototype Pollution', cwe: ['CWE-1321'] }],
+      effects: ['express'],
+      nodes: ['node_modules/qs'],
+      fixAvailable: { name: 'express', version: '4.18.2', isSemVerMajor: false },
+    });
+    expect(express).toMatchObject({ severity: 'high', isDirect: true, via: ['qs'], range: '*', nodes: ['node_modules/express'] });
+    expect(qs.versions).toBeUndefined();
+  });
+
+  it('takes an npm 7 report as it is, finding its nodes in the tree', () => {
+    const { auditOutput, tree: imported } = importReport('audit-report', auditV2, tree);
+
+    expect(auditOutput.vulnerabilities.qs).toEqual({ ...auditV2.vulnerabilities.qs, nodes: ['node_modules/qs'] });
+    expect(imported).toBe(tree);
+    expect(importReport('audit-report', auditV2).tree).toEqual({ packageJson: {}, packageLock: null });
+  });
+
+  it('reads a CycloneDX SBOM\'s vulnerabilities and lays out its components as the tree', () => {
+    const { auditOutput, tree: imported } = importReport('sbom', cycloneDx);
+
+    expect(Object.keys(auditOutput.vulnerabilities)).toEqual(['qs']);
+    expect(auditOutput.vulnerabilities.qs).toMatchObject({
+      severity: 'high',
+      range: '6.7.0',
+      via: [{ source: 'GHSA-hrpp-h998-j3pp', name: 'qs', severity: 'high', cwe: ['CWE-1321'], cvss: { score: 7.5, vectorString: 'CVSS:3.1/AV:N' } }],
+      nodes: ['node_modules/qs'],
+    });
+    expect(auditOutput.metadata.vulnerabilities).toMatchObject({ high: 1, total: 1 });
+    expect(imported.packageJson).toMatchObject({ name: 'app', dependencies: { express: '4.17.1' }, devDependencies: { mocha: '10.0.0' } });
+    expect(imported.packageLock.packages['node_modules/qs']).toMatchObject({ version: '6.7.0', integrity: 'sha512-q80=' });
+    expect(imported.packageLock.packages['node_modules/express']).toMatchObject({ license: 'MIT', dependencies: { qs: '6.7.0' } });
+  });
+
+  it('reads an SPDX document\'s advisory references, whose severity it doesn\'t know', () => {
+    const { auditOutput, tree: imported } = importReport('sbom', spdx);
+
+    expect(auditOutput.vulnerabilities.qs).toMatchObject({
+      severity: 'unknown',
+      via: [{ source: 'GHSA-hrpp-h998-j3pp', url: 'https://github.com/advisories/GHSA-hrpp-h998-j3pp', severity: 'unknown' }],
+      nodes: ['node_modules/qs'],
+    });
+    expect(imported.packageJson).toMatchObject({ name: 'app', version: '1.0.0', dependencies: { express: '4.17.1' }, devDependencies: { mocha: '10.0.0' } });
+    expect(imported.packageLock.packages['node_modules/qs']).toMatchObject({ resolved: 'https://registry.npmjs.org/qs/-/qs-6.7.0.tgz' });
+  });
+
+  it('uses a dropped lockfile rather than the SBOM\'s tree', () => {
+    expect(importReport('sbom', cycloneDx, tree).tree).toBe(tree);
+  });
+
+  it.each([
+    ['audit-report', [], 'expected a JSON object'],
+    ['audit-report', { name: 'app' }, 'expected the advisories of npm 6 or the vulnerabilities of npm 7 and later'],
+    ['audit-report', { advisories: [1, 2] }, 'advisories must be an object of objects'],
+    ['audit-report', { vulnerabilities: { qs: 'high' } }, 'vulnerabilities must be an object of objects'],
+    ['sbom', { bomFormat: 'CycloneDX', components: 'qs' }, 'components must be a list of objects'],
+    ['sbom', { bomFormat: 'CycloneDX', vulnerabilities: [null] }, 'vulnerabilities must be a list of objects'],
+    ['sbom', { spdxVersion: 'SPDX-2.3', packages: {} }, 'packages must be a list of objects'],
+  ] as const)('refuses a malformed %s: %j', (type, report, details) => {
+    let error: AuditError;
+    try {
+      importReport(type, report, tree);
+    } catch (thrown) {
+      error = thrown;
+    }
+    expect(error).toBeInstanceOf(AuditError);
+    expect(error).toMatchObject({ status: 400, message: 'Invalid report format', details });
+  });
+
+  it.each(['null', '[]', '{"vulnerabilities": '])('refuses the report %s in an audit request', (content) => {
+    expect(() => parseAuditRequest({ report: { type: 'audit-report', content } })).toThrow(new AuditError(400, 'Invalid report format'));
+  });
+});
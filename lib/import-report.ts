@@ -0,0 +1,354 @@
+import { AuditError } from './errors';
+import { dependencyGraph, LockPackage, NpmWorkspace, workspaceFromGraph } from './lockfile';
+import type { DependencyScope } from './scopes';
+import type { ReportType } from './upload';
+
+const severityRank: Record<string, number> = { unknown: -1, info: 0, low: 1, moderate: 2, high: 3, critical: 4 };
+
+// VEX states that mean the finding doesn't apply (any more)
+const dismissedStates = ['not_affected', 'false_positive', 'resolved', 'resolved_with_pedigree'];
+
+type SbomComponent = LockPackage & { scope?: DependencyScope };
+
+type ParsedSbom = {
+  name?: string;
+  version?: string;
+  // component ids the root depends on, if the SBOM records them
+  rootDependencies: string[];
+  components: Record<string, SbomComponent>;
+  dependsOn: Record<string, string[]>;
+  // advisories per affected component id, in `npm audit --json` "via" shape
+  findings: Array<{ id: string; advisory: any }>;
+};
+
+// Turn an uploaded `npm audit --json` report or SBOM into the v2 audit output
+// the rest of the pipeline works from, plus the tree it describes. A dropped
+// lockfile wins over the tree an SBOM describes.
+export function importReport(type: ReportType, report: any, tree?: NpmWorkspace) {
+  checkReport(type, report);
+  if (type === 'sbom') {
+    const sbom = report.bomFormat === 'CycloneDX' ? parseCycloneDx(report) : parseSpdx(report);
+    const sbomTree = tree || sbomWorkspace(sbom);
+    return { auditOutput: withNodes(sbomAuditOutput(sbom), sbomTree.packageLock), tree: sbomTree };
+  }
+
+  const auditOutput = report.advisories ? fromAuditV1(report) : report;
+  return {
+    auditOutput: withNodes(auditOutput, tree?.packageLock),
+    tree: tree || { packageJson: {}, packageLock: null },
+  };
+}
+
+const isObject = (value: unknown) => Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+// The lists and maps the report is read from; a report without them is the
+// uploader's mistake, not a server error
+function checkReport(type: ReportType, report: any) {
+  const invalid = (details: string) => new AuditError(400, 'Invalid report format', details);
+  const list = (key: string) => {
+    if (report[key] !== undefined && !(Array.isArray(report[key]) && report[key].every(isObject))) throw invalid(`${key} must be a list of objects`);
+  };
+  const map = (key: string) => {
+    if (report[key] !== undefined && !(isObject(report[key]) && Object.values(report[key]).every(isObject))) throw invalid(`${key} must be an object of objects`);
+  };
+
+  if (!isObject(report)) throw invalid('expected a JSON object');
+  if (type === 'sbom') {
+    (report.bomFormat === 'CycloneDX' ? ['components', 'dependencies', 'vulnerabilities'] : ['packages', 'relationships']).forEach(list);
+    return;
+  }
+  if (report.advisories === undefined && report.vulnerabilities === undefined) {
+    throw invalid('expected the advisories of npm 6 or the vulnerabilities of npm 7 and later');
+  }
+  ['advisories', 'vulnerabilities'].forEach(map);
+}
+
+// npm 6's report: one entry per advisory with the dependency chains that lead
+// to the vulnerable package ("a>b>c"), and the actions that would fix them.
+function fromAuditV1(report: any) {
+  const vulnerabilities: Record<string, any> = {};
+  const vulnerability = (name: string) => {
+    if (!vulnerabilities[name]) {
+      vulnerabilities[name] = { name, severity: 'info', isDirect: false, via: [], effects: [], range: '', nodes: [], fixAvailable: false };
+    }
+    return vulnerabilities[name];
+  };
+  const raise = (entry: any, severity: string) => {
+    if ((severityRank[severity] ?? -1) > severityRank[entry.severity]) entry.severity = severity;
+  };
+  const versions: Record<string, string[]> = {};
+
+  for (const advisory of Object.values<any>(report.advisories || {})) {
+    const entry = vulnerability(advisory.module_name);
+    entry.via.push({
+      source: advisory.id,
+      name: advisory.module_name,
+      dependency: advisory.module_name,
+      title: advisory.title,
+      url: advisory.url,
+      severity: advisory.severity,
+      cwe: Array.isArray(advisory.cwe) ? advisory.cwe : advisory.cwe ? [advisory.cwe] : [],
+      cvss: advisory.cvss,
+      range: advisory.vulnerable_versions,
+    });
+    entry.range = entry.range && entry.range !== advisory.vulnerable_versions
+      ? `${entry.range} || ${advisory.vulnerable_versions}`
+      : advisory.vulnerable_versions;
+    raise(entry, advisory.severity);
+
+    for (const finding of advisory.findings || []) {
+      versions[advisory.module_name] = [...(versions[advisory.module_name] || []), finding.version];
+      for (const path of finding.paths || []) {
+        const chain: string[] = path.split('>');
+        vulnerability(chain[0]).isDirect = true;
+        // everything on the way depends on the next package down
+        for (let index = 0; index < chain.length - 1; index++) {
+          const parent = vulnerability(chain[index]);
+          const child = vulnerability(chain[index + 1]);
+          if (!parent.via.includes(chain[index + 1])) parent.via.push(chain[index + 1]);
+          if (!child.effects.includes(chain[index])) child.effects.push(chain[index]);
+          raise(parent, advisory.severity);
+        }
+      }
+    }
+  }
+
+  for (const action of report.actions || []) {
+    const fix = action.action === 'install'
+      ? { name: action.module, version: action.target, isSemVerMajor: Boolean(action.isMajor) }
+      : action.action === 'update';
+    for (const resolve of action.resolves || []) {
+      for (const name of String(resolve.path || '').split('>')) {
+        const entry = vulnerabilities[name];
+        if (entry && typeof entry.fixAvailable !== 'object' && fix) entry.fixAvailable = fix;
+      }
+    }
+  }
+
+  for (const entry of Object.values<any>(vulnerabilities)) {
+    if (!entry.range) entry.range = '*';
+    entry.versions = versions[entry.name];
+  }
+  return { auditReportVersion: 1, vulnerabilities, metadata: report.metadata };
+}
+
+// Point each vulnerable package at its locations in the tree, so findings get
+// dependency paths and scopes. Reports that already list their nodes keep them.
+function withNodes(auditOutput: any, packageLock: any) {
+  const nodes = packageLock ? dependencyGraph(packageLock).nodes : [];
+  const vulnerabilities: Record<string, any> = {};
+  for (const [name, info] of Object.entries<any>(auditOutput.vulnerabilities || {})) {
+    // the versions found, where the report has them and the range isn't exact
+    const { versions, ...rest } = info;
+    vulnerabilities[name] = !packageLock || info.nodes?.length > 0 ? rest : {
+      ...rest,
+      nodes: nodes
+        .filter((node) => node.id !== '' && node.name === name && (!versions || versions.includes(node.version)))
+        .map((node) => node.id),
+    };
+  }
+  return { ...auditOutput, vulnerabilities };
+}
+
+// Findings from an SBOM's embedded vulnerability data, one entry per package
+// name like npm audit
+function sbomAuditOutput(sbom: ParsedSbom) {
+  const vulnerabilities: Record<string, any> = {};
+  for (const { id, advisory } of sbom.findings) {
+    const component = sbom.components[id];
+    if (!component) continue;
+    const entry = vulnerabilities[component.name] || {
+      name: component.name,
+      severity: 'unknown',
+      isDirect: false,
+      via: [],
+      effects: [],
+      range: component.version,
+      nodes: [],
+      fixAvailable: false,
+      versions: [],
+    };
+    if (!entry.via.some((via) => via.source === advisory.source)) entry.via.push(advisory);
+    if (!entry.versions.includes(component.version)) entry.versions.push(component.version);
+    entry.range = entry.versions.join(' || ');
+    if ((severityRank[advisory.severity] ?? -1) > severityRank[entry.severity]) entry.severity = advisory.severity;
+    if (sbom.rootDependencies.includes(id)) entry.isDirect = true;
+    vulnerabilities[component.name] = entry;
+  }
+  return { vulnerabilities, metadata: { vulnerabilities: countSeverities(vulnerabilities) } };
+}
+
+function countSeverities(vulnerabilities: Record<string, any>) {
+  const counts = { info: 0, low: 0, moderate: 0, high: 0, critical: 0, total: 0 };
+  for (const info of Object.values<any>(vulnerabilities)) {
+    if (info.severity in counts) counts[info.severity] += 1;
+    counts.total += 1;
+  }
+  return counts;
+}
+
+// Lay the SBOM's packages out as a lockfile. Without a recorded root, every
+// package nothing else depends on counts as a direct dependency.
+function sbomWorkspace(sbom: ParsedSbom) {
+  const packages: Record<string, LockPackage> = {};
+  for (const [id, component] of Object.entries(sbom.components)) {
+    const dependencies: Record<string, string> = {};
+    const optionalDependencies: Record<string, string> = {};
+    for (const target of sbom.dependsOn[id] || []) {
+      const dependency = sbom.components[target];
+      if (!dependency || target === id) continue;
+      (dependency.scope === 'optional' ? optionalDependencies : dependencies)[dependency.name] = target;
+    }
+    const { scope, ...pkg } = component;
+    packages[id] = { ...pkg, dependencies, optionalDependencies };
+  }
+
+  let rootDependencies = sbom.rootDependencies.filter((id) => packages[id]);
+  if (rootDependencies.length === 0) {
+    const referenced = new Set(Object.values(packages).flatMap((pkg) => [...Object.values(pkg.dependencies), ...Object.values(pkg.optionalDependencies)]));
+    rootDependencies = Object.keys(packages).filter((id) => !referenced.has(id));
+  }
+
+  const roots = { dependencies: {}, devDependencies: {}, optionalDependencies: {} };
+  const manifest = { name: sbom.name, version: sbom.version, dependencies: {}, devDependencies: {}, optionalDependencies: {} };
+  for (const id of rootDependencies) {
+    const { name, version, scope } = sbom.components[id];
+    const group = scope === 'dev' ? 'devDependencies' : scope === 'optional' ? 'optionalDependencies' : 'dependencies';
+    roots[group][name] = id;
+    manifest[group][name] = version;
+  }
+  return workspaceFromGraph({ manifest, roots, packages });
+}
+
+// pkg:npm/%40scope/name@1.0.0 -> @scope/name, 1.0.0
+function parsePackageUrl(purl?: string) {
+  const match = purl?.match(/^pkg:npm\/([^@?#]+(?:\/[^@?#]+)?)@([^?#]+)/);
+  return match ? { name: decodeURIComponent(match[1]), version: decodeURIComponent(match[2]) } : null;
+}
+
+// "SHA-512" + hex -> "sha512-<base64>", the lockfile's integrity format
+function integrity(algorithm: string, hex: string) {
+  return `${algorithm.replace('-', '').toLowerCase()}-${Buffer.from(hex, 'hex').toString('base64')}`;
+}
+
+function severityOf(severity?: string) {
+  if (severity === 'medium') return 'moderate';
+  if (severity === 'none') return 'info';
+  return severity in severityRank ? severity : 'unknown';
+}
+
+function parseCycloneDx(bom: any): ParsedSbom {
+  const components: Record<string, SbomComponent> = {};
+  const collect = (list: any[]) => {
+    for (const component of list || []) {
+      const purl = parsePackageUrl(component.purl);
+      const ref = component['bom-ref'] || component.purl;
+      if (purl && ref) {
+        const development = (component.properties || []).some((property) => property.name === 'cdx:npm:package:development' && property.value === 'true');
+        const license = component.licenses?.[0];
+        components[ref] = {
+          ...purl,
+          resolved: component.externalReferences?.find((reference) => reference.type === 'distribution')?.url,
+          integrity: (component.hashes || []).map((hash) => integrity(hash.alg, hash.content)).join(' ') || undefined,
+          license: license?.expression || license?.license?.id || license?.license?.name,
+          scope: component.scope === 'excluded' || development ? 'dev' : component.scope === 'optional' ? 'optional' : 'prod',
+          dependencies: {},
+          optionalDependencies: {},
+        };
+      }
+      collect(component.components);
+    }
+  };
+  collect(bom.components);
+
+  const dependsOn: Record<string, string[]> = {};
+  for (const dependency of bom.dependencies || []) {
+    dependsOn[dependency.ref] = dependency.dependsOn || [];
+  }
+
+  const root = bom.metadata?.component;
+  const findings = [];
+  for (const vulnerability of bom.vulnerabilities || []) {
+    if (dismissedStates.includes(vulnerability.analysis?.state)) continue;
+    const rating = (vulnerability.ratings || []).find((item) => item.score !== undefined) || vulnerability.ratings?.[0];
+    const url = vulnerability.source?.url || vulnerability.advisories?.[0]?.url;
+    const advisory = {
+      source: vulnerability.id,
+      title: vulnerability.description || vulnerability.detail || vulnerability.id,
+      url,
+      severity: severityOf(rating?.severity),
+      cwe: (vulnerability.cwes || []).map((cwe) => `CWE-${cwe}`),
+      cvss: rating?.score !== undefined ? { score: rating.score, vectorString: rating.vector } : undefined,
+    };
+    for (const affect of vulnerability.affects || []) {
+      findings.push({ id: affect.ref, advisory: { ...advisory, name: components[affect.ref]?.name } });
+    }
+  }
+
+  return {
+    name: root?.name,
+    version: root?.version,
+    rootDependencies: root ? dependsOn[root['bom-ref']] || [] : [],
+    components,
+    dependsOn,
+    findings,
+  };
+}
+
+// SPDX has no vulnerability data of its own, only SECURITY references to
+// advisories; their severity is whatever the advisory says, which we don't know.
+function parseSpdx(document: any): ParsedSbom {
+  const components: Record<string, SbomComponent> = {};
+  const findings = [];
+  const assertion = (value?: string) => (value && value !== 'NOASSERTION' && value !== 'NONE' ? value : undefined);
+
+  for (const pkg of document.packages || []) {
+    const refs = pkg.externalRefs || [];
+    const purl = parsePackageUrl(refs.find((ref) => ref.referenceType === 'purl')?.referenceLocator);
+    if (!purl) continue;
+    components[pkg.SPDXID] = {
+      ...purl,
+      resolved: assertion(pkg.downloadLocation),
+      integrity: (pkg.checksums || []).map((checksum) => integrity(checksum.algorithm, checksum.checksumValue)).join(' ') || undefined,
+      license: assertion(pkg.licenseDeclared),
+      dependencies: {},
+      optionalDependencies: {},
+    };
+    for (const ref of refs.filter((item) => item.referenceCategory === 'SECURITY' && item.referenceType === 'advisory')) {
+      const id = ref.referenceLocator.match(/GHSA(-[23456789cfghjmpqrvwx]{4}){3}/i)?.[0] || ref.referenceLocator;
+      findings.push({
+        id: pkg.SPDXID,
+        advisory: { source: id, name: purl.name, title: id, url: ref.referenceLocator, severity: 'unknown', cwe: [] },
+      });
+    }
+  }
+
+  const rootId = document.documentDescribes?.[0] ||
+    (document.relationships || []).find((item) => item.spdxElementId === 'SPDXRef-DOCUMENT' && item.relationshipType === 'DESCRIBES')?.relatedSpdxElement;
+  const dependsOn: Record<string, string[]> = {};
+  const addEdge = (from: string, to: string) => {
+    dependsOn[from] = [...(dependsOn[from] || []), to];
+  };
+  for (const { spdxElementId, relationshipType, relatedSpdxElement } of document.relationships || []) {
+    if (relationshipType === 'DEPENDS_ON') addEdge(spdxElementId, relatedSpdxElement);
+    if (/^(|DEV_|OPTIONAL_)DEPENDENCY_OF$/.test(relationshipType)) {
+      addEdge(relatedSpdxElement, spdxElementId);
+      // only the root's dev and optional dependencies need marking, the
+      // lockfile layout works out the rest
+      const component = components[spdxElementId];
+      if (component && relatedSpdxElement === rootId && relationshipType !== 'DEPENDENCY_OF') {
+        component.scope = relationshipType === 'DEV_DEPENDENCY_OF' ? 'dev' : 'optional';
+      }
+    }
+  }
+
+  const root = (document.packages || []).find((pkg) => pkg.SPDXID === rootId);
+  return {
+    name: root?.name,
+    version: assertion(root?.versionInfo),
+    rootDependencies: dependsOn[rootId] || [],
+    components,
+    dependsOn,
+    findings,
+  };
+}
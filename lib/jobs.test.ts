@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cancelJob, getJob, JobEvent, submitJob, subscribeJob } from './jobs';
+import { AuditError, AuditProgress } from './workspace';
+
+// An audit that ends when the test says so
+function audit() {
+  const control: { progress?: AuditProgress; resolve?: (value: any) => void; reject?: (error: Error) => void } = {};
+  const run = vi.fn((progress: AuditProgress) => {
+    control.progress = progress;
+    return new Promise((resolve, reject) => Object.assign(control, { resolve, reject }));
+  });
+  return { run, control };
+}
+
+// Let settled audits finish and the next ones start
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+const status = (id: string) => getJob(id)?.status;
+
+describe('jobs', () => {
+  beforeEach(() => {
+    vi.stubEnv('AUDIT_WORKERS', '1');
+    vi.stubEnv('AUDIT_QUEUE_LIMIT', '5');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it('runs jobs in the order they were queued, as many at a time as there are workers', async () => {
+    const [a, b, c] = [audit(), audit(), audit()];
+    const first = submitJob(a.run);
+    const second = submitJob(b.run);
+    const third = submitJob(c.run, { team: 'payments' });
+
+    expect(first).toMatchObject({ status: 'running', stages: [{ stage: 'queued' }] });
+    expect(second).toMatchObject({ status: 'queued', position: 0 });
+    expect(third).toMatchObject({ status: 'queued', position: 1, team: 'payments' });
+    expect(b.run).not.toHaveBeenCalled();
+
+    a.control.resolve({ vulnerabilities: [] });
+    await settle();
+    expect(getJob(first.id)).toMatchObject({ status: 'done', result: { vulnerabilities: [] } });
+    expect(getJob(first.id).finishedAt).toBeDefined();
+    expect(status(second.id)).toBe('running');
+    expect(getJob(third.id).position).toBe(0);
+
+    b.control.reject(new AuditError(400, 'Invalid lockfile', 'line 3'));
+    await settle();
+    expect(getJob(second.id)).toMatchObject({ status: 'failed', error: { message: 'Invalid lockfile', details: 'line 3' } });
+    c.control.resolve({});
+    await settle();
+  });
+
+  it('refuses jobs once the queue is full', async () => {
+    vi.stubEnv('AUDIT_QUEUE_LIMIT', '1');
+    const [a, b] = [audit(), audit()];
+    submitJob(a.run);
+    submitJob(b.run);
+
+    expect(() => submitJob(audit().run)).toThrow(new AuditError(503, 'Too many audits waiting, try again later'));
+    a.control.resolve({});
+    await settle();
+    b.control.resolve({});
+    await settle();
+  });
+
+  it('cancels a queued job without running it', async () => {
+    const [a, b, c] = [audit(), audit(), audit()];
+    const onFinish = vi.fn();
+    const running = submitJob(a.run);
+    const queued = submitJob(b.run, { onFinish });
+    const last = submitJob(c.run);
+
+    expect(cancelJob(queued.id)).toMatchObject({ status: 'cancelled' });
+    expect(onFinish).toHaveBeenCalledTimes(1);
+    expect(getJob(last.id).position).toBe(0);
+
+    a.control.resolve({});
+    await settle();
+    expect(b.run).not.toHaveBeenCalled();
+    expect(status(last.id)).toBe('running');
+    c.control.resolve({});
+    await settle();
+    expect(cancelJob(running.id)).toMatchObject({ status: 'done' });
+    expect(cancelJob('no-such-job')).toBeNull();
+  });
+
+  it('cancels a running job by aborting its audit, even if the audit gets to the end', async () => {
+    const a = audit();
+    const onFinish = vi.fn();
+    const job = submitJob(a.run, { onFinish });
+
+    expect(cancelJob(job.id)).toMatchObject({ status: 'running' });
+    expect(a.control.progress.signal.aborted).toBe(true);
+
+    a.control.resolve({ vulnerabilities: [] });
+    await settle();
+    expect(getJob(job.id)).toMatchObject({ status: 'cancelled' });
+    expect(getJob(job.id).result).toBeUndefined();
+    expect(onFinish).toHaveBeenCalledTimes(1);
+  });
+
+  it('tells subscribers about each stage and the end, and no one after that', async () => {
+    const a = audit();
+    const job = submitJob(a.run);
+    const events: JobEvent[] = [];
+    const unsubscribe = subscribeJob(job.id, (event) => events.push(event));
+    const late: JobEvent[] = [];
+    subscribeJob(job.id, (event) => late.push(event))();
+
+    a.control.progress.stage('install', 'Installing dependencies');
+    a.control.progress.stage('audit', 'Running npm audit');
+    a.control.resolve({});
+    await settle();
+
+    expect(events).toEqual([
+      { type: 'stage', stage: { stage: 'install', message: 'Installing dependencies', at: expect.any(String) } },
+      { type: 'stage', stage: { stage: 'audit', message: 'Running npm audit', at: expect.any(String) } },
+      { type: 'end', status: 'done' },
+    ]);
+    expect(late).toEqual([]);
+    expect(getJob(job.id).stages.map((stage) => stage.stage)).toEqual(['queued', 'install', 'audit']);
+    expect(subscribeJob(job.id, () => undefined)).toBeNull();
+    unsubscribe();
+  });
+
+  it('forgets finished jobs after an hour', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    const a = audit();
+    const job = submitJob(a.run);
+    a.control.resolve({});
+    await settle();
+
+    vi.advanceTimersByTime(59 * 60 * 1000);
+    expect(status(job.id)).toBe('done');
+    vi.advanceTimersByTime(60 * 1000);
+    expect(getJob(job.id)).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { apiError } from './api';
+import type { ApiError } from './api-types';
+import { jobQueueConfig } from './config';
+import { AuditError, AuditProgress, AuditStage } from './workspace';
+
+// Finished jobs stay around this long for their results to be fetched
+const JOB_RETENTION = 60 * 60 * 1000;
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export type JobStage = { stage: AuditStage | 'queued'; message: string; at: string };
+
+export type Job = {
+  id: string;
+  status: JobStatus;
+  stages: JobStage[];
+  createdAt: string;
+  // the team of the API key that queued it, who alone (and admins) can see it
+  team?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  // jobs ahead of this one while it's queued
+  position?: number;
+  // what the audit would have responded with
+  result?: any;
+  // why it failed, as the API reports errors
+  error?: ApiError;
+};
+
+export type JobEvent = { type: 'stage'; stage: JobStage } | { type: 'end'; status: JobStatus };
+
+type Entry = {
+  job: Job;
+  run: (progress: AuditProgress) => Promise<any>;
+  controller: AbortController;
+  events: EventEmitter;
+  onFinish?: () => void;
+};
+
+// Jobs live in memory, shared by every API route of the server process; the
+// dev server reloads modules, so the store hangs off globalThis.
+type JobStore = { entries: Map<string, Entry>; queue: string[]; running: number };
+
+const store: JobStore = (globalThis as any).auditJobs || ((globalThis as any).auditJobs = { entries: new Map(), queue: [], running: 0 });
+
+const isFinished = (status: JobStatus) => status === 'done' || status === 'failed' || status === 'cancelled';
+
+function addStage(entry: Entry, stage: JobStage['stage'], message: string) {
+  const jobStage = { stage, message, at: new Date().toISOString() };
+  entry.job.stages.push(jobStage);
+  entry.events.emit('event', { type: 'stage', stage: jobStage });
+}
+
+function finish(entry: Entry, status: JobStatus, outcome: Pick<Job, 'result' | 'error'>) {
+  Object.assign(entry.job, { status, finishedAt: new Date().toISOString() }, outcome);
+  entry.events.emit('event', { type: 'end', status });
+  entry.events.removeAllListeners();
+  entry.onFinish?.();
+  setTimeout(() => store.entries.delete(entry.job.id), JOB_RETENTION).unref();
+}
+
+// Start queued jobs while there are workers free
+function startJobs() {
+  const { workers } = jobQueueConfig();
+  while (store.running < workers && store.queue.length > 0) {
+    const entry = store.entries.get(store.queue.shift());
+    if (!entry) continue;
+
+    store.running += 1;
+    entry.job.status = 'running';
+    entry.job.startedAt = new Date().toISOString();
+    const progress: AuditProgress = {
+      stage: (stage, message) => addStage(entry, stage, message),
+      signal: entry.controller.signal,
+    };
+    // a cancelled audit that got to the end anyway is still cancelled
+    const settle = (status: JobStatus, outcome: () => Pick<Job, 'result' | 'error'>) =>
+      entry.controller.signal.aborted ? finish(entry, 'cancelled', {}) : finish(entry, status, outcome());
+    entry.run(progress).then(
+      (result) => settle('done', () => ({ result })),
+      (error) => settle('failed', () => ({ error: apiError(error, 'Failed to perform npm audit').error }))
+    ).finally(() => {
+      store.running -= 1;
+      startJobs();
+    });
+  }
+}
+
+// Queue an audit; `run` does the work, reporting its stages to the job's
+// subscribers, and `onFinish` is called however the job ends. A full queue is
+// refused rather than left to grow.
+export function submitJob(run: Entry['run'], { team, onFinish }: { team?: string; onFinish?: () => void } = {}): Job {
+  if (store.queue.length >= jobQueueConfig().queueLimit) {
+    throw new AuditError(503, 'Too many audits waiting, try again later');
+  }
+  const entry: Entry = {
+    job: { id: randomUUID(), status: 'queued', stages: [], createdAt: new Date().toISOString(), ...(team === undefined ? {} : { team }) },
+    run,
+    controller: new AbortController(),
+    events: new EventEmitter(),
+    onFinish,
+  };
+  store.entries.set(entry.job.id, entry);
+  store.queue.push(entry.job.id);
+  addStage(entry, 'queued', 'Waiting for a free worker');
+  startJobs();
+  return getJob(entry.job.id);
+}
+
+export function getJob(id: string): Job | null {
+  const entry = store.entries.get(id);
+  if (!entry) return null;
+  const position = store.queue.indexOf(id);
+  return { ...entry.job, ...(position === -1 ? {} : { position }) };
+}
+
+// Cancel a queued or running job; finished ones are left as they are
+export function cancelJob(id: string): Job | null {
+  const entry = store.entries.get(id);
+  if (!entry) return null;
+  if (entry.job.status === 'queued') {
+    store.queue.splice(store.queue.indexOf(id), 1);
+    finish(entry, 'cancelled', {});
+  } else if (entry.job.status === 'running') {
+    entry.controller.abort();
+  }
+  return getJob(id);
+}
+
+// Follow a job's stages until it finishes; returns the unsubscribe function,
+// or null when the job is already finished (or unknown).
+export function subscribeJob(id: string, listener: (event: JobEvent) => void): (() => void) | null {
+  const entry = store.entries.get(id);
+  if (!entry || isFinished(entry.job.status)) return null;
+  entry.events.on('event', listener);
+  return () => entry.events.off('event', listener);
+}
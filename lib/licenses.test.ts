@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createLicenseReport, declaredLicense, licenseCategory, licenseViolation } from './licenses';
+
+describe('licenseCategory', () => {
+  it.each([
+    ['MIT', 'permissive'],
+    ['GPL-3.0-or-later', 'strong-copyleft'],
+    ['LGPL-2.1+', 'weak-copyleft'],
+    ['(MIT OR GPL-3.0)', 'permissive'],
+    ['MIT AND MPL-2.0', 'weak-copyleft'],
+    ['GPL-2.0 WITH Classpath-exception-2.0', 'strong-copyleft'],
+    ['SEE LICENSE IN LICENSE.md', 'unknown'],
+    ['UNLICENSED', 'unknown'],
+    ['Proprietary-1.0', 'unknown'],
+    [null, 'unknown'],
+  ])('puts %s under %s', (license, category) => {
+    expect(licenseCategory(license)).toBe(category);
+  });
+});
+
+describe('licenseViolation', () => {
+  it('lets a package through when any alternative is acceptable', () => {
+    expect(licenseViolation('MIT OR GPL-3.0', { deny: ['strong-copyleft'] })).toBeNull();
+    expect(licenseViolation('GPL-3.0-only', { deny: ['GPL-3.0'] })).toBe('Licence GPL-3.0-only is denied by policy');
+  });
+
+  it('needs every licence of an alternative in the allowed list', () => {
+    expect(licenseViolation('MIT AND ISC', { allow: ['permissive'] })).toBeNull();
+    expect(licenseViolation('MIT AND MPL-2.0', { allow: ['MIT'] })).toBe('Licence MIT AND MPL-2.0 is not in the allowed list');
+  });
+
+  it('doesn\'t judge packages without a licence or without rules', () => {
+    expect(licenseViolation(null, { allow: ['MIT'] })).toBeNull();
+    expect(licenseViolation('GPL-3.0', undefined)).toBeNull();
+  });
+});
+
+describe('declaredLicense', () => {
+  it('reads the deprecated object and list forms', () => {
+    expect(declaredLicense({ license: 'MIT' })).toBe('MIT');
+    expect(declaredLicense({ license: { type: 'ISC', url: 'https://example.com' } })).toBe('ISC');
+    expect(declaredLicense({ licenses: [{ type: 'MIT' }, { type: 'Apache-2.0' }] })).toBe('(MIT OR Apache-2.0)');
+    expect(declaredLicense({})).toBeNull();
+  });
+});
+
+describe('createLicenseReport', () => {
+  const packageJson = { name: 'app', dependencies: { a: '^1.0.0' }, devDependencies: { gpl: '^1.0.0' } };
+  const packageLock = {
+    lockfileVersion: 3,
+    packages: {
+      '': packageJson,
+      'node_modules/a': { version: '1.0.0', license: 'MIT', dependencies: { b: '^1.0.0' } },
+      'node_modules/b': { version: '1.0.0' },
+      'node_modules/gpl': { version: '1.0.0', license: 'GPL-3.0-only', dev: true, dependencies: { b: '^1.0.0' } },
+      'node_modules/gpl/node_modules/b': { version: '1.0.0', dev: true },
+    },
+  };
+
+  it('lists each name@version once with its scopes and counts the categories', () => {
+    const { packages, summary } = createLicenseReport(packageJson, packageLock, { deny: ['strong-copyleft'] });
+
+    expect(packages.map((pkg) => [pkg.name, pkg.category, pkg.isDirect])).toEqual([
+      ['a', 'permissive', true],
+      ['b', 'unknown', false],
+      ['gpl', 'strong-copyleft', true],
+    ]);
+    expect(packages[1].scopes.sort()).toEqual(['dev', 'prod']);
+    expect(packages[2].violation).toBe('Licence GPL-3.0-only is denied by policy');
+    expect(summary).toEqual({ permissive: 1, 'weak-copyleft': 0, 'strong-copyleft': 1, unknown: 1, total: 3, violations: 1 });
+  });
+});
@@ -0,0 +1,175 @@
+import { dependencyGraph, isWorkspaceLocation, lockfileEntry, Manifest, scopesForLocations } from './lockfile';
+import type { DependencyScope } from './scopes';
+
+export type LicenseCategory = 'permissive' | 'weak-copyleft' | 'strong-copyleft' | 'unknown';
+
+// Licence ids, or category names such as "strong-copyleft", as in the
+// policy's "licenses" section
+export type LicenseRules = { allow?: string[]; deny?: string[] };
+
+export type LicensePackage = {
+  name: string;
+  version: string;
+  // the declared licence as written, null when there is none
+  license: string | null;
+  category: LicenseCategory;
+  scopes: DependencyScope[];
+  isDirect: boolean;
+  violation?: string;
+};
+
+export type LicenseReport = {
+  packages: LicensePackage[];
+  summary: Record<LicenseCategory, number> & { total: number; violations: number };
+};
+
+// SPDX ids without their -only/-or-later/+ suffix
+const knownLicenses: Record<string, LicenseCategory> = {
+  '0BSD': 'permissive',
+  'Apache-1.1': 'permissive',
+  'Apache-2.0': 'permissive',
+  'Artistic-2.0': 'permissive',
+  'BlueOak-1.0.0': 'permissive',
+  'BSD-2-Clause': 'permissive',
+  'BSD-3-Clause': 'permissive',
+  'BSL-1.0': 'permissive',
+  'CC-BY-3.0': 'permissive',
+  'CC-BY-4.0': 'permissive',
+  'CC0-1.0': 'permissive',
+  'ISC': 'permissive',
+  'MIT': 'permissive',
+  'MIT-0': 'permissive',
+  'PSF-2.0': 'permissive',
+  'Python-2.0': 'permissive',
+  'Unicode-DFS-2016': 'permissive',
+  'Unlicense': 'permissive',
+  'W3C': 'permissive',
+  'WTFPL': 'permissive',
+  'X11': 'permissive',
+  'Zlib': 'permissive',
+  'CC-BY-SA-3.0': 'weak-copyleft',
+  'CC-BY-SA-4.0': 'weak-copyleft',
+  'CDDL-1.0': 'weak-copyleft',
+  'CDDL-1.1': 'weak-copyleft',
+  'CPL-1.0': 'weak-copyleft',
+  'EPL-1.0': 'weak-copyleft',
+  'EPL-2.0': 'weak-copyleft',
+  'LGPL-2.0': 'weak-copyleft',
+  'LGPL-2.1': 'weak-copyleft',
+  'LGPL-3.0': 'weak-copyleft',
+  'MPL-1.1': 'weak-copyleft',
+  'MPL-2.0': 'weak-copyleft',
+  'AGPL-1.0': 'strong-copyleft',
+  'AGPL-3.0': 'strong-copyleft',
+  'EUPL-1.1': 'strong-copyleft',
+  'EUPL-1.2': 'strong-copyleft',
+  'GPL-2.0': 'strong-copyleft',
+  'GPL-3.0': 'strong-copyleft',
+  'OSL-3.0': 'strong-copyleft',
+  'SSPL-1.0': 'strong-copyleft',
+};
+
+const restrictiveness: Record<LicenseCategory, number> = { permissive: 0, 'weak-copyleft': 1, 'strong-copyleft': 2, unknown: 3 };
+
+function baseId(id: string) {
+  return id.replace(/(\+|-only|-or-later)$/, '');
+}
+
+function idCategory(id: string): LicenseCategory {
+  return knownLicenses[baseId(id)] || 'unknown';
+}
+
+// The ids in an SPDX expression, exceptions left out
+function licenseIds(license: string) {
+  return license
+    .replace(/[()]/g, ' ')
+    .split(/\s+OR\s+|\s+AND\s+/)
+    .map((term) => term.split(/\s+WITH\s+/)[0].trim())
+    .filter(Boolean);
+}
+
+// Alternatives of an expression, each a set of licences that all apply.
+// Parentheses are flattened, which is right for the usual "(MIT OR Apache-2.0)"
+// and "MIT AND (BSD-3-Clause OR ISC)" is read as either side of the OR.
+function alternatives(license: string) {
+  return license.replace(/[()]/g, ' ').split(/\s+OR\s+/).map(licenseIds);
+}
+
+// The category of the least restrictive alternative; within one, the most
+// restrictive licence decides.
+export function licenseCategory(license: string | null): LicenseCategory {
+  if (!license || /^UNLICENSED$|^SEE LICEN[CS]E IN/i.test(license.trim())) return 'unknown';
+  const categories = alternatives(license).map((ids) =>
+    ids.map(idCategory).reduce((worst, category) => (restrictiveness[category] > restrictiveness[worst] ? category : worst), 'permissive' as LicenseCategory));
+  return categories.reduce((best, category) => (restrictiveness[category] < restrictiveness[best] ? category : best), 'unknown' as LicenseCategory);
+}
+
+function ruleMatches(rule: string, id: string) {
+  return rule === id || rule === baseId(id) || rule === idCategory(id);
+}
+
+// Why the licence breaks the rules, or null when some alternative of the
+// expression is fine ("MIT OR GPL-3.0" lets you pick MIT). Packages without a
+// licence aren't judged.
+export function licenseViolation(license: string | null, rules?: LicenseRules): string | null {
+  if (!license || !rules || (!rules.allow && !rules.deny)) return null;
+  for (const ids of alternatives(license)) {
+    const denied = ids.some((id) => (rules.deny || []).some((rule) => ruleMatches(rule, id)));
+    const allowed = !rules.allow || ids.every((id) => rules.allow.some((rule) => ruleMatches(rule, id)));
+    if (!denied && allowed) return null;
+  }
+  const denied = licenseIds(license).some((id) => (rules.deny || []).some((rule) => ruleMatches(rule, id)));
+  return denied ? `Licence ${license} is denied by policy` : `Licence ${license} is not in the allowed list`;
+}
+
+// What a package.json declares, including the deprecated object and list forms
+export function declaredLicense(manifest: any): string | null {
+  const license = manifest?.license ?? manifest?.licenses;
+  if (typeof license === 'string') return license;
+  if (license && typeof license.type === 'string') return license.type;
+  if (Array.isArray(license)) {
+    const types = license.map((item) => (typeof item === 'string' ? item : item?.type)).filter((type) => typeof type === 'string');
+    if (types.length > 0) return types.length === 1 ? types[0] : `(${types.join(' OR ')})`;
+  }
+  return null;
+}
+
+// Every installed package once per name@version, with its declared licence as
+// recorded in the lockfile. The project's own workspaces aren't listed.
+export function createLicenseReport(packageJson: Manifest, packageLock: any, rules?: LicenseRules): LicenseReport {
+  const { nodes } = dependencyGraph(packageLock, packageJson);
+  const packages = new Map<string, LicensePackage & { locations: string[] }>();
+
+  for (const node of nodes) {
+    if (isWorkspaceLocation(node.id)) continue;
+    const key = `${node.name}@${node.version}`;
+    const existing = packages.get(key);
+    if (existing) {
+      existing.locations.push(node.id);
+      existing.isDirect = existing.isDirect || node.direct;
+      continue;
+    }
+    const license = declaredLicense(lockfileEntry(packageLock, node.id));
+    const violation = licenseViolation(license, rules);
+    packages.set(key, {
+      name: node.name,
+      version: node.version,
+      license,
+      category: licenseCategory(license),
+      scopes: [],
+      isDirect: node.direct,
+      ...(violation ? { violation } : {}),
+      locations: [node.id],
+    });
+  }
+
+  const summary = { permissive: 0, 'weak-copyleft': 0, 'strong-copyleft': 0, unknown: 0, total: packages.size, violations: 0 };
+  const result = Array.from(packages.values())
+    .map(({ locations, ...pkg }) => ({ ...pkg, scopes: scopesForLocations(packageLock, locations) }))
+    .sort((a, b) => a.name.localeCompare(b.name) || a.version.localeCompare(b.version));
+  for (const pkg of result) {
+    summary[pkg.category] += 1;
+    if (pkg.violation) summary.violations += 1;
+  }
+  return { packages: result, summary };
+}
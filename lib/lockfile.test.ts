@@ -0,0 +1,310 @@
+import { describe, expect, it } from 'vitest';
+import { buildNpmWorkspace, createPathFinder, dependencyGraph, scopesForLocations } from './lockfile';
+
+const manifest = {
+  name: 'app',
+  version: '1.0.0',
+  dependencies: { express: '^4.17.0' },
+  devDependencies: { jest: '^29.0.0' },
+};
+
+const yarnClassic = `# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+# yarn lockfile v1
+
+
+express@^4.17.0:
+  version "4.17.1"
+  resolved "https://registry.yarnpkg.com/express/-/express-4.17.1.tgz#abc"
+  integrity sha512-express
+  dependencies:
+    debug "2.6.9"
+
+debug@2.6.9:
+  version "2.6.9"
+  resolved "https://registry.yarnpkg.com/debug/-/debug-2.6.9.tgz#def"
+  integrity sha512-debug
+
+jest@^29.0.0:
+  version "29.7.0"
+  resolved "https://registry.yarnpkg.com/jest/-/jest-29.7.0.tgz#ghi"
+  integrity sha512-jest
+  dependencies:
+    debug "^4.3.4"
+
+debug@^4.3.4:
+  version "4.3.4"
+  resolved "https://registry.yarnpkg.com/debug/-/debug-4.3.4.tgz#jkl"
+  integrity sha512-debug4
+`;
+
+const pnpm9 = `lockfileVersion: '9.0'
+
+importers:
+  .:
+    dependencies:
+      express:
+        specifier: ^4.17.0
+        version: 4.17.1
+    devDependencies:
+      jest:
+        specifier: ^29.0.0
+        version: 29.7.0
+
+packages:
+  express@4.17.1:
+    resolution: {integrity: sha512-express}
+  debug@2.6.9:
+    resolution: {integrity: sha512-debug}
+  jest@29.7.0:
+    resolution: {integrity: sha512-jest}
+  debug@4.3.4:
+    resolution: {integrity: sha512-debug4}
+
+snapshots:
+  express@4.17.1:
+    dependencies:
+      debug: 2.6.9
+  debug@2.6.9: {}
+  jest@29.7.0:
+    dependencies:
+      debug: 4.3.4
+  debug@4.3.4: {}
+`;
+
+const installed = (packageLock: any) => Object.fromEntries(
+  Object.entries<any>(packageLock.packages).filter(([location]) => location !== '').map(([location, entry]) => [location, entry.version])
+);
+
+describe('buildNpmWorkspace', () => {
+  it('pins a yarn.lock to the versions it records, nesting conflicting versions', () => {
+    const { packageJson, packageLock } = buildNpmWorkspace('yarn-classic', yarnClassic, manifest);
+
+    expect(packageJson.dependencies).toEqual(manifest.dependencies);
+    expect(installed(packageLock)).toEqual({
+      'node_modules/express': '4.17.1',
+      'node_modules/debug': '2.6.9',
+      'node_modules/jest': '29.7.0',
+      'node_modules/jest/node_modules/debug': '4.3.4',
+    });
+    expect(packageLock.packages['node_modules/express'].integrity).toBe('sha512-express');
+  });
+
+  it('reads pnpm 9 lockfiles through their snapshots', () => {
+    const { packageLock } = buildNpmWorkspace('pnpm', pnpm9, manifest);
+
+    expect(installed(packageLock)).toEqual({
+      'node_modules/express': '4.17.1',
+      'node_modules/debug': '2.6.9',
+      'node_modules/jest': '29.7.0',
+      'node_modules/jest/node_modules/debug': '4.3.4',
+    });
+  });
+
+  it('takes the root manifest from a v3 package-lock.json', () => {
+    const lock = {
+      name: 'app',
+      version: '1.0.0',
+      lockfileVersion: 3,
+      packages: { '': manifest, 'node_modules/express': { version: '4.17.1' } },
+    };
+    const { packageJson } = buildNpmWorkspace('npm', JSON.stringify(lock));
+
+    expect(packageJson.name).toBe('app');
+    expect(packageJson.devDependencies).toEqual(manifest.devDependencies);
+  });
+
+  it('refuses JSON that is not a package-lock.json', () => {
+    expect(() => buildNpmWorkspace('npm', '{"name": "app"}')).toThrow(/lockfileVersion/);
+  });
+});
+
+describe('dependencyGraph', () => {
+  it('marks packages only dev dependencies pull in as dev', () => {
+    const { packageJson, packageLock } = buildNpmWorkspace('yarn-classic', yarnClassic, manifest);
+    const scopes = Object.fromEntries(dependencyGraph(packageLock, packageJson).nodes.map((node) => [node.id, node.scope]));
+
+    expect(scopes['node_modules/express']).toBe('prod');
+    expect(scopes['node_modules/debug']).toBe('prod');
+    expect(scopes['node_modules/jest']).toBe('dev');
+    expect(scopes['node_modules/jest/node_modules/debug']).toBe('dev');
+  });
+
+  it('links each package to the copy Node would load, nested ones first', () => {
+    const { nodes, edges } = dependencyGraph({
+      name: 'app',
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app', version: '1.0.0', dependencies: { a: '^1.0.0', c: '^1.0.0' } },
+        'node_modules/a': { version: '1.0.0', dependencies: { b: '^1.0.0', c: '^2.0.0' } },
+        'node_modules/a/node_modules/c': { version: '2.0.0' },
+        'node_modules/b': { version: '1.0.0', dependencies: { c: '^1.0.0' } },
+        'node_modules/c': { version: '1.0.0' },
+        'node_modules/unused': { version: '1.0.0' },
+      },
+    });
+
+    expect(nodes).toEqual([
+      { id: '', name: 'app', version: '1.0.0', depth: 0, direct: false, scope: 'prod' },
+      { id: 'node_modules/a', name: 'a', version: '1.0.0', depth: 1, direct: true, scope: 'prod' },
+      { id: 'node_modules/c', name: 'c', version: '1.0.0', depth: 1, direct: true, scope: 'prod' },
+      { id: 'node_modules/b', name: 'b', version: '1.0.0', depth: 2, direct: false, scope: 'prod' },
+      { id: 'node_modules/a/node_modules/c', name: 'c', version: '2.0.0', depth: 2, direct: false, scope: 'prod' },
+    ]);
+    expect(edges).toEqual([
+      { from: '', to: 'node_modules/a' },
+      { from: '', to: 'node_modules/c' },
+      { from: 'node_modules/a', to: 'node_modules/b' },
+      { from: 'node_modules/a', to: 'node_modules/a/node_modules/c' },
+      { from: 'node_modules/b', to: 'node_modules/c' },
+    ]);
+  });
+
+  it('hangs workspace members off the project, their dependencies counting as direct', () => {
+    const { nodes, edges } = dependencyGraph({
+      name: 'mono',
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'mono', workspaces: ['packages/*'] },
+        'packages/api': { name: 'api', version: '0.1.0', dependencies: { web: '^0.1.0', lodash: '^4.17.0' } },
+        'packages/web': { name: 'web', version: '0.1.0' },
+        'node_modules/api': { resolved: 'packages/api', link: true },
+        'node_modules/web': { resolved: 'packages/web', link: true },
+        'node_modules/lodash': { version: '4.17.21' },
+      },
+    });
+
+    expect(nodes.map((node) => [node.id, node.name, node.depth, node.direct])).toEqual([
+      ['', 'mono', 0, false],
+      ['packages/api', 'api', 1, true],
+      ['packages/web', 'web', 1, true],
+      ['node_modules/lodash', 'lodash', 2, true],
+    ]);
+    // the member depends on the other member itself, not on its symlink
+    expect(edges).toEqual([
+      { from: '', to: 'packages/api' },
+      { from: '', to: 'packages/web' },
+      { from: 'packages/api', to: 'packages/web' },
+      { from: 'packages/api', to: 'node_modules/lodash' },
+    ]);
+  });
+
+  it('names aliased packages by the package installed', () => {
+    const { nodes, edges } = dependencyGraph({
+      name: 'app',
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app', dependencies: { 'lodash-v3': 'npm:lodash@^3.10.0', lodash: '^4.17.0' } },
+        'node_modules/lodash-v3': { name: 'lodash', version: '3.10.1' },
+        'node_modules/lodash': { version: '4.17.21' },
+      },
+    });
+
+    expect(nodes.slice(1).map((node) => [node.id, node.name, node.version])).toEqual([
+      ['node_modules/lodash-v3', 'lodash', '3.10.1'],
+      ['node_modules/lodash', 'lodash', '4.17.21'],
+    ]);
+    expect(edges.map((edge) => edge.to)).toEqual(['node_modules/lodash-v3', 'node_modules/lodash']);
+  });
+});
+
+// v3 lockfile entries by location
+const lockfile = (packages: Record<string, any>, root: Record<string, any> = {}) =>
+  ({ name: 'app', lockfileVersion: 3, packages: { '': { name: 'app', ...root }, ...packages } });
+
+describe('createPathFinder', () => {
+  it('finds every chain from a direct dependency, resolving nested versions like Node', () => {
+    const findPaths = createPathFinder(lockfile({
+      'node_modules/a': { version: '1.0.0', dependencies: { c: '^2.0.0', b: '^1.0.0' } },
+      'node_modules/a/node_modules/c': { version: '2.0.0' },
+      'node_modules/b': { version: '1.0.0', dependencies: { c: '^1.0.0' } },
+      'node_modules/c': { version: '1.0.0' },
+    }, { dependencies: { a: '^1.0.0', c: '^1.0.0' } }));
+
+    expect(findPaths(['node_modules/c']).sort()).toEqual([['a@1.0.0', 'b@1.0.0', 'c@1.0.0'], ['c@1.0.0']]);
+    expect(findPaths(['node_modules/a/node_modules/c'])).toEqual([['a@1.0.0', 'c@2.0.0']]);
+    expect(findPaths(['node_modules/missing'])).toEqual([]);
+    expect(findPaths()).toEqual([]);
+  });
+
+  it('goes round a cycle once', () => {
+    const findPaths = createPathFinder(lockfile({
+      'node_modules/a': { version: '1.0.0', dependencies: { b: '^1.0.0' } },
+      'node_modules/b': { version: '1.0.0', dependencies: { a: '^1.0.0', c: '^1.0.0' } },
+      'node_modules/c': { version: '1.0.0', dependencies: { b: '^1.0.0' } },
+    }, { dependencies: { a: '^1.0.0' } }));
+
+    expect(findPaths(['node_modules/c'])).toEqual([['a@1.0.0', 'b@1.0.0', 'c@1.0.0']]);
+    expect(findPaths(['node_modules/a'])).toEqual([['a@1.0.0']]);
+  });
+
+  it('lists a chain once, however often its package is asked for', () => {
+    const findPaths = createPathFinder(lockfile({
+      'node_modules/a': { version: '1.0.0', dependencies: { b: '^1.0.0' } },
+      'node_modules/b': { version: '1.0.0' },
+    }, { dependencies: { a: '^1.0.0', b: '^1.0.0' }, devDependencies: { b: '^1.0.0' } }));
+
+    expect(findPaths(['node_modules/b', 'node_modules/b']).sort()).toEqual([['a@1.0.0', 'b@1.0.0'], ['b@1.0.0']]);
+  });
+
+  it('starts workspace members\' chains at the member', () => {
+    const findPaths = createPathFinder(lockfile({
+      'packages/api': { name: 'api', version: '0.1.0', dependencies: { b: '^1.0.0' } },
+      'node_modules/api': { resolved: 'packages/api', link: true },
+      'node_modules/b': { version: '1.0.0' },
+    }, { workspaces: ['packages/*'] }));
+
+    expect(findPaths(['node_modules/b'])).toEqual([['api@0.1.0', 'b@1.0.0']]);
+  });
+
+  it('stops at 25 chains', () => {
+    const direct = Array.from({ length: 30 }, (_, index) => `d${index}`);
+    const findPaths = createPathFinder(lockfile({
+      ...Object.fromEntries(direct.map((name) => [`node_modules/${name}`, { version: '1.0.0', dependencies: { z: '^1.0.0' } }])),
+      'node_modules/z': { version: '1.0.0' },
+    }, { dependencies: Object.fromEntries(direct.map((name) => [name, '^1.0.0'])) }));
+
+    expect(findPaths(['node_modules/z'])).toHaveLength(25);
+  });
+});
+
+describe('scopesForLocations', () => {
+  const packageLock = lockfile({
+    'node_modules/express': { version: '4.17.1' },
+    'node_modules/jest': { version: '29.7.0', dev: true },
+    'node_modules/fsevents': { version: '2.3.3', optional: true },
+    'node_modules/chokidar': { version: '3.5.3', devOptional: true },
+    'node_modules/react': { version: '18.2.0', peer: true },
+    'node_modules/typescript': { version: '5.4.5', dev: true, peer: true },
+  });
+
+  it.each([
+    ['node_modules/express', ['prod']],
+    ['node_modules/jest', ['dev']],
+    ['node_modules/fsevents', ['optional']],
+    // needed by dev and optional dependencies alike, so gone without dev
+    ['node_modules/chokidar', ['dev']],
+    ['node_modules/react', ['peer']],
+    ['node_modules/typescript', ['dev']],
+  ])('classifies %s as %j', (location, scopes) => {
+    expect(scopesForLocations(packageLock, [location])).toEqual(scopes);
+  });
+
+  it('lists each scope of a package installed in several places once, in order', () => {
+    expect(scopesForLocations(packageLock, ['node_modules/react', 'node_modules/jest', 'node_modules/express', 'node_modules/typescript'])).toEqual(['prod', 'dev', 'peer']);
+    expect(scopesForLocations(packageLock, ['node_modules/missing'])).toEqual([]);
+    expect(scopesForLocations(packageLock)).toEqual([]);
+  });
+
+  it('reads lockfileVersion 1 nested dependencies', () => {
+    const v1 = {
+      lockfileVersion: 1,
+      dependencies: {
+        jest: { version: '29.7.0', dev: true, dependencies: { debug: { version: '4.3.4', dev: true } } },
+        debug: { version: '2.6.9', optional: true },
+      },
+    };
+
+    expect(scopesForLocations(v1, ['node_modules/jest/node_modules/debug'])).toEqual(['dev']);
+    expect(scopesForLocations(v1, ['node_modules/debug', 'node_modules/jest/node_modules/debug'])).toEqual(['dev', 'optional']);
+  });
+});
@@ -0,0 +1,710 @@
+import { parse as parseYarnClassic } from '@yarnpkg/lockfile';
+import YAML from 'yaml';
+import { dependencyScopes, DependencyScope } from './scopes';
+import type { LockfileType } from './upload';
+
+export type Manifest = {
+  name?: string;
+  version?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  overrides?: Record<string, any>;
+};
+
+// A resolved package, keyed in LockGraph.packages by whatever id the source
+// lockfile uses. Dependency maps point at other package ids.
+export type LockPackage = {
+  name: string;
+  version: string;
+  resolved?: string;
+  integrity?: string;
+  license?: string;
+  dependencies: Record<string, string>;
+  optionalDependencies: Record<string, string>;
+};
+
+type LockRoots = {
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+  optionalDependencies: Record<string, string>;
+};
+
+export type LockGraph = {
+  manifest: Manifest;
+  roots: LockRoots;
+  packages: Record<string, LockPackage>;
+  // monorepo members by directory relative to the root, e.g. "packages/api"
+  workspaces?: Record<string, { manifest: Manifest; roots: LockRoots }>;
+};
+
+export type NpmWorkspace = {
+  packageJson: Manifest;
+  packageLock: any;
+};
+
+const MAX_NESTING = 64;
+
+// Which dependency groups pulled the packages at these node_modules locations
+// into the tree, going by the dev/optional/peer flags npm records per package.
+export function scopesForLocations(packageLock: any, locations: string[] = []): DependencyScope[] {
+  const scopes = new Set<DependencyScope>();
+  for (const location of locations) {
+    const entry = lockfileEntry(packageLock, location);
+    if (entry) {
+      scopes.add(scopeOf(entry));
+    }
+  }
+  return dependencyScopes.filter((scope) => scopes.has(scope));
+}
+
+function scopeOf(entry: any): DependencyScope {
+  if (entry.dev || entry.devOptional) return 'dev';
+  if (entry.optional) return 'optional';
+  if (entry.peer) return 'peer';
+  return 'prod';
+}
+
+// v2/v3 lockfiles are keyed by location; v1 lockfiles nest "dependencies".
+export function lockfileEntry(packageLock: any, location: string) {
+  if (packageLock?.packages) {
+    return packageLock.packages[location];
+  }
+
+  let entry = packageLock;
+  for (const name of location.split(/(?:^|\/)node_modules\//).filter(Boolean)) {
+    entry = entry?.dependencies?.[name];
+  }
+  return entry === packageLock ? undefined : entry;
+}
+
+type TreeNode = {
+  name: string;
+  version: string;
+  dependencies: string[];
+  // locations depended on directly rather than by name: the root's workspace
+  // members, and what a workspace symlink in node_modules points at
+  links?: string[];
+};
+
+const MAX_PATHS = 25;
+const MAX_PATH_STEPS = 20000;
+
+// Returns a lookup from node_modules locations to every chain of packages
+// ("name@version", direct dependency first) that pulls them into the tree.
+export function createPathFinder(packageLock: any, rootManifest?: Manifest) {
+  const tree = lockfileTree(packageLock, rootManifest);
+  const parents = new Map<string, Set<string>>();
+
+  for (const [location, node] of Object.entries(tree)) {
+    for (const target of dependencyLocations(tree, location)) {
+      if (!parents.has(target)) parents.set(target, new Set());
+      parents.get(target).add(location);
+    }
+  }
+
+  return (locations: string[] = []): string[][] => {
+    // keyed by the chain as shown, so two routes that read the same are one
+    const paths = new Map<string, string[]>();
+    let steps = 0;
+    const stack = Array.from(new Set(locations)).filter((location) => tree[location]).map((location) => [location]);
+
+    while (stack.length > 0 && paths.size < MAX_PATHS && steps++ < MAX_PATH_STEPS) {
+      const chain = stack.pop();
+      for (const parent of Array.from(parents.get(chain[0]) || [])) {
+        if (parent === '') {
+          const path = chain.map((location) => `${tree[location].name}@${tree[location].version}`);
+          paths.set(path.join('>'), path);
+        } else if (!chain.includes(parent)) {
+          stack.push([parent, ...chain]);
+        }
+      }
+    }
+    return Array.from(paths.values());
+  };
+}
+
+export type GraphNode = {
+  id: string;
+  name: string;
+  version: string;
+  depth: number;
+  direct: boolean;
+  scope: DependencyScope;
+};
+
+export type GraphEdge = {
+  from: string;
+  to: string;
+};
+
+// The installed tree as nodes (one per node_modules location, "" being the
+// project itself) and resolved dependency edges. Depth is the shortest
+// distance from the project.
+export function dependencyGraph(packageLock: any, rootManifest?: Manifest) {
+  const tree = lockfileTree(packageLock, rootManifest);
+  const edges: GraphEdge[] = [];
+  const children = new Map<string, string[]>();
+
+  for (const location of Object.keys(tree)) {
+    const targets = dependencyLocations(tree, location);
+    children.set(location, targets);
+    targets.forEach((target) => edges.push({ from: location, to: target }));
+  }
+
+  const depths = new Map<string, number>([['', 0]]);
+  const queue = [''];
+  while (queue.length > 0) {
+    const location = queue.shift();
+    for (const child of children.get(location) || []) {
+      if (!depths.has(child)) {
+        depths.set(child, depths.get(location) + 1);
+        queue.push(child);
+      }
+    }
+  }
+
+  // Dependencies of a workspace member are as direct as the root's own
+  const members = new Set(tree[''].links || []);
+  const direct = new Set(edges.filter((edge) => edge.from === '' || members.has(edge.from)).map((edge) => edge.to));
+
+  const nodes: GraphNode[] = Array.from(depths.keys()).map((location) => ({
+    id: location,
+    name: tree[location].name || rootManifest?.name || 'project',
+    version: tree[location].version || '',
+    depth: depths.get(location),
+    direct: direct.has(location),
+    scope: location === '' ? 'prod' : scopeOf(lockfileEntry(packageLock, location) || {}),
+  }));
+
+  return { nodes, edges: edges.filter((edge) => depths.has(edge.from)) };
+}
+
+function lockfileTree(packageLock: any, rootManifest?: Manifest): Record<string, TreeNode> {
+  const tree: Record<string, TreeNode> = {};
+  const depNames = (entry: any, groups: string[]) =>
+    Array.from(new Set(groups.flatMap((group) => Object.keys(entry?.[group] || {}))));
+
+  if (packageLock?.packages) {
+    for (const [location, entry] of Object.entries<any>(packageLock.packages)) {
+      const groups = isWorkspaceLocation(location)
+        ? ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies']
+        : ['dependencies', 'optionalDependencies', 'peerDependencies'];
+      tree[location] = {
+        name: entry.name || location.slice(location.lastIndexOf('node_modules/') + 'node_modules/'.length),
+        version: entry.version,
+        dependencies: depNames(entry, groups),
+      };
+      if (entry.link && typeof entry.resolved === 'string') {
+        tree[location].links = [entry.resolved];
+      }
+    }
+    // npm workspaces: members live at their own directory, not in node_modules
+    if (tree['']) {
+      tree[''].links = Object.keys(tree).filter((location) => location !== '' && isWorkspaceLocation(location));
+    }
+    return tree;
+  }
+
+  // v1 lockfiles don't record the root's direct dependencies.
+  const walk = (prefix: string, dependencies: Record<string, any>) => {
+    for (const [name, entry] of Object.entries<any>(dependencies || {})) {
+      const location = childPath(prefix, name);
+      tree[location] = { name, version: entry.version, dependencies: Object.keys(entry.requires || {}) };
+      walk(location, entry.dependencies);
+    }
+  };
+  walk('', packageLock?.dependencies);
+  tree[''] = {
+    name: packageLock?.name,
+    version: packageLock?.version,
+    dependencies: rootManifest
+      ? depNames(rootManifest, ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies'])
+      : Object.keys(packageLock?.dependencies || {}),
+  };
+  return tree;
+}
+
+// The project itself or a monorepo member, e.g. "packages/api"
+export function isWorkspaceLocation(location: string) {
+  return !location.startsWith('node_modules/') && !location.includes('/node_modules/');
+}
+
+// Node's module resolution: the nearest node_modules/<name> walking upwards,
+// through the symlink if that is a workspace member.
+function resolveLocation(tree: Record<string, TreeNode>, from: string, name: string): string | null {
+  for (let dir = from; ; dir = parentDir(dir)) {
+    const candidate = childPath(dir, name);
+    if (tree[candidate]) {
+      const target = tree[candidate].links?.[0];
+      return target !== undefined && tree[target] ? target : candidate;
+    }
+    if (dir === '') return null;
+  }
+}
+
+function dependencyLocations(tree: Record<string, TreeNode>, location: string) {
+  const node = tree[location];
+  const targets = node.dependencies.map((name) => resolveLocation(tree, location, name));
+  if (location === '') targets.push(...(node.links || []));
+  return Array.from(new Set(targets.filter((target) => target !== null && target !== location)));
+}
+
+// Turn an uploaded lockfile into the package.json + package-lock.json pair npm
+// audit works from, so the audit covers exactly the pinned versions.
+// `members` are the package.json files of monorepo members, by directory
+// relative to the lockfile. npm and pnpm lockfiles list their members
+// themselves; yarn.lock only has their dependencies.
+export function buildNpmWorkspace(type: LockfileType, content: string, manifest?: Manifest, members: Record<string, Manifest> = {}): NpmWorkspace {
+  if (type === 'npm') {
+    return buildFromNpmLockfile(content, manifest);
+  }
+
+  let graph: LockGraph;
+  switch (type) {
+    case 'yarn-classic':
+      graph = parseYarnClassicLockfile(content, manifest, members);
+      break;
+    case 'yarn-berry':
+      graph = parseYarnBerryLockfile(content, manifest, members);
+      break;
+    case 'pnpm':
+      graph = parsePnpmLockfile(content, manifest, members);
+      break;
+    default:
+      throw new Error(`Unsupported lockfile type: ${type}`);
+  }
+
+  return { packageJson: graph.manifest, packageLock: toNpmLockfile(graph) };
+}
+
+// A resolved tree that didn't come from a lockfile, e.g. an imported SBOM
+export function workspaceFromGraph(graph: LockGraph): NpmWorkspace {
+  const manifest = withDefaults(graph.manifest);
+  return { packageJson: manifest, packageLock: toNpmLockfile({ ...graph, manifest }) };
+}
+
+function buildFromNpmLockfile(content: string, manifest?: Manifest): NpmWorkspace {
+  const packageLock = JSON.parse(content);
+  if (!packageLock || typeof packageLock !== 'object' || !('lockfileVersion' in packageLock)) {
+    throw new Error('Not an npm lockfile: missing lockfileVersion');
+  }
+
+  if (manifest) {
+    return { packageJson: withDefaults(manifest), packageLock };
+  }
+
+  // v2/v3 lockfiles carry the root manifest; v1 only lists top-level packages.
+  const root = packageLock.packages?.[''];
+  if (root) {
+    return {
+      packageJson: withDefaults({
+        name: root.name || packageLock.name,
+        version: root.version || packageLock.version,
+        dependencies: root.dependencies,
+        devDependencies: root.devDependencies,
+        optionalDependencies: root.optionalDependencies,
+        peerDependencies: root.peerDependencies,
+      }),
+      packageLock,
+    };
+  }
+
+  const dependencies: Record<string, string> = {};
+  const devDependencies: Record<string, string> = {};
+  for (const [name, info] of Object.entries<any>(packageLock.dependencies || {})) {
+    (info.dev ? devDependencies : dependencies)[name] = info.version;
+  }
+  return {
+    packageJson: withDefaults({ name: packageLock.name, version: packageLock.version, dependencies, devDependencies }),
+    packageLock,
+  };
+}
+
+function parseYarnClassicLockfile(content: string, manifest: Manifest | undefined, members: Record<string, Manifest>): LockGraph {
+  const result = parseYarnClassic(content);
+  if (result.type !== 'success') {
+    throw new Error('Failed to parse yarn.lock (merge conflict markers?)');
+  }
+
+  const byDescriptor: Record<string, string> = {};
+  const packages: Record<string, LockPackage> = {};
+  const entries = Object.entries<any>(result.object);
+
+  for (const [descriptor, entry] of entries) {
+    const id = `${descriptorName(descriptor)}@${entry.version}`;
+    byDescriptor[descriptor] = id;
+    packages[id] = {
+      name: descriptorName(descriptor),
+      version: entry.version,
+      resolved: entry.resolved,
+      integrity: entry.integrity,
+      dependencies: {},
+      optionalDependencies: {},
+    };
+  }
+  for (const [descriptor, entry] of entries) {
+    const pkg = packages[byDescriptor[descriptor]];
+    pkg.dependencies = resolveDescriptors(entry.dependencies, (name, range) => byDescriptor[`${name}@${range}`]);
+    pkg.optionalDependencies = resolveDescriptors(entry.optionalDependencies, (name, range) => byDescriptor[`${name}@${range}`]);
+  }
+
+  // yarn.lock has no entry for the project itself, so the roots come from the
+  // manifest when one was uploaded and are inferred otherwise.
+  return buildGraph(packages, manifest, (name, range) => byDescriptor[`${name}@${range}`], members);
+}
+
+function parseYarnBerryLockfile(content: string, manifest: Manifest | undefined, members: Record<string, Manifest>): LockGraph {
+  const lock = YAML.parse(content) || {};
+  const byDescriptor: Record<string, string> = {};
+  const packages: Record<string, LockPackage> = {};
+  let workspace: any = null;
+  const lockedMembers: Record<string, Manifest> = {};
+
+  const resolve = (name: string, range: string) =>
+    byDescriptor[`${name}@${range}`] || byDescriptor[`${name}@npm:${range}`];
+
+  for (const [key, entry] of Object.entries<any>(lock)) {
+    if (key === '__metadata') continue;
+    const descriptors = key.split(',').map((d) => d.trim());
+    const name = descriptorName(descriptors[0]);
+
+    if (typeof entry.resolution === 'string' && entry.resolution.includes('@workspace:')) {
+      const dir = entry.resolution.slice(entry.resolution.indexOf('@workspace:') + '@workspace:'.length);
+      if (dir === '.') {
+        workspace = { name, ...entry };
+      } else {
+        lockedMembers[dir] = { name, version: entry.version, dependencies: berryDependencies(entry) };
+      }
+      continue;
+    }
+
+    const id = `${name}@${entry.version}`;
+    descriptors.forEach((d) => (byDescriptor[d] = id));
+    packages[id] = {
+      name,
+      version: entry.version,
+      dependencies: entry.dependencies || {},
+      optionalDependencies: {},
+    };
+  }
+
+  for (const pkg of Object.values(packages)) {
+    pkg.dependencies = resolveDescriptors(pkg.dependencies, resolve);
+  }
+
+  // The root workspace entry lists prod and dev dependencies together, so it is
+  // only used when no manifest came with the lockfile.
+  const rootManifest = manifest || (workspace && { name: workspace.name, dependencies: berryDependencies(workspace) });
+  return buildGraph(packages, rootManifest, resolve, { ...lockedMembers, ...members });
+}
+
+function berryDependencies(entry: any) {
+  return Object.fromEntries(
+    Object.entries<string>(entry.dependencies || {}).map(([name, range]) => [name, range.replace(/^npm:/, '')])
+  );
+}
+
+function parsePnpmLockfile(content: string, manifest: Manifest | undefined, members: Record<string, Manifest>): LockGraph {
+  const lock = YAML.parse(content) || {};
+  const major = parseInt(String(lock.lockfileVersion || '5'), 10);
+  const packages: Record<string, LockPackage> = {};
+
+  const toId = (name: string, ref: string): string | undefined => {
+    if (typeof ref !== 'string' || ref.startsWith('link:') || ref.startsWith('file:')) return undefined;
+    if (major < 6) return ref.startsWith('/') ? ref : `/${name}/${ref}`;
+    if (major < 9) return ref.startsWith('/') ? ref : `/${name}@${ref}`;
+    const at = ref.indexOf('@', 1);
+    return at > 0 && (ref.indexOf('(') === -1 || at < ref.indexOf('(')) ? ref : `${name}@${ref}`;
+  };
+  const mapRefs = (refs: Record<string, string> = {}) => {
+    const mapped: Record<string, string> = {};
+    for (const [name, ref] of Object.entries(refs)) {
+      const id = toId(name, ref);
+      if (id) mapped[name] = id;
+    }
+    return mapped;
+  };
+
+  // pnpm 9 splits package metadata ("packages") from the peer-resolved
+  // instances that actually carry dependencies ("snapshots").
+  const instances = lock.snapshots || lock.packages || {};
+  for (const [id, snapshot] of Object.entries<any>(instances)) {
+    const { name, version } = parsePnpmId(id, major);
+    const meta = lock.snapshots ? lock.packages?.[id.replace(/\(.*$/, '')] : snapshot;
+    packages[id] = {
+      name: meta?.name || name,
+      version: meta?.version || version,
+      resolved: meta?.resolution?.tarball,
+      integrity: meta?.resolution?.integrity,
+      dependencies: mapRefs(snapshot?.dependencies),
+      optionalDependencies: mapRefs(snapshot?.optionalDependencies),
+    };
+  }
+
+  // The importer a "link:" ref of the importer at dir points to, if any
+  const linkedImporter = (dir: string, ref: string) => {
+    const segments = dir === '.' ? [] : dir.split('/');
+    for (const segment of ref.slice('link:'.length).split('/')) {
+      if (segment === '..') segments.pop();
+      else if (segment !== '.' && segment !== '') segments.push(segment);
+    }
+    const target = segments.join('/') || '.';
+    return target !== dir && lock.importers?.[target] ? target : undefined;
+  };
+
+  // Each importer is a workspace: "." the root, the others monorepo members.
+  // Dependencies on sibling members ("link:") aren't packages; they stay in the
+  // manifest only, where the members' links resolve them.
+  const importerGraph = (importer: any, dir: string) => {
+    const importerRef = (group: string, name: string) => {
+      const value = importer[group]?.[name];
+      return typeof value === 'object' && value !== null ? value.version : value;
+    };
+    const importerSpecifier = (group: string, name: string) => {
+      const value = importer[group]?.[name];
+      return typeof value === 'object' && value !== null ? value.specifier : importer.specifiers?.[name] || value;
+    };
+
+    const groups = ['dependencies', 'devDependencies', 'optionalDependencies'] as const;
+    const roots: LockRoots = { dependencies: {}, devDependencies: {}, optionalDependencies: {} };
+    const importerManifest: Manifest = {};
+    for (const group of groups) {
+      importerManifest[group] = {};
+      for (const name of Object.keys(importer[group] || {})) {
+        const ref = importerRef(group, name);
+        const id = toId(name, ref);
+        if (id) roots[group][name] = id;
+        if (id || (typeof ref === 'string' && ref.startsWith('link:') && linkedImporter(dir, ref))) importerManifest[group][name] = importerSpecifier(group, name);
+      }
+    }
+    return { manifest: importerManifest, roots };
+  };
+
+  const root = importerGraph(lock.importers?.['.'] || lock, '.');
+  const workspaces: LockGraph['workspaces'] = {};
+  for (const [dir, importer] of Object.entries<any>(lock.importers || {})) {
+    if (dir === '.') continue;
+    const member = importerGraph(importer, dir);
+    workspaces[dir] = {
+      manifest: withDefaults({ ...member.manifest, name: dir.split('/').pop(), ...pickManifestIdentity(members[dir]) }),
+      roots: member.roots,
+    };
+  }
+
+  const rootManifest = withDefaults({ ...root.manifest, ...pickManifestIdentity(manifest) });
+  return { manifest: rootManifest, roots: root.roots, packages, workspaces };
+}
+
+function parsePnpmId(id: string, major: number) {
+  const bare = id.replace(/^\//, '');
+  if (major < 6) {
+    const slash = bare.lastIndexOf('/');
+    return { name: bare.slice(0, slash), version: bare.slice(slash + 1).replace(/_.*$/, '') };
+  }
+  const at = bare.indexOf('@', 1);
+  return { name: bare.slice(0, at), version: bare.slice(at + 1).replace(/\(.*$/, '') };
+}
+
+// "@scope/name@^1.0.0" -> "@scope/name"
+function descriptorName(descriptor: string) {
+  const at = descriptor.indexOf('@', 1);
+  return at === -1 ? descriptor : descriptor.slice(0, at);
+}
+
+function resolveDescriptors(
+  deps: Record<string, string> | undefined,
+  resolve: (name: string, range: string) => string | undefined
+) {
+  const resolved: Record<string, string> = {};
+  for (const [name, range] of Object.entries(deps || {})) {
+    const id = resolve(name, range);
+    if (id) resolved[name] = id;
+  }
+  return resolved;
+}
+
+function buildGraph(
+  packages: Record<string, LockPackage>,
+  manifest: Manifest | undefined,
+  resolve: (name: string, range: string) => string | undefined,
+  members: Record<string, Manifest> = {}
+): LockGraph {
+  const rootsOf = (declared: Manifest): LockRoots => ({
+    dependencies: resolveDescriptors(declared.dependencies, resolve),
+    devDependencies: resolveDescriptors(declared.devDependencies, resolve),
+    optionalDependencies: resolveDescriptors(declared.optionalDependencies, resolve),
+  });
+
+  // Dependencies on sibling members ("workspace:*") resolve to nothing and drop out
+  const workspaces: LockGraph['workspaces'] = {};
+  for (const [dir, member] of Object.entries(members)) {
+    workspaces[dir] = { manifest: withDefaults({ name: dir.split('/').pop(), ...member }), roots: rootsOf(member) };
+  }
+
+  if (manifest) {
+    return { manifest: withDefaults(manifest), roots: rootsOf(manifest), packages, workspaces };
+  }
+
+  const roots: LockRoots = { dependencies: {}, devDependencies: {}, optionalDependencies: {} };
+
+  // Without a manifest, treat every package nothing else depends on as a direct
+  // production dependency.
+  const referenced = new Set<string>();
+  for (const member of Object.values(workspaces)) {
+    Object.values(member.roots).forEach((group) => Object.values(group).forEach((id) => referenced.add(id)));
+  }
+  for (const pkg of Object.values(packages)) {
+    Object.values(pkg.dependencies).forEach((id) => referenced.add(id));
+    Object.values(pkg.optionalDependencies).forEach((id) => referenced.add(id));
+  }
+  const dependencies: Record<string, string> = {};
+  for (const [id, pkg] of Object.entries(packages)) {
+    if (!referenced.has(id)) {
+      roots.dependencies[pkg.name] = id;
+      dependencies[pkg.name] = pkg.version;
+    }
+  }
+  return { manifest: withDefaults({ dependencies }), roots, packages, workspaces };
+}
+
+// Lay the graph out as a hoisted node_modules tree and emit a lockfileVersion 3
+// package-lock.json for it. Monorepo members are laid out the way npm
+// workspaces are: at their own directory, symlinked from node_modules, with
+// their dependencies hoisted to the root where they don't conflict.
+function toNpmLockfile(graph: LockGraph) {
+  const { manifest, roots, packages } = graph;
+  const workspaces = Object.entries(graph.workspaces || {});
+  const placed = new Map<string, string>();
+  const manifestEntry = (declared: Manifest) => ({
+    name: declared.name,
+    version: declared.version,
+    dependencies: declared.dependencies,
+    devDependencies: declared.devDependencies,
+    optionalDependencies: declared.optionalDependencies,
+    peerDependencies: declared.peerDependencies,
+  });
+  const lockPackages: Record<string, any> = { '': manifestEntry(manifest) };
+  if (workspaces.length > 0) {
+    lockPackages[''].workspaces = workspaces.map(([dir]) => dir);
+  }
+  for (const [dir, member] of workspaces) {
+    lockPackages[dir] = manifestEntry(member.manifest);
+    lockPackages[childPath('', member.manifest.name)] = { resolved: dir, link: true };
+    placed.set(childPath('', member.manifest.name), `workspace:${dir}`);
+  }
+
+  const allRoots = [roots, ...workspaces.map(([, member]) => member.roots)];
+  const prod = reachable(packages, allRoots.flatMap((groups) => [groups.dependencies, groups.optionalDependencies]), true);
+  const required = reachable(packages, allRoots.flatMap((groups) => [groups.dependencies, groups.devDependencies]), false);
+
+  const queue: Array<{ parent: string; name: string; id: string }> = [];
+  for (const [parent, groups] of [['', roots] as const, ...workspaces.map(([dir, member]) => [dir, member.roots] as const)]) {
+    for (const group of [groups.dependencies, groups.optionalDependencies, groups.devDependencies]) {
+      for (const [name, id] of Object.entries(group)) {
+        queue.push({ parent, name, id });
+      }
+    }
+  }
+
+  while (queue.length > 0) {
+    const { parent, name, id } = queue.shift();
+    const pkg = packages[id];
+    if (!pkg) continue;
+
+    let target: string | null = null;
+    let alreadyPlaced = false;
+    for (let dir = parent; ; dir = parentDir(dir)) {
+      const candidate = childPath(dir, name);
+      if (placed.has(candidate)) {
+        alreadyPlaced = placed.get(candidate) === id;
+        break;
+      }
+      target = dir;
+      if (dir === '') break;
+    }
+    if (alreadyPlaced || target === null) continue;
+
+    const location = childPath(target, name);
+    if (location.split('/node_modules/').length > MAX_NESTING) continue;
+    placed.set(location, id);
+
+    const entry: any = {
+      version: pkg.version,
+      resolved: pkg.resolved,
+      integrity: pkg.integrity,
+    };
+    if (pkg.license) entry.license = pkg.license;
+    if (!prod.has(id)) entry.dev = true;
+    if (!required.has(id)) entry.optional = true;
+    if (Object.keys(pkg.dependencies).length > 0) {
+      entry.dependencies = versionsOf(packages, pkg.dependencies);
+    }
+    if (Object.keys(pkg.optionalDependencies).length > 0) {
+      entry.optionalDependencies = versionsOf(packages, pkg.optionalDependencies);
+    }
+    lockPackages[location] = entry;
+
+    for (const [depName, depId] of Object.entries({ ...pkg.dependencies, ...pkg.optionalDependencies })) {
+      queue.push({ parent: location, name: depName, id: depId });
+    }
+  }
+
+  return {
+    name: manifest.name,
+    version: manifest.version,
+    lockfileVersion: 3,
+    requires: true,
+    packages: lockPackages,
+  };
+}
+
+function reachable(
+  packages: Record<string, LockPackage>,
+  starts: Array<Record<string, string>>,
+  followOptional: boolean
+) {
+  const seen = new Set<string>();
+  const stack = starts.flatMap((group) => Object.values(group));
+  while (stack.length > 0) {
+    const id = stack.pop();
+    if (seen.has(id) || !packages[id]) continue;
+    seen.add(id);
+    stack.push(...Object.values(packages[id].dependencies));
+    if (followOptional) {
+      stack.push(...Object.values(packages[id].optionalDependencies));
+    }
+  }
+  return seen;
+}
+
+function versionsOf(packages: Record<string, LockPackage>, deps: Record<string, string>) {
+  const versions: Record<string, string> = {};
+  for (const [name, id] of Object.entries(deps)) {
+    versions[name] = packages[id]?.version || '*';
+  }
+  return versions;
+}
+
+function parentDir(location: string) {
+  const index = location.lastIndexOf('/node_modules/');
+  return index === -1 ? '' : location.slice(0, index);
+}
+
+function childPath(dir: string, name: string) {
+  return dir === '' ? `node_modules/${name}` : `${dir}/node_modules/${name}`;
+}
+
+function pickManifestIdentity(manifest?: Manifest): Manifest {
+  return manifest ? { name: manifest.name, version: manifest.version } : {};
+}
+
+// npm refuses to work on a package.json without a name and version.
+function withDefaults(manifest: Manifest): Manifest {
+  return {
+    ...manifest,
+    name: manifest.name || 'temp-package',
+    version: manifest.version || '1.0.0',
+  };
+}
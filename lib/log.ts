@@ -0,0 +1,15 @@
+// Where the audit pipeline reports what it's doing: the console for the
+// server, and whatever the CLI sets, which keeps stdout for its output.
+export type Logger = Pick<Console, 'log' | 'warn' | 'error'>;
+
+let current: Logger = console;
+
+export const log: Logger = {
+  log: (...args) => current.log(...args),
+  warn: (...args) => current.warn(...args),
+  error: (...args) => current.error(...args),
+};
+
+export function setLogger(logger: Logger) {
+  current = logger;
+}
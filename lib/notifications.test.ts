@@ -0,0 +1,84 @@
+import { createHmac } from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Severity } from './audit';
+import type { NotificationChannel } from './config';
+import { advisoryKeys, AuditOutcome, notificationFor, notifyAudit } from './notifications';
+import type { AuditResult } from './report';
+
+const finding = (name: string, severity: Severity, id: string): AuditResult => ({
+  name,
+  version: '1.0.0',
+  vulnerability: `${id} title`,
+  severity,
+  recommendation: '',
+  advisories: [{ source: id, id, title: `${id} title`, url: `https://github.com/advisories/${id}`, severity, cwe: [] }],
+});
+
+const outcome = (vulnerabilities: AuditResult[], previousAdvisories: Set<string> | null = null): AuditOutcome =>
+  ({ project: 'web', team: 'payments', runId: 'run-1', advisorySource: 'registry', vulnerabilities, previousAdvisories });
+
+const channel = (options: Partial<NotificationChannel> = {}): NotificationChannel =>
+  ({ type: 'webhook', url: 'https://hooks.example.com/audit', minSeverity: 'high', newAdvisories: true, ...options });
+
+describe('notificationFor', () => {
+  it('lists the findings at or above the channel\'s severity', () => {
+    const notification = notificationFor(channel(), outcome([finding('a', 'critical', 'GHSA-1'), finding('b', 'low', 'GHSA-2')]));
+
+    expect(notification).toMatchObject({ triggers: ['threshold'], project: 'web', team: 'payments', runId: 'run-1', summary: { total: 2 } });
+    expect(notification.findings.map((item) => item.name)).toEqual(['a']);
+  });
+
+  it('tells about advisories the previous run didn\'t have, whatever their severity', () => {
+    const previous = advisoryKeys([finding('b', 'low', 'GHSA-2')]);
+    const notification = notificationFor(channel(), outcome([finding('b', 'low', 'GHSA-2'), finding('c', 'low', 'GHSA-3')], previous));
+
+    expect(notification.triggers).toEqual(['new-advisories']);
+    expect(notification.newFindings.map((item) => item.name)).toEqual(['c']);
+  });
+
+  it('stays quiet about other projects and teams, and when nothing is worth it', () => {
+    const critical = outcome([finding('a', 'critical', 'GHSA-1')]);
+    expect(notificationFor(channel({ projects: ['api'] }), critical)).toBeNull();
+    expect(notificationFor(channel({ teams: ['search'] }), critical)).toBeNull();
+    expect(notificationFor(channel(), outcome([finding('b', 'low', 'GHSA-2')], advisoryKeys([finding('b', 'low', 'GHSA-2')])))).toBeNull();
+    // a first run has nothing to compare with
+    expect(notificationFor(channel({ minSeverity: 'critical' }), outcome([finding('b', 'low', 'GHSA-2')], null))).toBeNull();
+  });
+});
+
+describe('notifyAudit', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('signs webhook bodies and the time of sending with the channel\'s secret', async () => {
+    vi.useFakeTimers({ now: new Date('2024-05-01T12:00:00Z'), toFake: ['Date'] });
+    vi.stubEnv('NOTIFY_CHANNELS', JSON.stringify([{ type: 'webhook', url: 'https://hooks.example.com/audit', secret: 'shh' }]));
+    const fetch = vi.fn(async (url: string, init: RequestInit) => new Response('ok'));
+    vi.stubGlobal('fetch', fetch);
+
+    const results = await notifyAudit(outcome([finding('a', 'critical', 'GHSA-1')]));
+
+    expect(results).toEqual([{ channel: 'webhook hooks.example.com', type: 'webhook', delivered: true }]);
+    const { body, headers } = fetch.mock.calls[0][1];
+    expect(JSON.parse(String(body))).toMatchObject({ event: 'audit.notification', project: 'web' });
+    expect(headers['X-Audit-Timestamp']).toBe('1714564800');
+    expect(headers['X-Audit-Signature-256']).toBe(`sha256=${createHmac('sha256', 'shh').update(`1714564800.${body}`).digest('hex')}`);
+  });
+
+  it('reports failed deliveries without their URL tokens, and never throws', async () => {
+    vi.stubEnv('NOTIFY_CHANNELS', JSON.stringify([{ type: 'slack', url: 'https://hooks.slack.com/services/T0/B0/token' }]));
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('no', { status: 404, statusText: 'Not Found' })));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await notifyAudit(outcome([finding('a', 'critical', 'GHSA-1')]))).toEqual([
+      { channel: 'slack hooks.slack.com', type: 'slack', delivered: false, error: '404 Not Found' },
+    ]);
+
+    vi.stubEnv('NOTIFY_CHANNELS', '{not json');
+    expect(await notifyAudit(outcome([finding('a', 'critical', 'GHSA-1')]))).toEqual([]);
+  });
+});
@@ -0,0 +1,282 @@
+import { createHmac, randomUUID } from 'crypto';
+import { NotificationChannel, notificationChannels, NotificationSeverity, smtpConfig } from './config';
+import { RunSummary, summarizeVulnerabilities } from './history';
+import { sanitizeOutput } from './npm-runner';
+import type { AuditResult } from './report';
+import { sendMail } from './smtp';
+
+export type NotificationTrigger = 'threshold' | 'new-advisories';
+
+export type NotificationFinding = {
+  name: string;
+  version: string;
+  severity: string;
+  title: string;
+  advisories: string[];
+  url?: string;
+};
+
+// What a channel is told about an audit: the findings at or above its
+// minSeverity, and those with advisories the project's last run didn't have
+export type AuditNotification = {
+  id: string;
+  triggers: NotificationTrigger[];
+  project?: string;
+  team?: string;
+  runId?: string;
+  advisorySource: string;
+  summary: RunSummary;
+  minSeverity: NotificationSeverity;
+  findings: NotificationFinding[];
+  newFindings: NotificationFinding[];
+  createdAt: string;
+  // sent from the test endpoint, about no real audit
+  test?: boolean;
+};
+
+// An audit's result. A saved run has its project and id, and the advisories of
+// the project's previous run (see advisoryKeys); those are null for the
+// project's first run and for audits that weren't saved.
+export type AuditOutcome = {
+  project?: string;
+  team?: string;
+  runId?: string;
+  advisorySource: string;
+  vulnerabilities: AuditResult[];
+  previousAdvisories: Set<string> | null;
+};
+
+export type DeliveryResult = { channel: string; type: NotificationChannel['type']; delivered: boolean; error?: string };
+
+const severityRank: Record<string, number> = { unknown: -1, info: 0, low: 1, moderate: 2, high: 3, critical: 4 };
+
+const DELIVERY_TIMEOUT = 10 * 1000;
+
+// Findings listed in a message; the webhook's JSON has them all
+const LISTED_FINDINGS = 20;
+
+const findingKeys = (finding: AuditResult) =>
+  finding.advisories?.length
+    ? finding.advisories.map((advisory) => `${finding.name}:${advisory.id || advisory.source}`)
+    : [`${finding.name}:${finding.source ?? finding.vulnerability}`];
+
+// What tells one finding's advisories apart from a later run's
+export function advisoryKeys(vulnerabilities: AuditResult[]): Set<string> {
+  return new Set(vulnerabilities.flatMap(findingKeys));
+}
+
+const notificationFinding = (finding: AuditResult): NotificationFinding => ({
+  name: finding.name,
+  version: finding.version,
+  severity: finding.severity,
+  title: finding.vulnerability,
+  advisories: (finding.advisories || []).map((advisory) => String(advisory.id || advisory.source)),
+  ...(finding.url ? { url: finding.url } : {}),
+});
+
+// The notification the channel should get about the audit, if any
+export function notificationFor(channel: NotificationChannel, outcome: AuditOutcome): AuditNotification | null {
+  if (channel.projects && !channel.projects.includes(outcome.project)) return null;
+  if (channel.teams && !channel.teams.includes(outcome.team)) return null;
+
+  const findings = outcome.vulnerabilities.filter((finding) => severityRank[finding.severity] >= severityRank[channel.minSeverity]);
+  const previous = outcome.previousAdvisories;
+  const newFindings = channel.newAdvisories && previous
+    ? outcome.vulnerabilities.filter((finding) => findingKeys(finding).some((key) => !previous.has(key)))
+    : [];
+  const triggers: NotificationTrigger[] = [
+    ...(findings.length > 0 ? ['threshold' as const] : []),
+    ...(newFindings.length > 0 ? ['new-advisories' as const] : []),
+  ];
+  if (triggers.length === 0) return null;
+
+  return {
+    id: randomUUID(),
+    triggers,
+    ...(outcome.project === undefined ? {} : { project: outcome.project }),
+    ...(outcome.team === undefined ? {} : { team: outcome.team }),
+    ...(outcome.runId === undefined ? {} : { runId: outcome.runId }),
+    advisorySource: outcome.advisorySource,
+    summary: summarizeVulnerabilities(outcome.vulnerabilities),
+    minSeverity: channel.minSeverity,
+    findings: findings.map(notificationFinding),
+    newFindings: newFindings.map(notificationFinding),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+function headline(notification: AuditNotification) {
+  const parts = [
+    ...(notification.triggers.includes('threshold') ? [`${plural(notification.findings.length, 'finding')} at or above ${notification.minSeverity}`] : []),
+    ...(notification.triggers.includes('new-advisories') ? [`${plural(notification.newFindings.length, 'package')} with new advisories since the last run`] : []),
+  ];
+  const subject = notification.project ? `${notification.project}${notification.team ? ` (${notification.team})` : ''}` : 'npm audit';
+  return `${notification.test ? '[test] ' : ''}${subject}: ${parts.join(', ')}`;
+}
+
+// The findings as text lines, new ones first, each package once
+function findingLines(notification: AuditNotification) {
+  const seen = new Set<string>();
+  const lines: string[] = [];
+  for (const finding of [...notification.newFindings, ...notification.findings]) {
+    const id = `${finding.name}@${finding.version}`;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    const advisories = finding.advisories.length > 0 ? ` (${finding.advisories.join(', ')})` : '';
+    const isNew = notification.newFindings.includes(finding) ? 'new: ' : '';
+    lines.push(`${isNew}[${finding.severity}] ${id}: ${finding.title}${advisories}`);
+  }
+  return lines.length > LISTED_FINDINGS ? [...lines.slice(0, LISTED_FINDINGS), `and ${lines.length - LISTED_FINDINGS} more`] : lines;
+}
+
+const summaryLine = ({ summary }: AuditNotification) =>
+  ['critical', 'high', 'moderate', 'low', 'info'].map((severity) => `${summary[severity]} ${severity}`).join(', ');
+
+// Slack's mrkdwn only needs these three escaped
+const slackEscape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+function slackPayload(notification: AuditNotification) {
+  return {
+    text: headline(notification),
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text: `*${slackEscape(headline(notification))}*\n${summaryLine(notification)}` } },
+      { type: 'section', text: { type: 'mrkdwn', text: slackEscape(findingLines(notification).map((line) => `• ${line}`).join('\n')).slice(0, 2900) } },
+    ],
+  };
+}
+
+// An Adaptive Card, which both Teams workflows and incoming webhooks take
+function teamsPayload(notification: AuditNotification) {
+  return {
+    type: 'message',
+    attachments: [{
+      contentType: 'application/vnd.microsoft.card.adaptive',
+      contentUrl: null,
+      content: {
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        type: 'AdaptiveCard',
+        version: '1.4',
+        body: [
+          { type: 'TextBlock', text: headline(notification), weight: 'Bolder', size: 'Medium', wrap: true },
+          { type: 'TextBlock', text: summaryLine(notification), wrap: true, isSubtle: true },
+          { type: 'TextBlock', text: findingLines(notification).map((line) => `- ${line}`).join('\n'), wrap: true },
+        ],
+      },
+    }],
+  };
+}
+
+function emailText(notification: AuditNotification) {
+  return [
+    headline(notification),
+    '',
+    `Findings: ${summaryLine(notification)}`,
+    `Advisories from: ${notification.advisorySource}`,
+    ...(notification.runId ? [`Saved run: ${notification.runId}`] : []),
+    '',
+    ...findingLines(notification),
+  ].join('\n');
+}
+
+async function postJson(url: string, body: string, headers: Record<string, string> = {}) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'User-Agent': 'npm-audit-dashboard', ...headers },
+    body,
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+}
+
+// Webhook bodies are signed with the channel's secret: X-Audit-Timestamp holds
+// the Unix time of sending in seconds, and X-Audit-Signature-256 "sha256=" and
+// the hex HMAC-SHA256 of "<timestamp>.<raw body>". Receivers should check the
+// signature and refuse timestamps more than a few minutes old, so a captured
+// request can't be replayed later; X-Audit-Delivery tells retries apart.
+async function deliver(channel: NotificationChannel, notification: AuditNotification) {
+  switch (channel.type) {
+    case 'webhook': {
+      const body = JSON.stringify({ event: 'audit.notification', ...notification });
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      return postJson(channel.url, body, {
+        'X-Audit-Event': 'audit.notification',
+        'X-Audit-Delivery': notification.id,
+        ...(channel.secret ? {
+          'X-Audit-Timestamp': timestamp,
+          'X-Audit-Signature-256': `sha256=${createHmac('sha256', channel.secret).update(`${timestamp}.${body}`).digest('hex')}`,
+        } : {}),
+      });
+    }
+    case 'slack':
+      return postJson(channel.url, JSON.stringify(slackPayload(notification)));
+    case 'teams':
+      return postJson(channel.url, JSON.stringify(teamsPayload(notification)));
+    case 'email':
+      return sendMail(smtpConfig(), { to: channel.to, subject: headline(notification), text: emailText(notification) });
+  }
+}
+
+// Webhook URLs carry their tokens, so only the host is ever shown
+function channelLabel(channel: NotificationChannel) {
+  if (channel.name) return channel.name;
+  if (channel.type === 'email') return `email to ${channel.to.join(', ')}`;
+  try {
+    return `${channel.type} ${new URL(channel.url).host}`;
+  } catch {
+    return channel.type;
+  }
+}
+
+async function deliverAll(notifications: Array<{ channel: NotificationChannel; notification: AuditNotification }>): Promise<DeliveryResult[]> {
+  return Promise.all(notifications.map(async ({ channel, notification }) => {
+    const label = channelLabel(channel);
+    try {
+      await deliver(channel, notification);
+      return { channel: label, type: channel.type, delivered: true };
+    } catch (error) {
+      const message = sanitizeOutput(error?.message || String(error));
+      console.error(`Failed to notify ${label}:`, message);
+      return { channel: label, type: channel.type, delivered: false, error: message };
+    }
+  }));
+}
+
+// Tell every channel that cares about the audit. Never throws: a channel that
+// fails, or a broken NOTIFY_CHANNELS, is only logged.
+export async function notifyAudit(outcome: AuditOutcome): Promise<DeliveryResult[]> {
+  let channels: NotificationChannel[];
+  try {
+    channels = notificationChannels();
+  } catch (error) {
+    console.error('Failed to read the notification channels:', error.message);
+    return [];
+  }
+  return deliverAll(channels
+    .map((channel) => ({ channel, notification: notificationFor(channel, outcome) }))
+    .filter(({ notification }) => notification !== null));
+}
+
+// Send every channel a made-up notification, whatever its filters, to check
+// it's set up right. Configuration errors are thrown.
+export function testNotifications(): Promise<DeliveryResult[]> {
+  const finding = { name: 'example-package', version: '1.0.0', severity: 'critical', title: 'Example vulnerability', advisories: ['GHSA-0000-0000-0000'] };
+  return deliverAll(notificationChannels().map((channel) => ({
+    channel,
+    notification: {
+      id: randomUUID(),
+      triggers: ['threshold'],
+      project: 'example',
+      advisorySource: 'test',
+      summary: { info: 0, low: 0, moderate: 0, high: 0, critical: 1, total: 1, advisories: 1 },
+      minSeverity: channel.minSeverity,
+      findings: [finding],
+      newFindings: [],
+      createdAt: new Date().toISOString(),
+      test: true,
+    },
+  })));
+}
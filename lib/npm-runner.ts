@@ -0,0 +1,145 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import semver from 'semver';
+import { DependencySpecType, npmRunnerConfig } from './config';
+import { AuditError } from './errors';
+
+const execFilePromise = promisify(execFile);
+
+// What npm gets from the server's environment; everything else (tokens,
+// cloud credentials, the server's own config) stays out of its reach.
+const inheritedVariables = [
+  'PATH', 'LANG', 'SYSTEMROOT',
+  'HTTP_PROXY', 'HTTPS_PROXY', 'NO_PROXY', 'http_proxy', 'https_proxy', 'no_proxy',
+  'NODE_EXTRA_CA_CERTS',
+];
+
+// Registries whose tarball URLs show up in npm and yarn lockfiles
+const publicRegistryHosts = ['registry.npmjs.org', 'registry.yarnpkg.com'];
+
+// npm ran out of time or printed more than it may
+export class NpmLimitError extends Error {}
+
+export type NpmResult = { stdout: string; stderr: string };
+
+// Run npm in `dir` with a locked-down environment: HOME and the global config
+// point into the workspace, the .npmrc written there is the only user config,
+// install scripts never run, and npm's time, heap and output are capped.
+// Failures reject like child_process does, with stdout and stderr attached.
+export async function runNpm(dir: string, args: string[], options: { signal?: AbortSignal } = {}): Promise<NpmResult> {
+  const config = npmRunnerConfig();
+  const home = path.join(dir, '.home');
+  fs.mkdirSync(home, { recursive: true });
+
+  const env: Record<string, string> = {};
+  for (const name of inheritedVariables) {
+    if (process.env[name] !== undefined) env[name] = process.env[name];
+  }
+  Object.assign(env, {
+    HOME: home,
+    USERPROFILE: home,
+    npm_config_userconfig: path.join(dir, '.npmrc'),
+    npm_config_globalconfig: path.join(home, 'npmrc'),
+    npm_config_cache: config.cacheDirectory,
+    npm_config_ignore_scripts: 'true',
+    // installs would send the whole tree off for an audit of their own
+    npm_config_audit: 'false',
+    npm_config_update_notifier: 'false',
+    npm_config_fund: 'false',
+    npm_config_progress: 'false',
+    NODE_OPTIONS: `--max-old-space-size=${config.maxMemory}`,
+  });
+
+  const running = execFilePromise('npm', args, {
+    cwd: dir,
+    // no NODE_ENV either, npm would leave devDependencies out for "production"
+    env: env as NodeJS.ProcessEnv,
+    signal: options.signal,
+    timeout: config.timeout,
+    killSignal: 'SIGKILL',
+    maxBuffer: config.maxOutput,
+  });
+  // an audit shouldn't starve the server of CPU
+  try {
+    if (running.child.pid) os.setPriority(running.child.pid, 10);
+  } catch (error) {
+    // not permitted everywhere; the time limit still applies
+  }
+
+  try {
+    return await running;
+  } catch (error) {
+    if (error.code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') {
+      throw new NpmLimitError(`npm ${args[0]} printed more than ${Math.round(config.maxOutput / 1024 / 1024)} MB`);
+    }
+    if (error.killed && !options.signal?.aborted) {
+      throw new NpmLimitError(`npm ${args[0]} took longer than ${config.timeout / 1000} seconds`);
+    }
+    throw error;
+  }
+}
+
+// What kind of thing a package.json dependency points at, the way npm reads it
+export function dependencySpecType(spec: string): DependencySpecType {
+  const value = String(spec).trim();
+  if (value.startsWith('npm:')) {
+    // an alias, "npm:other-package@^1"
+    const target = value.slice('npm:'.length);
+    const at = target.lastIndexOf('@');
+    return at > 0 ? dependencySpecType(target.slice(at + 1)) : 'registry';
+  }
+  if (/^(git\+|git:|github:|gitlab:|bitbucket:|gist:)/.test(value) || /^[\w.-]+@[\w.-]+:/.test(value) || /^[\w-]+\/[\w.-]+(#.*)?$/.test(value)) {
+    return 'git';
+  }
+  if (/^https?:\/\//.test(value)) {
+    return 'url';
+  }
+  if (value === '' || value === '*' || semver.validRange(value) !== null || /^[a-z][\w.-]*$/i.test(value)) {
+    return 'registry';
+  }
+  // file:, link:, paths and tarballs on disk
+  return 'file';
+}
+
+// The same for a package-lock.json entry, or null for links to the project's
+// own workspaces. Tarball URLs are only registry ones on a known registry, and
+// a URL that doesn't parse is refused.
+export function lockfileSpecType(entry: any, registryHosts: string[]): DependencySpecType | null {
+  const resolved = typeof entry?.resolved === 'string' ? entry.resolved : '';
+  if (entry?.link) {
+    return resolved && !resolved.startsWith('/') && !resolved.split('/').includes('..') && !resolved.includes(':') ? null : 'file';
+  }
+  if (!resolved) {
+    return 'registry';
+  }
+  if (/^(git\+|git:|github:|ssh:)/.test(resolved)) {
+    return 'git';
+  }
+  if (/^https?:\/\//.test(resolved)) {
+    let host: string;
+    try {
+      host = new URL(resolved).host;
+    } catch {
+      throw new AuditError(400, 'Invalid resolved URL in the lockfile', sanitizeOutput(resolved, 200));
+    }
+    return [...publicRegistryHosts, ...registryHosts].includes(host) ? 'registry' : 'url';
+  }
+  return 'file';
+}
+
+// npm output and error messages as clients get to see them: credentials
+// masked, workspace paths and the server's home directory left out, cut to
+// a readable length
+export function sanitizeOutput(text: unknown, maxLength = 2000) {
+  const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const sanitized = String(text ?? '')
+    .replace(/(_authToken|_auth|_password|token|password)(["']?\s*[=:]\s*["']?)[^\s"',]+/gi, '$1$2***')
+    .replace(/\bBearer\s+\S+/gi, 'Bearer ***')
+    .replace(/\b([a-z][a-z+.-]*:\/\/)[^\s\/@]+@/gi, '$1***@')
+    .replace(new RegExp(`${escape(os.tmpdir())}[\\/\\\\]npm-audit-[^\\s\\/\\\\'"]*`, 'g'), '<workspace>')
+    .replace(new RegExp(escape(os.homedir()), 'g'), '~');
+  return sanitized.length > maxLength ? `${sanitized.slice(0, maxLength)}…` : sanitized;
+}
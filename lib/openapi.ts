@@ -0,0 +1,307 @@
+import { apiSchemas, JsonSchema, ref } from './api-schema';
+
+const json = (schema: JsonSchema) => ({ content: { 'application/json': { schema } } });
+
+// Every route but the document itself needs an API key and is rate limited
+const errors = (...statuses: number[]) => Object.fromEntries(
+  [...statuses, 401, 429].sort().map((status) => [String(status), { $ref: `#/components/responses/Error${status}` }])
+);
+
+const errorDescriptions: Record<number, string> = {
+  400: 'The request is invalid',
+  401: 'The API key is missing, invalid or revoked',
+  403: 'The API key isn\'t an admin\'s',
+  404: 'Not found',
+  405: 'Method not allowed',
+  500: 'The server failed',
+  429: 'The API key\'s rate limit or concurrent audits are used up; Retry-After says when to try again',
+  502: 'The registry or repository failed',
+  503: 'Too many audits waiting',
+};
+
+const pathParameter = (name: string, description: string) => ({ name, in: 'path', required: true, description, schema: { type: 'string' } });
+
+const projectPolicy: JsonSchema = { type: 'object', properties: { project: { type: 'string' }, policy: ref('Policy') } };
+
+// The OpenAPI 3.1 document for /api/v1, built from the same schemas the
+// routes validate request bodies with
+export function openApiDocument() {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'npm audit dashboard API',
+      version: '1',
+      description: 'Audit npm, yarn and pnpm projects for vulnerable and policy-violating dependencies. ' +
+        'Every error responds with { error: { code, message, details? } }. ' +
+        'Saved audits, policies and jobs are only visible to the team of the API key that made them, and to admins. ' +
+        'Audits, batches and comparisons notify the channels in NOTIFY_CHANNELS; webhook bodies and their X-Audit-Timestamp are signed in X-Audit-Signature-256.',
+    },
+    servers: [{ url: '/api/v1' }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths: {
+      '/audits': {
+        post: {
+          summary: 'Audit a lockfile, manifest, dependency map, audit report or SBOM',
+          parameters: [{
+            name: 'format',
+            in: 'query',
+            description: 'Respond with a SARIF log or an SBOM of the audited tree instead',
+            schema: { type: 'string', enum: ['json', 'sarif', 'cyclonedx', 'spdx'] },
+          }],
+          requestBody: { required: true, ...json(ref('AuditRequest')) },
+          responses: {
+            200: {
+              description: 'The audit, or the document asked for with ?format',
+              content: {
+                'application/json': { schema: ref('AuditResponse') },
+                'application/sarif+json': { schema: { type: 'object' } },
+                'application/vnd.cyclonedx+json': { schema: { type: 'object' } },
+                'application/spdx+json': { schema: { type: 'object' } },
+              },
+            },
+            ...errors(400, 500, 502),
+          },
+        },
+      },
+      '/jobs': {
+        post: {
+          summary: 'Queue an audit',
+          requestBody: { required: true, ...json(ref('AuditRequest')) },
+          responses: {
+            202: {
+              description: 'The queued job',
+              headers: { Location: { description: 'Where to follow the job', schema: { type: 'string' } } },
+              ...json(ref('Job')),
+            },
+            ...errors(400, 503),
+          },
+        },
+      },
+      '/jobs/{id}': {
+        parameters: [pathParameter('id', 'The job id')],
+        get: {
+          summary: 'A job\'s status, with the audit once it\'s done',
+          responses: { 200: { description: 'The job', ...json(ref('Job')) }, ...errors(404) },
+        },
+        delete: {
+          summary: 'Cancel a queued or running job',
+          responses: { 200: { description: 'The job', ...json(ref('Job')) }, ...errors(404) },
+        },
+      },
+      '/jobs/{id}/events': {
+        parameters: [pathParameter('id', 'The job id')],
+        get: {
+          summary: 'Follow a job\'s stages as Server-Sent Events',
+          responses: {
+            200: {
+              description: 'A "stage" event per stage, then an "end" event with the final status',
+              content: { 'text/event-stream': { schema: { type: 'string' } } },
+            },
+            ...errors(404),
+          },
+        },
+      },
+      '/remote-audits': {
+        post: {
+          summary: 'Audit an npm package or a Git repository',
+          requestBody: { required: true, ...json(ref('RemoteAuditRequest')) },
+          responses: {
+            200: { description: 'The audit, with a description of what was fetched', ...json(ref('AuditResponse')) },
+            ...errors(400, 404, 500, 502),
+          },
+        },
+      },
+      '/batch-audits': {
+        post: {
+          summary: 'Audit several projects, broken down per workspace',
+          requestBody: { required: true, ...json(ref('BatchAuditRequest')) },
+          responses: { 200: { description: 'The audit per workspace and across them', ...json(ref('BatchAuditResponse')) }, ...errors(400, 500) },
+        },
+      },
+      '/fix-plans': {
+        post: {
+          summary: 'Work out the upgrades that fix an audit, as a package.json diff',
+          requestBody: { required: true, ...json(ref('AuditRequest')) },
+          responses: { 200: { description: 'The fix plan', ...json(ref('FixPlan')) }, ...errors(400, 500, 502) },
+        },
+      },
+      '/comparisons': {
+        post: {
+          summary: 'Compare two audits',
+          requestBody: { required: true, ...json(ref('ComparisonRequest')) },
+          responses: {
+            200: { description: 'Findings the head introduces, resolves and shares with the base', ...json(ref('ComparisonResponse')) },
+            ...errors(400, 404, 500, 502),
+          },
+        },
+      },
+      '/history': {
+        get: {
+          summary: 'Saved audit runs, with every project\'s latest',
+          parameters: [{ name: 'project', in: 'query', description: 'Only this project\'s runs', schema: { type: 'string' } }],
+          responses: {
+            200: {
+              description: 'Runs, oldest first',
+              ...json({
+                type: 'object',
+                properties: {
+                  project: { type: 'string' },
+                  projects: { type: 'array', items: { type: 'object', properties: { project: { type: 'string' }, runs: { type: 'integer' }, latest: ref('RunInfo') } } },
+                  runs: { type: 'array', items: ref('RunInfo') },
+                },
+              }),
+            },
+            ...errors(400, 500),
+          },
+        },
+      },
+      '/history/{id}': {
+        parameters: [pathParameter('id', 'The run id')],
+        get: {
+          summary: 'A saved run as the audit responded with it',
+          responses: { 200: { description: 'The run', ...json(ref('AuditResponse')) }, ...errors(404) },
+        },
+      },
+      '/policies/{project}': {
+        parameters: [pathParameter('project', 'The project name')],
+        get: {
+          summary: 'The policy stored for a project',
+          responses: { 200: { description: 'The policy', ...json(projectPolicy) }, ...errors(404) },
+        },
+        put: {
+          summary: 'Store a project\'s policy',
+          requestBody: { required: true, ...json(ref('Policy')) },
+          responses: { 200: { description: 'The stored policy', ...json(projectPolicy) }, ...errors(400) },
+        },
+        delete: {
+          summary: 'Remove a project\'s policy',
+          responses: { 204: { description: 'Removed' }, ...errors(404) },
+        },
+      },
+      '/me': {
+        get: {
+          summary: 'Who the API key belongs to, and its limits',
+          responses: {
+            200: {
+              description: 'The key\'s name, team, role and limits',
+              ...json({
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  team: { type: 'string' },
+                  role: { type: 'string', enum: ['admin', 'member'] },
+                  rateLimit: { type: 'integer' },
+                  concurrency: { type: 'integer' },
+                },
+              }),
+            },
+            ...errors(),
+          },
+        },
+      },
+      '/keys': {
+        get: {
+          summary: 'The issued API keys, newest first (admins only)',
+          responses: {
+            200: { description: 'The keys, without the keys themselves', ...json({ type: 'object', properties: { keys: { type: 'array', items: ref('ApiKey') } } }) },
+            ...errors(403),
+          },
+        },
+        post: {
+          summary: 'Issue an API key (admins only)',
+          requestBody: { required: true, ...json(ref('ApiKeyRequest')) },
+          responses: {
+            201: {
+              description: 'The issued key, with the key itself; it is never shown again',
+              ...json({ ...apiSchemas.ApiKey, properties: { ...apiSchemas.ApiKey.properties, key: { type: 'string' } } }),
+            },
+            ...errors(400, 403),
+          },
+        },
+      },
+      '/keys/{id}': {
+        parameters: [pathParameter('id', 'The key id')],
+        delete: {
+          summary: 'Revoke an API key (admins only)',
+          responses: { 200: { description: 'The revoked key', ...json(ref('ApiKey')) }, ...errors(403, 404) },
+        },
+      },
+      '/advisories': {
+        get: {
+          summary: 'The state of the local advisory database',
+          responses: {
+            200: {
+              description: 'The configured advisory source and what the database holds',
+              ...json({
+                type: 'object',
+                properties: {
+                  source: { type: 'string' },
+                  importedAt: { type: ['string', 'null'], format: 'date-time' },
+                  packages: { type: 'integer' },
+                  advisories: { type: 'integer' },
+                },
+              }),
+            },
+            ...errors(),
+          },
+        },
+        post: {
+          summary: 'Import OSV records into the local advisory database (admins only)',
+          requestBody: { required: true, ...json(ref('AdvisoryImport')) },
+          responses: {
+            200: {
+              description: 'How many records were imported',
+              ...json({ type: 'object', properties: { imported: { type: 'integer' }, skipped: { type: 'integer' }, advisories: { type: 'integer' } } }),
+            },
+            ...errors(400, 403),
+          },
+        },
+      },
+      '/notifications/test': {
+        post: {
+          summary: 'Send every notification channel a test notification (admins only)',
+          responses: {
+            200: {
+              description: 'Whether each channel got it',
+              ...json({
+                type: 'object',
+                properties: {
+                  results: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        channel: { type: 'string' },
+                        type: { type: 'string', enum: ['webhook', 'slack', 'teams', 'email'] },
+                        delivered: { type: 'boolean' },
+                        error: { type: 'string' },
+                      },
+                    },
+                  },
+                },
+              }),
+            },
+            ...errors(400, 403),
+          },
+        },
+      },
+      '/openapi.json': {
+        get: {
+          summary: 'This document',
+          security: [],
+          responses: { 200: { description: 'The OpenAPI document', ...json({ type: 'object' }) } },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Authorization: Bearer <API key>' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+      schemas: apiSchemas,
+      responses: Object.fromEntries(
+        Object.entries(errorDescriptions).map(([status, description]) => [`Error${status}`, { description, ...json(ref('Error')) }])
+      ),
+    },
+  };
+}
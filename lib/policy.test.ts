@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import type { Advisory } from './audit';
+import { applyPolicy, parsePolicy, policyViolations } from './policy';
+
+const advisory = (id: string): Advisory => ({ source: id, id, title: id, url: `https://github.com/advisories/${id}`, severity: 'high', cwe: [] });
+
+const finding = (name: string, severity: string, advisories: Advisory[], causes: string[] = []) => ({
+  name,
+  version: '1.0.0',
+  vulnerability: advisories[0]?.title || `via ${causes.join(', ')}`,
+  severity,
+  recommendation: '',
+  advisories,
+  causes,
+});
+
+const now = new Date('2025-06-01T00:00:00Z');
+
+describe('parsePolicy', () => {
+  it('accepts a complete policy', () => {
+    const policy = parsePolicy({
+      threshold: 'moderate',
+      ignore: [{ id: 'GHSA-1', reason: 'not reachable', expires: '2025-12-31' }],
+      allow: [{ package: 'dev-tool' }],
+      block: [{ package: 'event-stream', range: '3.3.6' }],
+      licenses: { deny: ['strong-copyleft'] },
+    });
+    expect(policy.ignore).toHaveLength(1);
+    expect(policy.block[0].range).toBe('3.3.6');
+  });
+
+  it.each([
+    [[], 'expected a JSON object'],
+    [{ thresold: 'high' }, 'unknown key "thresold"'],
+    [{ threshold: 'severe' }, 'threshold must be one of'],
+    [{ ignore: [{ id: 'GHSA-1' }] }, 'ignore[0] needs an id and a reason'],
+    [{ ignore: [{ id: 'GHSA-1', reason: 'x', expires: 'someday' }] }, 'ignore[0].expires must be a date'],
+    [{ block: [{ package: 'a', range: 'not a range' }] }, 'block[0].range must be a semver range'],
+    [{ allow: [{ reason: 'x' }] }, 'allow and block rules need a package'],
+    [{ licenses: { deny: 'GPL-3.0' } }, 'licenses must have allow and/or deny lists'],
+  ])('refuses %j', (value, message) => {
+    expect(() => parsePolicy(value)).toThrow(message);
+  });
+});
+
+describe('applyPolicy', () => {
+  it('suppresses ignored advisories and keeps the rest of the finding', () => {
+    const findings = [finding('a', 'high', [advisory('GHSA-1'), advisory('GHSA-2')])];
+    const { vulnerabilities, suppressed } = applyPolicy(findings, { ignore: [{ id: 'GHSA-1', reason: 'not reachable' }] }, now);
+
+    expect(vulnerabilities[0].advisories.map((item) => item.id)).toEqual(['GHSA-2']);
+    expect(suppressed[0]).toMatchObject({ suppression: { rule: 'ignore', reason: 'not reachable' } });
+  });
+
+  it('accepts the rest of a partly ignored finding when its package is allowed', () => {
+    const findings = [finding('a', 'high', [advisory('GHSA-1'), advisory('GHSA-2')]), finding('b', 'high', [], ['a'])];
+    const { vulnerabilities, suppressed } = applyPolicy(findings, {
+      ignore: [{ id: 'GHSA-1', reason: 'not reachable' }],
+      allow: [{ package: 'a', reason: 'vetted' }],
+    }, now);
+
+    expect(vulnerabilities).toEqual([]);
+    expect(suppressed).toMatchObject([
+      { name: 'a', advisories: [{ id: 'GHSA-1' }], suppression: { rule: 'ignore', reason: 'not reachable' } },
+      { name: 'a', advisories: [{ id: 'GHSA-2' }], suppression: { rule: 'allow', reason: 'vetted' } },
+      { name: 'b', suppression: { rule: 'ignore' } },
+    ]);
+  });
+
+  it('brings back findings whose ignore expired, saying why', () => {
+    const findings = [finding('a', 'high', [advisory('GHSA-1')])];
+    const { vulnerabilities, suppressed } = applyPolicy(findings, { ignore: [{ id: 'GHSA-1', reason: 'fix pending', expires: '2025-01-01' }] }, now);
+
+    expect(suppressed).toEqual([]);
+    expect(vulnerabilities[0]).toMatchObject({ expiredSuppressions: [{ rule: 'ignore', reason: 'fix pending', expires: '2025-01-01' }] });
+  });
+
+  it('accepts findings only vulnerable through accepted ones', () => {
+    const findings = [finding('a', 'high', [advisory('GHSA-1')]), finding('b', 'high', [], ['a']), finding('c', 'high', [], ['b'])];
+    const { vulnerabilities, suppressed } = applyPolicy(findings, { allow: [{ package: 'a', reason: 'vetted' }] }, now);
+
+    expect(vulnerabilities).toEqual([]);
+    expect(suppressed.map((item) => item.name)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('accepts findings below the threshold, but never policy violations', () => {
+    const findings = [
+      finding('a', 'low', [advisory('GHSA-1')]),
+      finding('b', 'critical', [advisory('GHSA-2')]),
+      { ...finding('c', 'low', []), policyViolation: 'blocked' as const },
+    ];
+    const { vulnerabilities, suppressed } = applyPolicy(findings, { threshold: 'moderate' }, now);
+
+    expect(vulnerabilities.map((item) => item.name)).toEqual(['b', 'c']);
+    expect(suppressed[0]).toMatchObject({ name: 'a', suppression: { rule: 'threshold' } });
+  });
+});
+
+describe('policyViolations', () => {
+  const packageJson = { name: 'app', dependencies: { 'event-stream': '^3.3.0', gpl: '^1.0.0' } };
+  const packageLock = {
+    lockfileVersion: 3,
+    packages: {
+      '': packageJson,
+      'node_modules/event-stream': { version: '3.3.6', license: 'MIT' },
+      'node_modules/gpl': { version: '1.0.0', license: 'GPL-3.0-only' },
+    },
+  };
+
+  it('reports blocked packages in the range and disallowed licences', () => {
+    const violations = policyViolations({ block: [{ package: 'event-stream', range: '3.3.6' }], licenses: { deny: ['strong-copyleft'] } }, packageJson, packageLock);
+
+    expect(violations.map((item) => [item.name, item.policyViolation, item.severity])).toEqual([
+      ['event-stream', 'blocked', 'high'],
+      ['gpl', 'license', 'moderate'],
+    ]);
+    expect(violations[0]).toMatchObject({ isDirect: true, scopes: ['prod'] });
+  });
+
+  it('leaves versions outside a block rule\'s range alone', () => {
+    expect(policyViolations({ block: [{ package: 'event-stream', range: '<3.3.6' }] }, packageJson, packageLock)).toEqual([]);
+  });
+});
@@ -0,0 +1,281 @@
+import fs from 'fs';
+import path from 'path';
+import semver from 'semver';
+import type { Advisory, Severity } from './audit';
+import { withAdvisories } from './compare';
+import { declaredLicense, LicenseRules, licenseViolation } from './licenses';
+import { createPathFinder, dependencyGraph, isWorkspaceLocation, lockfileEntry, scopesForLocations } from './lockfile';
+import { policyKeys } from './upload';
+
+// Accepted risks and house rules, from a policy file uploaded with the
+// manifest or stored for the project:
+//   threshold  findings below this severity are accepted
+//   ignore     advisories (GHSA id, npm advisory number or URL) accepted until
+//              they expire, optionally only for one package
+//   allow      packages whose findings are all accepted
+//   block      packages that must not be installed at all
+//   licenses   licences (or categories like "strong-copyleft") packages must
+//              (allow) or must not (deny) have
+export type IgnoreRule = { id: string; package?: string; reason: string; expires?: string };
+export type AllowRule = { package: string; reason?: string; expires?: string };
+export type BlockRule = { package: string; range?: string; reason?: string; severity?: Severity };
+
+export type AuditPolicy = {
+  threshold?: Severity;
+  ignore?: IgnoreRule[];
+  allow?: AllowRule[];
+  block?: BlockRule[];
+  licenses?: LicenseRules & { severity?: Severity };
+};
+
+export type Suppression = { rule: 'ignore' | 'allow' | 'threshold'; reason: string; expires?: string };
+
+type Finding = {
+  name: string;
+  version: string;
+  vulnerability: string;
+  severity: string;
+  recommendation: string;
+  cvssScore?: number;
+  advisories?: Advisory[];
+  causes?: string[];
+  suppression?: Suppression;
+  expiredSuppressions?: Suppression[];
+  policyViolation?: 'blocked' | 'license';
+};
+
+const severities: Severity[] = ['info', 'low', 'moderate', 'high', 'critical'];
+
+// Validate a policy file's contents, throwing on the first problem
+export function parsePolicy(value: any): AuditPolicy {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('expected a JSON object');
+  }
+  const unknown = Object.keys(value).find((key) => !policyKeys.includes(key));
+  if (unknown) {
+    throw new Error(`unknown key "${unknown}"`);
+  }
+  const { threshold, ignore, allow, block, licenses } = value;
+
+  if (threshold !== undefined && !severities.includes(threshold)) {
+    throw new Error(`threshold must be one of ${severities.join(', ')}`);
+  }
+  const list = (key: string, items: any) => {
+    if (items !== undefined && !Array.isArray(items)) {
+      throw new Error(`${key} must be a list`);
+    }
+    return (items || []).map((item: any, index: number) => {
+      if (!item || typeof item !== 'object') {
+        throw new Error(`${key}[${index}] must be an object`);
+      }
+      for (const field of ['id', 'package', 'reason', 'expires', 'range']) {
+        if (item[field] !== undefined && typeof item[field] !== 'string') {
+          throw new Error(`${key}[${index}].${field} must be a string`);
+        }
+      }
+      if (item.expires !== undefined && Number.isNaN(Date.parse(item.expires))) {
+        throw new Error(`${key}[${index}].expires must be a date, e.g. 2025-12-31`);
+      }
+      if (item.range !== undefined && !semver.validRange(item.range)) {
+        throw new Error(`${key}[${index}].range must be a semver range`);
+      }
+      if (item.severity !== undefined && !severities.includes(item.severity)) {
+        throw new Error(`${key}[${index}].severity must be one of ${severities.join(', ')}`);
+      }
+      return item;
+    });
+  };
+
+  const ignoreRules: IgnoreRule[] = list('ignore', ignore);
+  ignoreRules.forEach((rule, index) => {
+    if (!rule.id || !rule.reason) {
+      throw new Error(`ignore[${index}] needs an id and a reason`);
+    }
+  });
+  const allowRules: AllowRule[] = list('allow', allow);
+  const blockRules: BlockRule[] = list('block', block);
+  [...allowRules, ...blockRules].forEach((rule) => {
+    if (!rule.package) {
+      throw new Error('allow and block rules need a package');
+    }
+  });
+
+  if (licenses !== undefined) {
+    const valid = licenses && typeof licenses === 'object' &&
+      ['allow', 'deny'].every((key) => licenses[key] === undefined || (Array.isArray(licenses[key]) && licenses[key].every((item) => typeof item === 'string'))) &&
+      (licenses.severity === undefined || severities.includes(licenses.severity));
+    if (!valid) {
+      throw new Error('licenses must have allow and/or deny lists of licence ids');
+    }
+  }
+
+  return { threshold, ignore: ignoreRules, allow: allowRules, block: blockRules, licenses };
+}
+
+function isExpired(rule: { expires?: string }, now: Date) {
+  return rule.expires !== undefined && Date.parse(rule.expires) <= now.getTime();
+}
+
+function ignoreMatches(rule: IgnoreRule, name: string, advisory: Advisory) {
+  if (rule.package && rule.package !== name) return false;
+  return [advisory.id, String(advisory.source), advisory.url].includes(rule.id);
+}
+
+// Split the findings into the ones that still need action and the ones the
+// policy accepts. Findings only vulnerable through accepted ones are accepted
+// too. Ignores and allows past their expiry date no longer apply and are listed
+// on the finding instead, so the dashboard can say why it is back.
+export function applyPolicy<T extends Finding>(findings: T[], policy: AuditPolicy, now = new Date()) {
+  const active: T[] = [];
+  const suppressed: T[] = [];
+
+  for (const finding of findings) {
+    const expired: Suppression[] = [];
+    const ignored: Advisory[] = [];
+    const reasons: IgnoreRule[] = [];
+    for (const advisory of finding.advisories || []) {
+      const rule = (policy.ignore || []).find((item) => ignoreMatches(item, finding.name, advisory));
+      if (!rule) continue;
+      if (isExpired(rule, now)) {
+        expired.push({ rule: 'ignore', reason: rule.reason, expires: rule.expires });
+      } else {
+        ignored.push(advisory);
+        reasons.push(rule);
+      }
+    }
+    for (const rule of policy.allow || []) {
+      if (rule.package === finding.name && isExpired(rule, now)) {
+        expired.push({ rule: 'allow', reason: rule.reason || 'Allowed by policy', expires: rule.expires });
+      }
+    }
+    const flagged = expired.length > 0 ? { ...finding, expiredSuppressions: expired } : finding;
+    // an allowed package's advisories are all accepted, whether or not some
+    // of them are ignored too
+    const allowed = (policy.allow || []).find((rule) => rule.package === finding.name && !isExpired(rule, now));
+    const allowance: Suppression | null =
+      allowed && !finding.policyViolation ? { rule: 'allow', reason: allowed.reason || 'Allowed by policy', expires: allowed.expires } : null;
+
+    if (ignored.length > 0) {
+      const suppression: Suppression = {
+        rule: 'ignore',
+        reason: Array.from(new Set(reasons.map((rule) => rule.reason))).join('; '),
+        expires: reasons.map((rule) => rule.expires).filter(Boolean).sort()[0],
+      };
+      suppressed.push({ ...withAdvisories(finding, ignored), suppression });
+      if (ignored.length === finding.advisories.length) continue;
+      const remaining = finding.advisories.filter((advisory) => !ignored.includes(advisory));
+      if (allowance) {
+        suppressed.push({ ...withAdvisories(finding, remaining), suppression: allowance });
+      } else {
+        active.push(withAdvisories(flagged, remaining));
+      }
+      continue;
+    }
+
+    if (allowance) {
+      suppressed.push({ ...finding, suppression: allowance });
+      continue;
+    }
+    active.push(flagged);
+  }
+
+  // Depends-on-vulnerable entries whose causes are all accepted, repeated for
+  // longer chains
+  for (let changed = true; changed;) {
+    changed = false;
+    const activeNames = new Set(active.map((finding) => finding.name));
+    for (const finding of [...active]) {
+      const causes = finding.causes || [];
+      if ((finding.advisories || []).length > 0 || finding.policyViolation || causes.length === 0) continue;
+      if (causes.some((cause) => activeNames.has(cause))) continue;
+      active.splice(active.indexOf(finding), 1);
+      suppressed.push({ ...finding, suppression: { rule: 'ignore', reason: `Only vulnerable through accepted findings in ${causes.join(', ')}` } });
+      changed = true;
+    }
+  }
+
+  if (policy.threshold) {
+    const minimum = severities.indexOf(policy.threshold);
+    for (const finding of [...active]) {
+      if (finding.policyViolation || severities.indexOf(finding.severity as Severity) >= minimum) continue;
+      active.splice(active.indexOf(finding), 1);
+      suppressed.push({ ...finding, suppression: { rule: 'threshold', reason: `Below the policy threshold (${policy.threshold})` } });
+    }
+  }
+
+  return { vulnerabilities: active, suppressed };
+}
+
+// Findings for blocked packages and disallowed licences in the audited tree.
+// Packages without a licence in the lockfile aren't judged.
+export function policyViolations(policy: AuditPolicy, packageJson: any, packageLock: any) {
+  if (!packageLock || (!(policy.block || []).length && !policy.licenses)) return [];
+  const findPaths = createPathFinder(packageLock, packageJson);
+  const { nodes } = dependencyGraph(packageLock, packageJson);
+  const violations = new Map<string, any>();
+
+  const add = (node: any, kind: 'blocked' | 'license', vulnerability: string, severity: Severity, recommendation: string) => {
+    const key = `${kind}:${node.name}@${node.version}`;
+    const existing = violations.get(key);
+    if (existing) {
+      existing.locations.push(node.id);
+      existing.isDirect = existing.isDirect || node.direct;
+      return;
+    }
+    violations.set(key, {
+      name: node.name,
+      version: node.version,
+      vulnerability,
+      severity,
+      recommendation,
+      advisories: [],
+      isDirect: node.direct,
+      causes: [],
+      effects: [],
+      policyViolation: kind,
+      locations: [node.id],
+    });
+  };
+
+  for (const node of nodes) {
+    if (isWorkspaceLocation(node.id)) continue;
+    const blocked = (policy.block || []).find((rule) =>
+      rule.package === node.name && (!rule.range || (semver.valid(node.version) && semver.satisfies(node.version, rule.range, { includePrerelease: true }))));
+    if (blocked) {
+      add(node, 'blocked', `Blocked by policy${blocked.reason ? `: ${blocked.reason}` : ''}`, blocked.severity || 'high', `Remove ${node.name} from the dependency tree`);
+    }
+
+    const violation = policy.licenses && licenseViolation(declaredLicense(lockfileEntry(packageLock, node.id)), policy.licenses);
+    if (violation) {
+      add(node, 'license', violation, policy.licenses.severity || 'moderate', `Replace ${node.name} with a package under an allowed licence`);
+    }
+  }
+
+  return Array.from(violations.values()).map(({ locations, ...violation }) => ({
+    ...violation,
+    scopes: scopesForLocations(packageLock, locations),
+    paths: findPaths(locations),
+  }));
+}
+
+// Policies stored per project, one file each, named after the project
+function policyPath(dir: string, project: string) {
+  return path.join(dir, `${encodeURIComponent(project)}.json`);
+}
+
+export function loadPolicy(dir: string, project: string): AuditPolicy | null {
+  const file = policyPath(dir, project);
+  return fs.existsSync(file) ? parsePolicy(JSON.parse(fs.readFileSync(file, 'utf8'))) : null;
+}
+
+export function savePolicy(dir: string, project: string, policy: AuditPolicy) {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(policyPath(dir, project), JSON.stringify(policy, null, 2));
+}
+
+export function deletePolicy(dir: string, project: string) {
+  const file = policyPath(dir, project);
+  if (!fs.existsSync(file)) return false;
+  fs.rmSync(file);
+  return true;
+}
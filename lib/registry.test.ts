@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { npmrcFor, unresolvablePackage } from './registry';
+
+describe('npmrcFor', () => {
+  it('is not needed without a registry', () => {
+    expect(npmrcFor({ scopes: {} })).toBeNull();
+  });
+
+  it('points npm and each scope at their registry, with their own tokens', () => {
+    const npmrc = npmrcFor({
+      url: 'https://npm.company.com/repository/npm',
+      token: 'secret',
+      scopes: {
+        '@company': { url: 'https://npm.pkg.github.com/', token: 'ghp_token' },
+        '@public': { url: 'http://mirror.example.com' },
+      },
+    });
+
+    expect(npmrc).toBe([
+      'registry=https://npm.company.com/repository/npm/',
+      '//npm.company.com/repository/npm/:_authToken=secret',
+      '@company:registry=https://npm.pkg.github.com/',
+      '//npm.pkg.github.com/:_authToken=ghp_token',
+      '@public:registry=http://mirror.example.com/',
+      '',
+    ].join('\n'));
+  });
+
+  it('leaves the default registry alone when only scopes are configured', () => {
+    expect(npmrcFor({ token: 'unused', scopes: { '@company': { url: 'https://npm.company.com' } } })).toBe('@company:registry=https://npm.company.com/\n');
+  });
+});
+
+describe('unresolvablePackage', () => {
+  it.each([
+    [
+      'npm ERR! code E404\nnpm ERR! 404 \'left-padding@^1.0.0\' is not in this registry.',
+      { name: 'left-padding', reason: 'Not found in registry' },
+    ],
+    [
+      'npm ERR! code E404\nnpm ERR! 404  \'@company/ui@2.0.0\' is not in the npm registry.',
+      { name: '@company/ui', reason: 'Not found in registry' },
+    ],
+    [
+      'npm ERR! code ETARGET\nnpm ERR! notarget No matching version found for react@^99.0.0.',
+      { name: 'react', reason: 'No matching version' },
+    ],
+    [
+      'npm ERR! code E404\nnpm ERR! 404 Not Found - GET https://npm.company.com/@company%2fui - Not found',
+      { name: '@company/ui', reason: 'Registry returned 404' },
+    ],
+    [
+      'npm ERR! code E401\nnpm ERR! 401 Unauthorized - GET https://npm.company.com/@company/ui/-/ui-2.0.0.tgz',
+      { name: '@company/ui', reason: 'Registry authentication failed' },
+    ],
+    [
+      'npm ERR! code E403\nnpm ERR! 403 In most cases, you or one of your dependencies are requesting\nnpm ERR! a package version that is forbidden by your security policy, or\nnpm ERR! on a server you do not have access to (@company/ui).',
+      { name: '@company/ui', reason: 'Registry authentication failed' },
+    ],
+  ])('finds the package in %j', (output, unresolved) => {
+    expect(unresolvablePackage(output)).toEqual(unresolved);
+  });
+
+  it('looks past a request it can\'t read', () => {
+    expect(unresolvablePackage('npm ERR! code E401\nnpm ERR! 401 Unauthorized - GET npm.company.com/@company/ui')).toEqual({
+      name: '@company/ui',
+      reason: 'Registry authentication failed',
+    });
+    expect(unresolvablePackage('npm ERR! 404 Not Found - GET https://npm.company.com/%E0%A4%A')).toBeNull();
+    expect(unresolvablePackage('npm ERR! 500 Internal Server Error - GET https://npm.company.com/')).toBeNull();
+  });
+
+  it('doesn\'t blame a package for other failures', () => {
+    expect(unresolvablePackage('npm ERR! code ECONNRESET\nnpm ERR! network aborted')).toBeNull();
+    expect(unresolvablePackage('')).toBeNull();
+  });
+});
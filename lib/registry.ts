@@ -0,0 +1,97 @@
+import type { AdvisorySource, RegistryConfig } from './config';
+
+export type UnresolvedPackage = {
+  name: string;
+  range?: string;
+  reason: string;
+};
+
+// The .npmrc written next to the temporary package.json, so private scopes
+// resolve against their own registry with their own credentials.
+export function npmrcFor(config: RegistryConfig) {
+  const lines: string[] = [];
+
+  if (config.url) {
+    lines.push(`registry=${withTrailingSlash(config.url)}`);
+    if (config.token) {
+      lines.push(`${authKey(config.url)}:_authToken=${config.token}`);
+    }
+  }
+  for (const [scope, registry] of Object.entries(config.scopes)) {
+    lines.push(`${scope}:registry=${withTrailingSlash(registry.url)}`);
+    if (registry.token) {
+      lines.push(`${authKey(registry.url)}:_authToken=${registry.token}`);
+    }
+  }
+
+  return lines.length > 0 ? `${lines.join('\n')}\n` : null;
+}
+
+// Work out which package made `npm install` give up, from its error output.
+export function unresolvablePackage(output: string): UnresolvedPackage | null {
+  const code = output.match(/\bcode (E[A-Z0-9]+)/)?.[1];
+
+  const notFound = output.match(/'((?:@[^/\s]+\/)?[^@\s']+)@[^']*' is not in (?:this|the npm) registry/);
+  if (notFound) {
+    return { name: notFound[1], reason: 'Not found in registry' };
+  }
+
+  const noVersion = output.match(/No matching version found for ((?:@[^/\s]+\/)?[^@\s]+)@/);
+  if (noVersion) {
+    return { name: noVersion[1], reason: 'No matching version' };
+  }
+
+  // e.g. "404 Not Found - GET https://registry.example.com/@company%2fpkg"
+  const request = output.match(/(\d{3}) [A-Za-z ]+ - GET (\S+)/);
+  const name = request && packageRequested(request[2]);
+  if (name) {
+    const reason = request[1] === '401' || request[1] === '403' ? 'Registry authentication failed' : `Registry returned ${request[1]}`;
+    return { name, reason };
+  }
+
+  if ((code === 'E401' || code === 'E403') && output.includes('@')) {
+    const scoped = output.match(/(@[a-z0-9-~][a-z0-9-._~]*\/[a-z0-9-~][a-z0-9-._~]*)/);
+    if (scoped) {
+      return { name: scoped[1], reason: 'Registry authentication failed' };
+    }
+  }
+  return null;
+}
+
+// The package a registry URL asks for, or null when npm printed something
+// that isn't a URL or a package path: /@company%2fpkg/-/pkg-1.0.0.tgz -> @company/pkg
+function packageRequested(url: string) {
+  try {
+    return decodeURIComponent(new URL(url).pathname.slice(1)).replace(/\/-\/.*$/, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+// The registry npm would fetch a package from, with its auth token
+export function registryFor(config: RegistryConfig, name: string) {
+  const scoped = name.startsWith('@') ? config.scopes[name.split('/')[0]] : undefined;
+  if (scoped) {
+    return { url: withTrailingSlash(scoped.url), token: scoped.token };
+  }
+  return { url: withTrailingSlash(config.url || 'https://registry.npmjs.org/'), token: config.url ? config.token : undefined };
+}
+
+function withTrailingSlash(url: string) {
+  return url.endsWith('/') ? url : `${url}/`;
+}
+
+// https://npm.company.com/path -> //npm.company.com/path/
+function authKey(url: string) {
+  return withTrailingSlash(url).replace(/^https?:/, '');
+}
+
+// Where `npm audit` would send its bulk advisory request: the advisory
+// registry when one is configured, the default registry otherwise
+export function advisoryRegistryFor(config: RegistryConfig, source: AdvisorySource) {
+  if (source.type !== 'registry') {
+    return registryFor(config, '');
+  }
+  const url = withTrailingSlash(source.url);
+  return { url, token: config.url && withTrailingSlash(config.url) === url ? config.token : undefined };
+}
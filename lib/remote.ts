@@ -0,0 +1,244 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import semver from 'semver';
+import { DependencySpecType, gitAllowedHosts, PackageSource, packageSource, registryConfig } from './config';
+import { registryFor } from './registry';
+import { projectFileNames, UploadedFile, uploadRequest } from './upload';
+import { AuditError } from './workspace';
+
+const execFilePromise = promisify(execFile);
+
+// A shallow clone of a large repository can take a while, but not forever
+const CLONE_TIMEOUT = 120 * 1000;
+
+const REGISTRY_TIMEOUT = 30 * 1000;
+
+// Largest project file read from a repository, like the upload body limit
+const MAX_PROJECT_FILE = 20 * 1024 * 1024;
+
+// What git gets from the server's environment. HOME and the global config
+// point at an empty directory, so no credential helpers, SSH keys, proxies or
+// URL rewrites of the server's reach the clone.
+const inheritedVariables = ['PATH', 'LANG', 'SYSTEMROOT'];
+
+export type RemoteTarget =
+  | { type: 'package'; name: string; spec: string }
+  | { type: 'git'; url: string; ref?: string };
+
+export type RemoteRequest = {
+  // an /api/npm-audit body for what was fetched
+  body: Record<string, any>;
+  description: string;
+  // what the body depends on beyond NPM_ALLOWED_SPECS: a local package is a tarball
+  allowSpecs?: DependencySpecType[];
+};
+
+const packageName = /^(?:@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+const hostedShortcuts: Record<string, string> = {
+  github: 'https://github.com/',
+  gitlab: 'https://gitlab.com/',
+  bitbucket: 'https://bitbucket.org/',
+};
+
+// "express", "express@4.17.1", "@scope/pkg@^2" or a Git URL, optionally with a
+// "#branch" or "#tag": https://, git:// or github:owner/repo. SSH URLs, local
+// paths and file:// URLs are refused.
+export function parseRemoteTarget(input: unknown): RemoteTarget {
+  if (typeof input !== 'string' || !input.trim() || input.length > 500) {
+    throw new AuditError(400, 'Invalid target, expected an npm package spec like express@4.17.1 or a Git repository URL');
+  }
+  const target = input.trim();
+
+  const [location, ref] = target.split('#', 2);
+  if (ref !== undefined && !/^[\w.\/-]+$/.test(ref)) {
+    throw new AuditError(400, `Invalid Git ref: ${ref}`);
+  }
+  const shortcut = location.match(/^(github|gitlab|bitbucket):([\w.-]+\/[\w.-]+)$/);
+  if (shortcut) {
+    return { type: 'git', url: `${hostedShortcuts[shortcut[1]]}${shortcut[2].replace(/\.git$/, '')}.git`, ref };
+  }
+  if (/^(git\+)?(https?|git):\/\/[^\s]+$/.test(location)) {
+    return { type: 'git', url: location.replace(/^git\+/, ''), ref };
+  }
+  if (/^(git\+)?ssh:\/\//.test(location) || /^[\w.-]+@[\w.-]+:[\w.\/~-]+$/.test(location)) {
+    throw new AuditError(400, 'SSH repository URLs are not supported, use an https:// URL');
+  }
+
+  const at = target.indexOf('@', 1);
+  const name = at === -1 ? target : target.slice(0, at);
+  if (packageName.test(name)) {
+    const spec = at === -1 ? 'latest' : target.slice(at + 1);
+    if (!spec || !(semver.validRange(spec) || /^[a-z][a-z0-9-._]*$/i.test(spec))) {
+      throw new AuditError(400, `Invalid version for ${name}: ${spec}`);
+    }
+    return { type: 'package', name, spec };
+  }
+  throw new AuditError(400, 'Invalid target, expected an npm package spec like express@4.17.1 or a Git repository URL');
+}
+
+// The URL without credentials, for descriptions and errors
+export function displayUrl(url: string) {
+  return url.replace(/([a-z+]+:\/\/)[^@\/\s]+@/g, '$1');
+}
+
+// Resolve the target and describe what to audit: a package as a project that
+// depends on it, so its own advisories count and its devDependencies don't;
+// a repository the way a dropped project directory is.
+export async function remoteRequest(target: RemoteTarget): Promise<RemoteRequest> {
+  if (target.type === 'git') {
+    checkCloneHost(target.url);
+    const files = await cloneProjectFiles(target);
+    const upload = uploadRequest(files);
+    if (!upload) {
+      throw new AuditError(400, `No package.json or lockfile at the top of ${displayUrl(target.url)}`);
+    }
+    return { body: upload.body, description: `${displayUrl(target.url)}${target.ref ? `#${target.ref}` : ''} (${upload.description})` };
+  }
+
+  const source = packageSource();
+  const { version, spec } = source.type === 'local'
+    ? resolveLocalPackage(source, target)
+    : await resolveRegistryPackage(target);
+  return {
+    body: { dependencies: { [target.name]: spec } },
+    description: `${target.name}@${version}${source.type === 'local' ? ' (local package)' : ''}`,
+    ...(source.type === 'local' ? { allowSpecs: ['file' as const] } : {}),
+  };
+}
+
+// Only hosts in GIT_ALLOWED_HOSTS are cloned from
+function checkCloneHost(url: string) {
+  const allowed = gitAllowedHosts();
+  if (allowed === '*') return;
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    throw new AuditError(400, `Invalid repository URL: ${displayUrl(url)}`);
+  }
+  if (!allowed.includes(host)) {
+    throw new AuditError(400, `Cloning from ${host} is not allowed`, `Allowed hosts: ${allowed.join(', ')}`);
+  }
+}
+
+function pickVersion({ name, spec }: { name: string; spec: string }, versions: string[], distTags: Record<string, string>) {
+  const version = distTags[spec] || semver.maxSatisfying(versions, spec);
+  if (!version || !versions.includes(version)) {
+    throw new AuditError(404, `No version of ${name} matches ${spec}`);
+  }
+  return version;
+}
+
+async function resolveRegistryPackage(target: { name: string; spec: string }) {
+  const registry = registryFor(registryConfig(), target.name);
+  const url = `${registry.url}${target.name.replace('/', '%2f')}`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: {
+        // the abbreviated metadata npm install uses
+        Accept: 'application/vnd.npm.install-v1+json',
+        ...(registry.token ? { Authorization: `Bearer ${registry.token}` } : {}),
+      },
+      signal: AbortSignal.timeout(REGISTRY_TIMEOUT),
+    });
+  } catch (error) {
+    throw new AuditError(502, `Could not reach the registry for ${target.name}`, error.message);
+  }
+  if (response.status === 404) {
+    throw new AuditError(404, `Package ${target.name} not found in the registry`);
+  }
+  if (!response.ok) {
+    const reason = response.status === 401 || response.status === 403 ? 'Registry authentication failed' : `Registry returned ${response.status}`;
+    throw new AuditError(502, `Could not fetch ${target.name}`, reason);
+  }
+
+  const packument = await response.json();
+  const version = pickVersion(target, Object.keys(packument.versions || {}), packument['dist-tags'] || {});
+  return { version, spec: version };
+}
+
+// `npm pack` names its tarballs <name>-<version>.tgz, "@scope/pkg" as "scope-pkg"
+function resolveLocalPackage(source: Extract<PackageSource, { type: 'local' }>, target: { name: string; spec: string }) {
+  const prefix = `${target.name.replace(/^@/, '').replace('/', '-')}-`;
+  const tarballs = new Map<string, string>();
+  for (const file of fs.existsSync(source.directory) ? fs.readdirSync(source.directory) : []) {
+    const version = file.startsWith(prefix) && file.endsWith('.tgz') ? semver.valid(file.slice(prefix.length, -'.tgz'.length)) : null;
+    if (version) tarballs.set(version, path.join(source.directory, file));
+  }
+  if (tarballs.size === 0) {
+    throw new AuditError(404, `Package ${target.name} not found in ${source.directory}`);
+  }
+
+  const versions = Array.from(tarballs.keys());
+  const version = pickVersion(target, versions, { latest: semver.maxSatisfying(versions, '*') || semver.rsort(versions)[0] });
+  return { version, spec: `file:${tarballs.get(version)}` };
+}
+
+function gitEnv(home: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const name of inheritedVariables) {
+    if (process.env[name] !== undefined) env[name] = process.env[name];
+  }
+  return Object.assign(env, {
+    HOME: home,
+    XDG_CONFIG_HOME: home,
+    GIT_CONFIG_NOSYSTEM: '1',
+    GIT_CONFIG_GLOBAL: path.join(home, 'gitconfig'),
+    GIT_TERMINAL_PROMPT: '0',
+    GIT_ALLOW_PROTOCOL: 'http:https:git',
+  });
+}
+
+// The project files at the top of a shallow clone. The clone fetches the
+// commit and its trees only (hosts without partial clone send everything, as
+// far as CLONE_TIMEOUT lets them); just the project files' blobs are fetched
+// after, each up to MAX_PROJECT_FILE. Only regular files are read, a symlink
+// in the repository could point anywhere on this machine.
+async function cloneProjectFiles(target: { url: string; ref?: string }): Promise<UploadedFile[]> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'npm-audit-clone-'));
+  const home = path.join(dir, 'home');
+  const repo = path.join(dir, 'repo');
+  fs.mkdirSync(home);
+  const git = (args: string[], options: { maxBuffer?: number } = {}) =>
+    execFilePromise('git', args, { cwd: dir, env: gitEnv(home) as NodeJS.ProcessEnv, timeout: CLONE_TIMEOUT, ...options });
+
+  try {
+    let entries: string;
+    try {
+      await git([
+        'clone', '--depth', '1', '--single-branch', '--no-checkout', '--filter=blob:none',
+        ...(target.ref ? ['--branch', target.ref] : []), '--', target.url, repo,
+      ]);
+      entries = (await git(['-C', repo, 'ls-tree', 'HEAD'])).stdout;
+    } catch (error) {
+      const reason = error.killed ? 'Timed out' : (error.stderr || error.message).trim().split('\n').pop();
+      throw new AuditError(400, `Failed to clone ${displayUrl(target.url)}`, displayUrl(reason || ''));
+    }
+
+    // "<mode> <type> <object>\t<name>"; 100644 and 100755 are regular files
+    const files = new Set(entries.split('\n')
+      .map((line) => line.match(/^(100644|100755) blob [0-9a-f]+\t(.+)$/)?.[2])
+      .filter((name) => name !== undefined));
+    const found: UploadedFile[] = [];
+    for (const name of projectFileNames.filter((name) => files.has(name))) {
+      try {
+        const { stdout } = await git(['-C', repo, 'cat-file', 'blob', `HEAD:${name}`], { maxBuffer: MAX_PROJECT_FILE });
+        found.push({ name, content: stdout });
+      } catch (error) {
+        if (error.code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') {
+          throw new AuditError(400, `${name} in ${displayUrl(target.url)} is larger than ${MAX_PROJECT_FILE / 1024 / 1024} MB`);
+        }
+        throw new AuditError(400, `Failed to read ${name} from ${displayUrl(target.url)}`, displayUrl((error.stderr || error.message).trim().split('\n').pop() || ''));
+      }
+    }
+    return found;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
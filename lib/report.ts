@@ -0,0 +1,217 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { Advisory } from './audit';
+import type { LicenseCategory, LicensePackage } from './licenses';
+import type { Suppression } from './policy';
+import type { DependencyScope } from './scopes';
+
+// One entry of the audit endpoint's "vulnerabilities", as the dashboard sees it
+export type AuditResult = {
+  name: string;
+  version: string;
+  vulnerability: string;
+  severity: 'info' | 'low' | 'moderate' | 'high' | 'critical' | 'unknown';
+  recommendation: string;
+  cvssScore?: number;
+  cvssVector?: string;
+  source?: number | string;
+  url?: string;
+  cwe?: string[];
+  scopes?: DependencyScope[];
+  advisories?: Advisory[];
+  isDirect?: boolean;
+  causes?: string[];
+  effects?: string[];
+  paths?: string[][];
+  // set by the audit policy, see lib/policy.ts
+  suppression?: Suppression;
+  expiredSuppressions?: Suppression[];
+  policyViolation?: 'blocked' | 'license';
+};
+
+export type AuditSummary = {
+  info: number;
+  low: number;
+  moderate: number;
+  high: number;
+  critical: number;
+  total: number;
+  advisories: number;
+};
+
+// A titled group of findings; a plain report has one, a comparison one per
+// kind of change.
+export type ReportSection = {
+  name: string;
+  results: AuditResult[];
+};
+
+export const summarizeResults = (results: AuditResult[]): AuditSummary => {
+  const summary = { info: 0, low: 0, moderate: 0, high: 0, critical: 0, total: results.length, advisories: 0 };
+  results.forEach((result) => {
+    summary.advisories += result.advisories?.length || 0;
+    if (result.severity in summary) {
+      summary[result.severity] += 1;
+    }
+  });
+  return summary;
+};
+
+export const severityBadgeClass = (severity: string) =>
+  severity === 'critical' ? 'bg-red-100 text-red-800' :
+    severity === 'high' ? 'bg-orange-100 text-orange-800' :
+      severity === 'moderate' ? 'bg-yellow-100 text-yellow-800' :
+        severity === 'low' ? 'bg-green-100 text-green-800' :
+          'bg-gray-100 text-gray-800';
+
+export const describeSuppression = (suppression: Suppression) =>
+  `Accepted (${suppression.rule}): ${suppression.reason}${suppression.expires ? `, until ${suppression.expires}` : ''}`;
+
+// One export row per advisory so packages with several advisories keep all of
+// them; packages that are only vulnerable through a dependency get one row.
+// Accepted findings carry the reason instead of a recommendation.
+export const reportRows = (results: AuditResult[]) =>
+  results.flatMap((result) => {
+    const scope = (result.scopes || []).join(', ');
+    const recommendation = result.suppression ? describeSuppression(result.suppression) : result.recommendation;
+    if (!result.advisories?.length) {
+      return [[result.name, result.version, scope, result.vulnerability, result.severity, result.cvssScore?.toString() || 'N/A', '', recommendation]];
+    }
+    return result.advisories.map((advisory) => [
+      result.name,
+      result.version,
+      scope,
+      advisory.id ? `${advisory.id}: ${advisory.title}` : advisory.title,
+      advisory.severity,
+      advisory.cvssScore?.toString() || 'N/A',
+      advisory.range || '',
+      recommendation,
+    ]);
+  });
+
+export const licenseCategoryLabels: Record<LicenseCategory, string> = {
+  permissive: 'Permissive',
+  'weak-copyleft': 'Weak copyleft',
+  'strong-copyleft': 'Strong copyleft',
+  unknown: 'Unknown',
+};
+
+const licenseColumns = ['Package', 'Version', 'Scope', 'Licence', 'Category', 'Violation'];
+
+const licenseRows = (packages: LicensePackage[]) =>
+  packages.map((pkg) => [
+    pkg.name,
+    pkg.version,
+    pkg.scopes.join(', '),
+    pkg.license || 'None declared',
+    licenseCategoryLabels[pkg.category],
+    pkg.violation || '',
+  ]);
+
+const licenseSummaryRows = (packages: LicensePackage[]) => [
+  ['Total', packages.length.toString()],
+  ['Violations', packages.filter((pkg) => pkg.violation).length.toString()],
+  ...Object.entries(licenseCategoryLabels).map(([category, label]) => [label, packages.filter((pkg) => pkg.category === category).length.toString()]),
+];
+
+const reportColumns = ['Package', 'Version', 'Scope', 'Vulnerability', 'Severity', 'CVSS Score', 'Vulnerable Range', 'Recommendation'];
+
+const summaryRows = (summary: AuditSummary) => [
+  ['Total', summary.total.toString()],
+  ['Advisories', summary.advisories.toString()],
+  ['Critical', summary.critical.toString()],
+  ['High', summary.high.toString()],
+  ['Moderate', summary.moderate.toString()],
+  ['Low', summary.low.toString()],
+  ['Info', summary.info.toString()],
+];
+
+// The licence section is added after the findings when a licence report is given
+export const createPdfReport = (title: string, sections: ReportSection[], licenses?: LicensePackage[]) => {
+  const doc = new jsPDF();
+
+  // Set the document title
+  doc.setFontSize(20);
+  doc.text(title, 14, 22);
+
+  sections.forEach((section, index) => {
+    const top = index === 0 ? 32 : (doc as any).lastAutoTable.finalY + 14;
+
+    doc.setFontSize(16);
+    doc.text(`${section.name} Summary`, 14, top);
+
+    // Draw the summary table
+    autoTable(doc, {
+      startY: top + 6,
+      head: [['Severity', 'Count']],
+      body: summaryRows(summarizeResults(section.results)),
+    });
+
+    doc.setFontSize(16);
+    doc.text(`${section.name} Details`, 14, (doc as any).lastAutoTable.finalY + 10);
+
+    // Draw the detailed vulnerabilities table
+    autoTable(doc, {
+      startY: (doc as any).lastAutoTable.finalY + 16, // Dynamic start position
+      head: [reportColumns],
+      body: reportRows(section.results),
+    });
+  });
+
+  if (licenses) {
+    doc.setFontSize(16);
+    doc.text('Licence Summary', 14, (doc as any).lastAutoTable.finalY + 14);
+    autoTable(doc, {
+      startY: (doc as any).lastAutoTable.finalY + 20,
+      head: [['Category', 'Packages']],
+      body: licenseSummaryRows(licenses),
+    });
+
+    doc.setFontSize(16);
+    doc.text('Licence Details', 14, (doc as any).lastAutoTable.finalY + 10);
+    autoTable(doc, {
+      startY: (doc as any).lastAutoTable.finalY + 16,
+      head: [licenseColumns],
+      body: licenseRows(licenses),
+    });
+  }
+
+  return doc;
+};
+
+export const createMarkdownReport = (title: string, sections: ReportSection[], licenses?: LicensePackage[]) => {
+  let markdown = `# ${title}\n\n`;
+
+  for (const section of sections) {
+    markdown += `## ${section.name} Summary\n\n`;
+    summaryRows(summarizeResults(section.results)).forEach(([label, count]) => {
+      markdown += `- ${label}: ${count}\n`;
+    });
+    markdown += '\n';
+
+    markdown += `## ${section.name} Details\n\n`;
+    markdown += `| ${reportColumns.join(' | ')} |\n`;
+    markdown += `|${reportColumns.map((column) => '-'.repeat(column.length + 2)).join('|')}|\n`;
+
+    reportRows(section.results).forEach((row) => {
+      markdown += `| ${row.join(' | ')} |\n`;
+    });
+    markdown += '\n';
+  }
+
+  if (licenses) {
+    markdown += '## Licence Summary\n\n';
+    licenseSummaryRows(licenses).forEach(([label, count]) => {
+      markdown += `- ${label}: ${count}\n`;
+    });
+    markdown += '\n## Licence Details\n\n';
+    markdown += `| ${licenseColumns.join(' | ')} |\n`;
+    markdown += `|${licenseColumns.map((column) => '-'.repeat(column.length + 2)).join('|')}|\n`;
+    licenseRows(licenses).forEach((row) => {
+      markdown += `| ${row.join(' | ')} |\n`;
+    });
+    markdown += '\n';
+  }
+
+  return markdown;
+};
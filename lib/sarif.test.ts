@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { AuditResult } from './report';
+import { createSarifLog } from './sarif';
+
+const packageJson = `{
+  "name": "app",
+  "dependencies": {
+    "express": "^4.16.0"
+  }
+}
+`;
+
+const packageLock = `{
+  "lockfileVersion": 3,
+  "packages": {
+    "": {},
+    "node_modules/express": {},
+    "node_modules/qs": {}
+  }
+}
+`;
+
+const sources = {
+  manifest: { path: 'package.json', content: packageJson },
+  lockfile: { path: 'package-lock.json', content: packageLock },
+};
+
+const qs: AuditResult = {
+  name: 'qs',
+  version: '6.5.2',
+  vulnerability: 'Prototype pollution',
+  severity: 'high',
+  recommendation: 'Upgrade express to 4.17.3',
+  isDirect: false,
+  paths: [['express@4.16.4', 'qs@6.5.2']],
+  advisories: [
+    { source: 1090, id: 'GHSA-hrpp-h998-j3pp', title: 'Prototype pollution', url: 'https://github.com/advisories/GHSA-hrpp-h998-j3pp', severity: 'high', cvssScore: 7.5, cwe: ['CWE-1321'] },
+    { source: 1091, title: 'Denial of service', severity: 'moderate', cwe: [] },
+  ],
+};
+
+const express: AuditResult = {
+  name: 'express',
+  version: '4.16.4',
+  vulnerability: 'Via qs',
+  severity: 'high',
+  recommendation: 'Upgrade express to 4.17.3',
+  isDirect: true,
+  advisories: [],
+};
+
+describe('createSarifLog', () => {
+  const log = createSarifLog([qs, express], sources);
+  const [run] = log.runs;
+
+  it('has a rule per advisory and a result per package and advisory', () => {
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map((rule) => rule.id)).toEqual(['GHSA-hrpp-h998-j3pp', 'npm-advisory-1091']);
+    expect(run.results.map((result) => [result.ruleId, result.level])).toEqual([
+      ['GHSA-hrpp-h998-j3pp', 'error'],
+      ['npm-advisory-1091', 'warning'],
+    ]);
+  });
+
+  it('scores rules for code scanning, falling back to the severity', () => {
+    const [scored, unscored] = run.tool.driver.rules;
+    expect(scored.properties).toMatchObject({ 'security-severity': '7.5', tags: ['security', 'dependency', 'external/cwe/cwe-1321'] });
+    expect(unscored.properties['security-severity']).toBe('5.5');
+  });
+
+  it('points transitive packages at their lockfile entry', () => {
+    expect(run.results[0].locations[0].physicalLocation).toEqual({ artifactLocation: { uri: 'package-lock.json' }, region: { startLine: 6 } });
+    expect(run.results[0].partialFingerprints).toEqual({ 'npmPackageAdvisory/v1': 'qs:GHSA-hrpp-h998-j3pp' });
+  });
+
+  it('points direct dependencies at their line in package.json', () => {
+    const [result] = createSarifLog([{ ...express, advisories: qs.advisories.slice(0, 1) }], sources).runs[0].results;
+    expect(result.locations[0].physicalLocation).toEqual({ artifactLocation: { uri: 'package.json' }, region: { startLine: 4 } });
+  });
+
+  it('includes findings the policy accepts as suppressed results', () => {
+    const accepted = { ...qs, advisories: qs.advisories.slice(1), suppression: { rule: 'ignore' as const, reason: 'not reachable' } };
+    const results = createSarifLog([], sources, [accepted]).runs[0].results;
+    expect(results[0].suppressions).toEqual([{ kind: 'external', status: 'accepted', justification: 'not reachable' }]);
+  });
+});
@@ -0,0 +1,216 @@
+import type { Advisory } from './audit';
+import type { AuditResult } from './report';
+import { defaultLockfileNames } from './upload';
+import type { AuditRequest } from './workspace';
+
+// The files findings are reported against, as they were uploaded
+export type SarifSources = {
+  manifest?: { path: string; content: string };
+  lockfile?: { path: string; content: string };
+};
+
+// The uploaded files SARIF locations point into. Line numbers in package.json
+// need the file as it was (the "packageJson" text), not the parsed manifest.
+export function sarifSources(request: AuditRequest, packageJson: unknown): SarifSources {
+  return {
+    manifest: typeof packageJson === 'string' ? { path: 'package.json', content: packageJson } : undefined,
+    lockfile: request.lockfile && {
+      path: request.lockfile.fileName || defaultLockfileNames[request.lockfile.type],
+      content: request.lockfile.content,
+    },
+  };
+}
+
+const levels: Record<string, string> = {
+  critical: 'error',
+  high: 'error',
+  moderate: 'warning',
+  low: 'note',
+  info: 'note',
+};
+
+// What code scanning shows when an advisory has no CVSS score, the middle of
+// GitHub's band for each severity.
+const fallbackScores: Record<string, number> = {
+  critical: 9.5,
+  high: 8.0,
+  moderate: 5.5,
+  low: 2.0,
+  info: 0.0,
+};
+
+const dependencyGroups = ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies'];
+
+const policyRules = {
+  blocked: { name: 'Blocked package', text: 'A package the audit policy blocks is installed' },
+  license: { name: 'Disallowed licence', text: 'A package is under a licence the audit policy does not allow' },
+};
+
+// A SARIF 2.1.0 log with a rule per advisory and a result per vulnerable
+// package and advisory. Packages that are only vulnerable through a dependency
+// have no advisory of their own; the dependency's result covers them. Findings
+// the audit policy accepts are included as suppressed results.
+export function createSarifLog(results: AuditResult[], sources: SarifSources = {}, suppressed: AuditResult[] = []) {
+  const rules: any[] = [];
+  const ruleIndex = new Map<string, number>();
+  const sarifResults: any[] = [];
+
+  for (const result of [...results, ...suppressed]) {
+    const suppressions = result.suppression
+      ? { suppressions: [{ kind: 'external', status: 'accepted', justification: result.suppression.reason }] }
+      : {};
+
+    if (result.policyViolation) {
+      const ruleId = `policy/${result.policyViolation}`;
+      if (!ruleIndex.has(ruleId)) {
+        ruleIndex.set(ruleId, rules.length);
+        rules.push(policyRule(ruleId, result));
+      }
+      sarifResults.push({
+        ruleId,
+        ruleIndex: ruleIndex.get(ruleId),
+        level: levels[result.severity] || 'warning',
+        message: { text: `${result.name} (${result.version}): ${result.vulnerability}. ${result.recommendation}.` },
+        locations: [packageLocation(result, sources)],
+        partialFingerprints: { 'npmPackageAdvisory/v1': `${result.name}:${ruleId}` },
+        ...suppressions,
+      });
+      continue;
+    }
+
+    for (const advisory of result.advisories || []) {
+      // the local database's sources are already advisory ids
+      const ruleId = advisory.id || (typeof advisory.source === 'string' ? advisory.source : `npm-advisory-${advisory.source}`);
+      if (!ruleIndex.has(ruleId)) {
+        ruleIndex.set(ruleId, rules.length);
+        rules.push(sarifRule(ruleId, advisory));
+      }
+
+      sarifResults.push({
+        ruleId,
+        ruleIndex: ruleIndex.get(ruleId),
+        level: levels[advisory.severity] || 'warning',
+        message: { text: `${result.name} (${result.version}): ${advisory.title}. ${result.recommendation}.` },
+        locations: [packageLocation(result, sources)],
+        partialFingerprints: { 'npmPackageAdvisory/v1': `${result.name}:${ruleId}` },
+        ...suppressions,
+      });
+    }
+  }
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'npm-audit-dashboard',
+            informationUri: 'https://github.com/bscript/npm-audit',
+            rules,
+          },
+        },
+        results: sarifResults,
+      },
+    ],
+  };
+}
+
+function sarifRule(id: string, advisory: Advisory) {
+  const score = advisory.cvssScore ?? fallbackScores[advisory.severity];
+  return {
+    id,
+    name: advisory.title,
+    shortDescription: { text: advisory.title },
+    fullDescription: { text: advisory.range ? `${advisory.title} (vulnerable versions: ${advisory.range})` : advisory.title },
+    helpUri: advisory.url,
+    help: { text: advisory.url ? `See ${advisory.url}` : advisory.title },
+    defaultConfiguration: { level: levels[advisory.severity] || 'warning' },
+    properties: {
+      tags: ['security', 'dependency', ...(advisory.cwe || []).map((cwe) => `external/cwe/${cwe.toLowerCase()}`)],
+      'security-severity': score !== undefined ? score.toFixed(1) : undefined,
+      ...(advisory.cvssVector ? { cvssVector: advisory.cvssVector } : {}),
+    },
+  };
+}
+
+function policyRule(id: string, result: AuditResult) {
+  const { name, text } = policyRules[result.policyViolation];
+  return {
+    id,
+    name,
+    shortDescription: { text: name },
+    fullDescription: { text },
+    help: { text },
+    defaultConfiguration: { level: levels[result.severity] || 'warning' },
+    properties: {
+      tags: ['policy', 'dependency'],
+      'security-severity': fallbackScores[result.severity]?.toFixed(1),
+    },
+  };
+}
+
+// Direct dependencies point at their line in package.json, everything else at
+// its entry in the lockfile, or failing that at the direct dependency that
+// pulls it in.
+function packageLocation(result: AuditResult, sources: SarifSources) {
+  const candidates: Array<[typeof sources.manifest, number]> = [];
+  if (result.isDirect) {
+    candidates.push([sources.manifest, manifestLine(sources.manifest?.content, result.name)]);
+  }
+  candidates.push([sources.lockfile, lockfileLine(sources.lockfile?.content, result.name)]);
+  const via = result.paths?.[0]?.[0]?.replace(/@[^@]*$/, '');
+  if (via) {
+    candidates.push([sources.manifest, manifestLine(sources.manifest?.content, via)]);
+  }
+
+  const [file, line] = candidates.find(([source, found]) => source && found > 0) || [sources.lockfile || sources.manifest, 0];
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: file?.path || 'package.json' },
+      ...(line > 0 ? { region: { startLine: line } } : {}),
+    },
+  };
+}
+
+// 1-based line of the package's key in one of the dependency groups, 0 if absent
+function manifestLine(content: string | undefined, name: string) {
+  if (!content) return 0;
+  const key = new RegExp(`^\\s*"${escapeRegExp(name)}"\\s*:`);
+  let inGroup = false;
+  const lines = content.split('\n');
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (new RegExp(`^\\s*"(${dependencyGroups.join('|')})"\\s*:\\s*\\{`).test(line)) {
+      inGroup = !line.includes('}');
+    } else if (inGroup && key.test(line)) {
+      return index + 1;
+    } else if (inGroup && line.includes('}')) {
+      inGroup = false;
+    }
+  }
+  return 0;
+}
+
+// 1-based line of the package's first entry, for any of the supported lockfile
+// formats: "node_modules/name" (npm v2+), "name": { (npm v1), name@range
+// (yarn), /name/1.0.0 or name@1.0.0 (pnpm)
+function lockfileLine(content: string | undefined, name: string) {
+  if (!content) return 0;
+  const escaped = escapeRegExp(name);
+  const patterns = [
+    new RegExp(`"(?:[^"]*/)?node_modules/${escaped}"\\s*:`),
+    new RegExp(`^\\s*"${escaped}":\\s*\\{`),
+    new RegExp(`^\\s*["']?/?${escaped}[@/]`),
+  ];
+  const lines = content.split('\n');
+  for (const pattern of patterns) {
+    const index = lines.findIndex((line) => pattern.test(line));
+    if (index >= 0) return index + 1;
+  }
+  return 0;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
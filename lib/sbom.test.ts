@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { AuditResult } from './report';
+import { createCycloneDx, createSpdx, packageUrl } from './sbom';
+
+const packageJson = { name: 'app', version: '1.0.0', dependencies: { a: '^1.0.0' }, devDependencies: { '@scope/tool': '^2.0.0' } };
+const packageLock = {
+  lockfileVersion: 3,
+  packages: {
+    '': packageJson,
+    'node_modules/a': { version: '1.0.0', license: 'MIT', resolved: 'https://registry.npmjs.org/a/-/a-1.0.0.tgz', integrity: 'sha512-YWJj', dependencies: { b: '^1.0.0' } },
+    'node_modules/b': { version: '1.0.0', license: 'Apache-2.0 OR MIT' },
+    'node_modules/@scope/tool': { version: '2.0.0', dev: true, license: 'SEE LICENSE IN LICENSE', dependencies: { b: '1.0.0' } },
+    'node_modules/@scope/tool/node_modules/b': { version: '1.0.0', dev: true },
+  },
+};
+const tree = { packageJson, packageLock };
+
+const findings: AuditResult[] = [{
+  name: 'b',
+  version: '1.0.0',
+  vulnerability: 'Prototype pollution',
+  severity: 'moderate',
+  recommendation: 'Upgrade b to 1.0.1',
+  advisories: [{ source: 1, id: 'GHSA-b', title: 'Prototype pollution', url: 'https://github.com/advisories/GHSA-b', severity: 'moderate', cwe: ['CWE-1321'], range: '<1.0.1' }],
+}];
+
+describe('packageUrl', () => {
+  it('encodes the scope and the version', () => {
+    expect(packageUrl('@scope/tool', '2.0.0')).toBe('pkg:npm/%40scope/tool@2.0.0');
+    expect(packageUrl('a', '1.0.0+build.1')).toBe('pkg:npm/a@1.0.0%2Bbuild.1');
+  });
+});
+
+describe('createCycloneDx', () => {
+  const bom = createCycloneDx(tree, findings);
+  const component = (name: string) => bom.components.find((item) => item.name === name);
+
+  it('lists each name@version once, required if any copy is in production', () => {
+    expect(bom.components.map((item) => item['bom-ref']).sort()).toEqual(['pkg:npm/%40scope/tool@2.0.0', 'pkg:npm/a@1.0.0', 'pkg:npm/b@1.0.0']);
+    expect(component('b').scope).toBe('required');
+    expect(component('@scope/tool').scope).toBe('excluded');
+  });
+
+  it('carries licences, hashes and download locations', () => {
+    expect(component('a')).toMatchObject({
+      licenses: [{ license: { id: 'MIT' } }],
+      hashes: [{ alg: 'SHA-512', content: '616263' }],
+      externalReferences: [{ type: 'distribution', url: 'https://registry.npmjs.org/a/-/a-1.0.0.tgz' }],
+    });
+    expect(component('b').licenses).toEqual([{ expression: 'Apache-2.0 OR MIT' }]);
+    expect(component('@scope/tool').licenses).toEqual([{ license: { name: 'SEE LICENSE IN LICENSE' } }]);
+  });
+
+  it('records the dependency graph from the project down', () => {
+    expect(bom.dependencies).toContainEqual({ ref: 'pkg:npm/app@1.0.0', dependsOn: ['pkg:npm/a@1.0.0', 'pkg:npm/%40scope/tool@2.0.0'] });
+    expect(bom.dependencies).toContainEqual({ ref: 'pkg:npm/a@1.0.0', dependsOn: ['pkg:npm/b@1.0.0'] });
+  });
+
+  it('embeds findings as VEX entries affecting the vulnerable packages', () => {
+    expect(bom.vulnerabilities).toEqual([expect.objectContaining({
+      id: 'GHSA-b',
+      ratings: [{ severity: 'medium' }],
+      cwes: [1321],
+      analysis: { state: 'in_triage' },
+      affects: [{ ref: 'pkg:npm/b@1.0.0' }],
+    })]);
+  });
+});
+
+describe('createSpdx', () => {
+  const document = createSpdx(tree, findings);
+  const spdxPackage = (name: string) => document.packages.find((item) => item.name === name);
+
+  it('describes the project and its packages with SPDX ids', () => {
+    expect(document.packages.map((item) => item.SPDXID)).toEqual([
+      'SPDXRef-Package-app-1.0.0',
+      'SPDXRef-Package-a-1.0.0',
+      'SPDXRef-Package--scope-tool-2.0.0',
+      'SPDXRef-Package-b-1.0.0',
+    ]);
+    expect(document.relationships[0]).toEqual({ spdxElementId: 'SPDXRef-DOCUMENT', relationshipType: 'DESCRIBES', relatedSpdxElement: 'SPDXRef-Package-app-1.0.0' });
+  });
+
+  it('only declares licences that are SPDX expressions', () => {
+    expect(spdxPackage('a')).toMatchObject({ licenseDeclared: 'MIT', checksums: [{ algorithm: 'SHA512', checksumValue: '616263' }] });
+    expect(spdxPackage('b').licenseDeclared).toBe('Apache-2.0 OR MIT');
+    expect(spdxPackage('@scope/tool').licenseDeclared).toBe('NOASSERTION');
+  });
+
+  it('marks the project\'s dev dependencies and links advisories', () => {
+    expect(document.relationships).toContainEqual({ spdxElementId: 'SPDXRef-Package--scope-tool-2.0.0', relationshipType: 'DEV_DEPENDENCY_OF', relatedSpdxElement: 'SPDXRef-Package-app-1.0.0' });
+    expect(spdxPackage('b').externalRefs).toContainEqual({ referenceCategory: 'SECURITY', referenceType: 'advisory', referenceLocator: 'https://github.com/advisories/GHSA-b' });
+  });
+});
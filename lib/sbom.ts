@@ -0,0 +1,279 @@
+import { randomUUID } from 'crypto';
+import semver from 'semver';
+import type { Advisory } from './audit';
+import { dependencyGraph, lockfileEntry, Manifest } from './lockfile';
+import type { AuditResult } from './report';
+import type { DependencyScope } from './scopes';
+
+// The resolved tree an audit ran against
+export type AuditedTree = {
+  packageJson: Manifest;
+  packageLock: any;
+};
+
+type SbomPackage = {
+  ref: string;
+  name: string;
+  version: string;
+  purl: string;
+  scope: DependencyScope;
+  license?: string;
+  resolved?: string;
+  hashes: Array<{ algorithm: string; hex: string }>;
+};
+
+const hashAlgorithms: Record<string, string> = {
+  sha1: 'SHA-1',
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512',
+};
+
+const cycloneDxSeverities: Record<string, string> = {
+  critical: 'critical',
+  high: 'high',
+  moderate: 'medium',
+  low: 'low',
+  info: 'info',
+};
+
+const toolName = 'npm-audit-dashboard';
+
+export function packageUrl(name: string, version: string) {
+  const encodedName = name.startsWith('@') ? `%40${name.slice(1)}` : name;
+  return `pkg:npm/${encodedName}@${encodeURIComponent(version)}`;
+}
+
+// One package per name@version, however many places it is installed in, and
+// the dependency edges between them.
+function sbomPackages({ packageJson, packageLock }: AuditedTree) {
+  const { nodes, edges } = dependencyGraph(packageLock, packageJson);
+  const root = nodes.find((node) => node.id === '');
+  const rootRef = packageUrl(root.name, root.version || '0.0.0');
+  const refs = new Map<string, string>([['', rootRef]]);
+  const packages = new Map<string, SbomPackage>();
+
+  for (const node of nodes) {
+    if (node.id === '') continue;
+    const ref = packageUrl(node.name, node.version);
+    refs.set(node.id, ref);
+
+    const existing = packages.get(ref);
+    if (existing) {
+      // the same package can be prod in one place and dev in another
+      if (existing.scope !== 'prod' && node.scope === 'prod') existing.scope = 'prod';
+      continue;
+    }
+
+    const entry = lockfileEntry(packageLock, node.id) || {};
+    packages.set(ref, {
+      ref,
+      name: node.name,
+      version: node.version,
+      purl: ref,
+      scope: node.scope,
+      license: typeof entry.license === 'string' ? entry.license : undefined,
+      resolved: entry.resolved,
+      hashes: integrityHashes(entry.integrity),
+    });
+  }
+
+  const dependsOn = new Map<string, Set<string>>();
+  for (const edge of edges) {
+    const from = refs.get(edge.from);
+    const to = refs.get(edge.to);
+    if (!from || !to || from === to) continue;
+    if (!dependsOn.has(from)) dependsOn.set(from, new Set());
+    dependsOn.get(from).add(to);
+  }
+
+  return { root: { ref: rootRef, name: root.name, version: root.version }, packages, dependsOn };
+}
+
+// "sha512-<base64> sha1-<base64>" -> hex digests
+function integrityHashes(integrity?: string) {
+  return (integrity || '').split(/\s+/).flatMap((item) => {
+    const algorithm = item.slice(0, item.indexOf('-'));
+    const digest = item.slice(item.indexOf('-') + 1);
+    return hashAlgorithms[algorithm] && digest
+      ? [{ algorithm: hashAlgorithms[algorithm], hex: Buffer.from(digest, 'base64').toString('hex') }]
+      : [];
+  });
+}
+
+// Packages an advisory applies to: those of the vulnerable name whose version
+// falls in the advisory's range.
+function affectedRefs(packages: Map<string, SbomPackage>, name: string, advisory: Advisory) {
+  const candidates = Array.from(packages.values()).filter((pkg) => pkg.name === name);
+  const range = advisory.range && semver.validRange(advisory.range) ? advisory.range : null;
+  const affected = range ? candidates.filter((pkg) => semver.valid(pkg.version) && semver.satisfies(pkg.version, range, { includePrerelease: true })) : [];
+  return (affected.length > 0 ? affected : candidates).map((pkg) => pkg.ref);
+}
+
+function isSpdxExpression(license?: string) {
+  return Boolean(license) && /^\(?[A-Za-z0-9.+-]+(\s+(AND|OR|WITH)\s+\(?[A-Za-z0-9.+-]+\)?)*\)?$/.test(license);
+}
+
+function cycloneDxLicenses(license?: string) {
+  if (!license) return undefined;
+  if (/\s(AND|OR|WITH)\s/.test(license)) return [{ expression: license }];
+  return [{ license: isSpdxExpression(license) ? { id: license } : { name: license } }];
+}
+
+// CycloneDX 1.5 JSON with the audit's findings as embedded VEX entries
+export function createCycloneDx(tree: AuditedTree, vulnerabilities: AuditResult[]) {
+  const { root, packages, dependsOn } = sbomPackages(tree);
+
+  const vexEntries = new Map<string, any>();
+  for (const result of vulnerabilities) {
+    for (const advisory of result.advisories || []) {
+      const id = advisory.id || String(advisory.source);
+      const entry = vexEntries.get(id) || {
+        'bom-ref': `vulnerability-${id}`,
+        id,
+        source: advisory.url ? { name: id.startsWith('GHSA-') ? 'GitHub Advisories' : 'npm', url: advisory.url } : undefined,
+        ratings: [
+          advisory.cvssScore
+            ? {
+                score: advisory.cvssScore,
+                severity: cycloneDxSeverities[advisory.severity] || 'unknown',
+                method: advisory.cvssVector?.startsWith('CVSS:3.1') ? 'CVSSv31' : 'CVSSv3',
+                vector: advisory.cvssVector,
+              }
+            : { severity: cycloneDxSeverities[advisory.severity] || 'unknown' },
+        ],
+        cwes: (advisory.cwe || []).map((cwe) => Number(cwe.replace(/^CWE-/i, ''))).filter((cwe) => !Number.isNaN(cwe)),
+        description: advisory.title,
+        recommendation: result.recommendation,
+        advisories: advisory.url ? [{ url: advisory.url }] : undefined,
+        // Found by version match alone, nobody has looked at reachability yet
+        analysis: { state: 'in_triage' },
+        affects: [],
+      };
+      for (const ref of affectedRefs(packages, result.name, advisory)) {
+        if (!entry.affects.some((affect) => affect.ref === ref)) entry.affects.push({ ref });
+      }
+      vexEntries.set(id, entry);
+    }
+  }
+
+  return {
+    bomFormat: 'CycloneDX',
+    specVersion: '1.5',
+    serialNumber: `urn:uuid:${randomUUID()}`,
+    version: 1,
+    metadata: {
+      timestamp: new Date().toISOString(),
+      tools: { components: [{ type: 'application', name: toolName }] },
+      component: { type: 'application', 'bom-ref': root.ref, name: root.name, version: root.version, purl: root.ref },
+    },
+    components: Array.from(packages.values()).map((pkg) => ({
+      type: 'library',
+      'bom-ref': pkg.ref,
+      name: pkg.name,
+      version: pkg.version,
+      purl: pkg.purl,
+      scope: pkg.scope === 'dev' ? 'excluded' : pkg.scope === 'prod' ? 'required' : 'optional',
+      licenses: cycloneDxLicenses(pkg.license),
+      hashes: pkg.hashes.length > 0 ? pkg.hashes.map((hash) => ({ alg: hash.algorithm, content: hash.hex })) : undefined,
+      externalReferences: pkg.resolved ? [{ type: 'distribution', url: pkg.resolved }] : undefined,
+    })),
+    dependencies: [root.ref, ...Array.from(packages.keys())].map((ref) => ({
+      ref,
+      dependsOn: Array.from(dependsOn.get(ref) || []),
+    })),
+    vulnerabilities: Array.from(vexEntries.values()),
+  };
+}
+
+// SPDX 2.3 JSON. Vulnerable packages carry their advisories as SECURITY
+// external references, the closest SPDX 2.3 has to VEX.
+export function createSpdx(tree: AuditedTree, vulnerabilities: AuditResult[]) {
+  const { root, packages, dependsOn } = sbomPackages(tree);
+
+  const spdxIds = new Map<string, string>();
+  const usedIds = new Set<string>();
+  const spdxId = (ref: string, label: string) => {
+    const base = `SPDXRef-Package-${label.replace(/[^A-Za-z0-9.-]+/g, '-')}`;
+    let id = base;
+    for (let suffix = 2; usedIds.has(id); suffix++) id = `${base}-${suffix}`;
+    usedIds.add(id);
+    spdxIds.set(ref, id);
+    return id;
+  };
+
+  const advisoryRefs = new Map<string, string[]>();
+  for (const result of vulnerabilities) {
+    for (const advisory of result.advisories || []) {
+      if (!advisory.url) continue;
+      for (const ref of affectedRefs(packages, result.name, advisory)) {
+        advisoryRefs.set(ref, Array.from(new Set([...(advisoryRefs.get(ref) || []), advisory.url])));
+      }
+    }
+  }
+
+  const rootId = spdxId(root.ref, `${root.name}-${root.version}`);
+  const spdxPackages = [
+    {
+      name: root.name,
+      SPDXID: rootId,
+      versionInfo: root.version,
+      downloadLocation: 'NOASSERTION',
+      filesAnalyzed: false,
+      licenseConcluded: 'NOASSERTION',
+      licenseDeclared: 'NOASSERTION',
+      copyrightText: 'NOASSERTION',
+      externalRefs: [{ referenceCategory: 'PACKAGE-MANAGER', referenceType: 'purl', referenceLocator: root.ref }],
+    },
+    ...Array.from(packages.values()).map((pkg) => ({
+      name: pkg.name,
+      SPDXID: spdxId(pkg.ref, `${pkg.name}-${pkg.version}`),
+      versionInfo: pkg.version,
+      downloadLocation: pkg.resolved || 'NOASSERTION',
+      filesAnalyzed: false,
+      licenseConcluded: 'NOASSERTION',
+      licenseDeclared: isSpdxExpression(pkg.license) ? pkg.license : 'NOASSERTION',
+      copyrightText: 'NOASSERTION',
+      checksums: pkg.hashes.length > 0
+        ? pkg.hashes.map((hash) => ({ algorithm: hash.algorithm.replace('-', ''), checksumValue: hash.hex }))
+        : undefined,
+      externalRefs: [
+        { referenceCategory: 'PACKAGE-MANAGER', referenceType: 'purl', referenceLocator: pkg.purl },
+        ...(advisoryRefs.get(pkg.ref) || []).map((url) => ({ referenceCategory: 'SECURITY', referenceType: 'advisory', referenceLocator: url })),
+      ],
+    })),
+  ];
+
+  // Dev and optional dependencies of the project are marked as such; anything
+  // deeper is a plain DEPENDS_ON.
+  const relationships = [{ spdxElementId: 'SPDXRef-DOCUMENT', relationshipType: 'DESCRIBES', relatedSpdxElement: rootId }];
+  dependsOn.forEach((targets, from) => {
+    targets.forEach((to) => {
+      const scope = from === root.ref ? packages.get(to)?.scope : 'prod';
+      if (scope === 'dev' || scope === 'optional') {
+        relationships.push({
+          spdxElementId: spdxIds.get(to),
+          relationshipType: scope === 'dev' ? 'DEV_DEPENDENCY_OF' : 'OPTIONAL_DEPENDENCY_OF',
+          relatedSpdxElement: spdxIds.get(from),
+        });
+      } else {
+        relationships.push({ spdxElementId: spdxIds.get(from), relationshipType: 'DEPENDS_ON', relatedSpdxElement: spdxIds.get(to) });
+      }
+    });
+  });
+
+  const documentName = `${root.name}-${root.version}`;
+  return {
+    spdxVersion: 'SPDX-2.3',
+    dataLicense: 'CC0-1.0',
+    SPDXID: 'SPDXRef-DOCUMENT',
+    name: documentName,
+    documentNamespace: `https://github.com/bscript/npm-audit/spdxdocs/${encodeURIComponent(documentName)}-${randomUUID()}`,
+    creationInfo: {
+      created: new Date().toISOString().replace(/\.\d+Z$/, 'Z'),
+      creators: [`Tool: ${toolName}`],
+    },
+    packages: spdxPackages,
+    relationships,
+  };
+}
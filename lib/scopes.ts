@@ -0,0 +1,5 @@
+// Kept apart from lockfile.ts so the dashboard can use it without bundling the
+// lockfile parsers.
+export type DependencyScope = 'prod' | 'dev' | 'optional' | 'peer';
+
+export const dependencyScopes: DependencyScope[] = ['prod', 'dev', 'optional', 'peer'];
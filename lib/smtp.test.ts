@@ -0,0 +1,94 @@
+import net from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { SmtpConfig } from './config';
+import { sendMail } from './smtp';
+
+// A mail server that accepts everything and keeps what it was sent
+function mailServer(features: string[] = []) {
+  const commands: string[] = [];
+  const messages: string[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 test ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        messages.push(buffer.slice(0, end));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 queued\r\n');
+      }
+      let end: number;
+      while (!inData && (end = buffer.indexOf('\r\n')) !== -1) {
+        const command = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        commands.push(command);
+        if (command.startsWith('EHLO')) {
+          socket.write(['250-test', ...features.map((feature) => `250-${feature}`), '250 8BITMIME\r\n'].join('\r\n'));
+        } else if (command === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (command === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else if (command.startsWith('RCPT') && command.includes('unknown@')) {
+          socket.write('550 no such user\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+  return new Promise<{ server: net.Server; config: SmtpConfig; commands: string[]; messages: string[] }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({ server, config: { host: '127.0.0.1', port, secure: false, from: 'audit@example.com' }, commands, messages });
+    });
+  });
+}
+
+describe('sendMail', () => {
+  let server: net.Server;
+
+  afterEach(() => {
+    server?.close();
+  });
+
+  it('sends one transaction with the message base64 encoded', async () => {
+    const mail = await mailServer();
+    server = mail.server;
+
+    await sendMail(mail.config, { to: ['a@example.com', 'b@example.com'], subject: 'Audit: ünïcode\r\nBcc: x@example.com', text: 'line one\n.\nline two' });
+
+    expect(mail.commands.slice(1)).toEqual(['MAIL FROM:<audit@example.com>', 'RCPT TO:<a@example.com>', 'RCPT TO:<b@example.com>', 'DATA', 'QUIT']);
+    const [headers, body] = mail.messages[0].split('\r\n\r\n');
+    expect(headers).toContain('To: a@example.com, b@example.com');
+    expect(headers).toContain(`Subject: =?UTF-8?B?${Buffer.from('Audit: ünïcode Bcc: x@example.com').toString('base64')}?=`);
+    expect(headers).not.toMatch(/^Bcc:/m);
+    expect(Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString()).toBe('line one\n.\nline two');
+  });
+
+  it('won\'t send credentials to a server without TLS', async () => {
+    const mail = await mailServer();
+    server = mail.server;
+
+    await expect(sendMail({ ...mail.config, user: 'user', password: 'secret' }, { to: ['a@example.com'], subject: 's', text: 't' }))
+      .rejects.toThrow('not sending SMTP_USER and SMTP_PASSWORD in the clear');
+    expect(mail.commands.join('\n')).not.toContain('AUTH');
+  });
+
+  it('reports the command the server refused', async () => {
+    const mail = await mailServer();
+    server = mail.server;
+
+    await expect(sendMail(mail.config, { to: ['unknown@example.com'], subject: 's', text: 't' }))
+      .rejects.toThrow('The mail server refused RCPT TO:<unknown@example.com>: 550 no such user');
+  });
+
+  it('refuses addresses that could inject commands', async () => {
+    await expect(sendMail({ host: '127.0.0.1', port: 1, secure: false, from: 'audit@example.com' }, { to: ['a@example.com>\r\nRCPT TO:<b@example.com'], subject: 's', text: 't' }))
+      .rejects.toThrow('Invalid email address');
+  });
+});
@@ -0,0 +1,179 @@
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { randomUUID } from 'crypto';
+import type { SmtpConfig } from './config';
+
+export type MailMessage = { to: string[]; subject: string; text: string };
+
+type Reply = { code: number; lines: string[] };
+
+const SMTP_TIMEOUT = 30 * 1000;
+
+// Just enough of SMTP to hand a plain text message to a mail server: EHLO,
+// STARTTLS, AUTH PLAIN and one transaction.
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: Reply[] = [];
+  private waiting: { resolve: (reply: Reply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_TIMEOUT, () => {
+      this.fail(new Error('The mail server timed out'));
+      socket.destroy();
+    });
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('The mail server closed the connection')));
+  }
+
+  // Replies end at the line with a space after the code: "250 OK", not "250-SIZE"
+  private receive(chunk: string) {
+    this.buffer += chunk;
+    let end: number;
+    while ((end = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, end).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(end + 1);
+      this.lines.push(line.slice(4));
+      if (!/^\d{3}-/.test(line)) {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.lines };
+        this.lines = [];
+        if (this.waiting) {
+          this.waiting.resolve(reply);
+          this.waiting = null;
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure = this.failure || error;
+    this.waiting?.reject(this.failure);
+    this.waiting = null;
+  }
+
+  private reply(): Promise<Reply> {
+    if (this.replies.length > 0) return Promise.resolve(this.replies.shift());
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  async expect(codes: number[], command?: string): Promise<Reply> {
+    const reply = await this.reply();
+    if (!codes.includes(reply.code)) {
+      // AUTH carries the credentials, so it's only named
+      const sent = command && (command.startsWith('AUTH') ? 'AUTH' : command.split(/[\r\n]/)[0]);
+      throw new Error(`The mail server refused ${sent || 'the connection'}: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  command(command: string, codes: number[]): Promise<Reply> {
+    this.socket.write(`${command}\r\n`);
+    return this.expect(codes, command);
+  }
+
+  // Carry on over TLS after STARTTLS was accepted
+  async upgrade(host: string) {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+    const secured = tls.connect({ socket: plain, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once('secureConnect', resolve);
+      secured.once('error', reject);
+    });
+    this.attach(secured);
+  }
+
+  close() {
+    this.socket.destroy();
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+const singleLine = (text: string) => text.replace(/[\r\n]+/g, ' ');
+
+// Non-ASCII subjects as an RFC 2047 encoded word
+const encodeHeader = (text: string) =>
+  /^[\x20-\x7e]*$/.test(text) ? text : `=?UTF-8?B?${Buffer.from(text).toString('base64')}?=`;
+
+// The body is base64, which leaves no lines to dot-stuff or wrap
+function formatMessage(from: string, message: MailMessage) {
+  const body = Buffer.from(message.text).toString('base64').replace(/.{76}/g, '$&\r\n');
+  return [
+    `From: ${from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(singleLine(message.subject))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${from.split('@')[1] || 'localhost'}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+const isAddress = (address: string) => /^[^\s<>@]+@[^\s<>@]+$/.test(address);
+
+export async function sendMail(config: SmtpConfig, message: MailMessage) {
+  for (const address of [config.from, ...message.to]) {
+    if (!isAddress(address)) {
+      throw new Error(`Invalid email address: ${singleLine(address)}`);
+    }
+  }
+
+  const session = new SmtpSession(await connect(config));
+  try {
+    await session.expect([220]);
+    const hello = `EHLO ${os.hostname() || 'localhost'}`;
+    const features = await session.command(hello, [250]);
+    let secure = config.secure;
+    if (!secure && features.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+      await session.command('STARTTLS', [220]);
+      await session.upgrade(config.host);
+      await session.command(hello, [250]);
+      secure = true;
+    }
+    if (config.user) {
+      if (!secure) {
+        throw new Error('The mail server offers no TLS, not sending SMTP_USER and SMTP_PASSWORD in the clear');
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.password || ''}`).toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+    await session.command(`MAIL FROM:<${config.from}>`, [250]);
+    for (const address of message.to) {
+      await session.command(`RCPT TO:<${address}>`, [250, 251]);
+    }
+    await session.command('DATA', [354]);
+    await session.command(`${formatMessage(config.from, message)}\r\n.`, [250]);
+    await session.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
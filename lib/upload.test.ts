@@ -0,0 +1,91 @@
+import { strToU8, zipSync } from 'fflate';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AuditError } from './errors';
+import { batchUploadRequest, readUploadedFiles, uploadRequest } from './upload';
+
+const manifest = (name: string, dependencies: Record<string, string> = {}) => JSON.stringify({ name, version: '1.0.0', dependencies });
+const lockfile = (name: string) => JSON.stringify({ name, lockfileVersion: 3, packages: { '': { name } } });
+
+// What the dropzone hands over: a File, with its path within a dropped folder
+const dropped = (path: string, content: string | Uint8Array) =>
+  Object.assign(new File([content], path.slice(path.lastIndexOf('/') + 1)), { path: `./${path}` });
+
+// FileReader is the browser's, so reading plain files needs a stand-in
+class TextReader {
+  result: string;
+  error: Error = null;
+  onload: (event: { target: TextReader }) => void;
+  onerror: () => void;
+
+  readAsText(file: File) {
+    file.text().then((text) => {
+      this.result = text;
+      this.onload({ target: this });
+    });
+  }
+}
+
+describe('readUploadedFiles', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads dropped files by their path within the folder, leaving out installed packages', async () => {
+    vi.stubGlobal('FileReader', TextReader);
+    const files = await readUploadedFiles([
+      dropped('api/package.json', manifest('api')),
+      dropped('api/node_modules/lodash/package.json', manifest('lodash')),
+    ]);
+
+    expect(files).toEqual([{ name: 'api/package.json', content: manifest('api') }]);
+  });
+
+  it('unpacks the project files of a zip archive', async () => {
+    const archive = zipSync({
+      'repo/package.json': strToU8(manifest('repo')),
+      'repo/package-lock.json': strToU8(lockfile('repo')),
+      'repo/apps/web/package.json': strToU8(manifest('web')),
+      'repo/node_modules/lodash/package.json': strToU8(manifest('lodash')),
+      'repo/README.md': strToU8('# repo'),
+      'repo/tsconfig.json': strToU8('not json'),
+      'repo/docs/': new Uint8Array(),
+    });
+    const files = await readUploadedFiles([dropped('repo.zip', archive)]);
+
+    expect(files.map((file) => file.name)).toEqual(['repo/package.json', 'repo/package-lock.json', 'repo/apps/web/package.json']);
+    expect(files[2].content).toBe(manifest('web'));
+  });
+});
+
+describe('batchUploadRequest', () => {
+  it('leaves files from one directory to uploadRequest', () => {
+    expect(batchUploadRequest([{ name: 'package.json', content: manifest('app') }, { name: 'package-lock.json', content: lockfile('app') }])).toBeNull();
+  });
+
+  it('audits members below a lockfile with it and other directories as projects of their own', () => {
+    const batch = batchUploadRequest([
+      { name: 'mono/package.json', content: manifest('mono') },
+      { name: 'mono/package-lock.json', content: lockfile('mono') },
+      { name: 'mono/packages/api/package.json', content: manifest('api', { lodash: '^4.17.0' }) },
+      { name: 'tools/cli/package.json', content: manifest('cli', { yargs: '^17.0.0' }) },
+      { name: 'tools/npm-audit-policy.json', content: JSON.stringify({ threshold: 'high' }) },
+    ]);
+
+    expect(batch.description).toBe('2 projects with 1 workspace member');
+    expect(batch.body.projects.map((project) => project.path)).toEqual(['mono', 'tools/cli']);
+    expect(batch.body.projects[0]).toMatchObject({ lockfile: { type: 'npm' }, manifest: { name: 'mono' }, members: { 'packages/api': { name: 'api' } } });
+    expect(batch.body.projects[1]).toMatchObject({ manifest: { dependencies: { yargs: '^17.0.0' } }, policy: JSON.stringify({ threshold: 'high' }) });
+  });
+
+  it('refuses a package.json that doesn\'t parse, saying which', () => {
+    const upload = (content: string) => [
+      { name: 'package-lock.json', content: lockfile('mono') },
+      { name: 'packages/api/package.json', content },
+      { name: 'tools/package.json', content: manifest('tools') },
+    ];
+
+    expect(() => batchUploadRequest(upload('{"name": "api",'))).toThrow(new AuditError(400, 'Invalid package.json in packages/api/package.json'));
+    expect(() => batchUploadRequest(upload('[]'))).toThrow('Invalid package.json in packages/api/package.json');
+    expect(() => uploadRequest([{ name: 'package.json', content: 'null' }])).toThrow('Invalid package.json in package.json');
+  });
+});
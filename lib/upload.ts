@@ -0,0 +1,296 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { AuditError } from './errors';
+
+export type LockfileType = 'npm' | 'yarn-classic' | 'yarn-berry' | 'pnpm';
+
+// Results produced elsewhere, shown without auditing anything
+export type ReportType = 'audit-report' | 'sbom';
+
+export type UploadKind = 'manifest' | LockfileType | ReportType | 'policy';
+
+export const uploadKindLabels: Record<UploadKind, string> = {
+  manifest: 'package.json',
+  npm: 'npm lockfile',
+  'yarn-classic': 'Yarn classic lockfile',
+  'yarn-berry': 'Yarn berry lockfile',
+  pnpm: 'pnpm lockfile',
+  'audit-report': 'npm audit report',
+  sbom: 'SBOM',
+  policy: 'audit policy',
+};
+
+export const defaultLockfileNames: Record<LockfileType, string> = {
+  npm: 'package-lock.json',
+  'yarn-classic': 'yarn.lock',
+  'yarn-berry': 'yarn.lock',
+  pnpm: 'pnpm-lock.yaml',
+};
+
+// What makes up a project directory, shrinkwrap first like npm itself
+export const projectFileNames = ['npm-shrinkwrap.json', 'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'package.json'];
+
+export function isLockfileKind(kind: UploadKind | null): kind is LockfileType {
+  return kind !== null && kind !== 'manifest' && kind !== 'policy' && !isReportKind(kind);
+}
+
+// The keys an audit policy file may have, see lib/policy.ts
+export const policyKeys = ['$schema', 'threshold', 'ignore', 'allow', 'block', 'licenses'];
+
+export const defaultPolicyFileName = 'npm-audit-policy.json';
+
+export function isReportKind(kind: UploadKind | null): kind is ReportType {
+  return kind === 'audit-report' || kind === 'sbom';
+}
+
+// Work out what was dropped, by file name first and by content when the name is
+// not one of the well-known ones (e.g. "service-a.lock.json").
+export function detectUploadKind(fileName: string, content: string): UploadKind | null {
+  const baseName = fileName.split(/[\\/]/).pop()?.toLowerCase() || '';
+
+  if (baseName === 'package-lock.json' || baseName === 'npm-shrinkwrap.json') {
+    return 'npm';
+  }
+  if (baseName === 'yarn.lock') {
+    return isYarnBerry(content) ? 'yarn-berry' : 'yarn-classic';
+  }
+  if (baseName === 'pnpm-lock.yaml' || baseName === 'pnpm-lock.yml') {
+    return 'pnpm';
+  }
+  if (baseName === 'package.json') {
+    return 'manifest';
+  }
+  if (baseName === defaultPolicyFileName) {
+    return 'policy';
+  }
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('{')) {
+    try {
+      const json = JSON.parse(content);
+      if ('lockfileVersion' in json) return 'npm';
+      if (json.bomFormat === 'CycloneDX' || 'spdxVersion' in json) return 'sbom';
+      if (isAuditReport(json)) return 'audit-report';
+      const keys = Object.keys(json);
+      if (keys.length > 0 && keys.every((key) => policyKeys.includes(key))) return 'policy';
+      return 'manifest';
+    } catch {
+      return null;
+    }
+  }
+  if (/^# yarn lockfile v1/m.test(content)) {
+    return 'yarn-classic';
+  }
+  if (isYarnBerry(content)) {
+    return 'yarn-berry';
+  }
+  if (/^lockfileVersion:/m.test(content)) {
+    return 'pnpm';
+  }
+  return null;
+}
+
+// `npm audit --json` output: v2 "vulnerabilities", v1 "advisories", or the
+// error npm prints instead when the audit itself fails
+function isAuditReport(json: any) {
+  return (
+    'auditReportVersion' in json ||
+    ('vulnerabilities' in json && json.metadata?.vulnerabilities !== undefined) ||
+    ('advisories' in json && 'actions' in json) ||
+    (json.error && typeof json.error === 'object' && 'summary' in json.error)
+  );
+}
+
+function isYarnBerry(content: string) {
+  return /^__metadata:/m.test(content);
+}
+
+export const unsupportedUploadMessage = 'Unsupported file. Drop a package.json, package-lock.json, npm-shrinkwrap.json, yarn.lock or pnpm-lock.yaml, an `npm audit --json` report or a CycloneDX or SPDX SBOM, optionally with an audit policy.';
+
+export type UploadedFile = { name: string; content: string };
+
+export type UploadRequest = {
+  body: object;
+  description: string;
+  // the dropped package.json as-is, for the fix plan's diff
+  packageJson?: string;
+  // the dropped policy file as-is, to store for the project
+  policy?: string;
+};
+
+// Where the file sits within a dropped folder ("api/package.json"), or just its
+// name when it was dropped on its own
+function uploadPath(file: File) {
+  const path = (file as File & { path?: string }).path || file.name;
+  return path.replace(/\\/g, '/').replace(/^(\.?\/)+/, '');
+}
+
+export function readUploadedFile(file: File) {
+  return new Promise<UploadedFile>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve({ name: uploadPath(file), content: e.target?.result as string });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
+
+function isInstalledPackage(path: string) {
+  return path.split('/').includes('node_modules');
+}
+
+// The dropped files, with zip archives unpacked into the manifests, lockfiles
+// and reports they contain. Installed packages in node_modules are skipped.
+export async function readUploadedFiles(files: File[]) {
+  const uploaded: UploadedFile[] = [];
+  for (const file of files) {
+    if (!/\.zip$/i.test(file.name)) {
+      if (!isInstalledPackage(uploadPath(file))) uploaded.push(await readUploadedFile(file));
+      continue;
+    }
+    const entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    for (const [path, data] of Object.entries(entries)) {
+      if (path.endsWith('/') || isInstalledPackage(path) || !/\.(json|lock|ya?ml)$/i.test(path)) continue;
+      const content = strFromU8(data);
+      if (detectUploadKind(path, content) !== null) uploaded.push({ name: path, content });
+    }
+  }
+  return uploaded;
+}
+
+// The audit request for a set of dropped files, or null if none of them can be
+// audited. A report is shown as it is, with the lockfile (if one was dropped
+// too) supplying the dependency paths. Otherwise a lockfile wins over a
+// package.json; if both were dropped, the package.json tells us which
+// dependencies are direct and which are dev. A policy file dropped alongside
+// applies to the audit.
+export function uploadRequest(uploaded: UploadedFile[]): UploadRequest | null {
+  const request = auditUploadRequest(uploaded);
+  const policy = uploaded.find((file) => detectUploadKind(file.name, file.content) === 'policy');
+  if (!request || !policy) {
+    return request;
+  }
+  return {
+    ...request,
+    body: { ...request.body, policy: policy.content },
+    description: `${request.description}, policy ${policy.name}`,
+    policy: policy.content,
+  };
+}
+
+// A package.json that doesn't parse is the uploader's mistake, not ours
+function parseManifest(file: UploadedFile) {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(file.content);
+  } catch {
+    manifest = null;
+  }
+  if (!manifest || typeof manifest !== 'object' || Array.isArray(manifest)) {
+    throw new AuditError(400, `Invalid package.json in ${file.name}`);
+  }
+  return manifest as Record<string, any>;
+}
+
+function auditUploadRequest(uploaded: UploadedFile[]): UploadRequest | null {
+  const files = uploaded.map((file) => ({ ...file, kind: detectUploadKind(file.name, file.content) }));
+  const report = files.find((file) => isReportKind(file.kind));
+  const lockfile = files.find((file) => isLockfileKind(file.kind));
+  const manifest = files.find((file) => file.kind === 'manifest');
+
+  if (report) {
+    return {
+      body: {
+        report: { type: report.kind, fileName: report.name, content: report.content },
+        lockfile: lockfile ? { type: lockfile.kind, fileName: lockfile.name, content: lockfile.content } : undefined,
+        manifest: lockfile && manifest ? parseManifest(manifest) : undefined,
+      },
+      description: describeUpload(report.name, report.kind, lockfile?.name),
+    };
+  }
+
+  if (lockfile) {
+    return {
+      body: {
+        lockfile: { type: lockfile.kind, fileName: lockfile.name, content: lockfile.content },
+        manifest: manifest ? parseManifest(manifest) : undefined,
+      },
+      description: describeUpload(lockfile.name, lockfile.kind, manifest?.name),
+      packageJson: manifest?.content,
+    };
+  }
+  if (manifest) {
+    const { dependencies, devDependencies, optionalDependencies, peerDependencies } = parseManifest(manifest);
+    return {
+      body: { manifest: { dependencies, devDependencies, optionalDependencies, peerDependencies } },
+      description: describeUpload(manifest.name, manifest.kind),
+      packageJson: manifest.content,
+    };
+  }
+  return null;
+}
+
+export type BatchUploadRequest = {
+  body: { projects: Array<{ path: string } & Record<string, any>> };
+  description: string;
+};
+
+function dirName(path: string) {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+function isWithin(dir: string, ancestor: string) {
+  return ancestor === '' || dir === ancestor || dir.startsWith(`${ancestor}/`);
+}
+
+// The batch request for files from several directories, e.g. a monorepo, or
+// null when they are one project. Each directory with a lockfile (or report)
+// is a project; a package.json below one is a workspace member audited with
+// that lockfile, one elsewhere a project of its own. A policy file applies to
+// the projects in and below its directory.
+export function batchUploadRequest(uploaded: UploadedFile[]): BatchUploadRequest | null {
+  const files = uploaded.map((file) => ({ ...file, dir: dirName(file.name), kind: detectUploadKind(file.name, file.content) }));
+  const dirs = Array.from(new Set(files.filter((file) => file.kind !== null && file.kind !== 'policy').map((file) => file.dir)));
+  if (dirs.length < 2) {
+    return null;
+  }
+
+  const lockfileDirs = dirs.filter((dir) => files.some((file) => file.dir === dir && (isLockfileKind(file.kind) || isReportKind(file.kind))));
+  // the nearest lockfile directory above, deepest first
+  const ownerOf = (dir: string) => lockfileDirs
+    .filter((candidate) => candidate !== dir && isWithin(dir, candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  const projectDirs = dirs.filter((dir) => lockfileDirs.includes(dir) || ownerOf(dir) === undefined);
+
+  const projects = [];
+  let members = 0;
+  for (const dir of projectDirs) {
+    const policy = files
+      .filter((file) => file.kind === 'policy' && isWithin(dir, file.dir))
+      .sort((a, b) => b.dir.length - a.dir.length)[0];
+    const request = uploadRequest([...files.filter((file) => file.dir === dir && file.kind !== 'policy'), ...(policy ? [policy] : [])]);
+    if (!request) continue;
+
+    const memberManifests: Record<string, any> = {};
+    for (const file of files) {
+      if (file.kind !== 'manifest' || file.dir === dir || lockfileDirs.includes(file.dir) || ownerOf(file.dir) !== dir) continue;
+      memberManifests[dir === '' ? file.dir : file.dir.slice(dir.length + 1)] = parseManifest(file);
+    }
+    members += Object.keys(memberManifests).length;
+    projects.push({
+      path: dir,
+      ...request.body,
+      ...(lockfileDirs.includes(dir) && Object.keys(memberManifests).length > 0 ? { members: memberManifests } : {}),
+    });
+  }
+
+  if (projects.length === 0) {
+    return null;
+  }
+  const description = `${projects.length} project${projects.length === 1 ? '' : 's'}` +
+    (members > 0 ? ` with ${members} workspace member${members === 1 ? '' : 's'}` : '');
+  return { body: { projects }, description };
+}
+
+function describeUpload(fileName: string, kind: UploadKind, manifestName?: string) {
+  const description = `${fileName} (${uploadKindLabels[kind]})`;
+  return manifestName ? `${description} with ${manifestName}` : description;
+}
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AuditError, checkLockfileSpecs, parseAuditRequest } from './workspace';
+
+const lockfile = (packages: Record<string, any>) => ({ lockfileVersion: 3, packages: { '': { name: 'app' }, ...packages } });
+
+describe('checkLockfileSpecs', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts registry packages', () => {
+    expect(() => checkLockfileSpecs(lockfile({
+      'node_modules/a': { version: '1.0.0', resolved: 'https://registry.npmjs.org/a/-/a-1.0.0.tgz' },
+    }), ['registry'])).not.toThrow();
+  });
+
+  it('refuses git, tarball and file packages unless allowed', () => {
+    const packageLock = lockfile({
+      'node_modules/a': { version: '1.0.0', resolved: 'git+https://github.com/a/a.git#abc' },
+      'node_modules/b': { version: '1.0.0', resolved: 'https://evil.example.com/b.tgz' },
+      'node_modules/c': { version: '1.0.0', resolved: 'file:../c' },
+    });
+
+    let error: AuditError;
+    try {
+      checkLockfileSpecs(packageLock, ['registry']);
+    } catch (thrown) {
+      error = thrown;
+    }
+    expect(error).toBeInstanceOf(AuditError);
+    expect(error.status).toBe(400);
+    expect(error.extra.refused).toEqual(['node_modules/a (git)', 'node_modules/b (url)', 'node_modules/c (file)']);
+
+    expect(() => checkLockfileSpecs(packageLock, ['registry', 'git', 'url', 'file'])).not.toThrow();
+  });
+
+  it('counts the configured registries as registries', () => {
+    const packageLock = lockfile({ 'node_modules/@company/a': { version: '1.0.0', resolved: 'https://npm.company.com/@company/a/-/a-1.0.0.tgz' } });
+    expect(() => checkLockfileSpecs(packageLock, ['registry'])).toThrow(AuditError);
+
+    vi.stubEnv('NPM_SCOPED_REGISTRIES', JSON.stringify({ '@company': { url: 'https://npm.company.com/' } }));
+    expect(() => checkLockfileSpecs(packageLock, ['registry'])).not.toThrow();
+  });
+
+  it('reads the sources of lockfileVersion 1 nested dependencies', () => {
+    const packageLock = {
+      lockfileVersion: 1,
+      dependencies: { a: { version: '1.0.0', dependencies: { b: { version: 'github:evil/b#abc' } } } },
+    };
+    expect(() => checkLockfileSpecs(packageLock, ['registry'])).toThrow(/not allowed/);
+  });
+});
+
+describe('parseAuditRequest scope options', () => {
+  it('audits every group unless told to omit some', () => {
+    expect(parseAuditRequest({ dependencies: {} }).scopeOptions).toEqual({ omit: [], include: [] });
+    expect(parseAuditRequest({ dependencies: {}, omit: 'dev', include: ['optional', 'peer'] }).scopeOptions).toEqual({ omit: ['dev'], include: ['optional', 'peer'] });
+  });
+
+  it.each([
+    [{ omit: 'prod' }],
+    [{ omit: ['dev', 'docs'] }],
+    [{ include: 42 }],
+  ])('refuses %j', (options) => {
+    expect(() => parseAuditRequest({ dependencies: {}, ...options })).toThrow(new AuditError(400, 'Invalid omit/include option, expected dev, optional or peer'));
+  });
+});
@@ -0,0 +1,648 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { teamDirectory } from './access';
+import { auditWithDatabase, loadAdvisoryDatabase } from './advisory-db';
+import { auditWithBulkAdvisories } from './bulk-advisories';
+import { buildAuditGraph, normalizeVulnerabilities } from './audit';
+import { AdvisorySource, advisorySource, cacheConfig, DependencySpecType, npmRunnerConfig, policyDirectory, registryConfig } from './config';
+import { cacheKey, readCache, writeCache } from './cache';
+import { AuditError } from './errors';
+import { importReport } from './import-report';
+import { createLicenseReport, declaredLicense } from './licenses';
+import { buildNpmWorkspace, dependencyGraph, isWorkspaceLocation, lockfileEntry, Manifest, NpmWorkspace } from './lockfile';
+import { log } from './log';
+import { dependencySpecType, lockfileSpecType, NpmLimitError, runNpm, sanitizeOutput } from './npm-runner';
+import { applyPolicy, AuditPolicy, loadPolicy, parsePolicy, policyViolations } from './policy';
+import { advisoryRegistryFor, npmrcFor, unresolvablePackage, UnresolvedPackage } from './registry';
+import { DependencyScope, dependencyScopes } from './scopes';
+import { detectUploadKind, isLockfileKind, isReportKind, LockfileType, ReportType } from './upload';
+
+export { AuditError };
+
+export const manifestGroups = ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies'];
+
+export type ScopeOptions = { omit: DependencyScope[]; include: DependencyScope[] };
+
+export type AuditRequest = {
+  // an existing `npm audit --json` report or SBOM, parsed, to show as it is
+  report?: { type: ReportType; fileName?: string; content: any };
+  lockfile?: { type: LockfileType; fileName?: string; content: string };
+  manifest?: Manifest;
+  // package.json files of monorepo members by directory relative to the
+  // lockfile, for lockfiles that don't list the members themselves (yarn)
+  members?: Record<string, Manifest>;
+  dependencies?: Record<string, string>;
+  scopeOptions: ScopeOptions;
+  // save the run to the history under this name
+  project?: string;
+  // the caller's team, whose policy for the project applies and who the run
+  // is saved for; set from the API key, never from the body
+  team?: string;
+  // an uploaded policy, used instead of the one stored for the project
+  policy?: AuditPolicy;
+  // resolve and audit again even if the cache has results
+  refresh?: boolean;
+  // dependency specifiers npm may install on top of NPM_ALLOWED_SPECS
+  allowSpecs?: DependencySpecType[];
+};
+
+// "off" when the cache is turned off, "refresh" when the request skipped it
+export type CacheStatus = 'hit' | 'miss' | 'refresh' | 'off';
+
+// Reported in the response metadata; `tree` is null for uploaded lockfiles,
+// which need no resolving
+export type AuditCacheInfo = { tree: CacheStatus | null; results: CacheStatus; cachedAt?: string };
+
+type CachedTree = { packageJson: Manifest; packageLock: any; unresolved: UnresolvedPackage[] };
+
+type CachedResults = { auditOutput: any; packageLock: any };
+
+export type AuditStage = 'lockfile' | 'install' | 'audit' | 'parse';
+
+// Told about each stage of an audit as it starts; aborting the signal kills
+// whatever npm is running and stops the audit at the next stage.
+export type AuditProgress = {
+  stage: (stage: AuditStage, message: string) => void;
+  signal?: AbortSignal;
+};
+
+// Milliseconds spent in each stage an audit went through, and in all of them
+export type StageTimings = Partial<Record<AuditStage, number>> & { total: number };
+
+export type Workspace = {
+  dir: string;
+  packageJson: Manifest;
+  packageLock: any;
+  unresolved: UnresolvedPackage[];
+  source: AdvisorySource;
+  progress?: AuditProgress;
+  cache?: AuditCacheInfo;
+  // where the audit's results go in the cache, and what was found there
+  resultKey?: string;
+  cachedAudit?: any;
+};
+
+// Validate an audit request body: an uploaded lockfile (optionally with its
+// package.json), a package.json's dependency groups, or a bare dependency map.
+// A report may come with a lockfile for its dependency paths. Dependencies npm
+// would fetch from anywhere but the allowed kinds of source are refused.
+export function parseAuditRequest(body: any, { allowSpecs = [] }: { allowSpecs?: DependencySpecType[] } = {}): AuditRequest {
+  const { dependencies, lockfile, manifest, members, omit, include, project, report, policy, refresh } = body || {};
+
+  const scopeOptions = parseScopeOptions(omit, include);
+  if (scopeOptions === null) {
+    throw new AuditError(400, 'Invalid omit/include option, expected dev, optional or peer');
+  }
+
+  if (project !== undefined && (typeof project !== 'string' || !project.trim() || project.length > 100)) {
+    throw new AuditError(400, 'Invalid project name, expected up to 100 characters');
+  }
+  if (refresh !== undefined && typeof refresh !== 'boolean') {
+    throw new AuditError(400, 'Invalid refresh option, expected true or false');
+  }
+  const options = {
+    scopeOptions,
+    project: project?.trim(),
+    policy: policy === undefined ? undefined : parseUploadedPolicy(policy),
+    ...(refresh ? { refresh } : {}),
+    ...(allowSpecs.length > 0 ? { allowSpecs } : {}),
+  };
+
+  let uploadedLockfile: AuditRequest['lockfile'];
+  if (lockfile) {
+    if (typeof lockfile.content !== 'string') {
+      throw new AuditError(400, 'Invalid lockfile format');
+    }
+    const lockfileType = lockfile.type || detectUploadKind(lockfile.fileName || '', lockfile.content);
+    if (!isLockfileKind(lockfileType)) {
+      throw new AuditError(400, 'Unrecognized lockfile type');
+    }
+    uploadedLockfile = { type: lockfileType, fileName: lockfile.fileName, content: lockfile.content };
+  }
+  if (members !== undefined && !isValidMembers(members)) {
+    throw new AuditError(400, 'Invalid workspace members, expected package.json contents by relative directory');
+  }
+
+  if (report) {
+    return { report: parseReport(report), lockfile: uploadedLockfile, manifest, members, ...options };
+  }
+
+  const allowed = allowedSpecs(options);
+  if (uploadedLockfile) {
+    checkSpecs([manifest, ...Object.values<Manifest>(members || {})], allowed);
+    return { lockfile: uploadedLockfile, manifest, members, ...options };
+  }
+
+  if (manifest) {
+    if (typeof manifest !== 'object' || manifestGroups.some((group) => manifest[group] && typeof manifest[group] !== 'object')) {
+      throw new AuditError(400, 'Invalid manifest format');
+    }
+    checkSpecs([manifest], allowed);
+    return { manifest, ...options };
+  }
+
+  if (!dependencies || typeof dependencies !== 'object') {
+    throw new AuditError(400, 'Invalid dependencies format');
+  }
+  checkSpecs([{ dependencies }], allowed);
+  return { dependencies, ...options };
+}
+
+function allowedSpecs(request: Pick<AuditRequest, 'allowSpecs'>) {
+  return [...npmRunnerConfig().allowedSpecs, ...(request.allowSpecs || [])];
+}
+
+function checkSpecs(manifests: (Manifest | undefined)[], allowed: DependencySpecType[]) {
+  const refused = [];
+  for (const manifest of manifests) {
+    for (const group of manifestGroups) {
+      for (const [name, spec] of Object.entries<any>(manifest?.[group] || {})) {
+        // yarn and pnpm's references to the project's own workspaces
+        if (typeof spec === 'string' && spec.startsWith('workspace:')) continue;
+        const type = typeof spec === 'string' ? dependencySpecType(spec) : 'file';
+        if (!allowed.includes(type)) refused.push(`${name}@${spec} (${type})`);
+      }
+    }
+  }
+  refuseSpecs(refused);
+}
+
+// Packages of a lockfile, uploaded or generated, that npm would fetch from a
+// source that isn't allowed; registry tarballs count only on known registries
+export function checkLockfileSpecs(packageLock: any, allowed: DependencySpecType[]) {
+  const { url, scopes } = registryConfig();
+  const registryHosts = [url, ...Object.values(scopes).map((scope) => scope.url)]
+    .filter(Boolean)
+    .map((registry) => new URL(registry).host);
+
+  const refused = [];
+  const check = (location: string, entry: any) => {
+    const type = lockfileSpecType(entry, registryHosts);
+    if (type && !allowed.includes(type)) refused.push(`${location} (${type})`);
+  };
+  if (packageLock?.packages) {
+    for (const [location, entry] of Object.entries<any>(packageLock.packages)) {
+      if (location !== '') check(location, entry);
+    }
+  } else {
+    // lockfileVersion 1 nests packages and may put the source in "version"
+    const walk = (dependencies: Record<string, any>, parent: string) => {
+      for (const [name, entry] of Object.entries<any>(dependencies || {})) {
+        const location = `${parent}node_modules/${name}`;
+        check(location, { resolved: entry?.resolved || (/^\d/.test(entry?.version || '') ? undefined : entry?.version) });
+        walk(entry?.dependencies, `${location}/`);
+      }
+    };
+    walk(packageLock?.dependencies, '');
+  }
+  refuseSpecs(refused);
+}
+
+function refuseSpecs(refused: string[]) {
+  if (refused.length > 0) {
+    throw new AuditError(
+      400,
+      'Dependency specifier not allowed, only registry packages are installed unless NPM_ALLOWED_SPECS allows more',
+      sanitizeOutput(refused.join(', ')),
+      { refused: refused.map((spec) => sanitizeOutput(spec)) }
+    );
+  }
+}
+
+function isValidMembers(members: any) {
+  return members && typeof members === 'object' && !Array.isArray(members) &&
+    Object.entries<any>(members).every(([dir, manifest]) =>
+      /^[^/\\]/.test(dir) && !dir.split('/').some((part) => part === '..' || part === 'node_modules') &&
+      manifest && typeof manifest === 'object' &&
+      manifestGroups.every((group) => !manifest[group] || typeof manifest[group] === 'object'));
+}
+
+// The policy file's text as uploaded, or its parsed contents
+function parseUploadedPolicy(policy: unknown) {
+  try {
+    return parsePolicy(typeof policy === 'string' ? JSON.parse(policy) : policy);
+  } catch (error) {
+    throw new AuditError(400, 'Invalid policy', error.message);
+  }
+}
+
+function parseReport(report: any): AuditRequest['report'] {
+  if (typeof report !== 'object' || typeof report.content !== 'string') {
+    throw new AuditError(400, 'Invalid report format');
+  }
+  const reportType = report.type || detectUploadKind(report.fileName || '', report.content);
+  if (!isReportKind(reportType)) {
+    throw new AuditError(400, 'Unrecognized report type, expected an npm audit --json report or a CycloneDX or SPDX SBOM');
+  }
+  let content;
+  try {
+    content = JSON.parse(report.content);
+  } catch (error) {
+    throw new AuditError(400, 'Invalid report format', error.message);
+  }
+  if (!content || typeof content !== 'object' || Array.isArray(content)) {
+    throw new AuditError(400, 'Invalid report format', 'expected a JSON object');
+  }
+  // what npm prints when the audit it was asked for failed
+  if (content.error?.summary) {
+    throw new AuditError(400, 'The npm audit report is an error', content.error.summary);
+  }
+  return { type: reportType, fileName: report.fileName, content };
+}
+
+// Everything is audited unless the caller omits groups; "prod" is not a group
+// npm lets you omit.
+function parseScopeOptions(omit: unknown, include: unknown): ScopeOptions | null {
+  const options: ScopeOptions = { omit: [], include: [] };
+  for (const [key, value] of [['omit', omit], ['include', include]] as const) {
+    if (value === undefined) continue;
+    const scopes = Array.isArray(value) ? value : [value];
+    for (const scope of scopes) {
+      if (scope === 'prod' || !dependencyScopes.includes(scope)) {
+        return null;
+      }
+      options[key].push(scope);
+    }
+  }
+  return options;
+}
+
+// npm through the hardened runner; running into its limits fails the audit
+export async function npm(workspace: Workspace, args: string[]) {
+  try {
+    return await runNpm(workspace.dir, args, { signal: workspace.progress?.signal });
+  } catch (error) {
+    if (error instanceof NpmLimitError) {
+      throw new AuditError(500, error.message);
+    }
+    throw error;
+  }
+}
+
+function enterStage(progress: AuditProgress | undefined, stage: AuditStage, message: string) {
+  if (!progress) return;
+  progress.signal?.throwIfAborted();
+  progress.stage(stage, message);
+}
+
+// Time the stages reported to `progress` on their way through; a stage lasts
+// until the next one starts or `timings` is asked for
+function timeStages(progress?: AuditProgress) {
+  const startedAt = Date.now();
+  const spent: Partial<Record<AuditStage, number>> = {};
+  let current: { stage: AuditStage; startedAt: number } | null = null;
+  const stop = () => {
+    if (current) spent[current.stage] = (spent[current.stage] || 0) + Date.now() - current.startedAt;
+    current = null;
+  };
+
+  const timed: AuditProgress = {
+    stage: (stage, message) => {
+      stop();
+      current = { stage, startedAt: Date.now() };
+      progress?.stage(stage, message);
+    },
+    signal: progress?.signal,
+  };
+  const timings = (): StageTimings => {
+    stop();
+    return { ...spent, total: Date.now() - startedAt };
+  };
+  return { progress: timed, timings };
+}
+
+function isCancelled(workspace: Workspace) {
+  return workspace.progress?.signal?.aborted === true;
+}
+
+function removeWorkspace(workspace: Workspace) {
+  fs.rmSync(workspace.dir, { recursive: true, force: true });
+}
+
+// Prepare a workspace for the request, hand it to `use` and remove it again
+// however `use` ends
+export async function withWorkspace<T>(
+  request: AuditRequest,
+  progress: AuditProgress | undefined,
+  use: (workspace: Workspace) => Promise<T>
+): Promise<T> {
+  const workspace = await prepareWorkspace(request, progress);
+  try {
+    return await use(workspace);
+  } finally {
+    removeWorkspace(workspace);
+  }
+}
+
+// What the advisory source answers depends on; a local database counts as
+// changed when it's imported again
+function sourceIdentity(source: AdvisorySource) {
+  if (source.type !== 'local') return source;
+  return { ...source, modified: fs.statSync(source.databasePath, { throwIfNoEntry: false })?.mtimeMs || 0 };
+}
+
+// Set up a temporary directory holding package.json and package-lock.json for
+// the request. An uploaded lockfile is used as-is; a bare dependency map has
+// to be resolved against the registry first. Resolved trees and advisory
+// results come from the cache when the same inputs were audited within its
+// TTL, unless the request asks for a refresh. Callers remove the directory
+// again, see withWorkspace.
+async function prepareWorkspace(request: AuditRequest, progress?: AuditProgress): Promise<Workspace> {
+  const source = advisorySource();
+  const npmrc = npmrcFor(registryConfig());
+  const cache = cacheConfig();
+  const cacheStatus = (hit: boolean): CacheStatus => cache.ttl <= 0 ? 'off' : request.refresh ? 'refresh' : hit ? 'hit' : 'miss';
+  const cached = <T>(namespace: 'trees' | 'results', key: string) => request.refresh ? null : readCache<T>(cache, namespace, key);
+  const allowed = allowedSpecs(request);
+
+  let uploaded = null;
+  if (request.lockfile) {
+    enterStage(progress, 'lockfile', 'Reading the lockfile');
+    try {
+      uploaded = buildNpmWorkspace(request.lockfile.type, request.lockfile.content, request.manifest, request.members);
+    } catch (error) {
+      log.error('Failed to read lockfile:', error);
+      throw new AuditError(400, 'Failed to read lockfile', sanitizeOutput(error.message));
+    }
+    checkLockfileSpecs(uploaded.packageLock, allowed);
+    log.log(`Received ${request.lockfile.type} lockfile`);
+  } else if (request.manifest) {
+    log.log('Received manifest');
+  } else {
+    log.log(`Received ${Object.keys(request.dependencies || {}).length} dependencies`);
+  }
+
+  // Create a temporary directory
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'npm-audit-'));
+  const workspace: Workspace = { dir: tempDir, packageJson: null, packageLock: null, unresolved: [], source, progress };
+  workspace.cache = { tree: null, results: cacheStatus(false) };
+
+  try {
+    // Registry settings and credentials for private scopes
+    if (npmrc) {
+      fs.writeFileSync(path.join(tempDir, '.npmrc'), npmrc, { mode: 0o600 });
+    }
+
+    // Write dependencies to a temporary package.json
+    const tempFile = path.join(tempDir, 'package.json');
+
+    // Ensure package.json has required "name" and "version" fields
+    const packageJsonContent: Manifest = uploaded ? uploaded.packageJson : {
+      name: "temp-package",  // Default package name
+      version: "1.0.0",      // Default version
+      dependencies: request.dependencies,  // Add uploaded dependencies
+    };
+    if (!uploaded && request.manifest) {
+      for (const group of manifestGroups) {
+        packageJsonContent[group] = request.manifest[group];
+      }
+    }
+    workspace.packageJson = packageJsonContent;
+
+    fs.writeFileSync(tempFile, JSON.stringify(packageJsonContent, null, 2));
+
+    const lockfilePath = path.join(tempDir, 'package-lock.json');
+    // a tree resolved under a looser NPM_ALLOWED_SPECS isn't one for this request
+    const treeKey = uploaded ? null : cacheKey(packageJsonContent, npmrc, Array.from(new Set(allowed)).sort());
+    const tree = treeKey && cached<CachedTree>('trees', treeKey);
+    if (uploaded) {
+      fs.writeFileSync(lockfilePath, JSON.stringify(uploaded.packageLock, null, 2));
+      log.log('Using uploaded lockfile');
+    } else if (tree) {
+      enterStage(progress, 'lockfile', 'Using the cached package-lock.json');
+      checkLockfileSpecs(tree.value.packageLock, allowed);
+      workspace.cache.tree = 'hit';
+      Object.assign(packageJsonContent, tree.value.packageJson);
+      workspace.unresolved = tree.value.unresolved;
+      fs.writeFileSync(tempFile, JSON.stringify(packageJsonContent, null, 2));
+      fs.writeFileSync(lockfilePath, JSON.stringify(tree.value.packageLock, null, 2));
+      log.log('Using cached package-lock.json');
+    } else {
+      enterStage(progress, 'lockfile', 'Generating package-lock.json');
+      workspace.cache.tree = cacheStatus(false);
+      // Generate package-lock.json. A direct dependency npm can't resolve (not
+      // published, private without credentials, no matching version) is dropped
+      // and reported instead of failing the whole audit.
+      log.log('Generating package-lock.json...');
+      for (;;) {
+        try {
+          await npm(workspace, ['install', '--package-lock-only', '--ignore-scripts']);
+          break;
+        } catch (error) {
+          if (isCancelled(workspace) || error instanceof AuditError) throw error;
+          const failure = unresolvablePackage(`${error.stderr || ''}\n${error.message}`);
+          const group = failure && manifestGroups.find((name) => packageJsonContent[name]?.[failure.name] !== undefined);
+          if (!group) {
+            log.error('Failed to create package-lock.json:', error);
+            const hint = source.type === 'local' ? ' (no registry access? upload a lockfile instead)' : '';
+            throw new AuditError(
+              500,
+              `Failed to create package-lock.json${hint}`,
+              sanitizeOutput(failure ? `${failure.name}: ${failure.reason}` : error.message),
+              { unresolved: workspace.unresolved }
+            );
+          }
+
+          log.warn(`Skipping unresolvable package ${failure.name}: ${failure.reason}`);
+          const { [failure.name]: range, ...remaining } = packageJsonContent[group];
+          workspace.unresolved.push({ ...failure, range });
+          packageJsonContent[group] = remaining;
+          fs.writeFileSync(tempFile, JSON.stringify(packageJsonContent, null, 2));
+        }
+      }
+      // what a registry package depends on isn't necessarily in the registry
+      checkLockfileSpecs(JSON.parse(fs.readFileSync(lockfilePath, 'utf8')), allowed);
+      writeCache<CachedTree>(cache, 'trees', treeKey, {
+        packageJson: packageJsonContent,
+        packageLock: JSON.parse(fs.readFileSync(lockfilePath, 'utf8')),
+        unresolved: workspace.unresolved,
+      });
+    }
+
+    // Advisory results for this exact tree, with the licences found for it
+    const lockfile = JSON.parse(fs.readFileSync(lockfilePath, 'utf8'));
+    workspace.resultKey = cacheKey(sourceIdentity(source), npmrc, request.scopeOptions, packageJsonContent, lockfile);
+    const results = cached<CachedResults>('results', workspace.resultKey);
+    if (results) {
+      log.log(`Using advisory results cached at ${results.createdAt}`);
+      workspace.cachedAudit = results.value.auditOutput;
+      workspace.packageLock = results.value.packageLock;
+      workspace.cache.results = 'hit';
+      workspace.cache.cachedAt = results.createdAt;
+      return workspace;
+    }
+
+    // Auditing needs nothing but the lockfile. Only the licence report needs
+    // package contents, for lockfiles that don't record licences; with the
+    // local database there may be no registry to download them from.
+    const unlicensed = withoutLicense(lockfile, packageJsonContent);
+    if (source.type !== 'local' && unlicensed.length > 0) {
+      log.log(`Downloading packages for ${unlicensed.length} licences missing from the lockfile...`);
+      enterStage(progress, 'install', 'Downloading packages for their licences');
+      try {
+        await npm(workspace, ['install', '--ignore-scripts']);
+        log.log('Dependencies installed.');
+      } catch (error) {
+        // the audit goes on without the licences
+        if (isCancelled(workspace)) throw error;
+        log.error('Failed to install dependencies:', error);
+      }
+    }
+
+    // Keep the lockfile around to tell which dependency group each finding belongs to
+    try {
+      workspace.packageLock = JSON.parse(fs.readFileSync(lockfilePath, 'utf8'));
+      addInstalledLicenses(workspace);
+    } catch (error) {
+      log.error('Failed to read package-lock.json:', error);
+    }
+  } catch (error) {
+    removeWorkspace(workspace);
+    throw error;
+  }
+
+  return workspace;
+}
+
+// Locations of the packages a lockfile records no licence for
+function withoutLicense(packageLock: any, packageJson: Manifest) {
+  return dependencyGraph(packageLock, packageJson).nodes
+    .map((node) => node.id)
+    .filter((id) => !isWorkspaceLocation(id) && lockfileEntry(packageLock, id) && !lockfileEntry(packageLock, id).license);
+}
+
+// Older lockfiles, and the ones converted from yarn or pnpm, don't record
+// licences; take them from node_modules where npm installed the package.
+function addInstalledLicenses(workspace: Workspace) {
+  for (const location of withoutLicense(workspace.packageLock, workspace.packageJson)) {
+    const entry = lockfileEntry(workspace.packageLock, location);
+    const manifestPath = path.join(workspace.dir, location, 'package.json');
+    if (!fs.existsSync(manifestPath)) continue;
+    try {
+      const license = declaredLicense(JSON.parse(fs.readFileSync(manifestPath, 'utf8')));
+      if (license) entry.license = license;
+    } catch (error) {
+      log.warn(`Failed to read ${manifestPath}:`, error.message);
+    }
+  }
+}
+
+// Audit the workspace with whichever advisory source is configured and return
+// the report in `npm audit --json` (v2) shape, from the cache if prepareWorkspace
+// found it there.
+export async function runAudit(workspace: Workspace, scopeOptions: ScopeOptions) {
+  if (workspace.cachedAudit) {
+    enterStage(workspace.progress, 'audit', 'Using cached advisory results');
+    return workspace.cachedAudit;
+  }
+  const auditOutput = await auditWorkspace(workspace, scopeOptions);
+  if (workspace.resultKey) {
+    writeCache<CachedResults>(cacheConfig(), 'results', workspace.resultKey, { auditOutput, packageLock: workspace.packageLock });
+  }
+  return auditOutput;
+}
+
+async function auditWorkspace(workspace: Workspace, scopeOptions: ScopeOptions) {
+  const { source } = workspace;
+  if (!workspace.packageLock) {
+    throw new AuditError(500, 'Failed to read package-lock.json');
+  }
+  const omitted = scopeOptions.omit.filter((scope) => !scopeOptions.include.includes(scope));
+
+  if (source.type === 'local') {
+    log.log('Matching against local advisory database...');
+    enterStage(workspace.progress, 'audit', 'Matching against the local advisory database');
+    return auditWithDatabase(loadAdvisoryDatabase(source.databasePath), workspace.packageLock, workspace.packageJson, omitted);
+  }
+
+  // The bulk advisory request `npm audit` would make, straight from the tree
+  const registry = advisoryRegistryFor(registryConfig(), source);
+  log.log(`Requesting advisories from ${registry.url}...`);
+  enterStage(workspace.progress, 'audit', 'Requesting advisories from the registry');
+  try {
+    return await auditWithBulkAdvisories(registry, workspace.packageLock, workspace.packageJson, omitted, workspace.progress?.signal);
+  } catch (error) {
+    if (isCancelled(workspace)) throw error;
+    log.error('Failed to fetch advisories:', error);
+    throw new AuditError(502, 'Failed to fetch advisories', sanitizeOutput(error.message));
+  }
+}
+
+// Audit a request end to end. `result` is what /api/npm-audit responds with,
+// `tree` the manifest and lockfile it was audited at, for exports built from
+// the resolved tree. Reports are only read, nothing runs npm for them.
+export async function auditRequest(request: AuditRequest, reportTo?: AuditProgress) {
+  const policy = requestPolicy(request);
+  const { progress, timings } = timeStages(reportTo);
+
+  if (request.report) {
+    enterStage(progress, 'parse', 'Reading the report');
+    let tree: NpmWorkspace | undefined;
+    if (request.lockfile) {
+      try {
+        tree = buildNpmWorkspace(request.lockfile.type, request.lockfile.content, request.manifest, request.members);
+      } catch (error) {
+        throw new AuditError(400, 'Failed to read lockfile', error.message);
+      }
+    }
+    const imported = importReport(request.report.type, request.report.content, tree);
+    const audited = auditResult(imported.auditOutput, imported.tree, 'import', [], policy);
+    audited.result.metadata.timings = timings();
+    return audited;
+  }
+
+  return withWorkspace(request, progress, async (workspace) => {
+    const auditOutput = await runAudit(workspace, request.scopeOptions);
+    enterStage(progress, 'parse', 'Parsing the audit results');
+    const audited = auditResult(auditOutput, workspace, workspace.source.type, workspace.unresolved, policy, workspace.cache);
+    audited.result.metadata.timings = timings();
+    return audited;
+  });
+}
+
+// The uploaded policy, or else the one stored for the project
+function requestPolicy(request: AuditRequest) {
+  if (request.policy) {
+    return { source: 'upload', policy: request.policy };
+  }
+  if (!request.project) {
+    return null;
+  }
+  try {
+    const stored = loadPolicy(teamDirectory(policyDirectory(), request.team), request.project);
+    return stored && { source: 'project', policy: stored };
+  } catch (error) {
+    throw new AuditError(500, `Invalid policy stored for ${request.project}`, error.message);
+  }
+}
+
+// Policy violations count as findings; what the policy accepts is listed apart
+// under "suppressed". The licence report covers the whole resolved tree.
+function auditResult(
+  auditOutput: any,
+  { packageJson, packageLock }: NpmWorkspace,
+  advisorySource: string,
+  unresolved: UnresolvedPackage[],
+  policy: { source: string; policy: AuditPolicy } | null,
+  cache?: AuditCacheInfo
+) {
+  let vulnerabilities: any[] = normalizeVulnerabilities(auditOutput, packageLock, packageJson);
+  let suppressed = [];
+  if (policy) {
+    vulnerabilities = [...vulnerabilities, ...policyViolations(policy.policy, packageJson, packageLock)];
+    ({ vulnerabilities, suppressed } = applyPolicy(vulnerabilities, policy.policy));
+  }
+
+  const result = {
+    vulnerabilities,
+    suppressed,
+    policySource: policy?.source || null,
+    licenses: packageLock ? createLicenseReport(packageJson, packageLock, policy?.policy.licenses) : null,
+    graph: packageLock ? buildAuditGraph(auditOutput, packageLock, packageJson) : null,
+    advisorySource,
+    unresolved,
+    metadata: { ...auditOutput.metadata, ...(cache ? { cache } : {}) },
+  };
+  return { result, tree: { packageJson, packageLock } };
+}
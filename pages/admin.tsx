@@ -0,0 +1,12 @@
+import type { NextPage } from 'next'
+import ApiKeysAdmin from '../components/ApiKeysAdmin'
+
+const Admin: NextPage = () => {
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <ApiKeysAdmin />
+    </div>
+  )
+}
+
+export default Admin
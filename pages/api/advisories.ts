@@ -0,0 +1,13 @@
+import { legacyRoute } from '../../lib/api';
+import { advisoriesRoute } from '../../lib/api-routes';
+
+// Advisory exports are large; the full GitHub npm dump is tens of megabytes.
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '200mb',
+    },
+  },
+};
+
+export default legacyRoute(advisoriesRoute);
@@ -0,0 +1,13 @@
+import { legacyRoute } from '../../lib/api';
+import { comparisonRoute } from '../../lib/api-routes';
+
+// Two lockfiles in one request
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '40mb',
+    },
+  },
+};
+
+export default legacyRoute(comparisonRoute);
@@ -0,0 +1,4 @@
+import { legacyRoute } from '../../../../lib/api';
+import { jobRoute } from '../../../../lib/api-routes';
+
+export default legacyRoute(jobRoute);
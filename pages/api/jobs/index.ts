@@ -0,0 +1,13 @@
+import { legacyRoute } from '../../../lib/api';
+import { jobsRoute } from '../../../lib/api-routes';
+
+// Same bodies as the synchronous audit
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '20mb',
+    },
+  },
+};
+
+export default legacyRoute(jobsRoute);
@@ -0,0 +1,13 @@
+import { apiRoute } from '../../../lib/api';
+import { auditRoute } from '../../../lib/api-routes';
+
+// Lockfiles of real projects are well past the default 1mb body limit.
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '20mb',
+    },
+  },
+};
+
+export default apiRoute(auditRoute);
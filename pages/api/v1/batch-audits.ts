@@ -0,0 +1,13 @@
+import { apiRoute } from '../../../lib/api';
+import { batchAuditRoute } from '../../../lib/api-routes';
+
+// A monorepo's lockfiles and every member's package.json in one request
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '50mb',
+    },
+  },
+};
+
+export default apiRoute(batchAuditRoute);
@@ -0,0 +1,12 @@
+import { apiRoute } from '../../../lib/api';
+import { fixPlanRoute } from '../../../lib/api-routes';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '20mb',
+    },
+  },
+};
+
+export default apiRoute(fixPlanRoute);
@@ -0,0 +1,4 @@
+import { apiRoute } from '../../../../lib/api';
+import { notificationTestRoute } from '../../../../lib/api-routes';
+
+export default apiRoute(notificationTestRoute);
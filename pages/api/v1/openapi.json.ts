@@ -0,0 +1,13 @@
+import { apiRoute } from '../../../lib/api';
+import { openApiDocument } from '../../../lib/openapi';
+
+// The OpenAPI document describing every /api/v1 route
+export default apiRoute({
+  methods: ['GET'],
+  failure: 'Failed to build the OpenAPI document',
+  public: true,
+  handle: async (req, res) => {
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.status(200).json(openApiDocument());
+  },
+});